@@ -3,6 +3,7 @@ import 'package:flutter_riverpod/flutter_riverpod.dart';
 import 'package:supabase_flutter/supabase_flutter.dart';
 
 import '../models/user.dart' as domain; // Domain user model
+import '../services/notification_service.dart';
 import '../services/supabase_service.dart';
 import 'sessions_provider.dart'; // demoSessionsProvider
 import 'user_provider.dart'; // Domain user provider
@@ -359,6 +360,11 @@ class AuthNotifier extends StateNotifier<AuthState> {
     state = state.copyWith(isLoading: true);
 
     try {
+      // Stop push delivery to this device while the session is still valid
+      await NotificationService.instance
+          .unregisterDevice()
+          .timeout(const Duration(seconds: 3), onTimeout: () {});
+
       // Try to sign out from Supabase with timeout
       await Future.any([
         _supabaseService.signOut(),
@@ -193,21 +193,15 @@ class ServiceIntegration {
   /// Test video call token generation
   // testVideoCallToken removed with video call feature
 
-  /// Send test email
+  /// Send test email (renders the welcome template)
   Future<bool> sendTestEmail({
     required String to,
-    required String subject,
-    required String message,
+    String userName = 'Test User',
   }) async {
     return await _email.sendEmail(
       to: to,
-      subject: subject,
-      htmlContent: '''
-        <h1>Test Email</h1>
-        <p>$message</p>
-        <p>This is a test email from InstantMentor services.</p>
-        <p>Timestamp: ${DateTime.now()}</p>
-      ''',
+      template: 'welcome',
+      variables: {'userName': userName},
     );
   }
 
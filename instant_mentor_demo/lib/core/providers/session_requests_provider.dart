@@ -1,3 +1,4 @@
+import 'package:cloud_functions/cloud_functions.dart';
 import 'package:flutter_riverpod/flutter_riverpod.dart';
 import 'package:supabase_flutter/supabase_flutter.dart';
 // import '../services/supabase_service.dart'; // Not directly used here
@@ -127,17 +128,24 @@ final StreamProvider<List<SessionRequest>> sessionRequestsProvider =
   }
 });
 
-/// Mutation notifier for accepting / declining a session request
+/// Mutation notifier for accepting / declining a session request.
+/// Status changes go through the `transitionSession` callable, which reserves
+/// the student's funds on accept and releases or refunds them on decline.
 class SessionRequestActions extends AsyncNotifier<void> {
   @override
   Future<void> build() async {}
 
+  Future<void> _transition(String sessionId, String action) async {
+    await FirebaseFunctions.instance
+        .httpsCallable('transitionSession')
+        .call({'sessionId': sessionId, 'action': action});
+  }
+
   Future<void> respond(
       {required String sessionId, required bool accept}) async {
     state = const AsyncLoading();
     try {
-      await _supabase.from('mentoring_sessions').update(
-          {'status': accept ? 'accepted' : 'declined'}).eq('id', sessionId);
+      await _transition(sessionId, accept ? 'accept' : 'decline');
       // Trigger refresh
       ref.invalidate(sessionRequestsProvider);
       state = const AsyncData(null);
@@ -150,9 +158,7 @@ class SessionRequestActions extends AsyncNotifier<void> {
   Future<String?> acceptAndGetSessionId(String sessionId) async {
     state = const AsyncLoading();
     try {
-      await _supabase
-          .from('mentoring_sessions')
-          .update({'status': 'accepted'}).eq('id', sessionId);
+      await _transition(sessionId, 'accept');
       // Trigger refresh
       ref.invalidate(sessionRequestsProvider);
       state = const AsyncData(null);
@@ -1,6 +1,7 @@
 import 'package:firebase_messaging/firebase_messaging.dart';
 import 'package:flutter/foundation.dart';
 import 'package:flutter_local_notifications/flutter_local_notifications.dart';
+import 'package:package_info_plus/package_info_plus.dart';
 import 'package:permission_handler/permission_handler.dart';
 
 import 'supabase_service.dart';
@@ -169,36 +170,66 @@ class NotificationService {
     // Implement your navigation logic here
   }
 
-  /// Save FCM token to user profile
+  /// Register the FCM token in the server-side device registry
+  /// (user_devices), which send-notification reads from.
   Future<void> _saveFcmToken(String token) async {
     try {
-      final userId = _supabase.currentUser?.id;
-      if (userId == null) return;
-
-      await _supabase.updateData(
-        table: 'user_profiles',
-        data: {'fcm_token': token},
-        column: 'id',
-        value: userId,
-      );
+      if (_supabase.currentUser?.id == null) return;
+
+      final packageInfo = await PackageInfo.fromPlatform();
+      await _supabase.client.rpc('register_device', params: {
+        'p_token': token,
+        'p_platform': _platformName(),
+        'p_app_version': '${packageInfo.version}+${packageInfo.buildNumber}',
+      });
     } catch (e) {
       debugPrint('Failed to save FCM token: $e');
     }
   }
 
+  /// Remove this device's token from the registry; call before signing out.
+  Future<void> unregisterDevice() async {
+    final token = _fcmToken;
+    if (token == null || !_supabase.isAuthenticated) return;
+    try {
+      await _supabase.client
+          .rpc('unregister_device', params: {'p_token': token});
+    } catch (e) {
+      debugPrint('Failed to unregister device: $e');
+    }
+  }
+
+  String _platformName() {
+    if (kIsWeb) return 'web';
+    switch (defaultTargetPlatform) {
+      case TargetPlatform.android:
+        return 'android';
+      case TargetPlatform.iOS:
+        return 'ios';
+      case TargetPlatform.macOS:
+        return 'macos';
+      case TargetPlatform.windows:
+        return 'windows';
+      case TargetPlatform.linux:
+        return 'linux';
+      default:
+        return 'unknown';
+    }
+  }
+
   /// Send notification to user
   Future<bool> sendNotification({
     required String userId,
     required String title,
     required String message,
     String type = 'info',
+    String? category,
     Map<String, dynamic>? data,
     String? actionUrl,
   }) async {
     try {
-      // Get user's FCM tokens
-      final userTokens = await _getUserFcmTokens(userId);
-
+      // Device tokens are looked up server-side from user_devices; the
+      // recipient's preferences decide which channels are used and when
       final response = await _supabase.client.functions.invoke(
         'send-notification',
         body: {
@@ -208,7 +239,7 @@ class NotificationService {
           'type': type,
           'data': data,
           'actionUrl': actionUrl,
-          'fcmTokens': userTokens,
+          if (category != null) 'category': category,
         },
       );
 
@@ -219,24 +250,38 @@ class NotificationService {
     }
   }
 
-  /// Get user's FCM tokens
-  Future<List<String>> _getUserFcmTokens(String userId) async {
-    try {
-      final response = await _supabase.fetchData(
-        table: 'user_profiles',
-        filters: {'id': userId},
-      );
-
-      if (response.isNotEmpty) {
-        final fcmToken = response.first['fcm_token'];
-        return fcmToken != null ? [fcmToken] : [];
-      }
+  /// Current user's notification preferences row, or null when the defaults
+  /// apply. Categories: sessions, payments, chat, marketing; channels: push,
+  /// email, in_app.
+  Future<Map<String, dynamic>?> fetchPreferences() async {
+    final userId = _supabase.currentUser?.id;
+    if (userId == null) return null;
+    return await _supabase.client
+        .from('notification_preferences')
+        .select()
+        .eq('user_id', userId)
+        .maybeSingle();
+  }
 
-      return [];
-    } catch (e) {
-      debugPrint('Failed to get FCM tokens: $e');
-      return [];
-    }
+  /// Save notification preferences. [channels] maps category to channel
+  /// switches, e.g. {'marketing': {'push': false}}; quiet hours are local
+  /// 'HH:MM' times in the profile's time zone (both null turns them off).
+  Future<void> updatePreferences({
+    required Map<String, Map<String, bool>> channels,
+    String? quietHoursStart,
+    String? quietHoursEnd,
+    int digestHour = 18,
+  }) async {
+    final userId = _supabase.currentUser?.id;
+    if (userId == null) throw Exception('User must be authenticated');
+    await _supabase.client.from('notification_preferences').upsert({
+      'user_id': userId,
+      'channels': channels,
+      'quiet_hours_start': quietHoursStart,
+      'quiet_hours_end': quietHoursEnd,
+      'digest_hour': digestHour,
+      'updated_at': DateTime.now().toUtc().toIso8601String(),
+    });
   }
 
   /// Send session reminder notifications
@@ -531,22 +531,27 @@ class SupabaseService {
 
   /// Email and Messaging Methods
 
-  /// Send email using Supabase Edge Functions
+  /// Send a templated email using Supabase Edge Functions.
+  /// The function renders [template] (see send-email/templates.ts) with
+  /// [variables]; [locale] and [timeZone] pick the language and how dates
+  /// are shown.
   Future<void> sendEmail({
     required String to,
-    required String subject,
-    required String htmlContent,
-    String? textContent,
+    required String template,
+    required Map<String, dynamic> variables,
+    String? locale,
+    String? timeZone,
     List<String>? cc,
     List<String>? bcc,
   }) async {
     await client.functions.invoke('send-email', body: {
       'to': to,
-      'subject': subject,
-      'html': htmlContent,
-      'text': textContent,
-      'cc': cc,
-      'bcc': bcc,
+      'template': template,
+      'variables': variables,
+      if (locale != null) 'locale': locale,
+      if (timeZone != null) 'timeZone': timeZone,
+      if (cc != null) 'cc': cc,
+      if (bcc != null) 'bcc': bcc,
     });
   }
 
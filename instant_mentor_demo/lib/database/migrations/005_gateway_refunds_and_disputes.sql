@@ -0,0 +1,301 @@
+-- Gateway refunds, disputes and webhook replay protection
+-- Backs the refund/dispute handling in the Firebase webhook functions.
+-- Idempotent: safe to run more than once.
+
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- ===========================================================================
+-- WEBHOOK EVENTS (processed-event register)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+    provider TEXT NOT NULL CHECK (provider IN ('stripe', 'razorpay')),
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+    last_error TEXT,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status, updated_at);
+
+-- ===========================================================================
+-- PAYMENT REFUNDS (one row per gateway refund applied to the ledger)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+    gateway TEXT NOT NULL CHECK (gateway IN ('stripe', 'razorpay')),
+    gateway_refund_id TEXT NOT NULL, -- re_... / rfnd_... or the dispute id for lost chargebacks
+    session_id UUID NOT NULL,
+    charge_id TEXT,
+    payment_intent_id TEXT,
+    amount INTEGER NOT NULL CHECK (amount > 0), -- in minor units
+    mentor_share INTEGER NOT NULL CHECK (mentor_share >= 0),
+    platform_share INTEGER NOT NULL CHECK (platform_share >= 0),
+    currency TEXT DEFAULT 'INR' NOT NULL,
+    source TEXT NOT NULL CHECK (source IN ('webhook', 'process-refund', 'dispute')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (gateway, gateway_refund_id),
+    CONSTRAINT valid_refund_split CHECK (amount = mentor_share + platform_share)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_session ON payment_refunds(session_id);
+
+-- ===========================================================================
+-- PAYMENT DISPUTES (gateway chargebacks)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS payment_disputes (
+    dispute_id TEXT PRIMARY KEY,
+    gateway TEXT NOT NULL DEFAULT 'stripe' CHECK (gateway IN ('stripe', 'razorpay')),
+    session_id UUID NOT NULL,
+    mentor_uid UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    charge_id TEXT,
+    payment_intent_id TEXT,
+    amount INTEGER NOT NULL CHECK (amount > 0), -- disputed amount, minor units
+    currency TEXT DEFAULT 'INR' NOT NULL,
+    mentor_share INTEGER NOT NULL DEFAULT 0 CHECK (mentor_share >= 0),
+    -- How much of the mentor share was moved mentorAvailable -> mentorLocked when opened
+    held_from_available INTEGER NOT NULL DEFAULT 0 CHECK (held_from_available >= 0),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'won', 'lost')),
+    reason TEXT,
+    opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    closed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_session ON payment_disputes(session_id);
+CREATE INDEX IF NOT EXISTS idx_payment_disputes_status ON payment_disputes(status);
+
+DROP TRIGGER IF EXISTS update_payment_disputes_updated_at ON payment_disputes;
+CREATE TRIGGER update_payment_disputes_updated_at
+    BEFORE UPDATE ON payment_disputes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Server-only tables: no client access
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_disputes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read payment disputes" ON payment_disputes;
+CREATE POLICY "Admins can read payment disputes" ON payment_disputes
+    FOR SELECT USING (is_admin(auth.uid()));
+
+DROP POLICY IF EXISTS "Admins can read payment refunds" ON payment_refunds;
+CREATE POLICY "Admins can read payment refunds" ON payment_refunds
+    FOR SELECT USING (is_admin(auth.uid()));
+
+-- ===========================================================================
+-- DISPUTE RPCs
+-- ===========================================================================
+
+-- Opens a dispute and freezes the mentor's share of the disputed amount.
+-- Earnings still locked stay locked (the release job skips disputed sessions);
+-- earnings already released are moved back from available to locked.
+-- Returns the amount moved out of mentorAvailable. Replays return the original hold.
+CREATE OR REPLACE FUNCTION process_dispute_hold(
+    p_dispute_id TEXT,
+    p_session_id UUID,
+    p_mentor_id UUID,
+    p_amount INTEGER,
+    p_mentor_share INTEGER,
+    p_currency TEXT DEFAULT 'INR',
+    p_charge_id TEXT DEFAULT NULL,
+    p_payment_intent_id TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_available INTEGER;
+    v_hold INTEGER;
+BEGIN
+    INSERT INTO payment_disputes (
+        dispute_id, session_id, mentor_uid, charge_id, payment_intent_id,
+        amount, currency, mentor_share, reason
+    ) VALUES (
+        p_dispute_id, p_session_id, p_mentor_id, p_charge_id, p_payment_intent_id,
+        p_amount, COALESCE(p_currency, 'INR'), GREATEST(p_mentor_share, 0), p_reason
+    )
+    ON CONFLICT (dispute_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+        SELECT held_from_available INTO v_hold FROM payment_disputes WHERE dispute_id = p_dispute_id;
+        RETURN COALESCE(v_hold, 0);
+    END IF;
+
+    SELECT earnings_available INTO v_available
+    FROM mentor_earnings WHERE mentor_uid = p_mentor_id FOR UPDATE;
+
+    v_hold := LEAST(COALESCE(v_available, 0), GREATEST(p_mentor_share, 0));
+
+    IF v_hold > 0 THEN
+        UPDATE mentor_earnings
+        SET earnings_available = earnings_available - v_hold,
+            earnings_locked = earnings_locked + v_hold
+        WHERE mentor_uid = p_mentor_id;
+
+        INSERT INTO ledger_transactions (
+            user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+            session_id, payment_intent_id, reference_id, description, idempotency_key
+        ) VALUES (
+            p_mentor_id, 'mentorLock', 'debit', v_hold, COALESCE(p_currency, 'INR'), 'mentorAvailable', 'mentorLocked',
+            p_session_id, p_payment_intent_id, p_dispute_id, 'Mentor earnings held (payment dispute opened)',
+            'dispute_hold:' || p_dispute_id
+        );
+
+        UPDATE payment_disputes SET held_from_available = v_hold WHERE dispute_id = p_dispute_id;
+    END IF;
+
+    RETURN v_hold;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Closes a dispute. When won, funds frozen from mentorAvailable are released back.
+-- When lost, the caller posts the refund through record_gateway_refund, which
+-- draws the mentor share from mentorLocked first (where the hold sits).
+-- Returns FALSE if the dispute is unknown or already closed.
+CREATE OR REPLACE FUNCTION process_dispute_close(
+    p_dispute_id TEXT,
+    p_outcome TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    d payment_disputes%ROWTYPE;
+BEGIN
+    IF p_outcome NOT IN ('won', 'lost') THEN
+        RAISE EXCEPTION 'invalid dispute outcome: %', p_outcome;
+    END IF;
+
+    SELECT * INTO d FROM payment_disputes WHERE dispute_id = p_dispute_id FOR UPDATE;
+    IF NOT FOUND OR d.status <> 'open' THEN
+        RETURN FALSE;
+    END IF;
+
+    IF p_outcome = 'won' AND d.held_from_available > 0 THEN
+        UPDATE mentor_earnings
+        SET earnings_locked = GREATEST(earnings_locked - d.held_from_available, 0),
+            earnings_available = earnings_available + d.held_from_available
+        WHERE mentor_uid = d.mentor_uid;
+
+        INSERT INTO ledger_transactions (
+            user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+            session_id, payment_intent_id, reference_id, description, idempotency_key
+        ) VALUES (
+            d.mentor_uid, 'mentorRelease', 'credit', d.held_from_available, d.currency, 'mentorLocked', 'mentorAvailable',
+            d.session_id, d.payment_intent_id, d.dispute_id, 'Mentor earnings released (payment dispute won)',
+            'dispute_release:' || d.dispute_id
+        );
+    END IF;
+
+    UPDATE payment_disputes
+    SET status = p_outcome, closed_at = NOW()
+    WHERE dispute_id = p_dispute_id;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================================================
+-- GATEWAY REFUND RPC
+-- ===========================================================================
+
+-- Posts a refund the gateway paid back to the student's card or account: a
+-- refund made through Stripe or Razorpay (dashboard, API, process-refund) or a
+-- lost dispute. Unlike process_session_refund the student's wallet is not
+-- credited. The platform fee and the mentor share are reversed into
+-- externalGateway, the mentor share from mentorLocked first. The legs are
+-- tagged paid_via 'gateway' and carry the gateway refund id; a replay for the
+-- same refund id posts nothing. The payment becomes 'refunded' once its
+-- payment_refunds rows cover the whole amount; a partly refunded payment stays
+-- captured so the release job pays out the rest.
+CREATE OR REPLACE FUNCTION record_gateway_refund(
+    p_refund_id TEXT,
+    p_session_id UUID,
+    p_mentor_id UUID,
+    p_mentor_share INTEGER,
+    p_platform_share INTEGER,
+    p_currency TEXT DEFAULT 'INR',
+    p_payment_intent_id TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_currency TEXT := COALESCE(p_currency, 'INR');
+    v_meta JSONB := jsonb_build_object('paid_via', 'gateway');
+    v_locked INTEGER;
+    v_from_locked INTEGER;
+    v_from_available INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('gateway_refund:' || p_refund_id));
+    IF EXISTS (
+        SELECT 1 FROM ledger_transactions
+        WHERE transaction_type = 'refund' AND reference_id = p_refund_id AND metadata->>'paid_via' = 'gateway'
+    ) THEN
+        RETURN;
+    END IF;
+
+    IF p_platform_share > 0 THEN
+        INSERT INTO ledger_transactions (
+            user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+            session_id, payment_intent_id, reference_id, description, metadata, idempotency_key
+        ) VALUES (
+            p_mentor_id, 'refund', 'debit', p_platform_share, v_currency, 'platformRevenue', 'externalGateway',
+            p_session_id, p_payment_intent_id, p_refund_id, 'Platform fee reversed (gateway refund)', v_meta,
+            'gateway_refund:' || p_refund_id || ':platform'
+        );
+    END IF;
+
+    IF p_mentor_share > 0 THEN
+        SELECT earnings_locked INTO v_locked FROM mentor_earnings WHERE mentor_uid = p_mentor_id FOR UPDATE;
+        v_from_locked := LEAST(COALESCE(v_locked, 0), p_mentor_share);
+        v_from_available := p_mentor_share - v_from_locked;
+
+        UPDATE mentor_earnings
+        SET earnings_locked = earnings_locked - v_from_locked,
+            earnings_available = GREATEST(earnings_available - v_from_available, 0)
+        WHERE mentor_uid = p_mentor_id;
+
+        IF v_from_locked > 0 THEN
+            INSERT INTO ledger_transactions (
+                user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+                session_id, payment_intent_id, reference_id, description, metadata, idempotency_key
+            ) VALUES (
+                p_mentor_id, 'refund', 'debit', v_from_locked, v_currency, 'mentorLocked', 'externalGateway',
+                p_session_id, p_payment_intent_id, p_refund_id, 'Mentor share reversed from locked (gateway refund)', v_meta,
+                'gateway_refund:' || p_refund_id || ':mentor_locked'
+            );
+        END IF;
+
+        IF v_from_available > 0 THEN
+            INSERT INTO ledger_transactions (
+                user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+                session_id, payment_intent_id, reference_id, description, metadata, idempotency_key
+            ) VALUES (
+                p_mentor_id, 'refund', 'debit', v_from_available, v_currency, 'mentorAvailable', 'externalGateway',
+                p_session_id, p_payment_intent_id, p_refund_id, 'Mentor share reversed from available (gateway refund)', v_meta,
+                'gateway_refund:' || p_refund_id || ':mentor_available'
+            );
+        END IF;
+    END IF;
+
+    UPDATE session_payments
+    SET status = 'refunded', updated_at = NOW()
+    WHERE session_payments.session_id = p_session_id
+      AND session_payments.amount_total <= (
+          SELECT COALESCE(SUM(pr.amount), 0) FROM payment_refunds pr WHERE pr.session_id = p_session_id
+      );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Posted from the signature-verified gateway webhooks and process-refund
+-- (service role) only
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION process_dispute_hold(TEXT, UUID, UUID, INTEGER, INTEGER, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION process_dispute_close(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION record_gateway_refund(TEXT, UUID, UUID, INTEGER, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
@@ -0,0 +1,45 @@
+-- Idempotent wallet top-ups
+-- Razorpay delivers both payment.captured and order.paid for one order, and
+-- Stripe may redeliver payment_intent.succeeded; each must credit the wallet once.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- process_wallet_topup (replaces the 001 wrapper)
+-- ===========================================================================
+
+-- Credits the wallet once per gateway payment id. Calls without a gateway id
+-- are not deduplicated (manual/admin top-ups).
+CREATE OR REPLACE FUNCTION process_wallet_topup(
+    user_id UUID,
+    amount_minor INTEGER,
+    transaction_data JSONB DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+    v_gateway_id TEXT := COALESCE(transaction_data->>'gatewayId', transaction_data->>'payment_intent_id');
+BEGIN
+    IF v_gateway_id IS NOT NULL THEN
+        -- Serialise concurrent deliveries for the same payment
+        PERFORM pg_advisory_xact_lock(hashtext('topup:' || v_gateway_id));
+
+        IF EXISTS (
+            SELECT 1 FROM ledger_transactions
+            WHERE transaction_type = 'topup' AND payment_intent_id = v_gateway_id
+        ) THEN
+            RETURN;
+        END IF;
+    END IF;
+
+    PERFORM wallet_topup(user_id, amount_minor, v_gateway_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_topup_gateway
+    ON ledger_transactions(payment_intent_id) WHERE transaction_type = 'topup';
+
+-- Credits without a payment: the gateway webhooks (service role) only
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION process_wallet_topup(UUID, INTEGER, JSONB) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
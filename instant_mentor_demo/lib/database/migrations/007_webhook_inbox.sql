@@ -0,0 +1,173 @@
+-- Durable webhook inbox
+-- Every verified gateway event is stored in webhook_events (with its payload)
+-- before it is acknowledged. A worker processes due events with exponential
+-- backoff; events that keep failing are copied to webhook_dead_letters for
+-- an admin to inspect and replay.
+-- Requires 005_gateway_refunds_and_disputes.sql. Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- WEBHOOK EVENTS → INBOX
+-- ===========================================================================
+
+ALTER TABLE webhook_events
+    ADD COLUMN IF NOT EXISTS payload JSONB,
+    ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    ADD COLUMN IF NOT EXISTS locked_at TIMESTAMP WITH TIME ZONE;
+
+-- pending: stored, waiting for the worker; failed: waiting for a retry; dead: moved to webhook_dead_letters
+ALTER TABLE webhook_events DROP CONSTRAINT IF EXISTS webhook_events_status_check;
+ALTER TABLE webhook_events ADD CONSTRAINT webhook_events_status_check
+    CHECK (status IN ('pending', 'processing', 'processed', 'failed', 'dead'));
+ALTER TABLE webhook_events ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_due
+    ON webhook_events(next_attempt_at) WHERE status IN ('pending', 'failed', 'processing');
+
+-- ===========================================================================
+-- DEAD LETTERS
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+    provider TEXT NOT NULL CHECK (provider IN ('stripe', 'razorpay')),
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL,
+    last_error TEXT,
+    received_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    dead_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    replayed_at TIMESTAMP WITH TIME ZONE,
+    replayed_by UUID,
+    PRIMARY KEY (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_open
+    ON webhook_dead_letters(dead_at DESC) WHERE replayed_at IS NULL;
+
+ALTER TABLE webhook_dead_letters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read webhook dead letters" ON webhook_dead_letters;
+CREATE POLICY "Admins can read webhook dead letters" ON webhook_dead_letters
+    FOR SELECT USING (is_admin(auth.uid()));
+
+-- ===========================================================================
+-- INBOX RPCs
+-- ===========================================================================
+
+-- Claims up to p_limit due events (optionally one specific event) for processing.
+-- Events left in 'processing' longer than p_stale_after belong to a crashed run
+-- and are claimed again. Each claim counts as an attempt.
+CREATE OR REPLACE FUNCTION claim_webhook_events(
+    p_limit INTEGER DEFAULT 25,
+    p_provider TEXT DEFAULT NULL,
+    p_event_id TEXT DEFAULT NULL,
+    p_stale_after INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF webhook_events AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE webhook_events e
+    SET status = 'processing',
+        attempts = e.attempts + 1,
+        locked_at = NOW(),
+        updated_at = NOW()
+    WHERE (e.provider, e.event_id) IN (
+        SELECT w.provider, w.event_id
+        FROM webhook_events w
+        WHERE w.payload IS NOT NULL
+          AND (p_provider IS NULL OR w.provider = p_provider)
+          AND (p_event_id IS NULL OR w.event_id = p_event_id)
+          AND (
+              (w.status IN ('pending', 'failed') AND w.next_attempt_at <= NOW())
+              OR (w.status = 'processing' AND w.locked_at < NOW() - p_stale_after)
+          )
+        ORDER BY w.next_attempt_at
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING e.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Records a failed attempt. With p_retry_at the event is retried then;
+-- without it the event is dead-lettered. Returns the new status.
+CREATE OR REPLACE FUNCTION fail_webhook_event(
+    p_provider TEXT,
+    p_event_id TEXT,
+    p_error TEXT,
+    p_retry_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    e webhook_events%ROWTYPE;
+BEGIN
+    UPDATE webhook_events
+    SET status = CASE WHEN p_retry_at IS NULL THEN 'dead' ELSE 'failed' END,
+        last_error = p_error,
+        next_attempt_at = COALESCE(p_retry_at, next_attempt_at),
+        locked_at = NULL,
+        updated_at = NOW()
+    WHERE provider = p_provider AND event_id = p_event_id
+    RETURNING * INTO e;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'webhook event %/% not found', p_provider, p_event_id;
+    END IF;
+
+    IF e.status = 'dead' THEN
+        INSERT INTO webhook_dead_letters (
+            provider, event_id, event_type, payload, attempts, last_error, received_at
+        ) VALUES (
+            e.provider, e.event_id, e.event_type, e.payload, e.attempts, e.last_error, e.created_at
+        )
+        ON CONFLICT (provider, event_id) DO UPDATE
+        SET attempts = EXCLUDED.attempts,
+            last_error = EXCLUDED.last_error,
+            dead_at = NOW(),
+            replayed_at = NULL,
+            replayed_by = NULL;
+    END IF;
+
+    RETURN e.status;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Puts a dead-lettered event back in the inbox with a fresh attempt budget.
+-- Returns FALSE if the event is not currently dead.
+CREATE OR REPLACE FUNCTION replay_dead_webhook_event(
+    p_provider TEXT,
+    p_event_id TEXT,
+    p_admin_id UUID
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE webhook_events
+    SET status = 'pending',
+        attempts = 0,
+        next_attempt_at = NOW(),
+        locked_at = NULL,
+        updated_at = NOW()
+    WHERE provider = p_provider AND event_id = p_event_id AND status = 'dead';
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE webhook_dead_letters
+    SET replayed_at = NOW(), replayed_by = p_admin_id
+    WHERE provider = p_provider AND event_id = p_event_id;
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The inbox is worked by the functions' service role only; admins replay
+-- through the replayDeadWebhookEvent callable, which checks the admin itself
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION claim_webhook_events(INTEGER, TEXT, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION fail_webhook_event(TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION replay_dead_webhook_event(TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
@@ -0,0 +1,187 @@
+-- Mentor payout execution (Stripe Connect transfers / RazorpayX payouts)
+-- The requested amount is soft-locked in mentor_earnings.payout_pending when
+-- the request is created, then settled or reversed from gateway webhooks.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- SCHEMA
+-- ===========================================================================
+
+-- Region decides the payout rail: 'IN' -> RazorpayX, anything else -> Stripe Connect
+ALTER TABLE user_payment_profiles
+    ADD COLUMN IF NOT EXISTS region TEXT;
+
+ALTER TABLE mentor_earnings
+    ADD COLUMN IF NOT EXISTS payout_pending INTEGER DEFAULT 0 NOT NULL;
+
+ALTER TABLE mentor_earnings DROP CONSTRAINT IF EXISTS positive_payout_pending;
+ALTER TABLE mentor_earnings ADD CONSTRAINT positive_payout_pending CHECK (payout_pending >= 0);
+
+ALTER TABLE payout_requests
+    ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payout_requests_idempotency
+    ON payout_requests(mentor_uid, idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- Ledger account for funds on their way to the mentor's bank
+ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_from_account_check;
+ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_from_account_check CHECK (from_account IN (
+    'studentAvailable', 'studentLocked', 'mentorAvailable', 'mentorLocked', 'mentorPayoutPending', 'platformRevenue', 'externalGateway'
+));
+ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_to_account_check;
+ALTER TABLE ledger_transactions ADD CONSTRAINT ledger_transactions_to_account_check CHECK (to_account IN (
+    'studentAvailable', 'studentLocked', 'mentorAvailable', 'mentorLocked', 'mentorPayoutPending', 'platformRevenue', 'externalGateway'
+));
+
+-- Payout requests must go through create_payout_request so the amount is locked
+DROP POLICY IF EXISTS "Mentors can insert own payout requests" ON payout_requests;
+
+-- ===========================================================================
+-- PAYOUT RPCs
+-- ===========================================================================
+
+-- Creates a payout request and moves the amount mentorAvailable -> mentorPayoutPending.
+-- Returns NULL when the available balance is insufficient. A repeated
+-- idempotency key returns the existing request.
+CREATE OR REPLACE FUNCTION create_payout_request(
+    p_mentor_id UUID,
+    p_amount INTEGER,
+    p_gateway TEXT,
+    p_idempotency_key TEXT DEFAULT NULL,
+    p_bank_snapshot JSONB DEFAULT '{}'
+)
+RETURNS payout_requests AS $$
+DECLARE
+    v_available INTEGER;
+    v_currency TEXT;
+    r payout_requests%ROWTYPE;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'payout amount must be positive';
+    END IF;
+
+    IF p_idempotency_key IS NOT NULL THEN
+        SELECT * INTO r FROM payout_requests
+        WHERE mentor_uid = p_mentor_id AND idempotency_key = p_idempotency_key;
+        IF FOUND THEN
+            RETURN r;
+        END IF;
+    END IF;
+
+    SELECT earnings_available, currency INTO v_available, v_currency
+    FROM mentor_earnings WHERE mentor_uid = p_mentor_id FOR UPDATE;
+
+    IF COALESCE(v_available, 0) < p_amount THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO payout_requests (
+        mentor_uid, amount, currency, status, gateway, idempotency_key,
+        bank_account_number, bank_ifsc_code, bank_account_holder_name
+    ) VALUES (
+        p_mentor_id, p_amount, v_currency, 'created', p_gateway, p_idempotency_key,
+        p_bank_snapshot->>'bank_account_number', p_bank_snapshot->>'bank_ifsc_code', p_bank_snapshot->>'bank_account_holder_name'
+    )
+    RETURNING * INTO r;
+
+    UPDATE mentor_earnings
+    SET earnings_available = earnings_available - p_amount,
+        payout_pending = payout_pending + p_amount
+    WHERE mentor_uid = p_mentor_id;
+
+    INSERT INTO ledger_transactions (
+        user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+        reference_id, description, idempotency_key
+    ) VALUES (
+        p_mentor_id, 'payout', 'debit', p_amount, v_currency, 'mentorAvailable', 'mentorPayoutPending',
+        r.id::TEXT, 'Payout requested', 'payout_lock:' || r.id
+    );
+
+    RETURN r;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Settles a payout from the gateway outcome. Returns the resulting status.
+--   paid:   mentorPayoutPending -> externalGateway
+--   failed: mentorPayoutPending -> mentorAvailable (or, when the gateway reverses
+--           a payout already marked paid, externalGateway -> mentorAvailable)
+-- Replays of the same outcome are no-ops.
+CREATE OR REPLACE FUNCTION settle_payout_request(
+    p_request_id UUID,
+    p_outcome TEXT,
+    p_gateway_ref TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    r payout_requests%ROWTYPE;
+BEGIN
+    IF p_outcome NOT IN ('paid', 'failed') THEN
+        RAISE EXCEPTION 'invalid payout outcome: %', p_outcome;
+    END IF;
+
+    SELECT * INTO r FROM payout_requests WHERE id = p_request_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'payout request % not found', p_request_id;
+    END IF;
+
+    IF r.status = 'failed' OR r.status = p_outcome THEN
+        RETURN r.status;
+    END IF;
+
+    IF p_outcome = 'paid' THEN
+        UPDATE mentor_earnings
+        SET payout_pending = GREATEST(payout_pending - r.amount, 0)
+        WHERE mentor_uid = r.mentor_uid;
+
+        INSERT INTO ledger_transactions (
+            user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+            reference_id, description, idempotency_key
+        ) VALUES (
+            r.mentor_uid, 'payout', 'debit', r.amount, r.currency, 'mentorPayoutPending', 'externalGateway',
+            r.id::TEXT, 'Payout paid', 'payout_paid:' || r.id
+        );
+
+        UPDATE payout_requests
+        SET status = 'paid', completed_at = NOW(),
+            payout_id = COALESCE(p_gateway_ref, payout_id)
+        WHERE id = p_request_id;
+        RETURN 'paid';
+    END IF;
+
+    IF r.status = 'paid' THEN
+        UPDATE mentor_earnings
+        SET earnings_available = earnings_available + r.amount
+        WHERE mentor_uid = r.mentor_uid;
+    ELSE
+        UPDATE mentor_earnings
+        SET payout_pending = GREATEST(payout_pending - r.amount, 0),
+            earnings_available = earnings_available + r.amount
+        WHERE mentor_uid = r.mentor_uid;
+    END IF;
+
+    INSERT INTO ledger_transactions (
+        user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+        reference_id, description, idempotency_key
+    ) VALUES (
+        r.mentor_uid, 'payout', 'credit', r.amount, r.currency,
+        CASE WHEN r.status = 'paid' THEN 'externalGateway' ELSE 'mentorPayoutPending' END, 'mentorAvailable',
+        r.id::TEXT, 'Payout reversed', 'payout_reversed:' || r.id
+    );
+
+    UPDATE payout_requests
+    SET status = 'failed', failure_reason = COALESCE(p_reason, failure_reason),
+        payout_id = COALESCE(p_gateway_ref, payout_id)
+    WHERE id = p_request_id;
+    RETURN 'failed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- requestPayout creates requests and the signature-verified payout webhooks
+-- settle them (service role); a client must not move payout money
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION create_payout_request(UUID, INTEGER, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION settle_payout_request(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
@@ -0,0 +1,161 @@
+-- Scheduled release of mentor earnings (T+24h hold)
+-- Backs releaseMentorEarningsScheduled: a keyset listing of captured sessions
+-- past the hold, an idempotent release RPC, and a job-run table that doubles
+-- as the crash-resume checkpoint and the per-run summary shown to admins.
+-- Requires 005_gateway_refunds_and_disputes.sql and the disputes/admin_refunds tables
+-- from supabase_sql/create_admin_tables.sql. Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- SCHEDULED JOB RUNS (checkpoint + summary)
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_name TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    -- Window and keyset cursor of the run; a crashed run resumes from here
+    cutoff TIMESTAMP WITH TIME ZONE,
+    cursor JSONB,
+    summary JSONB DEFAULT '{}'::jsonb NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- At most one unfinished run per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_job_runs_running
+    ON scheduled_job_runs(job_name) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON scheduled_job_runs(job_name, started_at DESC);
+
+ALTER TABLE scheduled_job_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read job runs" ON scheduled_job_runs;
+CREATE POLICY "Admins can read job runs" ON scheduled_job_runs
+    FOR SELECT USING (is_admin(auth.uid()));
+
+CREATE OR REPLACE FUNCTION admin_list_job_runs(p_job_name TEXT DEFAULT NULL, p_limit INT DEFAULT 50)
+RETURNS SETOF scheduled_job_runs AS $$
+BEGIN
+    IF NOT is_admin(auth.uid()) THEN
+        RAISE EXCEPTION 'forbidden';
+    END IF;
+    RETURN QUERY
+    SELECT * FROM scheduled_job_runs
+    WHERE p_job_name IS NULL OR job_name = p_job_name
+    ORDER BY started_at DESC
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================================================
+-- EARNINGS DUE FOR RELEASE
+-- ===========================================================================
+
+-- Captured, unreleased sessions captured at or before p_cutoff, in
+-- (captured_at, session_id) order after the given cursor. amount_mentor is
+-- what is left to release: the mentor share less the mentor share of the
+-- session's gateway refunds so far, which record_gateway_refund has already
+-- taken out of mentorLocked. hold_reason is set for sessions that must not be
+-- released yet (open dispute or pending refund).
+CREATE OR REPLACE FUNCTION list_mentor_earnings_due(
+    p_cutoff TIMESTAMP WITH TIME ZONE,
+    p_after_captured_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_after_session_id UUID DEFAULT NULL,
+    p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+    session_id UUID,
+    mentor_uid UUID,
+    amount_mentor INTEGER,
+    currency TEXT,
+    captured_at TIMESTAMP WITH TIME ZONE,
+    hold_reason TEXT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT sp.session_id, sp.mentor_uid,
+        GREATEST(sp.amount_mentor - COALESCE((
+            SELECT SUM(pr.mentor_share) FROM payment_refunds pr WHERE pr.session_id = sp.session_id
+        ), 0), 0)::INTEGER,
+        sp.currency, sp.captured_at,
+        CASE
+            WHEN EXISTS (SELECT 1 FROM payment_disputes pd WHERE pd.session_id = sp.session_id AND pd.status = 'open')
+              OR EXISTS (SELECT 1 FROM disputes d WHERE d.session_id = sp.session_id AND d.status IN ('open', 'in_review'))
+                THEN 'dispute'
+            WHEN EXISTS (SELECT 1 FROM admin_refunds ar WHERE ar.session_id = sp.session_id::TEXT AND ar.status = 'pending')
+                THEN 'refund'
+        END
+    FROM session_payments sp
+    WHERE sp.status = 'captured'
+      AND sp.released_at IS NULL
+      AND sp.captured_at IS NOT NULL
+      AND sp.captured_at <= p_cutoff
+      AND (
+          p_after_captured_at IS NULL
+          OR (sp.captured_at, sp.session_id) > (p_after_captured_at, p_after_session_id)
+      )
+    ORDER BY sp.captured_at, sp.session_id
+    LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_session_payments_release_due
+    ON session_payments(captured_at, session_id) WHERE status = 'captured' AND released_at IS NULL;
+
+-- ===========================================================================
+-- process_mentor_earnings_release (replaces the 001 wrapper)
+-- ===========================================================================
+
+-- Releases a captured session's mentor share exactly once. Returns FALSE when
+-- the session is not (or no longer) captured, so retries and resumed runs are safe.
+-- The amount is capped at what refunds have left of the mentor share, in case
+-- one landed after the listing; nothing left marks it released without a
+-- ledger entry.
+DROP FUNCTION IF EXISTS process_mentor_earnings_release(UUID, INTEGER, UUID, JSONB);
+CREATE OR REPLACE FUNCTION process_mentor_earnings_release(
+    mentor_id UUID,
+    amount_minor INTEGER,
+    session_id UUID,
+    transaction_data JSONB DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    sp session_payments%ROWTYPE;
+    v_amount INTEGER := amount_minor;
+BEGIN
+    SELECT * INTO sp FROM session_payments
+    WHERE session_payments.session_id = process_mentor_earnings_release.session_id
+    FOR UPDATE;
+
+    IF FOUND AND (sp.status <> 'captured' OR sp.released_at IS NOT NULL) THEN
+        RETURN FALSE;
+    END IF;
+
+    IF FOUND THEN
+        v_amount := LEAST(v_amount, sp.amount_mentor - COALESCE((
+            SELECT SUM(pr.mentor_share) FROM payment_refunds pr
+            WHERE pr.session_id = process_mentor_earnings_release.session_id
+        ), 0));
+    END IF;
+
+    IF v_amount <= 0 THEN
+        UPDATE session_payments
+        SET status = 'released', released_at = NOW(), updated_at = NOW()
+        WHERE session_payments.session_id = process_mentor_earnings_release.session_id;
+        RETURN TRUE;
+    END IF;
+
+    PERFORM release_mentor_earnings(process_mentor_earnings_release.session_id, mentor_id, v_amount);
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The release job runs with the service role; admins read runs through the
+-- "Admins can read job runs" policy on scheduled_job_runs
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION admin_list_job_runs(TEXT, INT) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION list_mentor_earnings_due(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION process_mentor_earnings_release(UUID, INTEGER, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
@@ -0,0 +1,134 @@
+-- Server-priced session reservation and settlement (wallet mode)
+-- reserveFundsOnBooking and settleOnSessionComplete compute amounts on the
+-- server; these RPCs record them on session_payments and move the funds.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- MENTOR RATE CURRENCY
+-- ===========================================================================
+
+-- hourly_rate is in major units of this currency. The server prices a session
+-- only when it matches the student's wallet currency. Existing rates were set
+-- in the currency of the mentor's wallet, else the platform default INR.
+ALTER TABLE mentor_profiles ADD COLUMN IF NOT EXISTS hourly_rate_currency TEXT
+    CHECK (hourly_rate_currency ~ '^[A-Z]{3}$');
+
+UPDATE mentor_profiles mp
+SET hourly_rate_currency = COALESCE(
+    (SELECT UPPER(w.currency) FROM enhanced_wallets w WHERE w.user_uid = mp.user_id), 'INR')
+WHERE mp.hourly_rate_currency IS NULL;
+
+ALTER TABLE mentor_profiles ALTER COLUMN hourly_rate_currency SET DEFAULT 'INR';
+ALTER TABLE mentor_profiles ALTER COLUMN hourly_rate_currency SET NOT NULL;
+
+-- ===========================================================================
+-- RESERVE
+-- ===========================================================================
+
+-- Creates the session_payments row with the quoted split and reserves the
+-- total from the student's wallet. Returns FALSE on insufficient balance.
+-- Replays for an already reserved/captured session return TRUE without moving funds.
+CREATE OR REPLACE FUNCTION reserve_session_funds(
+    p_session_id UUID,
+    p_student_id UUID,
+    p_mentor_id UUID,
+    p_amount_total INTEGER,
+    p_amount_mentor INTEGER,
+    p_amount_platform INTEGER,
+    p_currency TEXT DEFAULT 'INR'
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    sp session_payments%ROWTYPE;
+BEGIN
+    SELECT * INTO sp FROM session_payments WHERE session_id = p_session_id FOR UPDATE;
+    IF FOUND AND sp.status IN ('reserved', 'captured') THEN
+        RETURN TRUE;
+    END IF;
+
+    INSERT INTO session_payments (
+        session_id, student_uid, mentor_uid, amount_total, amount_mentor, amount_platform,
+        currency, payment_mode, status
+    ) VALUES (
+        p_session_id, p_student_id, p_mentor_id, p_amount_total, p_amount_mentor, p_amount_platform,
+        COALESCE(p_currency, 'INR'), 'wallet', 'created'
+    )
+    ON CONFLICT (session_id) DO UPDATE SET
+        amount_total = EXCLUDED.amount_total,
+        amount_mentor = EXCLUDED.amount_mentor,
+        amount_platform = EXCLUDED.amount_platform,
+        currency = EXCLUDED.currency,
+        payment_mode = 'wallet',
+        status = 'created',
+        reserved_at = NULL,
+        released_at = NULL,
+        updated_at = NOW();
+
+    RETURN wallet_reserve_funds(p_student_id, p_amount_total, p_session_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================================================
+-- SETTLE
+-- ===========================================================================
+
+-- Captures the final (server-priced) amount of a reserved session and returns
+-- any unused part of the reservation to the student's available balance.
+-- Returns the session_payments status after the call; only 'reserved'
+-- sessions are settled, so replays are no-ops.
+CREATE OR REPLACE FUNCTION settle_session_funds(
+    p_session_id UUID,
+    p_total_amount INTEGER,
+    p_mentor_amount INTEGER,
+    p_platform_fee INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+    sp session_payments%ROWTYPE;
+    v_unused INTEGER;
+BEGIN
+    IF p_total_amount <> p_mentor_amount + p_platform_fee THEN
+        RAISE EXCEPTION 'settlement split does not add up';
+    END IF;
+
+    SELECT * INTO sp FROM session_payments WHERE session_id = p_session_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'no payment for session %', p_session_id;
+    END IF;
+    IF sp.status <> 'reserved' THEN
+        RETURN sp.status;
+    END IF;
+    IF p_total_amount > sp.amount_total THEN
+        RAISE EXCEPTION 'settlement % exceeds reservation %', p_total_amount, sp.amount_total;
+    END IF;
+
+    v_unused := sp.amount_total - p_total_amount;
+    IF v_unused > 0 THEN
+        UPDATE enhanced_wallets
+        SET balance_locked = GREATEST(balance_locked - v_unused, 0),
+            balance_available = balance_available + v_unused
+        WHERE user_uid = sp.student_uid;
+
+        INSERT INTO ledger_transactions (
+            user_uid, transaction_type, direction, amount, currency, from_account, to_account,
+            session_id, description, idempotency_key
+        ) VALUES (
+            sp.student_uid, 'release', 'credit', v_unused, sp.currency, 'studentLocked', 'studentAvailable',
+            p_session_id, 'Unused reservation returned (session shorter than booked)',
+            'settle_unused:' || p_session_id
+        );
+    END IF;
+
+    PERFORM capture_session_payment(p_session_id, sp.student_uid, sp.mentor_uid, p_total_amount, p_mentor_amount, p_platform_fee);
+    RETURN 'captured';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Take amounts from the caller: the server prices sessions (service role and
+-- apply_session_transition) and clients must not pick their own
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION reserve_session_funds(UUID, UUID, UUID, INTEGER, INTEGER, INTEGER, TEXT) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION settle_session_funds(UUID, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
@@ -0,0 +1,266 @@
+-- Ledger reconciliation checks
+-- reconciliation_findings() returns one row per violated invariant; the
+-- reconciliationCheckScheduled function turns them into admin alerts.
+-- Every ledger row is a double entry: it debits to_account and credits from_account.
+-- Requires 007_webhook_inbox.sql and 008_payout_execution.sql. Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- FINDINGS
+-- ===========================================================================
+
+-- check_name values:
+--   entry_invalid            ledger row posting to and from the same account
+--   transaction_unbalanced   a session's capture or refund legs do not net to zero
+--   wallet_balance_mismatch  enhanced_wallets balance <> sum of its ledger postings
+--   earnings_balance_mismatch mentor_earnings balance <> sum of its ledger postings
+--   negative_balance         wallet or earnings balance below zero
+--   platform_revenue_mismatch platformRevenue <> fees - platform refunds (total, and per session vs session_payments)
+--   gateway_topup_mismatch   gateway-confirmed top-up amount <> process_wallet_topup credits (per gateway id and per provider)
+-- expected/actual are minor units; details names the accounts involved. Each
+-- branch below is limited to p_limit rows on its own; a check with more than
+-- one branch tags its rows with details.branch so callers can tell which one
+-- hit the limit.
+CREATE OR REPLACE FUNCTION reconciliation_findings(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+    check_name TEXT,
+    subject TEXT,
+    expected BIGINT,
+    actual BIGINT,
+    details JSONB
+) AS $$
+WITH postings AS (
+    SELECT lt.user_uid, lt.to_account AS account, lt.amount::BIGINT AS delta FROM ledger_transactions lt
+    UNION ALL
+    SELECT lt.user_uid, lt.from_account, -lt.amount::BIGINT FROM ledger_transactions lt
+),
+account_balances AS (
+    SELECT p.user_uid, p.account, SUM(p.delta) AS balance
+    FROM postings p
+    GROUP BY p.user_uid, p.account
+),
+session_legs AS (
+    SELECT lt.session_id,
+        COALESCE(SUM(lt.amount) FILTER (WHERE lt.transaction_type = 'capture' AND lt.to_account = 'externalGateway'), 0) AS captured_in,
+        COALESCE(SUM(lt.amount) FILTER (WHERE lt.transaction_type IN ('fee', 'mentorLock') AND lt.from_account = 'externalGateway'), 0) AS split_out,
+        COALESCE(SUM(lt.amount) FILTER (WHERE lt.transaction_type = 'fee' AND lt.to_account = 'platformRevenue'), 0) AS fees,
+        -- Refunds the gateway paid out (record_gateway_refund) have no wallet leg to balance
+        COALESCE(SUM(lt.amount) FILTER (WHERE lt.transaction_type = 'refund' AND lt.to_account = 'externalGateway'
+            AND lt.metadata->>'paid_via' IS DISTINCT FROM 'gateway'), 0) AS refund_in,
+        COALESCE(SUM(lt.amount) FILTER (WHERE lt.transaction_type = 'refund' AND lt.from_account = 'externalGateway'), 0) AS refund_out
+    FROM ledger_transactions lt
+    WHERE lt.session_id IS NOT NULL
+    GROUP BY lt.session_id
+),
+gateway_topups AS (
+    -- One row per gateway payment id (Razorpay sends payment.captured and order.paid for the same order)
+    SELECT DISTINCT ON (g.provider, g.gateway_id) g.provider, g.gateway_id, g.amount
+    FROM (
+        SELECT 'stripe' AS provider,
+            we.payload->'data'->'object'->>'id' AS gateway_id,
+            (we.payload->'data'->'object'->>'amount_received')::BIGINT AS amount
+        FROM webhook_events we
+        WHERE we.provider = 'stripe' AND we.status = 'processed'
+          AND we.event_type = 'payment_intent.succeeded'
+          AND we.payload->'data'->'object'->'metadata'->>'uid' IS NOT NULL
+        UNION ALL
+        SELECT 'razorpay',
+            COALESCE(we.payload->'payload'->'payment'->'entity'->>'order_id', we.payload->'payload'->'payment'->'entity'->>'id'),
+            (we.payload->'payload'->'payment'->'entity'->>'amount')::BIGINT
+        FROM webhook_events we
+        WHERE we.provider = 'razorpay' AND we.status = 'processed'
+          AND we.event_type IN ('payment.captured', 'order.paid')
+          AND COALESCE(we.payload->'payload'->'payment'->'entity'->'notes'->>'uid', we.payload->'payload'->'order'->'entity'->'notes'->>'uid') IS NOT NULL
+          AND COALESCE(we.payload->'payload'->'payment'->'entity'->'notes'->>'sessionId', we.payload->'payload'->'order'->'entity'->'notes'->>'sessionId') IS NULL
+    ) g
+    WHERE g.gateway_id IS NOT NULL
+    ORDER BY g.provider, g.gateway_id
+),
+topup_credits AS (
+    SELECT lt.payment_intent_id AS gateway_id, SUM(lt.amount)::BIGINT AS amount, COUNT(*) AS entries,
+        MIN(lt.user_uid::TEXT) AS user_uid
+    FROM ledger_transactions lt
+    WHERE lt.transaction_type = 'topup' AND lt.payment_intent_id IS NOT NULL
+    GROUP BY lt.payment_intent_id
+),
+topup_pairs AS (
+    SELECT COALESCE(g.gateway_id, c.gateway_id) AS gateway_id, g.provider,
+        g.amount AS gateway_amount, c.amount AS credited_amount, c.entries, c.user_uid
+    FROM gateway_topups g
+    FULL JOIN topup_credits c ON c.gateway_id = g.gateway_id
+)
+(
+    SELECT 'entry_invalid', lt.id::TEXT, 0::BIGINT, lt.amount::BIGINT,
+        jsonb_build_object('account', lt.from_account, 'type', lt.transaction_type, 'session_id', lt.session_id, 'user_uid', lt.user_uid)
+    FROM ledger_transactions lt
+    WHERE lt.from_account = lt.to_account
+    LIMIT p_limit
+)
+UNION ALL
+(
+    -- Wallet mode: studentLocked -> externalGateway must equal the fee + mentor legs out of externalGateway.
+    -- Direct mode has no capture leg; the split must equal the captured total instead.
+    SELECT 'transaction_unbalanced', 'session:' || sl.session_id,
+        CASE WHEN sp.payment_mode = 'direct' THEN sp.amount_total ELSE sl.captured_in END::BIGINT,
+        sl.split_out::BIGINT,
+        jsonb_build_object(
+            'branch', 'capture', 'leg', 'capture', 'payment_mode', sp.payment_mode,
+            'debit_accounts', jsonb_build_array('platformRevenue', 'mentorLocked'),
+            'credit_account', 'externalGateway',
+            'captured_in', sl.captured_in, 'split_out', sl.split_out
+        )
+    FROM session_legs sl
+    LEFT JOIN session_payments sp ON sp.session_id = sl.session_id
+    WHERE (sl.captured_in > 0 OR sl.split_out > 0)
+      AND sl.split_out <> CASE WHEN sp.payment_mode = 'direct' THEN sp.amount_total ELSE sl.captured_in END
+    LIMIT p_limit
+)
+UNION ALL
+(
+    -- Refund: externalGateway -> studentAvailable must equal the platform + mentor reversals into externalGateway
+    SELECT 'transaction_unbalanced', 'session:' || sl.session_id, sl.refund_out::BIGINT, sl.refund_in::BIGINT,
+        jsonb_build_object(
+            'branch', 'refund', 'leg', 'refund',
+            'debit_account', 'studentAvailable',
+            'credit_accounts', jsonb_build_array('platformRevenue', 'mentorLocked', 'mentorAvailable'),
+            'refund_out', sl.refund_out, 'refund_in', sl.refund_in
+        )
+    FROM session_legs sl
+    WHERE sl.refund_in <> sl.refund_out
+    LIMIT p_limit
+)
+UNION ALL
+(
+    SELECT 'wallet_balance_mismatch', 'user:' || COALESCE(w.user_uid, b.user_uid) || ':' || b.account,
+        COALESCE(b.balance, 0)::BIGINT,
+        (CASE b.account WHEN 'studentAvailable' THEN w.balance_available ELSE w.balance_locked END)::BIGINT,
+        jsonb_build_object('branch', 'ledger', 'account', b.account, 'user_uid', COALESCE(w.user_uid, b.user_uid),
+            'ledger_balance', b.balance, 'table', 'enhanced_wallets')
+    FROM account_balances b
+    LEFT JOIN enhanced_wallets w ON w.user_uid = b.user_uid
+    WHERE b.account IN ('studentAvailable', 'studentLocked')
+      AND COALESCE(CASE b.account WHEN 'studentAvailable' THEN w.balance_available ELSE w.balance_locked END, 0) <> b.balance
+    LIMIT p_limit
+)
+UNION ALL
+(
+    -- Wallets with a balance but no ledger postings at all
+    SELECT 'wallet_balance_mismatch', 'user:' || w.user_uid, 0::BIGINT,
+        (w.balance_available + w.balance_locked)::BIGINT,
+        jsonb_build_object('branch', 'unposted', 'accounts', jsonb_build_array('studentAvailable', 'studentLocked'), 'user_uid', w.user_uid,
+            'balance_available', w.balance_available, 'balance_locked', w.balance_locked, 'table', 'enhanced_wallets')
+    FROM enhanced_wallets w
+    WHERE (w.balance_available <> 0 OR w.balance_locked <> 0)
+      AND NOT EXISTS (
+          SELECT 1 FROM account_balances b
+          WHERE b.user_uid = w.user_uid AND b.account IN ('studentAvailable', 'studentLocked')
+      )
+    LIMIT p_limit
+)
+UNION ALL
+(
+    SELECT 'earnings_balance_mismatch', 'user:' || b.user_uid || ':' || b.account,
+        b.balance::BIGINT,
+        (CASE b.account
+            WHEN 'mentorAvailable' THEN e.earnings_available
+            WHEN 'mentorLocked' THEN e.earnings_locked
+            ELSE e.payout_pending
+        END)::BIGINT,
+        jsonb_build_object('branch', 'ledger', 'account', b.account, 'user_uid', b.user_uid, 'ledger_balance', b.balance, 'table', 'mentor_earnings')
+    FROM account_balances b
+    LEFT JOIN mentor_earnings e ON e.mentor_uid = b.user_uid
+    WHERE b.account IN ('mentorAvailable', 'mentorLocked', 'mentorPayoutPending')
+      AND COALESCE(CASE b.account
+            WHEN 'mentorAvailable' THEN e.earnings_available
+            WHEN 'mentorLocked' THEN e.earnings_locked
+            ELSE e.payout_pending
+          END, 0) <> b.balance
+    LIMIT p_limit
+)
+UNION ALL
+(
+    SELECT 'earnings_balance_mismatch', 'user:' || e.mentor_uid, 0::BIGINT,
+        (e.earnings_available + e.earnings_locked + e.payout_pending)::BIGINT,
+        jsonb_build_object('branch', 'unposted', 'accounts', jsonb_build_array('mentorAvailable', 'mentorLocked', 'mentorPayoutPending'),
+            'user_uid', e.mentor_uid, 'table', 'mentor_earnings')
+    FROM mentor_earnings e
+    WHERE (e.earnings_available <> 0 OR e.earnings_locked <> 0 OR e.payout_pending <> 0)
+      AND NOT EXISTS (
+          SELECT 1 FROM account_balances b
+          WHERE b.user_uid = e.mentor_uid AND b.account IN ('mentorAvailable', 'mentorLocked', 'mentorPayoutPending')
+      )
+    LIMIT p_limit
+)
+UNION ALL
+(
+    SELECT 'negative_balance', 'user:' || w.user_uid, 0::BIGINT, LEAST(w.balance_available, w.balance_locked)::BIGINT,
+        jsonb_build_object('accounts', jsonb_build_array('studentAvailable', 'studentLocked'), 'user_uid', w.user_uid,
+            'balance_available', w.balance_available, 'balance_locked', w.balance_locked)
+    FROM enhanced_wallets w
+    WHERE w.balance_available < 0 OR w.balance_locked < 0
+    LIMIT p_limit
+)
+UNION ALL
+(
+    -- Anything but fees into, or platform refunds out of, platformRevenue breaks the identity
+    SELECT 'platform_revenue_mismatch', 'account:platformRevenue',
+        (COALESCE(SUM(lt.amount) FILTER (WHERE lt.transaction_type = 'fee' AND lt.to_account = 'platformRevenue'), 0)
+         - COALESCE(SUM(lt.amount) FILTER (WHERE lt.transaction_type = 'refund' AND lt.from_account = 'platformRevenue'), 0))::BIGINT,
+        (COALESCE(SUM(lt.amount) FILTER (WHERE lt.to_account = 'platformRevenue'), 0)
+         - COALESCE(SUM(lt.amount) FILTER (WHERE lt.from_account = 'platformRevenue'), 0))::BIGINT,
+        jsonb_build_object('branch', 'total', 'account', 'platformRevenue',
+            'other_postings', COUNT(*) FILTER (WHERE
+                (lt.to_account = 'platformRevenue' AND lt.transaction_type <> 'fee')
+                OR (lt.from_account = 'platformRevenue' AND lt.transaction_type <> 'refund')))
+    FROM ledger_transactions lt
+    WHERE lt.to_account = 'platformRevenue' OR lt.from_account = 'platformRevenue'
+    HAVING COALESCE(SUM(lt.amount) FILTER (WHERE
+                (lt.to_account = 'platformRevenue' AND lt.transaction_type <> 'fee')
+                OR (lt.from_account = 'platformRevenue' AND lt.transaction_type <> 'refund')), 0) <> 0
+)
+UNION ALL
+(
+    -- Fees booked per captured session must match the platform share recorded on session_payments
+    SELECT 'platform_revenue_mismatch', 'session:' || sp.session_id, sp.amount_platform::BIGINT, COALESCE(sl.fees, 0)::BIGINT,
+        jsonb_build_object('branch', 'session', 'account', 'platformRevenue', 'session_id', sp.session_id, 'payment_mode', sp.payment_mode, 'status', sp.status)
+    FROM session_payments sp
+    LEFT JOIN session_legs sl ON sl.session_id = sp.session_id
+    WHERE sp.status IN ('captured', 'released', 'refunded')
+      AND sp.captured_at IS NOT NULL
+      AND COALESCE(sl.fees, 0) <> sp.amount_platform
+    LIMIT p_limit
+)
+UNION ALL
+(
+    SELECT 'gateway_topup_mismatch', COALESCE(tp.provider, 'unknown') || ':' || tp.gateway_id,
+        COALESCE(tp.gateway_amount, 0), COALESCE(tp.credited_amount, 0),
+        jsonb_build_object(
+            'branch', 'payment', 'accounts', jsonb_build_array('externalGateway', 'studentAvailable'),
+            'gateway_id', tp.gateway_id, 'user_uid', tp.user_uid, 'ledger_entries', COALESCE(tp.entries, 0),
+            'issue', CASE
+                WHEN tp.credited_amount IS NULL THEN 'not_credited'
+                WHEN tp.gateway_amount IS NULL THEN 'no_gateway_event'
+                WHEN tp.entries > 1 THEN 'credited_multiple_times'
+                ELSE 'amount_mismatch'
+            END)
+    FROM topup_pairs tp
+    WHERE tp.gateway_amount IS DISTINCT FROM tp.credited_amount
+    LIMIT p_limit
+)
+UNION ALL
+(
+    SELECT 'gateway_topup_mismatch', g.provider || ':total', SUM(g.amount)::BIGINT, COALESCE(SUM(c.amount), 0)::BIGINT,
+        jsonb_build_object('branch', 'total', 'accounts', jsonb_build_array('externalGateway', 'studentAvailable'), 'provider', g.provider,
+            'gateway_payments', COUNT(*))
+    FROM gateway_topups g
+    LEFT JOIN topup_credits c ON c.gateway_id = g.gateway_id
+    GROUP BY g.provider
+    HAVING SUM(g.amount) <> COALESCE(SUM(c.amount), 0)
+)
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Reads every user's balances: the scheduled check (service role) only
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION reconciliation_findings(INTEGER) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
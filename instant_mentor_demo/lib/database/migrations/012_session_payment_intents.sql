@@ -0,0 +1,186 @@
+-- Session payment intents for process-payment (Stripe, Razorpay, wallet)
+-- At most one pending payment_transactions row per session, so a retried
+-- checkout reuses its intent instead of opening another one. The pending row
+-- and the session's payment status are written in one transaction, and a
+-- wallet charge records its completed payment together with the transfer.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- ONE PENDING INTENT PER SESSION
+-- ===========================================================================
+
+-- Older duplicates left by earlier retries are superseded by the newest row
+UPDATE payment_transactions pt
+SET status = 'failed', updated_at = NOW()
+WHERE pt.status = 'pending'
+  AND EXISTS (
+      SELECT 1 FROM payment_transactions newer
+      WHERE newer.session_id = pt.session_id
+        AND newer.status = 'pending'
+        AND (newer.created_at, newer.id) > (pt.created_at, pt.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_payment_transactions_pending_session
+    ON payment_transactions(session_id) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_payment_transactions_transaction_id
+    ON payment_transactions(transaction_id);
+
+-- ===========================================================================
+-- RECORD GATEWAY INTENT
+-- ===========================================================================
+
+-- Inserts the pending row for a gateway intent (Stripe PaymentIntent id or
+-- Razorpay order id) and marks the session pending, atomically. When another
+-- request already holds the session's pending row, that row is returned
+-- unchanged and the caller must discard its own intent.
+CREATE OR REPLACE FUNCTION record_session_payment_intent(
+    p_session_id UUID,
+    p_payer_id UUID,
+    p_payee_id UUID,
+    p_amount DECIMAL,
+    p_currency TEXT,
+    p_payment_method TEXT,
+    p_transaction_id TEXT
+)
+RETURNS payment_transactions AS $$
+DECLARE
+    v_row payment_transactions%ROWTYPE;
+BEGIN
+    INSERT INTO payment_transactions (
+        session_id, payer_id, payee_id, amount, currency, status, payment_method, transaction_id
+    ) VALUES (
+        p_session_id, p_payer_id, p_payee_id, p_amount, p_currency, 'pending', p_payment_method, p_transaction_id
+    )
+    ON CONFLICT (session_id) WHERE status = 'pending' DO NOTHING
+    RETURNING * INTO v_row;
+
+    IF NOT FOUND THEN
+        SELECT * INTO v_row FROM payment_transactions
+        WHERE session_id = p_session_id AND status = 'pending';
+        RETURN v_row;
+    END IF;
+
+    UPDATE mentoring_sessions
+    SET payment_status = 'pending', cost = p_amount, updated_at = NOW()
+    WHERE id = p_session_id;
+
+    RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================================================
+-- WALLET CHARGE
+-- ===========================================================================
+
+-- Replaces the supabase_sql/wallet_transfers.sql version, which had no balance
+-- check and charged again on every call.
+DROP FUNCTION IF EXISTS charge_session_wallet(TEXT, UUID, UUID, NUMERIC, NUMERIC, TEXT, INT);
+
+-- Pays a session from the student's legacy wallet (public.wallets, major
+-- units): debits the student, credits the mentor net of commission, records a
+-- completed payment_transactions row and marks the session paid, all in one
+-- transaction. Returns status 'completed', 'already_paid' (no funds moved) or
+-- 'insufficient_funds' (nothing written). Any pending gateway intent for the
+-- session is superseded.
+CREATE OR REPLACE FUNCTION charge_session_wallet(
+    p_session_id TEXT,
+    p_student_id UUID,
+    p_mentor_id UUID,
+    p_amount NUMERIC,
+    p_commission_rate NUMERIC DEFAULT 0.15,
+    p_unit TEXT DEFAULT 'total',
+    p_quantity INT DEFAULT 1,
+    p_currency TEXT DEFAULT 'INR',
+    p_currency_exponent INT DEFAULT 2
+)
+RETURNS JSON AS $$
+DECLARE
+    v_gross NUMERIC := round(p_amount * p_quantity, p_currency_exponent);
+    v_commission NUMERIC := round(v_gross * p_commission_rate, p_currency_exponent);
+    v_mentor_net NUMERIC := v_gross - v_commission;
+    v_balance NUMERIC;
+    v_paid payment_transactions%ROWTYPE;
+    v_txn payment_transactions%ROWTYPE;
+BEGIN
+    IF v_gross <= 0 THEN
+        RAISE EXCEPTION 'Charge amount must be positive';
+    END IF;
+
+    -- Serialize charges for the same session
+    PERFORM pg_advisory_xact_lock(hashtext('charge_session_wallet:' || p_session_id));
+
+    SELECT * INTO v_paid FROM payment_transactions
+    WHERE session_id = p_session_id::UUID AND status = 'completed'
+    LIMIT 1;
+    IF FOUND THEN
+        RETURN json_build_object(
+            'session_id', p_session_id,
+            'status', 'already_paid',
+            'transaction_id', v_paid.id,
+            'payment_method', v_paid.payment_method
+        );
+    END IF;
+
+    INSERT INTO wallets(user_id, balance) VALUES (p_student_id, 0)
+        ON CONFLICT (user_id) DO NOTHING;
+    INSERT INTO wallets(user_id, balance) VALUES (p_mentor_id, 0)
+        ON CONFLICT (user_id) DO NOTHING;
+
+    SELECT balance INTO v_balance FROM wallets WHERE user_id = p_student_id FOR UPDATE;
+    IF COALESCE(v_balance, 0) < v_gross THEN
+        RETURN json_build_object(
+            'session_id', p_session_id,
+            'status', 'insufficient_funds',
+            'balance', COALESCE(v_balance, 0),
+            'gross_amount', v_gross
+        );
+    END IF;
+
+    -- Debit student
+    UPDATE wallets SET balance = balance - v_gross, updated_at = NOW()
+    WHERE user_id = p_student_id;
+    INSERT INTO wallet_transactions(txn_id, user_id, amount, status, created_at)
+    VALUES (CONCAT('sess_', p_session_id), p_student_id, -v_gross, 'completed', NOW());
+
+    -- Credit mentor
+    UPDATE wallets SET balance = balance + v_mentor_net, updated_at = NOW()
+    WHERE user_id = p_mentor_id;
+    INSERT INTO wallet_transactions(txn_id, user_id, amount, status, created_at)
+    VALUES (CONCAT('earn_', p_session_id), p_mentor_id, v_mentor_net, 'completed', NOW());
+
+    UPDATE payment_transactions SET status = 'failed', updated_at = NOW()
+    WHERE session_id = p_session_id::UUID AND status = 'pending';
+
+    INSERT INTO payment_transactions (
+        session_id, payer_id, payee_id, amount, currency, status, payment_method, transaction_id
+    ) VALUES (
+        p_session_id::UUID, p_student_id, p_mentor_id, v_gross, UPPER(p_currency), 'completed', 'wallet',
+        CONCAT('wallet_', p_session_id)
+    )
+    RETURNING * INTO v_txn;
+
+    UPDATE mentoring_sessions
+    SET payment_status = 'paid', cost = v_gross, updated_at = NOW()
+    WHERE id = p_session_id::UUID;
+
+    RETURN json_build_object(
+        'session_id', p_session_id,
+        'student_id', p_student_id,
+        'mentor_id', p_mentor_id,
+        'gross_amount', v_gross,
+        'commission', v_commission,
+        'mentor_net', v_mentor_net,
+        'transaction_id', v_txn.id,
+        'status', 'completed'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Both are called only by process-payment with the service role
+DO $$
+BEGIN
+    REVOKE EXECUTE ON FUNCTION record_session_payment_intent(UUID, UUID, UUID, DECIMAL, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+    REVOKE EXECUTE ON FUNCTION charge_session_wallet(TEXT, UUID, UUID, NUMERIC, NUMERIC, TEXT, INT, TEXT, INT) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
@@ -0,0 +1,38 @@
+-- Session cancellation time and party, for the refund policy in process-refund
+-- A session moving to 'cancelled' records when and by whom, so refunds can
+-- apply the cancellation windows without trusting the client.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- COLUMNS
+-- ===========================================================================
+
+ALTER TABLE mentoring_sessions ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE mentoring_sessions ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES auth.users(id);
+
+-- ===========================================================================
+-- TRIGGER
+-- ===========================================================================
+
+-- Stamps cancelled_at/cancelled_by when status becomes 'cancelled'. Values the
+-- writer sets explicitly (e.g. a server job acting for a user) are kept.
+CREATE OR REPLACE FUNCTION stamp_session_cancellation()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status = 'cancelled' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'cancelled') THEN
+        NEW.cancelled_at := COALESCE(NEW.cancelled_at, NOW());
+        NEW.cancelled_by := COALESCE(NEW.cancelled_by, auth.uid());
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS stamp_mentoring_session_cancellation ON mentoring_sessions;
+CREATE TRIGGER stamp_mentoring_session_cancellation
+    BEFORE INSERT OR UPDATE OF status ON mentoring_sessions
+    FOR EACH ROW EXECUTE FUNCTION stamp_session_cancellation();
+
+-- Sessions cancelled before this migration: best guess is their last update
+UPDATE mentoring_sessions
+SET cancelled_at = updated_at
+WHERE status = 'cancelled' AND cancelled_at IS NULL;
@@ -0,0 +1,41 @@
+-- Email log for the send-email edge function
+-- One row per message: template, locale, provider and the provider's message
+-- id, so delivery events can be matched to it later.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- EMAIL LOGS
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS email_logs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    recipient TEXT NOT NULL,
+    subject TEXT,
+    status TEXT NOT NULL DEFAULT 'queued',
+    provider TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Columns added for templated sending (older deployments may have the base table)
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS template TEXT;
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS locale TEXT;
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS provider_message_id TEXT;
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS error TEXT;
+
+DO $$
+BEGIN
+    ALTER TABLE email_logs ADD CONSTRAINT email_logs_status_check
+        CHECK (status IN ('queued', 'sent', 'failed'));
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_email_logs_recipient ON email_logs(recipient, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_logs_provider_message ON email_logs(provider, provider_message_id);
+
+-- Server-only table: written with the service role, readable by admins
+ALTER TABLE email_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read email logs" ON email_logs;
+CREATE POLICY "Admins can read email logs" ON email_logs
+    FOR SELECT USING (is_admin(auth.uid()));
@@ -0,0 +1,160 @@
+-- Email delivery tracking
+-- Provider delivery events (delivered, bounced, dropped, spam complaints) are
+-- recorded once each in email_events and move the matching email_logs row
+-- forward. Hard bounces and complaints add the address to email_suppressions,
+-- which send-email checks before sending.
+-- Requires 014_email_logs.sql. Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- EMAIL LOG STATUSES
+-- ===========================================================================
+
+-- suppressed: not sent because the recipient is on email_suppressions
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_status_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_status_check
+    CHECK (status IN ('queued', 'sent', 'failed', 'suppressed', 'delivered', 'bounced', 'dropped', 'complained'));
+
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMP WITH TIME ZONE;
+
+-- Events arrive out of order; a status only ever moves to a higher rank
+CREATE OR REPLACE FUNCTION email_status_rank(p_status TEXT)
+RETURNS INTEGER AS $$
+    SELECT CASE p_status
+        WHEN 'queued' THEN 0
+        WHEN 'sent' THEN 1
+        WHEN 'failed' THEN 1
+        WHEN 'suppressed' THEN 1
+        WHEN 'delivered' THEN 2
+        WHEN 'bounced' THEN 3
+        WHEN 'dropped' THEN 3
+        WHEN 'complained' THEN 4
+        ELSE 0
+    END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ===========================================================================
+-- EMAIL EVENTS
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS email_events (
+    provider TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    status TEXT NOT NULL CHECK (status IN ('delivered', 'bounced', 'dropped', 'complained')),
+    email_log_id UUID REFERENCES email_logs(id) ON DELETE SET NULL,
+    provider_message_id TEXT,
+    recipient TEXT,
+    reason TEXT,
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    PRIMARY KEY (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_log ON email_events(email_log_id);
+
+ALTER TABLE email_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read email events" ON email_events;
+CREATE POLICY "Admins can read email events" ON email_events
+    FOR SELECT USING (is_admin(auth.uid()));
+
+-- ===========================================================================
+-- SUPPRESSION LIST
+-- ===========================================================================
+
+-- Addresses are stored lower-cased. Delete a row to allow sending again.
+CREATE TABLE IF NOT EXISTS email_suppressions (
+    email TEXT PRIMARY KEY CHECK (email = LOWER(email)),
+    reason TEXT NOT NULL CHECK (reason IN ('bounce', 'complaint')),
+    provider TEXT,
+    detail TEXT,
+    email_log_id UUID REFERENCES email_logs(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE email_suppressions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read email suppressions" ON email_suppressions;
+CREATE POLICY "Admins can read email suppressions" ON email_suppressions
+    FOR SELECT USING (is_admin(auth.uid()));
+
+-- ===========================================================================
+-- RECORD EVENT RPC
+-- ===========================================================================
+
+-- Records one provider event. The log row is found by id (echoed back by the
+-- provider) or by provider message id. Returns 'duplicate' when the event was
+-- already recorded, 'unmatched' when no log row matches, 'stale' when the log
+-- already has an equal or later status, otherwise 'applied'. Suppression is
+-- recorded whether or not a log row matches.
+CREATE OR REPLACE FUNCTION record_email_event(
+    p_provider TEXT,
+    p_event_id TEXT,
+    p_event_type TEXT,
+    p_status TEXT,
+    p_email_log_id UUID,
+    p_provider_message_id TEXT,
+    p_recipient TEXT,
+    p_reason TEXT,
+    p_occurred_at TIMESTAMP WITH TIME ZONE,
+    p_suppress TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_log_id UUID;
+    v_updated INTEGER;
+BEGIN
+    SELECT id INTO v_log_id FROM email_logs WHERE id = p_email_log_id;
+    IF v_log_id IS NULL AND p_provider_message_id IS NOT NULL THEN
+        SELECT id INTO v_log_id
+        FROM email_logs
+        WHERE provider = p_provider AND provider_message_id = p_provider_message_id
+        ORDER BY created_at DESC
+        LIMIT 1;
+    END IF;
+
+    INSERT INTO email_events (
+        provider, event_id, event_type, status, email_log_id,
+        provider_message_id, recipient, reason, occurred_at
+    ) VALUES (
+        p_provider, p_event_id, p_event_type, p_status, v_log_id,
+        p_provider_message_id, p_recipient, p_reason, p_occurred_at
+    )
+    ON CONFLICT (provider, event_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+        RETURN 'duplicate';
+    END IF;
+
+    IF p_suppress IS NOT NULL AND p_recipient IS NOT NULL THEN
+        INSERT INTO email_suppressions (email, reason, provider, detail, email_log_id)
+        VALUES (LOWER(p_recipient), p_suppress, p_provider, p_reason, v_log_id)
+        ON CONFLICT (email) DO UPDATE
+        SET reason = CASE WHEN EXCLUDED.reason = 'complaint' THEN 'complaint' ELSE email_suppressions.reason END,
+            detail = COALESCE(EXCLUDED.detail, email_suppressions.detail),
+            updated_at = NOW();
+    END IF;
+
+    IF v_log_id IS NULL THEN
+        RETURN 'unmatched';
+    END IF;
+
+    UPDATE email_logs
+    SET status = p_status,
+        error = CASE WHEN p_status = 'delivered' THEN error ELSE COALESCE(p_reason, error) END,
+        last_event_at = p_occurred_at
+    WHERE id = v_log_id
+      AND email_status_rank(status) < email_status_rank(p_status);
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    RETURN CASE WHEN v_updated > 0 THEN 'applied' ELSE 'stale' END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION record_email_event(TEXT, TEXT, TEXT, TEXT, UUID, TEXT, TEXT, TEXT, TIMESTAMP WITH TIME ZONE, TEXT)
+        FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
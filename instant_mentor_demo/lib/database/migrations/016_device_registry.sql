@@ -0,0 +1,87 @@
+-- Push device registry
+-- One row per FCM registration token, owned by the signed-in user who
+-- registered it. send-notification reads tokens from here (callers no longer
+-- pass them) and deletes tokens FCM reports as unregistered or invalid.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- USER DEVICES
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS user_devices (
+    token TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- 'unknown' only for tokens carried over from user_profiles.fcm_token
+    platform TEXT NOT NULL CHECK (platform IN ('android', 'ios', 'web', 'macos', 'windows', 'linux', 'unknown')),
+    app_version TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_user ON user_devices(user_id);
+
+ALTER TABLE user_devices ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through register_device / unregister_device
+DROP POLICY IF EXISTS "Users can view own devices" ON user_devices;
+CREATE POLICY "Users can view own devices" ON user_devices
+    FOR SELECT USING (auth.uid() = user_id);
+
+-- Carry over the single token the app used to store on the profile
+DO $$
+BEGIN
+    INSERT INTO user_devices (token, user_id, platform)
+    SELECT p.fcm_token, p.id, 'unknown'
+    FROM user_profiles p
+    JOIN auth.users u ON u.id = p.id
+    WHERE p.fcm_token IS NOT NULL AND p.fcm_token <> ''
+    ON CONFLICT (token) DO NOTHING;
+EXCEPTION WHEN undefined_column OR undefined_table THEN NULL;
+END $$;
+
+-- ===========================================================================
+-- REGISTRATION RPCs
+-- ===========================================================================
+
+-- Registers (or refreshes) the caller's device token. A token that belonged to
+-- another account on the same device moves to the caller.
+CREATE OR REPLACE FUNCTION register_device(
+    p_token TEXT,
+    p_platform TEXT,
+    p_app_version TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+    END IF;
+    IF p_token IS NULL OR LENGTH(p_token) NOT BETWEEN 1 AND 4096 THEN
+        RAISE EXCEPTION 'Invalid device token' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO user_devices (token, user_id, platform, app_version)
+    VALUES (p_token, auth.uid(), p_platform, p_app_version)
+    ON CONFLICT (token) DO UPDATE
+    SET user_id = EXCLUDED.user_id,
+        platform = EXCLUDED.platform,
+        app_version = EXCLUDED.app_version,
+        last_seen_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Removes the caller's device token (on sign-out)
+CREATE OR REPLACE FUNCTION unregister_device(p_token TEXT)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM user_devices WHERE token = p_token AND user_id = auth.uid();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION register_device(TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+    REVOKE ALL ON FUNCTION unregister_device(TEXT) FROM PUBLIC, anon;
+    GRANT EXECUTE ON FUNCTION register_device(TEXT, TEXT, TEXT) TO authenticated;
+    GRANT EXECUTE ON FUNCTION unregister_device(TEXT) TO authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
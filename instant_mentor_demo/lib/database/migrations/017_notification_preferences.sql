@@ -0,0 +1,109 @@
+-- Notification preferences, quiet hours and digests
+-- notification_preferences holds each user's per-category channel switches,
+-- quiet hours (local time in user_profiles.timezone) and digest hour; missing
+-- settings use the defaults in supabase/functions/_shared/preferences.ts.
+-- Push deferred by quiet hours and low-priority items collected for a digest
+-- wait in notification_outbox until the notification-digest function sends them.
+-- Requires 014_email_logs.sql. Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- PREFERENCES
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    -- {"marketing": {"push": false, "email": false}, "chat": {"email": true}}
+    channels JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(channels) = 'object'),
+    -- Both set and different, or quiet hours are off. End before start wraps past midnight.
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    digest_hour SMALLINT NOT NULL DEFAULT 18 CHECK (digest_hour BETWEEN 0 AND 23),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can view own notification preferences" ON notification_preferences
+    FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can insert own notification preferences" ON notification_preferences
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+    FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- In-app notifications remember their category so clients can filter them
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS category TEXT;
+
+-- send-email records emails withheld by the recipient's preferences as 'skipped'
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_status_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_status_check
+    CHECK (status IN ('queued', 'sent', 'failed', 'suppressed', 'skipped', 'delivered', 'bounced', 'dropped', 'complained'));
+
+-- ===========================================================================
+-- OUTBOX
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS notification_outbox (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    category TEXT NOT NULL,
+    channel TEXT NOT NULL CHECK (channel IN ('push', 'email')),
+    -- deferred: one push held back by quiet hours; digest: one item of a digest
+    kind TEXT NOT NULL CHECK (kind IN ('deferred', 'digest')),
+    -- push: { title, body, data, clickAction }; email digest item: { title, summary }
+    payload JSONB NOT NULL,
+    deliver_after TIMESTAMP WITH TIME ZONE NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    locked_at TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    sent_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_due
+    ON notification_outbox(deliver_after) WHERE status IN ('pending', 'processing');
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_user ON notification_outbox(user_id, created_at DESC);
+
+ALTER TABLE notification_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read notification outbox" ON notification_outbox;
+CREATE POLICY "Admins can read notification outbox" ON notification_outbox
+    FOR SELECT USING (is_admin(auth.uid()));
+
+-- Claims up to p_limit due outbox rows. Rows left in 'processing' longer than
+-- p_stale_after belong to a crashed run and are claimed again. Each claim
+-- counts as an attempt.
+CREATE OR REPLACE FUNCTION claim_notification_outbox(
+    p_limit INTEGER DEFAULT 200,
+    p_stale_after INTERVAL DEFAULT INTERVAL '5 minutes'
+)
+RETURNS SETOF notification_outbox AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE notification_outbox o
+    SET status = 'processing',
+        attempts = o.attempts + 1,
+        locked_at = NOW()
+    WHERE o.id IN (
+        SELECT n.id
+        FROM notification_outbox n
+        WHERE (n.status = 'pending' AND n.deliver_after <= NOW())
+           OR (n.status = 'processing' AND n.locked_at < NOW() - p_stale_after)
+        ORDER BY n.deliver_after
+        LIMIT p_limit
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING o.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION claim_notification_outbox(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
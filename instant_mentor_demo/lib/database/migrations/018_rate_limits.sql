@@ -0,0 +1,72 @@
+-- Per-user rate limits for the edge functions
+-- The shared handler (supabase/functions/_shared/handler.ts) calls
+-- hit_rate_limit once per user request, with a bucket of
+-- '<function name>:<user id>'. Counts are kept per fixed window; a bucket's
+-- older windows are deleted as it moves on.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- COUNTERS
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+    bucket TEXT NOT NULL,
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (bucket, window_start)
+);
+
+-- Only the service role (through hit_rate_limit) touches the counters
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can read rate limit counters" ON rate_limit_counters;
+CREATE POLICY "Admins can read rate limit counters" ON rate_limit_counters
+    FOR SELECT USING (is_admin(auth.uid()));
+
+-- ===========================================================================
+-- RPC
+-- ===========================================================================
+
+-- Counts one request in the current window of p_bucket. allowed is false once
+-- more than p_limit requests fell in the window; retry_after_seconds is the
+-- time until the next window starts. Rejected requests still count.
+CREATE OR REPLACE FUNCTION hit_rate_limit(
+    p_bucket TEXT,
+    p_limit INTEGER,
+    p_window_seconds INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, hit_count INTEGER, retry_after_seconds INTEGER) AS $$
+DECLARE
+    v_window_start TIMESTAMP WITH TIME ZONE;
+    v_hits INTEGER;
+BEGIN
+    IF p_limit < 1 OR p_window_seconds < 1 THEN
+        RAISE EXCEPTION 'p_limit and p_window_seconds must be positive';
+    END IF;
+
+    v_window_start := to_timestamp(floor(extract(epoch FROM NOW()) / p_window_seconds) * p_window_seconds);
+
+    INSERT INTO rate_limit_counters AS c (bucket, window_start, hits)
+    VALUES (p_bucket, v_window_start, 1)
+    ON CONFLICT (bucket, window_start) DO UPDATE SET hits = c.hits + 1
+    RETURNING c.hits INTO v_hits;
+
+    DELETE FROM rate_limit_counters
+    WHERE bucket = p_bucket AND window_start < v_window_start;
+
+    RETURN QUERY SELECT
+        v_hits <= p_limit,
+        v_hits,
+        GREATEST(1, CEIL(extract(epoch FROM (v_window_start + make_interval(secs => p_window_seconds) - NOW())))::INTEGER);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION hit_rate_limit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
+
+-- Windows of buckets nobody has hit since (users who stopped calling a
+-- function) are left behind; clear them now and then, e.g. daily with pg_cron:
+--   DELETE FROM rate_limit_counters WHERE window_start < NOW() - INTERVAL '1 day';
@@ -0,0 +1,239 @@
+-- Mentor availability checks and conflict-free session booking
+-- book_mentoring_session checks a requested slot against the mentor's weekly
+-- availability, time off and other sessions (plus a buffer) while holding a
+-- per-mentor lock, so two bookings of the same time cannot both succeed. A
+-- trigger keeps sessions written any other way from overlapping too.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- TABLES
+-- ===========================================================================
+
+-- As in supabase_sql/create_scheduling_tables.sql: one window per weekday
+-- (0 = Monday) in the mentor's local time; an end at or before the start runs
+-- past midnight
+CREATE TABLE IF NOT EXISTS mentor_availability (
+    mentor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    timezone TEXT DEFAULT 'UTC',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (mentor_id, day_of_week)
+);
+
+ALTER TABLE mentor_availability ADD COLUMN IF NOT EXISTS is_enabled BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE mentor_availability ADD COLUMN IF NOT EXISTS timezone TEXT DEFAULT 'UTC';
+
+CREATE TABLE IF NOT EXISTS mentor_time_off (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    mentor_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    start_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    end_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentor_time_off_mentor ON mentor_time_off(mentor_id, start_at);
+CREATE INDEX IF NOT EXISTS idx_sessions_mentor_time ON mentoring_sessions(mentor_id, scheduled_time);
+
+-- ===========================================================================
+-- SCHEDULE HELPERS
+-- ===========================================================================
+
+-- mentoring_sessions.mentor_id holds the mentor's profile id in some rows and
+-- their user id in others (the app's scheduling screens write the latter).
+-- Returns [user id, profile id] for either, or NULL if they are not a mentor.
+CREATE OR REPLACE FUNCTION mentor_schedule_ids(p_mentor_id UUID)
+RETURNS UUID[] AS $$
+    SELECT ARRAY[user_id, id] FROM mentor_profiles
+    WHERE user_id = p_mentor_id OR id = p_mentor_id
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Serialises bookings per mentor until the end of the transaction
+CREATE OR REPLACE FUNCTION lock_mentor_schedule(p_mentor_ids UUID[])
+RETURNS VOID AS $$
+    SELECT pg_advisory_xact_lock(hashtext('mentor_schedule:' || p_mentor_ids[1]::TEXT));
+$$ LANGUAGE sql SET search_path = public;
+
+-- Whether an active (not cancelled/declined) session of the mentor overlaps
+-- [p_start, p_end), ignoring p_exclude_id
+CREATE OR REPLACE FUNCTION mentor_session_overlaps(
+    p_mentor_ids UUID[],
+    p_start TIMESTAMP WITH TIME ZONE,
+    p_end TIMESTAMP WITH TIME ZONE,
+    p_exclude_id UUID DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM mentoring_sessions s
+        WHERE s.mentor_id = ANY(p_mentor_ids)
+          AND s.status NOT IN ('cancelled', 'declined')
+          AND (p_exclude_id IS NULL OR s.id <> p_exclude_id)
+          AND s.scheduled_time < p_end
+          AND s.scheduled_time + make_interval(mins => s.duration_minutes) > p_start
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Whether [p_start, p_end) lies inside one availability window of the mentor.
+-- Windows are read on the local date of p_start and the day before (for
+-- windows running past midnight), in each row's own time zone, so DST moves
+-- them with the mentor's wall clock. Rows with an unknown zone never match.
+CREATE OR REPLACE FUNCTION mentor_available_at(
+    p_user_id UUID,
+    p_start TIMESTAMP WITH TIME ZONE,
+    p_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM mentor_availability a
+        JOIN pg_timezone_names z ON z.name = COALESCE(a.timezone, 'UTC')
+        CROSS JOIN LATERAL (
+            SELECT (p_start AT TIME ZONE z.name)::DATE - back AS day FROM generate_series(0, 1) AS back
+        ) d
+        CROSS JOIN LATERAL (
+            SELECT
+                (d.day + a.start_time) AT TIME ZONE z.name AS opens,
+                ((d.day + CASE WHEN a.end_time <= a.start_time THEN 1 ELSE 0 END) + a.end_time) AT TIME ZONE z.name AS closes
+        ) w
+        WHERE a.mentor_id = p_user_id
+          AND a.is_enabled
+          AND a.day_of_week = EXTRACT(ISODOW FROM d.day)::INTEGER - 1
+          AND w.opens <= p_start
+          AND w.closes >= p_end
+    );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- ===========================================================================
+-- BOOKING
+-- ===========================================================================
+
+-- Books [p_start, p_start + p_duration_minutes) for the student if it is in
+-- the future, inside the mentor's availability, clear of time off, and at
+-- least p_buffer_minutes from every other active session of the mentor.
+-- The session is stored with the mentor id as given and status 'scheduled'.
+-- Returns {status: 'booked', session_id} or {status} with one of
+-- 'not_a_mentor', 'in_past', 'unavailable', 'time_off', 'conflict'.
+CREATE OR REPLACE FUNCTION book_mentoring_session(
+    p_student_id UUID,
+    p_mentor_id UUID,
+    p_start TIMESTAMP WITH TIME ZONE,
+    p_duration_minutes INTEGER,
+    p_buffer_minutes INTEGER DEFAULT 0,
+    p_subject TEXT DEFAULT NULL,
+    p_description TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_ids UUID[];
+    v_end TIMESTAMP WITH TIME ZONE;
+    v_buffer INTERVAL := make_interval(mins => GREATEST(COALESCE(p_buffer_minutes, 0), 0));
+    v_session_id UUID;
+BEGIN
+    IF p_duration_minutes IS NULL OR p_duration_minutes < 1 THEN
+        RAISE EXCEPTION 'p_duration_minutes must be positive';
+    END IF;
+    v_end := p_start + make_interval(mins => p_duration_minutes);
+
+    v_ids := mentor_schedule_ids(p_mentor_id);
+    IF v_ids IS NULL THEN
+        RETURN jsonb_build_object('status', 'not_a_mentor');
+    END IF;
+
+    -- A second booking for this mentor waits here and then sees the first
+    PERFORM lock_mentor_schedule(v_ids);
+
+    IF p_start <= NOW() THEN
+        RETURN jsonb_build_object('status', 'in_past');
+    END IF;
+    IF NOT mentor_available_at(v_ids[1], p_start, v_end) THEN
+        RETURN jsonb_build_object('status', 'unavailable');
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM mentor_time_off t
+        WHERE t.mentor_id = v_ids[1] AND t.start_at < v_end AND t.end_at > p_start
+    ) THEN
+        RETURN jsonb_build_object('status', 'time_off');
+    END IF;
+    IF mentor_session_overlaps(v_ids, p_start - v_buffer, v_end + v_buffer) THEN
+        RETURN jsonb_build_object('status', 'conflict');
+    END IF;
+
+    INSERT INTO mentoring_sessions (
+        mentor_id, student_id, scheduled_time, duration_minutes, subject, description, status
+    ) VALUES (
+        p_mentor_id, p_student_id, p_start, p_duration_minutes, p_subject, p_description, 'scheduled'
+    )
+    RETURNING id INTO v_session_id;
+
+    RETURN jsonb_build_object('status', 'booked', 'session_id', v_session_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Removes a booking whose funds could not be reserved, so the slot opens
+-- again. Sessions with reserved or captured funds are kept. Returns TRUE if
+-- the session was removed.
+CREATE OR REPLACE FUNCTION release_unfunded_booking(p_session_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    DELETE FROM session_payments WHERE session_id = p_session_id AND status = 'created';
+    IF EXISTS (SELECT 1 FROM session_payments WHERE session_id = p_session_id) THEN
+        RETURN FALSE;
+    END IF;
+
+    DELETE FROM mentoring_sessions WHERE id = p_session_id AND status = 'scheduled';
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ===========================================================================
+-- OVERLAP TRIGGER
+-- ===========================================================================
+
+-- Rejects a session that would overlap another active session of the same
+-- mentor, however it is written (buffers are only applied when booking).
+-- Past sessions and updates that leave the time, mentor and active status
+-- alone are not checked, so existing overlapping rows can still be edited.
+CREATE OR REPLACE FUNCTION prevent_mentor_session_overlap()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_ids UUID[];
+    v_end TIMESTAMP WITH TIME ZONE := NEW.scheduled_time + make_interval(mins => NEW.duration_minutes);
+BEGIN
+    IF NEW.status IN ('cancelled', 'declined') OR v_end <= NOW() THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'UPDATE'
+        AND NEW.mentor_id = OLD.mentor_id
+        AND NEW.scheduled_time = OLD.scheduled_time
+        AND NEW.duration_minutes = OLD.duration_minutes
+        AND OLD.status NOT IN ('cancelled', 'declined') THEN
+        RETURN NEW;
+    END IF;
+
+    v_ids := COALESCE(mentor_schedule_ids(NEW.mentor_id), ARRAY[NEW.mentor_id]);
+    PERFORM lock_mentor_schedule(v_ids);
+    IF mentor_session_overlaps(v_ids, NEW.scheduled_time, v_end, NEW.id) THEN
+        RAISE EXCEPTION 'Session overlaps another session of this mentor'
+            USING ERRCODE = 'exclusion_violation';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS prevent_mentoring_session_overlap ON mentoring_sessions;
+CREATE TRIGGER prevent_mentoring_session_overlap
+    BEFORE INSERT OR UPDATE OF mentor_id, scheduled_time, duration_minutes, status ON mentoring_sessions
+    FOR EACH ROW EXECUTE FUNCTION prevent_mentor_session_overlap();
+
+-- Booking goes through the server (bookSession), which also reserves funds
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION book_mentoring_session(UUID, UUID, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+    REVOKE ALL ON FUNCTION release_unfunded_booking(UUID) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
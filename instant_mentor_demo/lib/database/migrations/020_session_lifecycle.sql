@@ -0,0 +1,175 @@
+-- Mentoring session lifecycle: enforced status transitions with an audit trail
+-- Session status only changes through apply_session_transition, called by the
+-- transitionSession callable after it has checked who may act and when. The
+-- status change, its audit row and the wallet money movement (reserve, release
+-- or capture) commit together. Clients can no longer write status directly.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- STATUSES
+-- ===========================================================================
+
+-- The union of the app's statuses; 'accepted' and 'confirmed' are older names
+-- for 'scheduled'
+ALTER TABLE mentoring_sessions DROP CONSTRAINT IF EXISTS mentoring_sessions_status_check;
+ALTER TABLE mentoring_sessions ADD CONSTRAINT mentoring_sessions_status_check
+    CHECK (status IN ('pending', 'accepted', 'confirmed', 'declined', 'scheduled', 'in_progress', 'completed', 'cancelled', 'no_show'));
+
+-- ===========================================================================
+-- AUDIT TRAIL
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS session_transitions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    session_id UUID NOT NULL REFERENCES mentoring_sessions(id) ON DELETE CASCADE,
+    action TEXT NOT NULL,
+    from_status TEXT NOT NULL,
+    to_status TEXT NOT NULL,
+    -- NULL for scheduled jobs
+    actor_id UUID REFERENCES auth.users(id),
+    actor_role TEXT NOT NULL CHECK (actor_role IN ('student', 'mentor', 'admin', 'system')),
+    reason TEXT,
+    -- What happened to the session's wallet funds: 'reserved', 'released', 'captured' or 'none'
+    wallet TEXT NOT NULL DEFAULT 'none',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_transitions_session ON session_transitions(session_id, created_at);
+
+-- Written by apply_session_transition only; readable by the session's parties and admins
+ALTER TABLE session_transitions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can read session transitions" ON session_transitions;
+CREATE POLICY "Participants can read session transitions" ON session_transitions
+    FOR SELECT USING (
+        is_admin(auth.uid()) OR EXISTS (
+            SELECT 1 FROM mentoring_sessions s
+            WHERE s.id = session_transitions.session_id
+              AND (s.student_id = auth.uid() OR s.mentor_id = auth.uid()
+                   OR s.mentor_id IN (SELECT id FROM mentor_profiles WHERE user_id = auth.uid()))
+        )
+    );
+
+-- ===========================================================================
+-- TRANSITION
+-- ===========================================================================
+
+-- Moves the session from one of p_from to p_to and records it. The caller
+-- decides the transition; this function makes it atomic:
+--   p_wallet 'reserve': reserve p_amounts (total/mentor/platform/currency) from
+--     the student's wallet; an already reserved session is left as is
+--   p_wallet 'release': return a reserved amount to the student's wallet
+--   p_wallet 'capture': settle a reserved session at p_amounts (total/mentor/platform)
+-- Declined, cancelled and no-show sessions record who called it off in
+-- cancelled_by (for a no-show, the absent party as of the scheduled start), so
+-- the refund policy can be applied to any gateway payment afterwards.
+-- Returns {status: 'applied', from, wallet} or {status} with one of
+-- 'not_found', 'invalid_state' (with current), 'insufficient_funds'.
+CREATE OR REPLACE FUNCTION apply_session_transition(
+    p_session_id UUID,
+    p_action TEXT,
+    p_from TEXT[],
+    p_to TEXT,
+    p_actor_id UUID,
+    p_actor_role TEXT,
+    p_reason TEXT DEFAULT NULL,
+    p_cancelled_by UUID DEFAULT NULL,
+    p_wallet TEXT DEFAULT 'none',
+    p_amounts JSONB DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    s mentoring_sessions%ROWTYPE;
+    sp session_payments%ROWTYPE;
+    v_wallet TEXT := 'none';
+    v_settled TEXT;
+BEGIN
+    SELECT * INTO s FROM mentoring_sessions WHERE id = p_session_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+    IF NOT (s.status = ANY(p_from)) THEN
+        RETURN jsonb_build_object('status', 'invalid_state', 'current', s.status);
+    END IF;
+
+    SELECT * INTO sp FROM session_payments WHERE session_id = p_session_id FOR UPDATE;
+
+    IF p_wallet = 'reserve' AND NOT (FOUND AND sp.status IN ('reserved', 'captured')) THEN
+        IF NOT reserve_session_funds(
+            p_session_id, s.student_id, COALESCE((mentor_schedule_ids(s.mentor_id))[1], s.mentor_id),
+            (p_amounts->>'total')::INTEGER, (p_amounts->>'mentor')::INTEGER, (p_amounts->>'platform')::INTEGER,
+            p_amounts->>'currency'
+        ) THEN
+            -- reserve_session_funds has written a 'created' row; undo it with the rest
+            RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'insufficient_funds';
+        END IF;
+        v_wallet := 'reserved';
+    ELSIF p_wallet = 'release' AND FOUND AND sp.status = 'reserved' THEN
+        PERFORM process_funds_release(sp.student_uid, sp.amount_total, p_session_id);
+        v_wallet := 'released';
+    ELSIF p_wallet = 'capture' AND FOUND AND sp.status = 'reserved' THEN
+        v_settled := settle_session_funds(
+            p_session_id, (p_amounts->>'total')::INTEGER, (p_amounts->>'mentor')::INTEGER, (p_amounts->>'platform')::INTEGER
+        );
+        v_wallet := CASE WHEN v_settled = 'captured' THEN 'captured' ELSE 'none' END;
+    END IF;
+
+    UPDATE mentoring_sessions SET
+        status = p_to,
+        cancelled_by = CASE WHEN p_to IN ('cancelled', 'declined', 'no_show') THEN COALESCE(p_cancelled_by, p_actor_id) ELSE cancelled_by END,
+        cancelled_at = CASE
+            WHEN p_to = 'no_show' THEN scheduled_time
+            WHEN p_to IN ('cancelled', 'declined') THEN NOW()
+            ELSE cancelled_at
+        END,
+        updated_at = NOW()
+    WHERE id = p_session_id;
+
+    INSERT INTO session_transitions (session_id, action, from_status, to_status, actor_id, actor_role, reason, wallet)
+    VALUES (p_session_id, p_action, s.status, p_to, p_actor_id, p_actor_role, p_reason, v_wallet);
+
+    RETURN jsonb_build_object('status', 'applied', 'from', s.status, 'wallet', v_wallet);
+EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM = 'insufficient_funds' THEN
+        RETURN jsonb_build_object('status', 'insufficient_funds');
+    END IF;
+    RAISE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION apply_session_transition(UUID, TEXT, TEXT[], TEXT, UUID, TEXT, TEXT, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
+
+-- ===========================================================================
+-- STATUS GUARD
+-- ===========================================================================
+
+-- Signed-in clients may create a session only as a 'pending' request and may
+-- not change its status; server code (service role, SECURITY DEFINER
+-- functions) is not affected. Not SECURITY DEFINER itself, so current_user is
+-- the role the request runs as.
+CREATE OR REPLACE FUNCTION guard_session_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF current_user NOT IN ('anon', 'authenticated') THEN
+        RETURN NEW;
+    END IF;
+    IF TG_OP = 'INSERT' AND NEW.status IS DISTINCT FROM 'pending' THEN
+        RAISE EXCEPTION 'New sessions start as pending requests'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+        RAISE EXCEPTION 'Session status changes go through transitionSession'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_mentoring_session_status ON mentoring_sessions;
+CREATE TRIGGER guard_mentoring_session_status
+    BEFORE INSERT OR UPDATE OF status ON mentoring_sessions
+    FOR EACH ROW EXECUTE FUNCTION guard_session_status();
@@ -0,0 +1,71 @@
+-- Stale session sweep: pending requests the mentor never answered and booked
+-- sessions that ended without a call
+-- list_stale_sessions feeds the Firebase expireStaleSessionsScheduled job,
+-- which expires or settles each session through apply_session_transition
+-- (migration 020) as the 'system' actor.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- STALE SESSIONS
+-- ===========================================================================
+
+-- Returns up to p_limit sessions, oldest first:
+--   kind 'unaccepted': still pending and requested before p_accept_cutoff, or
+--     past its scheduled start
+--   kind 'no_show': booked (scheduled/accepted/confirmed), past its booked end
+--     and without a call that was picked up. Rings nobody answered tell who
+--     turned up: student_joined / mentor_joined is TRUE when that party placed
+--     a call for the session.
+-- Calls are call_logs rows whose call_id is the session id or the Agora
+-- channel name session_<id>.
+CREATE OR REPLACE FUNCTION list_stale_sessions(
+    p_now TIMESTAMP WITH TIME ZONE,
+    p_accept_cutoff TIMESTAMP WITH TIME ZONE,
+    p_limit INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+    session_id UUID,
+    kind TEXT,
+    student_joined BOOLEAN,
+    mentor_joined BOOLEAN
+) AS $$
+BEGIN
+    RETURN QUERY
+    (
+        SELECT s.id, 'unaccepted'::TEXT, FALSE, FALSE
+        FROM mentoring_sessions s
+        WHERE s.status = 'pending'
+          AND (s.created_at < p_accept_cutoff OR s.scheduled_time <= p_now)
+        ORDER BY s.scheduled_time, s.id
+        LIMIT p_limit
+    )
+    UNION ALL
+    (
+        SELECT s.id, 'no_show'::TEXT,
+            EXISTS (SELECT 1 FROM call_logs c
+                    WHERE c.call_id IN (s.id::TEXT, 'session_' || s.id::TEXT) AND c.caller_id = s.student_id),
+            EXISTS (SELECT 1 FROM call_logs c
+                    WHERE c.call_id IN (s.id::TEXT, 'session_' || s.id::TEXT)
+                      AND c.caller_id = ANY(mentor_schedule_ids(s.mentor_id)))
+        FROM mentoring_sessions s
+        WHERE s.status IN ('scheduled', 'accepted', 'confirmed')
+          AND s.scheduled_time + make_interval(mins => COALESCE(s.duration_minutes, 60)) <= p_now
+          AND NOT EXISTS (
+              SELECT 1 FROM call_logs c
+              WHERE c.call_id IN (s.id::TEXT, 'session_' || s.id::TEXT)
+                AND c.status IN ('accepted', 'ended')
+          )
+        ORDER BY s.scheduled_time, s.id
+        LIMIT p_limit
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION list_stale_sessions(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_mentoring_sessions_open_by_time
+    ON mentoring_sessions(scheduled_time, id) WHERE status IN ('pending', 'scheduled', 'accepted', 'confirmed');
@@ -0,0 +1,35 @@
+-- Verified call usage from Agora channel event notifications
+-- The Firebase handleAgoraWebhook endpoint stores each signed join/leave
+-- notification here. Completing a session bills the time the student and the
+-- mentor were in the channel together, instead of the durations clients
+-- report in call_logs.
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- PRESENCE EVENTS
+-- ===========================================================================
+
+CREATE TABLE IF NOT EXISTS call_presence_events (
+    -- Agora noticeId; redeliveries reuse it
+    notice_id TEXT PRIMARY KEY,
+    channel_name TEXT NOT NULL,
+    -- Parsed from channel_name (session_<id> or the bare id); NULL for other
+    -- channels. Not a foreign key: a notice is kept even if the session is gone.
+    session_id UUID,
+    -- 103/105 join, 104/106 leave (broadcaster/audience)
+    event_type SMALLINT NOT NULL,
+    agora_uid BIGINT NOT NULL,
+    -- Set when the client joined with a string user account
+    account TEXT,
+    -- Orders one uid's events that share a timestamp
+    client_seq BIGINT,
+    event_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_presence_events_session
+    ON call_presence_events(session_id, event_at) WHERE session_id IS NOT NULL;
+
+-- Written and read by server code (service role) only
+ALTER TABLE call_presence_events ENABLE ROW LEVEL SECURITY;
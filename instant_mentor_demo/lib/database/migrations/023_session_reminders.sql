@@ -0,0 +1,101 @@
+-- Session reminders before a booked session starts
+-- The session-reminders edge function runs on a schedule, claims the reminders
+-- that are due through claim_session_reminders and sends each one to the
+-- student and the mentor by push (send-notification) and email (send-email).
+-- Idempotent: safe to run more than once.
+
+-- ===========================================================================
+-- REMINDERS
+-- ===========================================================================
+
+-- One row per reminder claimed for sending. A reminder belongs to the start
+-- time it was computed for: rescheduling a session leaves the old rows behind
+-- and the new start time gets reminders of its own, and a session that is no
+-- longer booked gets none. The unique key is what keeps a reminder to one send.
+CREATE TABLE IF NOT EXISTS session_reminders (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES mentoring_sessions(id) ON DELETE CASCADE,
+    -- Minutes before the start, e.g. 1440, 60, 10
+    offset_minutes INTEGER NOT NULL CHECK (offset_minutes > 0),
+    scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+    -- processing → sent | failed, or cancelled when the session moved on
+    -- before it went out
+    status TEXT NOT NULL DEFAULT 'processing'
+        CHECK (status IN ('processing', 'sent', 'failed', 'cancelled')),
+    -- Per recipient and channel: 'sent', 'skipped' or the error
+    delivery JSONB NOT NULL DEFAULT '{}'::jsonb,
+    last_error TEXT,
+    claimed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE (session_id, offset_minutes, scheduled_for)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_reminders_status
+    ON session_reminders(status, claimed_at);
+
+-- Finds upcoming sessions quickly
+CREATE INDEX IF NOT EXISTS idx_mentoring_sessions_booked_start
+    ON mentoring_sessions(scheduled_time)
+    WHERE status IN ('scheduled', 'accepted', 'confirmed');
+
+-- Written and read by server code (service role) only
+ALTER TABLE session_reminders ENABLE ROW LEVEL SECURITY;
+
+-- ===========================================================================
+-- CLAIM
+-- ===========================================================================
+
+-- Claims up to p_limit due reminders and returns them with what the message
+-- needs. A booked session that has not started is due for the smallest offset
+-- whose time has come; larger offsets it is already past (a late booking, a
+-- missed run) are skipped rather than sent together. A reminder is claimed
+-- once: a second run, or a crashed one, never sends it again.
+CREATE OR REPLACE FUNCTION claim_session_reminders(
+    p_offsets INTEGER[],
+    p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    p_limit INTEGER DEFAULT 200
+)
+RETURNS TABLE (
+    reminder_id UUID,
+    session_id UUID,
+    offset_minutes INTEGER,
+    scheduled_time TIMESTAMP WITH TIME ZONE,
+    duration_minutes INTEGER,
+    subject TEXT,
+    student_id UUID,
+    mentor_user_id UUID
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH due AS (
+        SELECT s.id AS due_session_id, s.scheduled_time AS due_start,
+            (SELECT MIN(o) FROM unnest(p_offsets) AS o
+             WHERE o > 0 AND s.scheduled_time - make_interval(mins => o) <= p_now) AS due_offset
+        FROM mentoring_sessions s
+        WHERE s.status IN ('scheduled', 'accepted', 'confirmed')
+          AND s.scheduled_time > p_now
+          AND s.scheduled_time <= p_now + make_interval(mins => (SELECT MAX(o) FROM unnest(p_offsets) AS o))
+    ),
+    claimed AS (
+        INSERT INTO session_reminders (session_id, offset_minutes, scheduled_for)
+        SELECT d.due_session_id, d.due_offset, d.due_start
+        FROM due d
+        WHERE d.due_offset IS NOT NULL
+        ORDER BY d.due_start
+        LIMIT p_limit
+        ON CONFLICT ON CONSTRAINT session_reminders_session_id_offset_minutes_scheduled_for_key DO NOTHING
+        RETURNING session_reminders.id, session_reminders.session_id, session_reminders.offset_minutes
+    )
+    SELECT c.id, s.id, c.offset_minutes, s.scheduled_time, COALESCE(s.duration_minutes, 60), s.subject::TEXT,
+        s.student_id, COALESCE((mentor_schedule_ids(s.mentor_id))[1], s.mentor_id)
+    FROM claimed c
+    JOIN mentoring_sessions s ON s.id = c.session_id
+    ORDER BY s.scheduled_time, c.offset_minutes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DO $$
+BEGIN
+    REVOKE ALL ON FUNCTION claim_session_reminders(INTEGER[], TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+EXCEPTION WHEN undefined_object THEN NULL;
+END $$;
@@ -0,0 +1,86 @@
+// Caller resolution and per-user rate limits for the edge functions (see handler.ts).
+//
+// The bearer token is either the service role key (other functions, cron jobs)
+// or a user's Supabase access token, which is verified with auth.getUser. A
+// user's role is `admin` (is_admin), `mentor` (user_profiles.is_mentor) or
+// `student`. Rate limits count requests per user and function in fixed windows
+// (hit_rate_limit, migration 018_rate_limits.sql); service calls are not limited.
+
+import type { SupabaseClient, User } from 'https://esm.sh/@supabase/supabase-js@2'
+import { HttpError } from './http.ts'
+
+export type UserRole = 'admin' | 'mentor' | 'student'
+
+export interface UserCaller {
+  kind: 'user'
+  user: User
+  role: UserRole
+}
+
+export interface ServiceCaller {
+  kind: 'service'
+}
+
+export type Caller = UserCaller | ServiceCaller
+
+export function bearerToken(req: Request): string | null {
+  return req.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null
+}
+
+// Constant-time so the comparison does not leak how much of the key matched
+function sameSecret(a: string, b: string): boolean {
+  const x = new TextEncoder().encode(a)
+  const y = new TextEncoder().encode(b)
+  let diff = x.length ^ y.length
+  for (let i = 0; i < Math.max(x.length, y.length); i++) diff |= (x[i] ?? 0) ^ (y[i] ?? 0)
+  return diff === 0
+}
+
+export async function resolveCaller(supabase: SupabaseClient, token: string | null, serviceKey: string): Promise<Caller> {
+  if (!token) throw new HttpError(401, 'unauthorized', 'Missing bearer token')
+  if (serviceKey && sameSecret(token, serviceKey)) return { kind: 'service' }
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data?.user) throw new HttpError(401, 'unauthorized', 'Invalid or expired session')
+  const user = data.user
+
+  const [admin, profile] = await Promise.all([
+    supabase.rpc('is_admin', { p_uid: user.id }),
+    supabase.from('user_profiles').select('is_mentor').eq('id', user.id).maybeSingle(),
+  ])
+  if (admin.error) throw new Error(`is_admin failed: ${admin.error.message}`)
+  if (profile.error) throw new Error(`Profile lookup failed: ${profile.error.message}`)
+  const role: UserRole = admin.data === true ? 'admin' : profile.data?.is_mentor === true ? 'mentor' : 'student'
+  return { kind: 'user', user, role }
+}
+
+export interface RateLimit {
+  // Requests allowed per window
+  limit: number
+  windowSeconds: number
+}
+
+/**
+ * Counts a request against the caller's limit for `bucket`, throwing 429 when
+ * it is used up. A limiter failure is logged and the request let through:
+ * losing rate limiting briefly is better than failing payments.
+ */
+export async function enforceRateLimit(supabase: SupabaseClient, bucket: string, userId: string, rateLimit: RateLimit): Promise<void> {
+  const { data, error } = await supabase
+    .rpc('hit_rate_limit', {
+      p_bucket: `${bucket}:${userId}`,
+      p_limit: rateLimit.limit,
+      p_window_seconds: rateLimit.windowSeconds,
+    })
+    .single()
+  if (error || !data) {
+    console.error(`Rate limiter unavailable for ${bucket}:`, error?.message ?? 'no row returned')
+    return
+  }
+  const { allowed, retry_after_seconds: retryAfter } = data as { allowed: boolean; retry_after_seconds: number }
+  if (!allowed) {
+    throw new HttpError(429, 'rate_limited', 'Too many requests. Please wait before trying again.', { retryAfterSeconds: retryAfter }, {
+      'Retry-After': String(retryAfter),
+    })
+  }
+}
@@ -0,0 +1,74 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { bearerToken, enforceRateLimit, resolveCaller } from './auth.ts'
+import { HttpError } from './http.ts'
+
+const SERVICE_KEY = 'service-role-key'
+
+// Just enough of the client for resolveCaller and enforceRateLimit
+function fakeSupabase(options: {
+  users?: Record<string, string>
+  admins?: string[]
+  mentors?: string[]
+  rateLimit?: { data: unknown; error: unknown }
+}) {
+  const calls: Record<string, unknown>[] = []
+  const client = {
+    auth: {
+      getUser: (token: string) => {
+        const id = options.users?.[token]
+        return Promise.resolve(id ? { data: { user: { id } }, error: null } : { data: { user: null }, error: { message: 'invalid JWT' } })
+      },
+    },
+    rpc: (name: string, args: Record<string, unknown>) => {
+      calls.push({ name, ...args })
+      if (name === 'is_admin') return Promise.resolve({ data: options.admins?.includes(args.p_uid as string) ?? false, error: null })
+      return { single: () => Promise.resolve(options.rateLimit ?? { data: null, error: null }) }
+    },
+    from: () => ({
+      select: () => ({
+        eq: (_: string, id: string) => ({
+          maybeSingle: () => Promise.resolve({ data: { is_mentor: options.mentors?.includes(id) ?? false }, error: null }),
+        }),
+      }),
+    }),
+  }
+  return { supabase: client as unknown as SupabaseClient, calls }
+}
+
+Deno.test('reads the bearer token from the Authorization header', () => {
+  const req = (value?: string) => new Request('https://x.test', { headers: value ? { Authorization: value } : {} })
+  assertEquals(bearerToken(req('Bearer abc.def')), 'abc.def')
+  assertEquals(bearerToken(req('bearer abc')), 'abc')
+  assertEquals(bearerToken(req('Basic abc')), null)
+  assertEquals(bearerToken(req()), null)
+})
+
+Deno.test('resolves the service role, users and their roles', async () => {
+  const { supabase } = fakeSupabase({ users: { a: 'admin-1', m: 'mentor-1', s: 'student-1' }, admins: ['admin-1'], mentors: ['mentor-1'] })
+  assertEquals(await resolveCaller(supabase, SERVICE_KEY, SERVICE_KEY), { kind: 'service' })
+  assertEquals((await resolveCaller(supabase, 'a', SERVICE_KEY)) as unknown, { kind: 'user', user: { id: 'admin-1' }, role: 'admin' })
+  assertEquals((await resolveCaller(supabase, 'm', SERVICE_KEY)) as unknown, { kind: 'user', user: { id: 'mentor-1' }, role: 'mentor' })
+  assertEquals((await resolveCaller(supabase, 's', SERVICE_KEY)) as unknown, { kind: 'user', user: { id: 'student-1' }, role: 'student' })
+})
+
+Deno.test('rejects missing and invalid tokens with 401', async () => {
+  const { supabase } = fakeSupabase({ users: {} })
+  const missing = await assertRejects(() => resolveCaller(supabase, null, SERVICE_KEY), HttpError)
+  assertEquals((missing as HttpError).status, 401)
+  const invalid = await assertRejects(() => resolveCaller(supabase, 'service-role-kez', SERVICE_KEY), HttpError)
+  assertEquals((invalid as HttpError).code, 'unauthorized')
+})
+
+Deno.test('rate limits per function and user, failing open when the limiter is down', async () => {
+  const allowed = fakeSupabase({ rateLimit: { data: { allowed: true, hit_count: 1, retry_after_seconds: 60 }, error: null } })
+  await enforceRateLimit(allowed.supabase, 'process-payment', 'user-1', { limit: 10, windowSeconds: 60 })
+  assertEquals(allowed.calls, [{ name: 'hit_rate_limit', p_bucket: 'process-payment:user-1', p_limit: 10, p_window_seconds: 60 }])
+
+  const denied = fakeSupabase({ rateLimit: { data: { allowed: false, hit_count: 11, retry_after_seconds: 42 }, error: null } })
+  const err = await assertRejects(() => enforceRateLimit(denied.supabase, 'process-payment', 'user-1', { limit: 10, windowSeconds: 60 }), HttpError) as HttpError
+  assertEquals([err.status, err.code, err.details, err.headers], [429, 'rate_limited', { retryAfterSeconds: 42 }, { 'Retry-After': '42' }])
+
+  const down = fakeSupabase({ rateLimit: { data: null, error: { message: 'function hit_rate_limit does not exist' } } })
+  await enforceRateLimit(down.supabase, 'process-payment', 'user-1', { limit: 10, windowSeconds: 60 })
+})
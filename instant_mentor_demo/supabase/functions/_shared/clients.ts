@@ -0,0 +1,46 @@
+// Everything the edge functions reach outside their own code: configuration,
+// the service-role Supabase client, Stripe and plain HTTP (Razorpay, FCM,
+// SendGrid). Functions get these from clients() per request instead of creating
+// them at module load, so a test can install the fakes from testing.ts with
+// setClients() and run a handler with no network.
+
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import Stripe from 'https://esm.sh/stripe@14.21.0'
+
+export interface Clients {
+  env: (name: string) => string | undefined
+  supabase: (url: string, serviceKey: string) => SupabaseClient
+  stripe: (secretKey: string) => Stripe
+  fetch: typeof fetch
+}
+
+const stripeClients = new Map<string, Stripe>()
+
+const defaultClients: Clients = {
+  env: (name) => Deno.env.get(name),
+  supabase: (url, serviceKey) => createClient(url, serviceKey, { auth: { persistSession: false } }),
+  // One client per key for the life of the isolate
+  stripe: (secretKey) => {
+    let client = stripeClients.get(secretKey)
+    if (!client) {
+      client = new Stripe(secretKey, { apiVersion: '2023-10-16' })
+      stripeClients.set(secretKey, client)
+    }
+    return client
+  },
+  fetch: (input, init) => fetch(input, init),
+}
+
+let current = defaultClients
+
+export function clients(): Clients {
+  return current
+}
+
+export function setClients(next: Clients): void {
+  current = next
+}
+
+export function resetClients(): void {
+  current = defaultClients
+}
@@ -0,0 +1,177 @@
+// FCM HTTP v1 client (send-notification and notification-digest).
+//
+// Access tokens come from a Google service account (FCM_SERVICE_ACCOUNT, the
+// JSON key file contents, optionally base64-encoded): we sign an RS256 JWT
+// assertion and exchange it at the OAuth token endpoint. Tokens are cached
+// until shortly before they expire.
+
+export const FCM_SCOPE = 'https://www.googleapis.com/auth/firebase.messaging'
+const DEFAULT_TOKEN_URI = 'https://oauth2.googleapis.com/token'
+
+export interface ServiceAccount {
+  project_id: string
+  client_email: string
+  private_key: string
+  token_uri?: string
+}
+
+export class FcmConfigError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FcmConfigError'
+  }
+}
+
+/** Accepts the raw JSON key file or its base64 encoding. */
+export function parseServiceAccount(raw: string): ServiceAccount {
+  let parsed: Record<string, unknown>
+  try {
+    const text = raw.trim().startsWith('{') ? raw : atob(raw.trim())
+    parsed = JSON.parse(text)
+  } catch {
+    throw new FcmConfigError('FCM_SERVICE_ACCOUNT is not valid JSON')
+  }
+  for (const field of ['project_id', 'client_email', 'private_key']) {
+    if (typeof parsed[field] !== 'string' || !parsed[field]) {
+      throw new FcmConfigError(`FCM_SERVICE_ACCOUNT is missing ${field}`)
+    }
+  }
+  return parsed as unknown as ServiceAccount
+}
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const base64UrlJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)))
+
+async function importPrivateKey(pem: string): Promise<CryptoKey> {
+  const body = pem
+    .replace(/\\n/g, '\n')
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, '')
+    .replace(/\s+/g, '')
+  const der = Uint8Array.from(atob(body), (c) => c.charCodeAt(0))
+  return await crypto.subtle.importKey('pkcs8', der, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['sign'])
+}
+
+/** Signs the OAuth JWT-bearer assertion for the messaging scope. */
+export async function signAssertion(account: ServiceAccount, nowSeconds = Math.floor(Date.now() / 1000)): Promise<string> {
+  const header = base64UrlJson({ alg: 'RS256', typ: 'JWT' })
+  const claims = base64UrlJson({
+    iss: account.client_email,
+    scope: FCM_SCOPE,
+    aud: account.token_uri || DEFAULT_TOKEN_URI,
+    iat: nowSeconds,
+    exp: nowSeconds + 3600,
+  })
+  const key = await importPrivateKey(account.private_key)
+  const signature = await crypto.subtle.sign('RSASSA-PKCS1-v1_5', key, new TextEncoder().encode(`${header}.${claims}`))
+  return `${header}.${claims}.${base64Url(new Uint8Array(signature))}`
+}
+
+export class AccessTokenSource {
+  private cached: { token: string; expiresAt: number } | null = null
+
+  constructor(
+    private readonly account: ServiceAccount,
+    private readonly fetchFn: typeof fetch = fetch,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  async get(): Promise<string> {
+    // Refresh a minute early so a token never expires mid-batch
+    if (this.cached && this.cached.expiresAt - 60_000 > this.now()) return this.cached.token
+
+    const assertion = await signAssertion(this.account, Math.floor(this.now() / 1000))
+    const res = await this.fetchFn(this.account.token_uri || DEFAULT_TOKEN_URI, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer', assertion }).toString(),
+    })
+    if (!res.ok) {
+      throw new Error(`OAuth token exchange failed: ${res.status} - ${await res.text()}`)
+    }
+    const { access_token, expires_in } = await res.json()
+    this.cached = { token: access_token, expiresAt: this.now() + Number(expires_in ?? 3600) * 1000 }
+    return access_token
+  }
+}
+
+export interface PushContent {
+  title: string
+  body: string
+  // FCM v1 data values must be strings; anything else is JSON-encoded
+  data: Record<string, unknown>
+  clickAction?: string
+}
+
+export function buildMessage(token: string, content: PushContent) {
+  const data = Object.fromEntries(
+    Object.entries(content.data)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([key, value]) => [key, typeof value === 'string' ? value : JSON.stringify(value)]),
+  )
+  return {
+    message: {
+      token,
+      notification: { title: content.title, body: content.body },
+      data,
+      android: {
+        notification: {
+          icon: 'ic_notification',
+          sound: 'default',
+          click_action: content.clickAction || 'FLUTTER_NOTIFICATION_CLICK',
+        },
+      },
+      apns: { payload: { aps: { sound: 'default' } } },
+    },
+  }
+}
+
+export type SendOutcome =
+  | { ok: true; name: string }
+  // `prune`: the token will never work again and should be removed from the registry
+  | { ok: false; status: number; code: string; prune: boolean; message: string }
+
+/**
+ * Decides whether an FCM v1 error means the token is dead. UNREGISTERED and
+ * SENDER_ID_MISMATCH always do; INVALID_ARGUMENT only when FCM says the
+ * registration token itself is malformed (it is also used for bad payloads).
+ */
+export function classifyError(status: number, body: any): Extract<SendOutcome, { ok: false }> {
+  const error = body?.error ?? {}
+  const fcmDetail = (error.details ?? []).find((d: any) => String(d?.['@type'] ?? '').endsWith('google.firebase.fcm.v1.FcmError'))
+  const code = String(fcmDetail?.errorCode ?? error.status ?? status)
+  const message = String(error.message ?? '')
+  const invalidToken =
+    code === 'INVALID_ARGUMENT' &&
+    (/registration token/i.test(message) ||
+      (error.details ?? []).some((d: any) => (d?.fieldViolations ?? []).some((v: any) => v?.field === 'message.token')))
+  return { ok: false, status, code, message, prune: code === 'UNREGISTERED' || code === 'SENDER_ID_MISMATCH' || invalidToken }
+}
+
+export class FcmClient {
+  constructor(
+    private readonly projectId: string,
+    private readonly tokens: { get(): Promise<string> },
+    private readonly fetchFn: typeof fetch = fetch,
+  ) {}
+
+  async send(token: string, content: PushContent): Promise<SendOutcome> {
+    const res = await this.fetchFn(`https://fcm.googleapis.com/v1/projects/${this.projectId}/messages:send`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${await this.tokens.get()}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildMessage(token, content)),
+    })
+    if (res.ok) {
+      const { name } = await res.json()
+      return { ok: true, name }
+    }
+    let body: unknown = null
+    try {
+      body = await res.json()
+    } catch {
+      // non-JSON error page; classify by status only
+    }
+    return classifyError(res.status, body)
+  }
+}
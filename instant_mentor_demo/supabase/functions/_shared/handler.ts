@@ -0,0 +1,140 @@
+// Request pipeline shared by the edge functions:
+//   CORS (http.ts) → method → caller (auth.ts) → rate limit → body schema (validate.ts) → handler
+// The handler gets a service-role client, the resolved caller and the typed
+// body, returns the JSON success body, and throws HttpError for anything the
+// caller should see. Other errors are logged with the request id and become a
+// generic 500 (see http.ts for the envelope). Configuration and the client
+// come from clients.ts, so tests can run a handler against fakes.
+//
+//   export const handler = createHandler({ name: 'process-payment', auth: 'user', body: schema, rateLimit }, async ({ caller, body }) => {
+//     ...
+//     return { success: true }
+//   })
+//
+// Each function exports its handler from handler.ts; index.ts only serves it.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { bearerToken, type Caller, enforceRateLimit, type RateLimit, resolveCaller, type ServiceCaller, type UserCaller } from './auth.ts'
+import { clients } from './clients.ts'
+import { corsHeaders, errorEnvelope, HttpError, jsonResponse, parseAllowlist } from './http.ts'
+import { type Infer, type Schema, validate } from './validate.ts'
+
+// Who may call: end users, the service role, either, or anyone (the function
+// authenticates the request itself, e.g. a webhook signature)
+interface CallerByAuth {
+  user: UserCaller
+  service: ServiceCaller
+  user_or_service: UserCaller | ServiceCaller
+  none: null
+}
+export type AuthMode = keyof CallerByAuth
+
+export interface HandlerConfig<A extends AuthMode, S extends Schema | undefined> {
+  // Names the function in logs and rate limit buckets
+  name: string
+  auth: A
+  body?: S
+  rateLimit?: RateLimit
+  methods?: string[]
+  // Called for every failed request, e.g. to raise an admin alert
+  onError?: (error: unknown, context: ErrorContext) => Promise<void> | void
+}
+
+export interface RequestContext<C, B> {
+  req: Request
+  requestId: string
+  supabase: SupabaseClient
+  caller: C
+  body: B
+}
+
+export interface ErrorContext {
+  req: Request
+  requestId: string
+  supabase: SupabaseClient
+  caller: Caller | null
+}
+
+type BodyOf<S> = S extends Schema ? Infer<S> : undefined
+
+let allowlist: { raw: string | undefined; origins: ReturnType<typeof parseAllowlist> } | null = null
+
+function originAllowlist(raw: string | undefined) {
+  // A bad entry is a deployment error; every request fails until it is fixed
+  if (!allowlist || allowlist.raw !== raw) allowlist = { raw, origins: parseAllowlist(raw) }
+  return allowlist.origins
+}
+
+export function createHandler<A extends AuthMode, S extends Schema | undefined = undefined>(
+  config: HandlerConfig<A, S>,
+  handle: (context: RequestContext<CallerByAuth[A], BodyOf<S>>) => Promise<unknown>,
+): (req: Request) => Promise<Response> {
+  const methods = config.methods ?? ['POST']
+
+  return async (req) => {
+    const requestId = crypto.randomUUID()
+    let cors: Record<string, string> = {}
+    let caller: Caller | null = null
+    let supabase: SupabaseClient | null = null
+
+    const fail = async (error: unknown) => {
+      const { status, body } = errorEnvelope(error, requestId)
+      if (!(error instanceof HttpError)) console.error(`[${config.name}] ${requestId}`, error)
+      if (config.onError && supabase) {
+        try {
+          await config.onError(error, { req, requestId, supabase, caller })
+        } catch (hookError) {
+          console.error(`[${config.name}] ${requestId} onError failed`, hookError)
+        }
+      }
+      const headers = { ...cors, 'X-Request-Id': requestId, ...(error instanceof HttpError && error.headers) }
+      return jsonResponse(body, status, headers)
+    }
+
+    try {
+      const { env, supabase: connect } = clients()
+      const allowed = corsHeaders(req.headers.get('Origin'), originAllowlist(env('CORS_ALLOWED_ORIGINS')), methods)
+      if (!allowed) throw new HttpError(403, 'origin_not_allowed', 'Origin not allowed')
+      cors = allowed
+      if (req.method === 'OPTIONS') return new Response(null, { status: 204, headers: cors })
+      if (!methods.includes(req.method)) {
+        throw new HttpError(405, 'method_not_allowed', `Use ${methods.join(' or ')}`, undefined, { Allow: methods.join(', ') })
+      }
+
+      const supabaseUrl = env('SUPABASE_URL')
+      const serviceKey = env('SUPABASE_SERVICE_ROLE_KEY')
+      if (!supabaseUrl || !serviceKey) throw new Error('Supabase env not configured')
+      supabase = connect(supabaseUrl, serviceKey)
+
+      if (config.auth !== 'none') {
+        caller = await resolveCaller(supabase, bearerToken(req), serviceKey)
+        if (config.auth === 'user' && caller.kind !== 'user') {
+          throw new HttpError(403, 'forbidden', 'This function must be called with a user session')
+        }
+        if (config.auth === 'service' && caller.kind !== 'service') {
+          throw new HttpError(403, 'forbidden', 'This function is for internal use only')
+        }
+      }
+
+      if (config.rateLimit && caller?.kind === 'user') {
+        await enforceRateLimit(supabase, config.name, caller.user.id, config.rateLimit)
+      }
+
+      let body: unknown
+      if (config.body) {
+        let raw: unknown
+        try {
+          raw = await req.json()
+        } catch (_) {
+          throw new HttpError(400, 'invalid_request', 'Request body must be valid JSON')
+        }
+        body = validate(config.body, raw)
+      }
+
+      const result = await handle({ req, requestId, supabase, caller: caller as CallerByAuth[A], body: body as BodyOf<S> })
+      return jsonResponse(result, 200, { ...cors, 'X-Request-Id': requestId })
+    } catch (error) {
+      return await fail(error)
+    }
+  }
+}
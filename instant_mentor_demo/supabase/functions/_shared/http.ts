@@ -0,0 +1,112 @@
+// Error envelope and CORS policy shared by every edge function (see handler.ts).
+//
+// Failures are returned as
+//   { "error": { "code": "not_found", "message": "Session not found", "details": { ... } }, "requestId": "..." }
+// Only HttpError messages reach the client. Anything else thrown by a function
+// is logged under the request id and answered with a generic `internal` error.
+//
+// Browsers are only served for origins in CORS_ALLOWED_ORIGINS, a comma-separated
+// list set per environment (project secrets). An entry may use `*` for one host
+// label or the port: `https://*.instantmentor.app`, `http://localhost:*`.
+// Requests without an Origin header (the mobile apps, webhooks, cron) are not
+// subject to CORS.
+
+export type ErrorCode =
+  | 'invalid_request'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'origin_not_allowed'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'insufficient_funds'
+  | 'policy_violation'
+  | 'rate_limited'
+  | 'not_configured'
+  | 'internal'
+
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    // Safe to show to the caller; never put internal error text here
+    readonly details?: Record<string, unknown>,
+    readonly headers?: Record<string, string>,
+  ) {
+    super(message)
+  }
+}
+
+export interface ErrorEnvelope {
+  error: { code: ErrorCode; message: string; details?: Record<string, unknown> }
+  requestId: string
+}
+
+const INTERNAL_MESSAGE = 'Something went wrong. Please try again later.'
+
+/** The envelope for any thrown value; only HttpError text is passed through. */
+export function errorEnvelope(error: unknown, requestId: string): { status: number; body: ErrorEnvelope } {
+  if (error instanceof HttpError) {
+    return {
+      status: error.status,
+      body: {
+        error: { code: error.code, message: error.message, ...(error.details && { details: error.details }) },
+        requestId,
+      },
+    }
+  }
+  return { status: 500, body: { error: { code: 'internal', message: INTERNAL_MESSAGE }, requestId } }
+}
+
+export function jsonResponse(body: unknown, status: number, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), { status, headers: { ...headers, 'Content-Type': 'application/json' } })
+}
+
+// ---------------------------------------------------------------------------
+// CORS
+// ---------------------------------------------------------------------------
+
+export const ALLOWED_HEADERS = 'authorization, x-client-info, apikey, content-type'
+
+export type OriginAllowlist = RegExp[]
+
+const escapeRegExp = (s: string) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+
+export function parseAllowlist(raw: string | undefined): OriginAllowlist {
+  return (raw ?? '')
+    .split(',')
+    .map((entry) => entry.trim().replace(/\/+$/, '').toLowerCase())
+    .filter(Boolean)
+    .map((entry) => {
+      const [scheme, rest] = entry.split('://')
+      if (!rest) throw new Error(`Invalid CORS origin (expected scheme://host[:port]): ${entry}`)
+      const pattern = rest
+        .split('*')
+        .map(escapeRegExp)
+        // A wildcard covers a single host label or the port, never a path or another dot
+        .join('[a-z0-9-]+')
+      return new RegExp(`^${escapeRegExp(scheme)}://${pattern}$`)
+    })
+}
+
+export function isOriginAllowed(origin: string, allowlist: OriginAllowlist): boolean {
+  const normalized = origin.toLowerCase()
+  return allowlist.some((pattern) => pattern.test(normalized))
+}
+
+/**
+ * Headers granting `origin` access, or null when it is not allowed. Requests
+ * without an Origin get no CORS headers at all.
+ */
+export function corsHeaders(origin: string | null, allowlist: OriginAllowlist, methods: string[]): Record<string, string> | null {
+  if (!origin) return {}
+  if (!isOriginAllowed(origin, allowlist)) return null
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Allow-Methods': [...methods, 'OPTIONS'].join(', '),
+    'Access-Control-Max-Age': '600',
+    Vary: 'Origin',
+  }
+}
@@ -0,0 +1,41 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { corsHeaders, errorEnvelope, HttpError, isOriginAllowed, parseAllowlist } from './http.ts'
+
+Deno.test('HttpError messages and details reach the caller', () => {
+  const { status, body } = errorEnvelope(new HttpError(402, 'insufficient_funds', 'Insufficient wallet balance', { balance: 10 }), 'req-1')
+  assertEquals(status, 402)
+  assertEquals(body, { error: { code: 'insufficient_funds', message: 'Insufficient wallet balance', details: { balance: 10 } }, requestId: 'req-1' })
+})
+
+Deno.test('other errors become a generic internal error', () => {
+  const { status, body } = errorEnvelope(new Error('relation "payment_transactions" does not exist'), 'req-2')
+  assertEquals(status, 500)
+  assertEquals(body.error.code, 'internal')
+  assertEquals(body.error.message.includes('payment_transactions'), false)
+  assertEquals('details' in body.error, false)
+  assertEquals(errorEnvelope('boom', 'req-3').status, 500)
+})
+
+Deno.test('allowlist entries match exact origins and single-label wildcards', () => {
+  const allowlist = parseAllowlist(' https://app.instantmentor.app/, https://*.instantmentor.app ,http://localhost:*')
+  assertEquals(isOriginAllowed('https://app.instantmentor.app', allowlist), true)
+  assertEquals(isOriginAllowed('https://Admin.InstantMentor.app', allowlist), true)
+  assertEquals(isOriginAllowed('http://localhost:5173', allowlist), true)
+  assertEquals(isOriginAllowed('https://evil.com/.instantmentor.app', allowlist), false)
+  assertEquals(isOriginAllowed('https://a.b.instantmentor.app', allowlist), false)
+  assertEquals(isOriginAllowed('https://instantmentor.app.evil.com', allowlist), false)
+  assertEquals(isOriginAllowed('http://app.instantmentor.app', allowlist), false)
+  assertEquals(parseAllowlist(undefined), [])
+  assertThrows(() => parseAllowlist('instantmentor.app'))
+})
+
+Deno.test('CORS headers are only granted to allowed origins', () => {
+  const allowlist = parseAllowlist('https://app.instantmentor.app')
+  assertEquals(corsHeaders(null, allowlist, ['POST']), {})
+  assertEquals(corsHeaders('https://other.app', allowlist, ['POST']), null)
+  assertEquals(corsHeaders('https://other.app', [], ['POST']), null)
+  const headers = corsHeaders('https://app.instantmentor.app', allowlist, ['POST'])!
+  assertEquals(headers['Access-Control-Allow-Origin'], 'https://app.instantmentor.app')
+  assertEquals(headers['Access-Control-Allow-Methods'], 'POST, OPTIONS')
+  assertEquals(headers.Vary, 'Origin')
+})
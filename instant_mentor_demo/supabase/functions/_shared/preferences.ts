@@ -0,0 +1,132 @@
+// Notification preferences, shared by send-notification, send-email and
+// notification-digest.
+//
+// Each category (sessions, payments, chat, marketing) can be switched on or off
+// per channel (push, email, in_app). Missing settings fall back to
+// DEFAULT_CHANNELS. Quiet hours are local wall-clock times in the user's time
+// zone (user_profiles.timezone). Push arriving during them is deferred until
+// they end. Low-priority categories never go out one by one on push or email:
+// they are collected into a digest sent at `digestHour` local time. In-app
+// notifications are passive and ignore both quiet hours and the digest.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { addDays, isValidTimeZone, localTime, parseTime, zonedTime } from './time.ts'
+
+export const CATEGORIES = ['sessions', 'payments', 'chat', 'marketing'] as const
+export type Category = typeof CATEGORIES[number]
+
+export const CHANNELS = ['push', 'email', 'in_app'] as const
+export type Channel = typeof CHANNELS[number]
+
+export type Priority = 'high' | 'normal' | 'low'
+
+export const CATEGORY_PRIORITY: Record<Category, Priority> = {
+  sessions: 'high',
+  payments: 'high',
+  chat: 'normal',
+  marketing: 'low',
+}
+
+export const DEFAULT_CHANNELS: Record<Category, Record<Channel, boolean>> = {
+  sessions: { push: true, email: true, in_app: true },
+  payments: { push: true, email: true, in_app: true },
+  chat: { push: true, email: false, in_app: true },
+  marketing: { push: false, email: true, in_app: true },
+}
+
+export const DEFAULT_DIGEST_HOUR = 18
+
+export interface NotificationPreferences {
+  timeZone: string
+  channels: Record<Category, Record<Channel, boolean>>
+  // Minutes after local midnight; end < start wraps past midnight
+  quietHours: { start: number; end: number } | null
+  digestHour: number
+}
+
+/** A notification_preferences row (any column may be missing). */
+export interface PreferencesRow {
+  channels?: unknown
+  quiet_hours_start?: string | null
+  quiet_hours_end?: string | null
+  digest_hour?: number | null
+}
+
+export type Delivery =
+  | { action: 'send' }
+  | { action: 'skip' }
+  | { action: 'defer'; until: Date }
+  | { action: 'digest'; until: Date }
+
+export function parseCategory(value: unknown): Category | null {
+  return (CATEGORIES as readonly unknown[]).includes(value) ? value as Category : null
+}
+
+export function resolvePreferences(row: PreferencesRow | null, timeZone?: string | null): NotificationPreferences {
+  const stored = row?.channels && typeof row.channels === 'object' ? row.channels as Record<string, Record<string, unknown>> : {}
+  const channels = Object.fromEntries(
+    CATEGORIES.map((category) => [
+      category,
+      Object.fromEntries(
+        CHANNELS.map((channel) => {
+          const value = stored[category]?.[channel]
+          return [channel, typeof value === 'boolean' ? value : DEFAULT_CHANNELS[category][channel]]
+        }),
+      ),
+    ]),
+  ) as NotificationPreferences['channels']
+
+  const start = parseTime(row?.quiet_hours_start)
+  const end = parseTime(row?.quiet_hours_end)
+  const digestHour = Number.isInteger(row?.digest_hour) && row!.digest_hour! >= 0 && row!.digest_hour! < 24
+    ? row!.digest_hour!
+    : DEFAULT_DIGEST_HOUR
+
+  return {
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC',
+    channels,
+    quietHours: start !== null && end !== null && start !== end ? { start, end } : null,
+    digestHour,
+  }
+}
+
+// The next instant (strictly after `now`) at which local time reads `minutes`
+function nextLocal(timeZone: string, minutes: number, now: Date): Date {
+  const local = localTime(timeZone, now.getTime())
+  const day = addDays(local, local.minutes < minutes ? 0 : 1)
+  return zonedTime(timeZone, day.year, day.month, day.day, minutes)
+}
+
+/** When the current quiet period ends, or null outside quiet hours. */
+export function quietHoursEnd(prefs: NotificationPreferences, now = new Date()): Date | null {
+  if (!prefs.quietHours) return null
+  const { start, end } = prefs.quietHours
+  const minutes = localTime(prefs.timeZone, now.getTime()).minutes
+  const quiet = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+  return quiet ? nextLocal(prefs.timeZone, end, now) : null
+}
+
+export function nextDigestAt(prefs: NotificationPreferences, now = new Date()): Date {
+  return nextLocal(prefs.timeZone, prefs.digestHour * 60, now)
+}
+
+export function decideDelivery(prefs: NotificationPreferences, category: Category, channel: Channel, now = new Date()): Delivery {
+  if (!prefs.channels[category][channel]) return { action: 'skip' }
+  if (channel === 'in_app') return { action: 'send' }
+  if (CATEGORY_PRIORITY[category] === 'low') return { action: 'digest', until: nextDigestAt(prefs, now) }
+  if (channel === 'push') {
+    const until = quietHoursEnd(prefs, now)
+    if (until) return { action: 'defer', until }
+  }
+  return { action: 'send' }
+}
+
+/** Loads a user's preferences; users without a row get the defaults. */
+export async function loadPreferences(supabase: SupabaseClient, userId: string): Promise<NotificationPreferences> {
+  const [{ data: row, error }, { data: profile }] = await Promise.all([
+    supabase.from('notification_preferences').select('channels, quiet_hours_start, quiet_hours_end, digest_hour').eq('user_id', userId).maybeSingle(),
+    supabase.from('user_profiles').select('timezone').eq('id', userId).maybeSingle(),
+  ])
+  if (error) throw new Error(`Failed to load notification preferences: ${error.message}`)
+  return resolvePreferences(row, profile?.timezone)
+}
@@ -0,0 +1,56 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { decideDelivery, nextDigestAt, parseCategory, quietHoursEnd, resolvePreferences } from './preferences.ts'
+
+Deno.test('fills missing settings from the defaults', () => {
+  const prefs = resolvePreferences({ channels: { marketing: { email: false }, chat: { email: 'yes' } } }, 'Nowhere/City')
+  assertEquals(prefs.timeZone, 'UTC')
+  assertEquals(prefs.channels.marketing, { push: false, email: false, in_app: true })
+  assertEquals(prefs.channels.chat.email, false)
+  assertEquals(prefs.channels.sessions, { push: true, email: true, in_app: true })
+  assertEquals(prefs.quietHours, null)
+  assertEquals(prefs.digestHour, 18)
+  assertEquals(resolvePreferences({ quiet_hours_start: '22:00:00', quiet_hours_end: '22:00' }).quietHours, null)
+  assertEquals(parseCategory('chat'), 'chat')
+  assertEquals(parseCategory('billing'), null)
+})
+
+// 22:00-07:00 in Kolkata (UTC+5:30) is 16:30-01:30 UTC
+const kolkata = resolvePreferences({ quiet_hours_start: '22:00', quiet_hours_end: '07:00' }, 'Asia/Kolkata')
+
+Deno.test('quiet hours wrap past midnight in the user time zone', () => {
+  assertEquals(quietHoursEnd(kolkata, new Date('2025-03-01T16:00:00Z')), null)
+  assertEquals(quietHoursEnd(kolkata, new Date('2025-03-01T17:00:00Z'))?.toISOString(), '2025-03-02T01:30:00.000Z')
+  assertEquals(quietHoursEnd(kolkata, new Date('2025-03-01T23:00:00Z'))?.toISOString(), '2025-03-02T01:30:00.000Z')
+  assertEquals(quietHoursEnd(kolkata, new Date('2025-03-02T01:30:00Z')), null)
+})
+
+Deno.test('quiet hours end at local time across a DST change', () => {
+  // New York springs forward on 2025-03-09: 07:00 local is 12:00Z the day before and 11:00Z that morning
+  const ny = resolvePreferences({ quiet_hours_start: '22:00', quiet_hours_end: '07:00' }, 'America/New_York')
+  assertEquals(quietHoursEnd(ny, new Date('2025-03-08T04:00:00Z'))?.toISOString(), '2025-03-08T12:00:00.000Z')
+  assertEquals(quietHoursEnd(ny, new Date('2025-03-09T04:00:00Z'))?.toISOString(), '2025-03-09T11:00:00.000Z')
+  // A window that does not wrap
+  const day = resolvePreferences({ quiet_hours_start: '13:00', quiet_hours_end: '14:00' }, 'America/New_York')
+  assertEquals(quietHoursEnd(day, new Date('2025-07-01T17:30:00Z'))?.toISOString(), '2025-07-01T18:00:00.000Z')
+  assertEquals(quietHoursEnd(day, new Date('2025-07-01T18:30:00Z')), null)
+})
+
+Deno.test('digests go out at the next local digest hour', () => {
+  const prefs = resolvePreferences({ digest_hour: 9 }, 'Asia/Kolkata')
+  assertEquals(nextDigestAt(prefs, new Date('2025-03-01T02:00:00Z')).toISOString(), '2025-03-01T03:30:00.000Z')
+  assertEquals(nextDigestAt(prefs, new Date('2025-03-01T03:30:00Z')).toISOString(), '2025-03-02T03:30:00.000Z')
+  // Month rollover
+  assertEquals(nextDigestAt(prefs, new Date('2025-03-31T10:00:00Z')).toISOString(), '2025-04-01T03:30:00.000Z')
+})
+
+Deno.test('decides per channel: off, in-app, digest, quiet-hours deferral', () => {
+  const night = new Date('2025-03-01T17:00:00Z')
+  const prefs = resolvePreferences({ quiet_hours_start: '22:00', quiet_hours_end: '07:00', channels: { chat: { push: false } } }, 'Asia/Kolkata')
+  assertEquals(decideDelivery(prefs, 'chat', 'push', night), { action: 'skip' })
+  assertEquals(decideDelivery(prefs, 'sessions', 'in_app', night), { action: 'send' })
+  assertEquals(decideDelivery(prefs, 'sessions', 'email', night), { action: 'send' })
+  assertEquals(decideDelivery(prefs, 'sessions', 'push', night), { action: 'defer', until: new Date('2025-03-02T01:30:00Z') })
+  assertEquals(decideDelivery(prefs, 'sessions', 'push', new Date('2025-03-01T06:00:00Z')), { action: 'send' })
+  assertEquals(decideDelivery(prefs, 'marketing', 'email', night), { action: 'digest', until: new Date('2025-03-02T12:30:00Z') })
+  assertEquals(decideDelivery(prefs, 'marketing', 'in_app', night), { action: 'send' })
+})
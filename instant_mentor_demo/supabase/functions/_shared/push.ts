@@ -0,0 +1,77 @@
+// Push delivery to a user's registered devices (user_devices), shared by
+// send-notification and notification-digest. Tokens FCM reports as dead are
+// deleted. Failures are logged, never thrown: callers have already stored
+// whatever the push is about.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { clients, type Clients } from './clients.ts'
+import { AccessTokenSource, FcmClient, parseServiceAccount, type PushContent } from './fcm.ts'
+
+export interface PushSummary {
+  sent: number
+  failed: number
+  pruned: number
+}
+
+// One client (and cached access token) per set of clients, i.e. per isolate outside tests
+const fcmClients = new WeakMap<Clients, FcmClient>()
+
+function fcmClient(): FcmClient | null {
+  const current = clients()
+  const cached = fcmClients.get(current)
+  if (cached) return cached
+  const { env, fetch } = current
+  const raw = env('FCM_SERVICE_ACCOUNT')
+  if (!raw) {
+    console.warn('FCM_SERVICE_ACCOUNT not configured; skipping push')
+    return null
+  }
+  let account
+  try {
+    account = parseServiceAccount(raw)
+  } catch (err) {
+    console.error('Invalid FCM configuration:', err)
+    return null
+  }
+  const fcm = new FcmClient(env('FCM_PROJECT_ID') || account.project_id, new AccessTokenSource(account, fetch), fetch)
+  fcmClients.set(current, fcm)
+  return fcm
+}
+
+export async function pushToDevices(supabase: SupabaseClient, userId: string, content: PushContent): Promise<PushSummary> {
+  const client = fcmClient()
+  if (!client) {
+    return { sent: 0, failed: 0, pruned: 0 }
+  }
+
+  const { data: devices, error } = await supabase.from('user_devices').select('token').eq('user_id', userId)
+  if (error) {
+    console.error('Failed to load devices:', error)
+    return { sent: 0, failed: 0, pruned: 0 }
+  }
+
+  const outcomes = await Promise.all(
+    (devices ?? []).map(async ({ token }) => {
+      try {
+        return { token, outcome: await client.send(token, content) }
+      } catch (err) {
+        console.error('FCM request failed:', err)
+        return { token, outcome: null }
+      }
+    }),
+  )
+
+  const dead = outcomes.filter(({ outcome }) => outcome && !outcome.ok && outcome.prune).map(({ token }) => token)
+  for (const { outcome } of outcomes) {
+    if (outcome && !outcome.ok && !outcome.prune) console.error(`FCM send failed: ${outcome.code} ${outcome.message}`)
+  }
+  let pruned = 0
+  if (dead.length > 0) {
+    const { error: pruneError } = await supabase.from('user_devices').delete().in('token', dead)
+    if (pruneError) console.error('Failed to prune device tokens:', pruneError)
+    else pruned = dead.length
+  }
+
+  const sent = outcomes.filter(({ outcome }) => outcome?.ok).length
+  return { sent, failed: outcomes.length - sent, pruned }
+}
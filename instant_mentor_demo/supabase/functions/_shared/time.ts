@@ -0,0 +1,80 @@
+// Local wall-clock time in IANA time zones, shared by notification quiet hours
+// (preferences.ts) and mentor availability (mentor-slots). Offsets come from
+// Intl, so DST follows the runtime's time zone database.
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en', { timeZone })
+    return true
+  } catch (_) {
+    return false
+  }
+}
+
+// 'HH:MM' or 'HH:MM:SS' (Postgres TIME) → minutes after midnight
+export function parseTime(value: string | null | undefined): number | null {
+  const match = /^(\d{2}):(\d{2})(?::\d{2})?$/.exec(value ?? '')
+  if (!match) return null
+  const minutes = Number(match[1]) * 60 + Number(match[2])
+  return minutes < 24 * 60 ? minutes : null
+}
+
+export interface LocalDate {
+  year: number
+  month: number
+  day: number
+}
+
+export interface LocalTime extends LocalDate {
+  minutes: number
+}
+
+export function localTime(timeZone: string, instant: number): LocalTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric',
+    }).formatToParts(new Date(instant)).map((p) => [p.type, p.value]),
+  )
+  return { year: Number(parts.year), month: Number(parts.month), day: Number(parts.day), minutes: Number(parts.hour) * 60 + Number(parts.minute) }
+}
+
+// Converts a local wall-clock time to an instant. The offset is looked up at
+// the result, so days with a DST change land on the right hour. A time skipped
+// by a spring-forward gap comes out an hour later.
+export function zonedTime(timeZone: string, year: number, month: number, day: number, minutes: number): Date {
+  const wall = Date.UTC(year, month - 1, day, 0, minutes)
+  const offsetAt = (instant: number) => {
+    const local = localTime(timeZone, instant)
+    return Date.UTC(local.year, local.month - 1, local.day, 0, local.minutes) - Math.floor(instant / 60_000) * 60_000
+  }
+  const reads = (instant: number) => offsetAt(instant) === wall - instant
+  const first = wall - offsetAt(wall)
+  const second = wall - offsetAt(first)
+  if (reads(second)) return new Date(second)
+  if (reads(first)) return new Date(first)
+  return new Date(Math.max(first, second))
+}
+
+// Calendar arithmetic on a UTC date avoids month/year rollover bugs
+export function addDays(date: LocalDate, days: number): LocalDate {
+  const d = new Date(Date.UTC(date.year, date.month - 1, date.day + days))
+  return { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate() }
+}
+
+/** 0 = Monday … 6 = Sunday. */
+export function weekday(date: LocalDate): number {
+  return (new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay() + 6) % 7
+}
+
+/** 'YYYY-MM-DD', or null when it is not a calendar date. */
+export function parseDate(value: string): LocalDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return null
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+  const check = addDays(date, 0)
+  return check.year === date.year && check.month === date.month && check.day === date.day ? date : null
+}
+
+export function formatDate(date: LocalDate): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`
+}
@@ -0,0 +1,29 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { addDays, formatDate, parseDate, weekday, zonedTime } from './time.ts'
+
+const iso = (d: Date) => d.toISOString()
+
+Deno.test('converts wall-clock times across DST changes', () => {
+  // New York: EST (-5) until 2025-03-09 02:00, EDT (-4) after
+  assertEquals(iso(zonedTime('America/New_York', 2025, 3, 8, 9 * 60)), '2025-03-08T14:00:00.000Z')
+  assertEquals(iso(zonedTime('America/New_York', 2025, 3, 9, 9 * 60)), '2025-03-09T13:00:00.000Z')
+  // Berlin: CET (+1) until 2025-03-30 02:00, CEST (+2) after
+  assertEquals(iso(zonedTime('Europe/Berlin', 2025, 3, 29, 9 * 60)), '2025-03-29T08:00:00.000Z')
+  assertEquals(iso(zonedTime('Europe/Berlin', 2025, 3, 30, 9 * 60)), '2025-03-30T07:00:00.000Z')
+  assertEquals(iso(zonedTime('Asia/Kolkata', 2025, 3, 30, 9 * 60 + 30)), '2025-03-30T04:00:00.000Z')
+})
+
+Deno.test('moves times skipped by spring-forward an hour later', () => {
+  // 02:30 does not exist on these days
+  assertEquals(iso(zonedTime('America/New_York', 2025, 3, 9, 2 * 60 + 30)), '2025-03-09T07:30:00.000Z')
+  assertEquals(iso(zonedTime('Europe/Berlin', 2025, 3, 30, 2 * 60 + 30)), '2025-03-30T01:30:00.000Z')
+})
+
+Deno.test('parses and steps calendar dates', () => {
+  assertEquals(parseDate('2024-02-29'), { year: 2024, month: 2, day: 29 })
+  assertEquals(parseDate('2025-02-29'), null)
+  assertEquals(parseDate('2025-1-01'), null)
+  assertEquals(formatDate(addDays({ year: 2024, month: 12, day: 31 }, 1)), '2025-01-01')
+  assertEquals(weekday({ year: 2025, month: 3, day: 10 }), 0)
+  assertEquals(weekday({ year: 2025, month: 3, day: 9 }), 6)
+})
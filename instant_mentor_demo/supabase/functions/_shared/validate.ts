@@ -0,0 +1,183 @@
+// Declarative request body schemas for the edge functions.
+//
+//   const schema = {
+//     sessionId: v.uuid(),
+//     amount: v.optional(v.number({ min: 0 })),
+//     role: v.optional(v.oneOf(['publisher', 'subscriber'] as const), 'publisher'),
+//   }
+//   const body = validate(schema, await req.json())   // typed from the schema
+//
+// Every field is checked and all problems are reported together as one 400
+// `invalid_request` error listing them in details.fields. null counts as
+// absent, so optional fields may be sent as null. Keys the schema does not
+// name are ignored.
+
+import { HttpError } from './http.ts'
+
+export interface Field<T> {
+  readonly optional: boolean
+  // Returns the parsed value or throws FieldError
+  parse(value: unknown): T
+}
+
+export class FieldError extends Error {}
+
+export type Schema = Record<string, Field<unknown>>
+
+export type Infer<S extends Schema> = { [K in keyof S]: S[K] extends Field<infer T> ? T : never }
+
+export interface FieldIssue {
+  field: string
+  message: string
+}
+
+const required = <T>(parse: (value: unknown) => T): Field<T> => ({ optional: false, parse })
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const EMAIL_RE = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/
+
+interface StringOptions {
+  minLength?: number
+  maxLength?: number
+  pattern?: RegExp
+  // Used when `pattern` does not match
+  description?: string
+}
+
+interface NumberOptions {
+  min?: number
+  max?: number
+}
+
+function checkRange(value: number, { min, max }: NumberOptions): number {
+  if (min !== undefined && value < min) throw new FieldError(`must be at least ${min}`)
+  if (max !== undefined && value > max) throw new FieldError(`must be at most ${max}`)
+  return value
+}
+
+export const v = {
+  string: (options: StringOptions = {}): Field<string> =>
+    required((value) => {
+      if (typeof value !== 'string') throw new FieldError('must be a string')
+      const trimmed = value.trim()
+      if (trimmed.length === 0) throw new FieldError('must not be empty')
+      if (options.minLength !== undefined && trimmed.length < options.minLength) {
+        throw new FieldError(`must be at least ${options.minLength} characters`)
+      }
+      if (options.maxLength !== undefined && trimmed.length > options.maxLength) {
+        throw new FieldError(`must be at most ${options.maxLength} characters`)
+      }
+      if (options.pattern && !options.pattern.test(trimmed)) throw new FieldError(`must be ${options.description ?? 'well formed'}`)
+      return trimmed
+    }),
+
+  uuid: (): Field<string> => v.string({ pattern: UUID_RE, description: 'a UUID' }),
+
+  email: (): Field<string> => v.string({ maxLength: 254, pattern: EMAIL_RE, description: 'an email address' }),
+
+  number: (options: NumberOptions = {}): Field<number> =>
+    required((value) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw new FieldError('must be a number')
+      return checkRange(value, options)
+    }),
+
+  integer: (options: NumberOptions = {}): Field<number> =>
+    required((value) => {
+      if (typeof value !== 'number' || !Number.isInteger(value)) throw new FieldError('must be an integer')
+      return checkRange(value, options)
+    }),
+
+  boolean: (): Field<boolean> =>
+    required((value) => {
+      if (typeof value !== 'boolean') throw new FieldError('must be true or false')
+      return value
+    }),
+
+  oneOf: <T extends string>(values: readonly T[]): Field<T> =>
+    required((value) => {
+      if (typeof value !== 'string' || !(values as readonly string[]).includes(value)) {
+        throw new FieldError(`must be one of: ${values.join(', ')}`)
+      }
+      return value as T
+    }),
+
+  array: <T>(item: Field<T>, options: { maxItems?: number } = {}): Field<T[]> =>
+    required((value) => {
+      if (!Array.isArray(value)) throw new FieldError('must be a list')
+      if (options.maxItems !== undefined && value.length > options.maxItems) {
+        throw new FieldError(`must have at most ${options.maxItems} items`)
+      }
+      return value.map((entry, i) => {
+        try {
+          return item.parse(entry)
+        } catch (err) {
+          if (err instanceof FieldError) throw new FieldError(`item ${i + 1} ${err.message}`)
+          throw err
+        }
+      })
+    }),
+
+  // A JSON object whose contents the function checks itself (template variables, push data)
+  object: (): Field<Record<string, unknown>> =>
+    required((value) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new FieldError('must be an object')
+      return value as Record<string, unknown>
+    }),
+
+  // The first of several alternatives that accepts the value
+  either: <A, B>(a: Field<A>, b: Field<B>, description: string): Field<A | B> =>
+    required((value) => {
+      try {
+        return a.parse(value)
+      } catch (err) {
+        if (!(err instanceof FieldError)) throw err
+      }
+      try {
+        return b.parse(value)
+      } catch (err) {
+        if (!(err instanceof FieldError)) throw err
+      }
+      throw new FieldError(`must be ${description}`)
+    }),
+
+  // A field callers must not send, e.g. one an older API version accepted
+  unsupported: (message: string): Field<undefined> => ({
+    optional: true,
+    parse: (value) => {
+      if (value !== undefined && value !== null) throw new FieldError(message)
+      return undefined
+    },
+  }),
+
+  optional: <T, D extends T | undefined = undefined>(field: Field<T>, fallback?: D): Field<T | D> => ({
+    optional: true,
+    parse: (value) => (value === undefined || value === null ? fallback as D : field.parse(value)),
+  }),
+}
+
+/** Checks `input` against `schema`, throwing a 400 HttpError that lists every problem. */
+export function validate<S extends Schema>(schema: S, input: unknown): Infer<S> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    throw new HttpError(400, 'invalid_request', 'Request body must be a JSON object')
+  }
+  const body = input as Record<string, unknown>
+  const issues: FieldIssue[] = []
+  const result: Record<string, unknown> = {}
+  for (const [name, field] of Object.entries(schema)) {
+    const value = Object.hasOwn(body, name) ? body[name] : undefined
+    if (!field.optional && (value === undefined || value === null)) {
+      issues.push({ field: name, message: 'is required' })
+      continue
+    }
+    try {
+      result[name] = field.parse(value)
+    } catch (err) {
+      if (!(err instanceof FieldError)) throw err
+      issues.push({ field: name, message: err.message })
+    }
+  }
+  if (issues.length > 0) {
+    throw new HttpError(400, 'invalid_request', issues.map((i) => `${i.field} ${i.message}`).join('; '), { fields: issues })
+  }
+  return result as Infer<S>
+}
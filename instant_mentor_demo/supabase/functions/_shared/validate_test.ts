@@ -0,0 +1,60 @@
+import { assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { HttpError } from './http.ts'
+import { type Schema, v, validate } from './validate.ts'
+
+const schema = {
+  sessionId: v.uuid(),
+  amount: v.optional(v.number({ min: 0 })),
+  role: v.optional(v.oneOf(['publisher', 'subscriber'] as const), 'publisher'),
+  uid: v.optional(v.either(v.integer({ min: 1 }), v.uuid(), 'a numeric uid or a user id')),
+  cc: v.optional(v.array(v.email(), { maxItems: 2 })),
+  html: v.unsupported('is not accepted'),
+}
+
+const SESSION = '2f1b6a52-6a43-4c7e-9a0b-0f4a7d1c2e3f'
+
+function issues(s: Schema, input: unknown) {
+  try {
+    validate(s, input)
+  } catch (err) {
+    if (err instanceof HttpError) return { status: err.status, code: err.code, fields: err.details?.fields }
+    throw err
+  }
+  return null
+}
+
+Deno.test('parses a valid body, applying defaults and ignoring unknown keys', () => {
+  const body = validate(schema, { sessionId: ` ${SESSION} `, amount: 12.5, uid: 42, paymentMethod: null, cc: null })
+  assertEquals(body, { sessionId: SESSION, amount: 12.5, role: 'publisher', uid: 42, cc: undefined, html: undefined })
+  assertEquals(validate(schema, { sessionId: SESSION, uid: SESSION }).uid, SESSION)
+})
+
+Deno.test('reports every invalid field at once', () => {
+  assertEquals(issues(schema, { amount: -1, role: 'host', uid: 'me', cc: ['a@b.co', 'nope'], html: '<p>' }), {
+    status: 400,
+    code: 'invalid_request',
+    fields: [
+      { field: 'sessionId', message: 'is required' },
+      { field: 'amount', message: 'must be at least 0' },
+      { field: 'role', message: 'must be one of: publisher, subscriber' },
+      { field: 'uid', message: 'must be a numeric uid or a user id' },
+      { field: 'cc', message: 'item 2 must be an email address' },
+      { field: 'html', message: 'is not accepted' },
+    ],
+  })
+})
+
+Deno.test('rejects wrong types, blank strings and non-object bodies', () => {
+  const s = { name: v.string({ maxLength: 3 }), count: v.integer(), on: v.boolean(), data: v.object() }
+  assertEquals(issues(s, { name: '  ', count: 1.5, on: 'true', data: [] })?.fields, [
+    { field: 'name', message: 'must not be empty' },
+    { field: 'count', message: 'must be an integer' },
+    { field: 'on', message: 'must be true or false' },
+    { field: 'data', message: 'must be an object' },
+  ])
+  assertEquals(issues(s, { name: 'long', count: 1, on: true, data: {} })?.fields, [{ field: 'name', message: 'must be at most 3 characters' }])
+  assertEquals(issues(schema, { sessionId: 'not-a-uuid' })?.fields, [{ field: 'sessionId', message: 'must be a UUID' }])
+  assertEquals(issues(schema, { sessionId: SESSION, amount: Number.NaN })?.fields, [{ field: 'amount', message: 'must be a number' }])
+  assertThrows(() => validate(schema, [SESSION]), HttpError, 'must be a JSON object')
+  assertThrows(() => validate(schema, null), HttpError, 'must be a JSON object')
+})
@@ -0,0 +1,77 @@
+import { clients } from '../_shared/clients.ts'
+import { createHandler } from '../_shared/handler.ts'
+import { HttpError } from '../_shared/http.ts'
+import { importWebhookKey, interpretEvent, SIGNATURE_HEADER, TIMESTAMP_HEADER, verifySignature } from './sendgrid.ts'
+
+// SendGrid Event Webhook receiver. Deployed with --no-verify-jwt: requests are
+// authenticated by the webhook signature instead of a Supabase token.
+
+let webhookKey: { publicKey: string; key: Promise<CryptoKey> } | null = null
+
+function importCachedKey(publicKey: string): Promise<CryptoKey> {
+  if (webhookKey?.publicKey !== publicKey) {
+    const key = importWebhookKey(publicKey).catch((err) => {
+      webhookKey = null
+      throw err
+    })
+    webhookKey = { publicKey, key }
+  }
+  return webhookKey.key
+}
+
+export const handler = createHandler({ name: 'email-events', auth: 'none' }, async ({ req, supabase }) => {
+  const publicKey = clients().env('SENDGRID_WEBHOOK_PUBLIC_KEY')
+  if (!publicKey) throw new Error('SENDGRID_WEBHOOK_PUBLIC_KEY not configured')
+
+  const payload = await req.text()
+  const valid = await verifySignature(
+    await importCachedKey(publicKey),
+    payload,
+    req.headers.get(SIGNATURE_HEADER),
+    req.headers.get(TIMESTAMP_HEADER),
+  )
+  if (!valid) {
+    throw new HttpError(401, 'unauthorized', 'Invalid signature')
+  }
+
+  let events: unknown
+  try {
+    events = JSON.parse(payload)
+  } catch {
+    throw new HttpError(400, 'invalid_request', 'Invalid JSON')
+  }
+  if (!Array.isArray(events)) {
+    throw new HttpError(400, 'invalid_request', 'Expected an array of events')
+  }
+
+  const counts: Record<string, number> = { applied: 0, stale: 0, duplicate: 0, unmatched: 0, ignored: 0 }
+  for (const raw of events) {
+    const event = raw && typeof raw === 'object' ? interpretEvent(raw as Record<string, unknown>) : null
+    if (!event) {
+      counts.ignored++
+      continue
+    }
+
+    const { data: outcome, error } = await supabase.rpc('record_email_event', {
+      p_provider: 'sendgrid',
+      p_event_id: event.eventId,
+      p_event_type: event.eventType,
+      p_status: event.status,
+      p_email_log_id: event.emailLogId,
+      p_provider_message_id: event.providerMessageId,
+      p_recipient: event.recipient,
+      p_reason: event.reason,
+      p_occurred_at: event.occurredAt,
+      p_suppress: event.suppress,
+    })
+    // Non-2xx makes SendGrid retry the batch; recorded events are skipped as duplicates
+    if (error) throw new Error(`record_email_event failed: ${error.message}`)
+
+    if (outcome === 'unmatched') {
+      console.warn(`Email event ${event.eventId} (${event.eventType}) matches no email_logs row`)
+    }
+    counts[outcome as string] = (counts[outcome as string] ?? 0) + 1
+  }
+
+  return { received: events.length, ...counts }
+})
@@ -0,0 +1,51 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { call, installFakes, sendGridSigningKey } from '../_shared/testing.ts'
+import { handler } from './handler.ts'
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER } from './sendgrid.ts'
+
+const LOG_ID = '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d'
+
+const events = [
+  { event: 'delivered', sg_event_id: 'evt-1', sg_message_id: 'sg-message-1.filter0001', emailLogId: LOG_ID, email: 'asha@example.com', timestamp: 1_700_000_000 },
+  { event: 'bounce', sg_event_id: 'evt-2', sg_message_id: 'sg-message-2.filter0001', email: 'Ravi@Example.com', reason: '550 No such user' },
+  { event: 'open', sg_event_id: 'evt-3', email: 'asha@example.com' },
+]
+
+async function setup() {
+  const signing = await sendGridSigningKey()
+  const fakes = installFakes({ env: { SENDGRID_WEBHOOK_PUBLIC_KEY: signing.publicKey } })
+  fakes.supabase.onRpc('record_email_event', ({ p_event_id }) => (p_event_id === 'evt-2' ? 'unmatched' : 'applied'))
+  const deliver = async (payload: string, sign = signing.sign) => {
+    const { signature, timestamp } = await sign(payload)
+    return call(handler, undefined, { raw: payload, headers: { [SIGNATURE_HEADER]: signature, [TIMESTAMP_HEADER]: timestamp } })
+  }
+  return { fakes, deliver }
+}
+
+Deno.test('records each signed delivery event', async () => {
+  const { fakes, deliver } = await setup()
+  const res = await deliver(JSON.stringify(events))
+
+  assertEquals(res.body, { received: 3, applied: 1, stale: 0, duplicate: 0, unmatched: 1, ignored: 1 })
+  const [delivered, bounced] = fakes.supabase.calls('record_email_event')
+  assertEquals([delivered.p_status, delivered.p_email_log_id, delivered.p_provider_message_id], ['delivered', LOG_ID, 'sg-message-1'])
+  assertEquals([bounced.p_status, bounced.p_recipient, bounced.p_suppress], ['bounced', 'ravi@example.com', 'bounce'])
+})
+
+Deno.test('rejects payloads not signed with the configured key', async () => {
+  const { fakes, deliver } = await setup()
+  const other = await sendGridSigningKey()
+
+  assertEquals((await deliver(JSON.stringify(events), other.sign)).status, 401)
+  assertEquals((await call(handler, undefined, { raw: JSON.stringify(events) })).status, 401)
+  assertEquals(fakes.supabase.calls('record_email_event').length, 0)
+})
+
+Deno.test('fails the batch so SendGrid retries when recording fails', async () => {
+  const { fakes, deliver } = await setup()
+  fakes.supabase.onRpc('record_email_event', () => {
+    throw new Error('deadlock detected')
+  })
+
+  assertEquals((await deliver(JSON.stringify(events))).status, 500)
+})
@@ -0,0 +1,151 @@
+// SendGrid Event Webhook: signature verification and event interpretation.
+//
+// SendGrid signs `timestamp + raw body` with ECDSA P-256/SHA-256. The public key
+// (SENDGRID_WEBHOOK_PUBLIC_KEY, from the Mail Settings page) is base64 DER
+// (SPKI) and the signature header is a base64 DER ECDSA signature, which
+// WebCrypto wants as raw r||s.
+
+export const SIGNATURE_HEADER = 'x-twilio-email-event-webhook-signature'
+export const TIMESTAMP_HEADER = 'x-twilio-email-event-webhook-timestamp'
+
+// Replay window, matching Stripe's default webhook tolerance
+export const DEFAULT_TOLERANCE_SECONDS = 300
+
+export type DeliveryStatus = 'delivered' | 'bounced' | 'dropped' | 'complained'
+export type SuppressionReason = 'bounce' | 'complaint'
+
+export interface DeliveryEvent {
+  eventId: string
+  eventType: string
+  status: DeliveryStatus
+  emailLogId: string | null
+  providerMessageId: string | null
+  recipient: string | null
+  reason: string | null
+  occurredAt: string
+  suppress: SuppressionReason | null
+}
+
+const base64ToBytes = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0))
+
+/** Converts a DER `SEQUENCE { INTEGER r, INTEGER s }` to 64-byte r||s, or null if malformed. */
+export function derToRawSignature(der: Uint8Array): Uint8Array | null {
+  let offset = 0
+  const readLength = () => {
+    let length = der[offset++]
+    if (length & 0x80) {
+      const bytes = length & 0x7f
+      if (bytes > 2) return -1
+      length = 0
+      for (let i = 0; i < bytes; i++) length = (length << 8) | der[offset++]
+    }
+    return length
+  }
+  if (der[offset++] !== 0x30) return null
+  if (readLength() !== der.length - offset) return null
+
+  const raw = new Uint8Array(64)
+  for (const slot of [0, 32]) {
+    if (der[offset++] !== 0x02) return null
+    const length = readLength()
+    if (length < 1 || offset + length > der.length) return null
+    let int = der.subarray(offset, offset + length)
+    offset += length
+    while (int.length > 32 && int[0] === 0) int = int.subarray(1)
+    if (int.length > 32) return null
+    raw.set(int, slot + 32 - int.length)
+  }
+  return offset === der.length ? raw : null
+}
+
+export async function importWebhookKey(publicKeyBase64: string): Promise<CryptoKey> {
+  return await crypto.subtle.importKey(
+    'spki',
+    base64ToBytes(publicKeyBase64.replace(/\s+/g, '')),
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['verify'],
+  )
+}
+
+/** True when the signature matches and the timestamp is within the tolerance. */
+export async function verifySignature(
+  key: CryptoKey,
+  payload: string,
+  signature: string | null,
+  timestamp: string | null,
+  nowSeconds = Math.floor(Date.now() / 1000),
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+): Promise<boolean> {
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) return false
+  if (Math.abs(nowSeconds - Number(timestamp)) > toleranceSeconds) return false
+
+  let der: Uint8Array
+  try {
+    der = base64ToBytes(signature)
+  } catch {
+    return false
+  }
+  const raw = derToRawSignature(der)
+  if (!raw) return false
+  return await crypto.subtle.verify(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    raw,
+    new TextEncoder().encode(timestamp + payload),
+  )
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const str = (value: unknown) => (typeof value === 'string' && value !== '' ? value : null)
+
+/**
+ * Maps one SendGrid event to a delivery status change, or null for events that
+ * do not change delivery status (processed, deferred, open, click, ...).
+ *
+ * `bounce` events with type `blocked` are temporary rejections: the log is
+ * marked bounced but the address is not suppressed.
+ */
+export function interpretEvent(event: Record<string, unknown>): DeliveryEvent | null {
+  let status: DeliveryStatus
+  let suppress: SuppressionReason | null = null
+  switch (event.event) {
+    case 'delivered':
+      status = 'delivered'
+      break
+    case 'bounce':
+      status = 'bounced'
+      if (event.type !== 'blocked') suppress = 'bounce'
+      break
+    case 'dropped':
+      status = 'dropped'
+      break
+    case 'spamreport':
+      status = 'complained'
+      suppress = 'complaint'
+      break
+    default:
+      return null
+  }
+
+  const eventId = str(event.sg_event_id)
+  if (!eventId) return null
+
+  // sg_message_id is the X-Message-Id returned at send time plus a filter suffix
+  const sgMessageId = str(event.sg_message_id)
+  const logId = str(event.emailLogId)
+  const timestamp = typeof event.timestamp === 'number' ? event.timestamp : Date.now() / 1000
+
+  return {
+    eventId,
+    eventType: String(event.event),
+    status,
+    emailLogId: logId && UUID_RE.test(logId) ? logId : null,
+    providerMessageId: sgMessageId ? sgMessageId.split('.')[0] : null,
+    recipient: str(event.email)?.toLowerCase() ?? null,
+    reason: str(event.reason) ?? str(event.response),
+    occurredAt: new Date(timestamp * 1000).toISOString(),
+    suppress,
+  }
+}
@@ -0,0 +1,82 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { rawToDer } from '../_shared/testing.ts'
+import { derToRawSignature, importWebhookKey, interpretEvent, verifySignature } from './sendgrid.ts'
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+
+async function signer() {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify'])
+  const spki = new Uint8Array(await crypto.subtle.exportKey('spki', pair.publicKey))
+  const sign = async (timestamp: string, payload: string) => {
+    const raw = new Uint8Array(
+      await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, pair.privateKey, new TextEncoder().encode(timestamp + payload)),
+    )
+    return toBase64(rawToDer(raw))
+  }
+  return { key: await importWebhookKey(toBase64(spki)), sign }
+}
+
+Deno.test('accepts a valid signature and rejects tampering, stale timestamps and garbage', async () => {
+  const { key, sign } = await signer()
+  const payload = '[{"event":"delivered"}]'
+  const now = 1_700_000_000
+  const ts = String(now)
+  const signature = await sign(ts, payload)
+
+  assert(await verifySignature(key, payload, signature, ts, now))
+  assert(!(await verifySignature(key, payload + ' ', signature, ts, now)))
+  assert(!(await verifySignature(key, payload, signature, String(now + 1), now)))
+  assert(!(await verifySignature(key, payload, await sign(String(now - 600), payload), String(now - 600), now)))
+  assert(!(await verifySignature(key, payload, null, ts, now)))
+  assert(!(await verifySignature(key, payload, 'not base64!', ts, now)))
+  assert(!(await verifySignature(key, payload, toBase64(new Uint8Array([0x30, 0x02, 0x02, 0x00])), ts, now)))
+})
+
+Deno.test('derToRawSignature pads short integers and strips sign bytes', () => {
+  const raw = new Uint8Array(64)
+  raw[31] = 1
+  raw.fill(0xff, 32)
+  assertEquals(derToRawSignature(rawToDer(raw)), raw)
+  assertEquals(derToRawSignature(new Uint8Array([0x31, 0x00])), null)
+})
+
+const base = {
+  email: 'Asha@Example.com',
+  timestamp: 1_700_000_000,
+  sg_event_id: 'evt-1',
+  sg_message_id: 'W86EgYT6SQKk0lRflfLRsA.filterdrecv-5bd8c5d8d7-abcde-1-6532.0',
+  emailLogId: '0b6f0a52-6f6b-4f3e-9a53-1f7cb0a2a111',
+}
+
+Deno.test('maps delivery events and matches on the log id and message id', () => {
+  assertEquals(interpretEvent({ ...base, event: 'delivered' }), {
+    eventId: 'evt-1',
+    eventType: 'delivered',
+    status: 'delivered',
+    emailLogId: base.emailLogId,
+    providerMessageId: 'W86EgYT6SQKk0lRflfLRsA',
+    recipient: 'asha@example.com',
+    reason: null,
+    occurredAt: '2023-11-14T22:13:20.000Z',
+    suppress: null,
+  })
+  assertEquals(interpretEvent({ ...base, event: 'delivered', emailLogId: "x'; drop" })?.emailLogId, null)
+})
+
+Deno.test('suppresses hard bounces and complaints only', () => {
+  const bounce = interpretEvent({ ...base, event: 'bounce', type: 'bounce', reason: '550 5.1.1 no such user' })
+  assertEquals([bounce?.status, bounce?.suppress, bounce?.reason], ['bounced', 'bounce', '550 5.1.1 no such user'])
+  const blocked = interpretEvent({ ...base, event: 'bounce', type: 'blocked' })
+  assertEquals([blocked?.status, blocked?.suppress], ['bounced', null])
+  const spam = interpretEvent({ ...base, event: 'spamreport' })
+  assertEquals([spam?.status, spam?.suppress], ['complained', 'complaint'])
+  const dropped = interpretEvent({ ...base, event: 'dropped', reason: 'Bounced Address' })
+  assertEquals([dropped?.status, dropped?.suppress], ['dropped', null])
+})
+
+Deno.test('ignores engagement events and events without an id', () => {
+  for (const event of ['processed', 'deferred', 'open', 'click', 'unsubscribe']) {
+    assertEquals(interpretEvent({ ...base, event }), null)
+  }
+  assertEquals(interpretEvent({ ...base, event: 'delivered', sg_event_id: undefined }), null)
+})
@@ -0,0 +1,289 @@
+// Agora AccessToken2 ("007") builder.
+//
+// Self-contained port of Agora's reference implementation
+// (AgoraDynamicKey/nodejs/src/AccessToken2.js) using Web Crypto for
+// HMAC-SHA256 so it runs unchanged on Deno Deploy. Only the RTC and RTM
+// services are implemented since those are the only ones the app uses.
+//
+// Token layout (all integers little-endian):
+//   "007" + base64(zlib(
+//     bytes(signature) +
+//     string(appId) + u32(issueTs) + u32(expire) + u32(salt) + u16(serviceCount) +
+//     service*
+//   ))
+// where signature = HMAC(HMAC(HMAC(u32(issueTs), appCertificate), u32(salt)), signingInfo).
+// `expire` and every privilege expiry are durations in seconds relative to issueTs.
+
+import { deflate } from 'https://esm.sh/pako@2.1.0'
+
+const VERSION = '007'
+
+export const ServiceType = {
+  Rtc: 1,
+  Rtm: 2,
+} as const
+
+export const RtcPrivilege = {
+  JoinChannel: 1,
+  PublishAudioStream: 2,
+  PublishVideoStream: 3,
+  PublishDataStream: 4,
+} as const
+
+export const RtmPrivilege = {
+  Login: 1,
+} as const
+
+export const RtcRole = {
+  Publisher: 1,
+  Subscriber: 2,
+} as const
+
+export type RtcRoleValue = typeof RtcRole[keyof typeof RtcRole]
+
+const encoder = new TextEncoder()
+const UINT32_MAX = 0xffffffff
+
+class ByteBuf {
+  private buffer = new Uint8Array(256)
+  private view = new DataView(this.buffer.buffer)
+  private position = 0
+
+  private ensureCapacity(additional: number) {
+    const required = this.position + additional
+    if (required <= this.buffer.length) return
+    let capacity = this.buffer.length
+    while (capacity < required) capacity *= 2
+    const expanded = new Uint8Array(capacity)
+    expanded.set(this.buffer.subarray(0, this.position))
+    this.buffer = expanded
+    this.view = new DataView(expanded.buffer)
+  }
+
+  putUint16(v: number): this {
+    this.ensureCapacity(2)
+    this.view.setUint16(this.position, v, true)
+    this.position += 2
+    return this
+  }
+
+  putUint32(v: number): this {
+    this.ensureCapacity(4)
+    this.view.setUint32(this.position, v, true)
+    this.position += 4
+    return this
+  }
+
+  putBytes(bytes: Uint8Array): this {
+    this.putUint16(bytes.length)
+    this.ensureCapacity(bytes.length)
+    this.buffer.set(bytes, this.position)
+    this.position += bytes.length
+    return this
+  }
+
+  putString(str: string): this {
+    return this.putBytes(encoder.encode(str))
+  }
+
+  // Agora serialises privilege maps in ascending key order (a C++ std::map).
+  putTreeMapUint32(map: Map<number, number>): this {
+    const keys = [...map.keys()].sort((a, b) => a - b)
+    this.putUint16(keys.length)
+    for (const key of keys) {
+      this.putUint16(key)
+      this.putUint32(map.get(key)!)
+    }
+    return this
+  }
+
+  pack(): Uint8Array {
+    return this.buffer.slice(0, this.position)
+  }
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+async function hmacSha256(key: Uint8Array, message: Uint8Array): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign'])
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, message))
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i])
+  return btoa(binary)
+}
+
+function assertUint32(name: string, value: number) {
+  if (!Number.isInteger(value) || value < 0 || value > UINT32_MAX) {
+    throw new RangeError(`${name} must be an unsigned 32-bit integer, got ${value}`)
+  }
+}
+
+const isAgoraId = (value: string) => /^[0-9a-fA-F]{32}$/.test(value)
+
+abstract class Service {
+  protected readonly privileges = new Map<number, number>()
+
+  constructor(readonly type: number) {}
+
+  addPrivilege(privilege: number, expire: number): this {
+    assertUint32('privilege expire', expire)
+    this.privileges.set(privilege, expire)
+    return this
+  }
+
+  pack(): Uint8Array {
+    return new ByteBuf().putUint16(this.type).putTreeMapUint32(this.privileges).pack()
+  }
+}
+
+export class ServiceRtc extends Service {
+  private readonly account: string
+
+  // Numeric uids are serialised as their decimal string; uid 0 means "any uid" and
+  // is encoded as the empty string, matching Agora's builders.
+  constructor(readonly channelName: string, uid: string | number) {
+    super(ServiceType.Rtc)
+    if (typeof uid === 'number') assertUint32('uid', uid)
+    this.account = uid === 0 ? '' : `${uid}`
+  }
+
+  pack(): Uint8Array {
+    return concat(super.pack(), new ByteBuf().putString(this.channelName).putString(this.account).pack())
+  }
+}
+
+export class ServiceRtm extends Service {
+  constructor(readonly userId: string) {
+    super(ServiceType.Rtm)
+  }
+
+  pack(): Uint8Array {
+    return concat(super.pack(), new ByteBuf().putString(this.userId).pack())
+  }
+}
+
+export class AccessToken2 {
+  readonly issueTs: number
+  readonly salt: number
+  private readonly services: Service[] = []
+
+  constructor(
+    readonly appId: string,
+    readonly appCertificate: string,
+    readonly expire: number,
+    opts: { issueTs?: number; salt?: number } = {},
+  ) {
+    if (!isAgoraId(appId)) throw new Error('Invalid Agora app id')
+    if (!isAgoraId(appCertificate)) throw new Error('Invalid Agora app certificate')
+    assertUint32('expire', expire)
+    this.issueTs = opts.issueTs ?? Math.floor(Date.now() / 1000)
+    // Agora draws the salt from [1, 99999999]
+    this.salt = opts.salt ?? (crypto.getRandomValues(new Uint32Array(1))[0] % 99999999) + 1
+    assertUint32('issueTs', this.issueTs)
+    assertUint32('salt', this.salt)
+  }
+
+  addService(service: Service): this {
+    this.services.push(service)
+    return this
+  }
+
+  private async signingKey(): Promise<Uint8Array> {
+    const issued = await hmacSha256(new ByteBuf().putUint32(this.issueTs).pack(), encoder.encode(this.appCertificate))
+    return hmacSha256(new ByteBuf().putUint32(this.salt).pack(), issued)
+  }
+
+  async build(): Promise<string> {
+    if (this.services.length === 0) throw new Error('AccessToken2 requires at least one service')
+
+    // Stable sort by service type, matching the reference packer.
+    const services = this.services
+      .map((service, index) => ({ service, index }))
+      .sort((a, b) => a.service.type - b.service.type || a.index - b.index)
+      .map(({ service }) => service)
+
+    const signingInfo = concat(
+      new ByteBuf()
+        .putString(this.appId)
+        .putUint32(this.issueTs)
+        .putUint32(this.expire)
+        .putUint32(this.salt)
+        .putUint16(services.length)
+        .pack(),
+      ...services.map((s) => s.pack()),
+    )
+
+    const signature = await hmacSha256(await this.signingKey(), signingInfo)
+    const content = concat(new ByteBuf().putBytes(signature).pack(), signingInfo)
+    return `${VERSION}${toBase64(deflate(content))}`
+  }
+}
+
+export interface RtcTokenOptions {
+  appId: string
+  appCertificate: string
+  channelName: string
+  uid: string | number
+  role: RtcRoleValue
+  // Seconds from now until the token itself expires.
+  tokenExpire: number
+  // Seconds from now until join/publish privileges expire. Defaults to tokenExpire.
+  privilegeExpire?: number
+  // When set, an RTM login privilege for this user id is bundled into the same token.
+  rtmUserId?: string
+  issueTs?: number
+  salt?: number
+}
+
+// Equivalent of RtcTokenBuilder2.buildTokenWithUid / buildTokenWithUserAccount
+// (and buildTokenWithRtm when rtmUserId is given).
+export function buildRtcToken(opts: RtcTokenOptions): Promise<string> {
+  const privilegeExpire = opts.privilegeExpire ?? opts.tokenExpire
+  const token = new AccessToken2(opts.appId, opts.appCertificate, opts.tokenExpire, {
+    issueTs: opts.issueTs,
+    salt: opts.salt,
+  })
+
+  const rtc = new ServiceRtc(opts.channelName, opts.uid)
+  rtc.addPrivilege(RtcPrivilege.JoinChannel, privilegeExpire)
+  if (opts.role === RtcRole.Publisher) {
+    rtc.addPrivilege(RtcPrivilege.PublishAudioStream, privilegeExpire)
+    rtc.addPrivilege(RtcPrivilege.PublishVideoStream, privilegeExpire)
+    rtc.addPrivilege(RtcPrivilege.PublishDataStream, privilegeExpire)
+  }
+  token.addService(rtc)
+
+  if (opts.rtmUserId) {
+    token.addService(new ServiceRtm(opts.rtmUserId).addPrivilege(RtmPrivilege.Login, opts.tokenExpire))
+  }
+
+  return token.build()
+}
+
+// Equivalent of RtmTokenBuilder2.buildToken.
+export function buildRtmToken(opts: {
+  appId: string
+  appCertificate: string
+  userId: string
+  expire: number
+  issueTs?: number
+  salt?: number
+}): Promise<string> {
+  const token = new AccessToken2(opts.appId, opts.appCertificate, opts.expire, {
+    issueTs: opts.issueTs,
+    salt: opts.salt,
+  })
+  token.addService(new ServiceRtm(opts.userId).addPrivilege(RtmPrivilege.Login, opts.expire))
+  return token.build()
+}
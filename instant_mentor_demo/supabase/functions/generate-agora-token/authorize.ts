@@ -0,0 +1,68 @@
+// Decides which Agora role (if any) a caller may be issued for a channel.
+//
+// Channels are bound to mentoring sessions by name: `session_<mentoring_sessions.id>`
+// (a bare session id is accepted too). Only the session's student and mentor may
+// publish, and only between scheduled start and end, widened by a grace period on
+// both sides. Admins who are not participants may join as silent subscribers.
+
+export type TokenRole = 'publisher' | 'subscriber'
+
+export interface SessionWindow {
+  id: string
+  student_id: string
+  mentor_id: string
+  scheduled_time: string
+  duration_minutes: number
+  status: string
+}
+
+export type AuthorizationResult =
+  // notAfter: the latest moment (ms since epoch) an issued token may stay valid
+  | { allowed: true; role: TokenRole; notAfter: number }
+  | { allowed: false; status: 403 | 404; reason: string }
+
+// Statuses in which the call can still legitimately take place
+const JOINABLE_STATUSES = new Set(['accepted', 'scheduled', 'confirmed', 'in_progress'])
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function sessionIdFromChannel(channelId: string): string | null {
+  const id = channelId.startsWith('session_') ? channelId.slice('session_'.length) : channelId
+  return UUID_RE.test(id) ? id : null
+}
+
+// Agora RTC uids are uint32, so the caller's UUID is folded into a stable
+// non-zero 32-bit value. Clients should use the uid returned by the function.
+// Firebase usage billing (agoraUidForUser in src/usage.ts) derives the same uid.
+export async function agoraUidForUser(userId: string): Promise<number> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(userId)))
+  const uid = new DataView(digest.buffer).getUint32(0, false)
+  return uid === 0 ? 1 : uid
+}
+
+export function authorizeTokenRequest(params: {
+  session: SessionWindow | null
+  userId: string
+  isAdmin: boolean
+  requestedRole: TokenRole
+  now: Date
+  graceMinutes: number
+}): AuthorizationResult {
+  const { session, userId, isAdmin, requestedRole, now, graceMinutes } = params
+  if (!session) return { allowed: false, status: 404, reason: 'session_not_found' }
+
+  const isParticipant = userId === session.student_id || userId === session.mentor_id
+  if (!isParticipant && !isAdmin) return { allowed: false, status: 403, reason: 'not_a_participant' }
+
+  if (!JOINABLE_STATUSES.has(session.status)) {
+    return { allowed: false, status: 403, reason: `session_${session.status}` }
+  }
+
+  const graceMs = graceMinutes * 60 * 1000
+  const start = new Date(session.scheduled_time).getTime()
+  const end = start + session.duration_minutes * 60 * 1000
+  if (now.getTime() < start - graceMs) return { allowed: false, status: 403, reason: 'too_early' }
+  if (now.getTime() > end + graceMs) return { allowed: false, status: 403, reason: 'session_ended' }
+
+  return { allowed: true, role: isParticipant ? requestedRole : 'subscriber', notAfter: end + graceMs }
+}
@@ -0,0 +1,71 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { agoraUidForUser, authorizeTokenRequest, sessionIdFromChannel, type SessionWindow } from './authorize.ts'
+
+const student = '11111111-1111-4111-8111-111111111111'
+const mentor = '22222222-2222-4222-8222-222222222222'
+const stranger = '33333333-3333-4333-8333-333333333333'
+
+const session: SessionWindow = {
+  id: '44444444-4444-4444-8444-444444444444',
+  student_id: student,
+  mentor_id: mentor,
+  scheduled_time: '2025-03-01T10:00:00Z',
+  duration_minutes: 60,
+  status: 'scheduled',
+}
+
+const base = { session, userId: student, isAdmin: false, requestedRole: 'publisher' as const, graceMinutes: 15 }
+const at = (iso: string) => new Date(iso)
+
+Deno.test('maps session channels to session ids', () => {
+  assertEquals(sessionIdFromChannel(`session_${session.id}`), session.id)
+  assertEquals(sessionIdFromChannel(session.id), session.id)
+  assertEquals(sessionIdFromChannel('lobby'), null)
+})
+
+Deno.test('participants may publish inside the window including grace', () => {
+  const early = authorizeTokenRequest({ ...base, now: at('2025-03-01T09:45:00Z') })
+  assertEquals(early, { allowed: true, role: 'publisher', notAfter: Date.parse('2025-03-01T11:15:00Z') })
+  const late = authorizeTokenRequest({ ...base, userId: mentor, now: at('2025-03-01T11:15:00Z') })
+  assertEquals(late.allowed, true)
+})
+
+Deno.test('participants are refused outside the window', () => {
+  assertEquals(authorizeTokenRequest({ ...base, now: at('2025-03-01T09:44:59Z') }), {
+    allowed: false,
+    status: 403,
+    reason: 'too_early',
+  })
+  assertEquals(authorizeTokenRequest({ ...base, now: at('2025-03-01T11:15:01Z') }), {
+    allowed: false,
+    status: 403,
+    reason: 'session_ended',
+  })
+})
+
+Deno.test('cancelled sessions and unknown sessions are refused', () => {
+  const cancelled = authorizeTokenRequest({ ...base, session: { ...session, status: 'cancelled' }, now: at('2025-03-01T10:10:00Z') })
+  assertEquals(cancelled, { allowed: false, status: 403, reason: 'session_cancelled' })
+  const missing = authorizeTokenRequest({ ...base, session: null, now: at('2025-03-01T10:10:00Z') })
+  assertEquals(missing, { allowed: false, status: 404, reason: 'session_not_found' })
+})
+
+Deno.test('strangers are refused and admins are downgraded to subscriber', () => {
+  const now = at('2025-03-01T10:10:00Z')
+  assertEquals(authorizeTokenRequest({ ...base, userId: stranger, now }).allowed, false)
+  const admin = authorizeTokenRequest({ ...base, userId: stranger, isAdmin: true, now })
+  assertEquals(admin.allowed && admin.role, 'subscriber')
+})
+
+Deno.test('derived agora uid is stable, non-zero uint32', async () => {
+  const a = await agoraUidForUser(student)
+  assertEquals(a, await agoraUidForUser(student))
+  assertEquals(Number.isInteger(a) && a > 0 && a <= 0xffffffff, true)
+})
+
+// Firebase usage billing matches presence to users by this uid; its usage.test.ts checks the same vectors
+Deno.test('derived agora uid matches the Firebase derivation', async () => {
+  assertEquals(await agoraUidForUser('student-1'), 1611396017)
+  assertEquals(await agoraUidForUser('5d1b9c1e-4a6f-4f3e-9b8a-2f6c1d0e7a11'), 2960011697)
+  assertEquals(await agoraUidForUser('b2c7e0f4-0d6e-4a54-8d1f-6f2e9a3c5b77'), 2072346661)
+})
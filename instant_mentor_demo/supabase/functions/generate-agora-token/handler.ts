@@ -0,0 +1,135 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+import { bearerToken } from '../_shared/auth.ts'
+import { clients } from '../_shared/clients.ts'
+import { createHandler, type ErrorContext } from '../_shared/handler.ts'
+import { HttpError } from '../_shared/http.ts'
+import { v } from '../_shared/validate.ts'
+import { buildRtcToken, RtcRole } from './access_token2.ts'
+import { agoraUidForUser, authorizeTokenRequest, sessionIdFromChannel } from './authorize.ts'
+
+// Agora caps token lifetime at 24 hours
+const MAX_EXPIRE_SECONDS = 24 * 60 * 60
+
+// Minutes before scheduled start / after scheduled end during which participants may still join
+const DEFAULT_JOIN_GRACE_MINUTES = 15
+
+const schema = {
+  // Agora channel names are at most 64 bytes
+  channelId: v.string({ maxLength: 64 }),
+  uid: v.optional(v.either(v.integer({ min: 1, max: 2 ** 32 - 1 }), v.uuid(), 'a numeric uid or your user id')),
+  role: v.optional(v.oneOf(['publisher', 'subscriber'] as const), 'publisher'),
+  expireTime: v.optional(v.integer({ min: 1, max: MAX_EXPIRE_SECONDS }), 3600),
+  rtm: v.optional(v.boolean(), false),
+}
+
+const RATE_LIMIT = { limit: 30, windowSeconds: 60 }
+
+// Denials are recorded for admins before they are returned
+async function logDenial(supabase: SupabaseClient, reason: string, details: Record<string, unknown>) {
+  try {
+    await supabase.rpc('admin_log_alert', {
+      p_type: 'agora_token_denied',
+      p_severity: 'warning',
+      p_message: 'Agora token request denied',
+      p_details: { reason, ...details },
+    })
+  } catch (_) {}
+}
+
+async function deny(supabase: SupabaseClient, status: number, reason: string, details: Record<string, unknown>): Promise<never> {
+  await logDenial(supabase, reason, details)
+  throw new HttpError(status, status === 404 ? 'not_found' : 'forbidden', 'Not allowed to join this channel', { reason })
+}
+
+// Requests without a valid session never reach the handler
+async function logUnauthenticated(error: unknown, { req, supabase }: ErrorContext) {
+  if (error instanceof HttpError && error.status === 401) {
+    await logDenial(supabase, 'unauthenticated', { hasToken: Boolean(bearerToken(req)) })
+  }
+}
+
+export const handler = createHandler({ name: 'generate-agora-token', auth: 'user', body: schema, rateLimit: RATE_LIMIT, onError: logUnauthenticated }, async ({ supabase, caller, body }) => {
+  const { user } = caller
+  const { channelId, uid: requestedUid, role, expireTime, rtm } = body
+
+  // Check if Agora credentials are configured
+  const { env } = clients()
+  const appId = env('AGORA_APP_ID')
+  const appCertificate = env('AGORA_APP_CERTIFICATE')
+  if (!appId || !appCertificate) {
+    throw new HttpError(500, 'not_configured', 'Agora credentials not configured on server')
+  }
+
+  // The uid is bound to the caller: either their derived numeric uid or their user id as account
+  const derivedUid = await agoraUidForUser(user.id)
+  const uid = requestedUid ?? derivedUid
+  if (uid !== derivedUid && uid !== user.id) {
+    return await deny(supabase, 403, 'uid_mismatch', { userId: user.id, channelId, requestedUid })
+  }
+
+  const sessionId = sessionIdFromChannel(channelId)
+  if (!sessionId) {
+    return await deny(supabase, 404, 'unknown_channel', { userId: user.id, channelId })
+  }
+
+  const { data: session, error: sessionError } = await supabase
+    .from('mentoring_sessions')
+    .select('id, student_id, mentor_id, scheduled_time, duration_minutes, status')
+    .eq('id', sessionId)
+    .maybeSingle()
+  if (sessionError) throw new Error(`Session lookup failed: ${sessionError.message}`)
+
+  const now = new Date()
+  const decision = authorizeTokenRequest({
+    session,
+    userId: user.id,
+    isAdmin: caller.role === 'admin',
+    requestedRole: role,
+    now,
+    graceMinutes: Number(env('AGORA_JOIN_GRACE_MINUTES')) || DEFAULT_JOIN_GRACE_MINUTES,
+  })
+  if (!decision.allowed) {
+    return await deny(supabase, decision.status, decision.reason, { userId: user.id, channelId, sessionId })
+  }
+
+  // AccessToken2 expiries are relative to the issue time. Never outlive the session window.
+  const issueTs = Math.floor(now.getTime() / 1000)
+  const tokenExpire = Math.max(1, Math.min(expireTime, Math.floor(decision.notAfter / 1000) - issueTs))
+  const privilegeExpiredTs = issueTs + tokenExpire
+
+  const token = await buildRtcToken({
+    appId,
+    appCertificate,
+    channelName: channelId,
+    uid,
+    role: decision.role === 'publisher' ? RtcRole.Publisher : RtcRole.Subscriber,
+    tokenExpire,
+    privilegeExpire: tokenExpire,
+    rtmUserId: rtm ? uid.toString() : undefined,
+    issueTs,
+  })
+
+  // Log token generation
+  await supabase
+    .from('agora_tokens')
+    .insert({
+      channel_id: channelId,
+      uid: uid.toString(),
+      token: token,
+      role: decision.role,
+      expires_at: new Date(privilegeExpiredTs * 1000).toISOString(),
+      created_at: now.toISOString(),
+    })
+    .select()
+
+  return {
+    success: true,
+    token: token,
+    channelId: channelId,
+    uid: uid,
+    role: decision.role,
+    expiresAt: privilegeExpiredTs,
+    appId,
+  }
+})
@@ -0,0 +1,57 @@
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { call, installFakes } from '../_shared/testing.ts'
+import { agoraUidForUser } from './authorize.ts'
+import { handler } from './handler.ts'
+
+const SESSION = '3e4f5a6b-7c8d-4e9f-a0b1-c2d3e4f5a6b7'
+const STUDENT = '11111111-1111-4111-8111-111111111111'
+const channelId = `session_${SESSION}`
+
+// A 60 minute session that started 10 minutes ago
+function setup() {
+  const startedAt = Date.now() - 10 * 60_000
+  const fakes = installFakes({
+    env: { AGORA_APP_ID: '970CA35de60c44645bbae8a215061b33', AGORA_APP_CERTIFICATE: '5CFd2fd1755d40ecb72977518be15d3b' },
+    users: { 'student-token': { id: STUDENT }, 'mentor-token': { id: 'mentor-1' }, 'stranger-token': { id: 'stranger-1' }, 'admin-token': { id: 'admin-1' } },
+    admins: ['admin-1'],
+    tables: {
+      mentoring_sessions: [
+        { id: SESSION, student_id: STUDENT, mentor_id: 'mentor-1', scheduled_time: new Date(startedAt).toISOString(), duration_minutes: 60, status: 'in_progress' },
+      ],
+    },
+  })
+  return { fakes, endsAt: startedAt + 60 * 60_000 }
+}
+
+const denials = (fakes: ReturnType<typeof setup>['fakes']) =>
+  fakes.supabase.calls('admin_log_alert').filter((a) => a.p_type === 'agora_token_denied').map((a) => a.p_details.reason)
+
+Deno.test('issues a publisher token to a participant that ends with the session', async () => {
+  const { fakes, endsAt } = setup()
+  const res = await call(handler, { channelId, expireTime: 24 * 60 * 60 }, { token: 'student-token' })
+
+  assertEquals(res.status, 200)
+  assertEquals([res.body.uid, res.body.role], [await agoraUidForUser(STUDENT), 'publisher'])
+  assert(res.body.token.startsWith('007'))
+  // Capped at the end of the session plus the 15 minute grace period
+  assertEquals(res.body.expiresAt, Math.floor((endsAt + 15 * 60_000) / 1000))
+  assertEquals(fakes.supabase.table('agora_tokens').map((t) => [t.channel_id, t.role]), [[channelId, 'publisher']])
+})
+
+Deno.test('lets admins listen in as subscribers', async () => {
+  setup()
+  const res = await call(handler, { channelId, role: 'publisher' }, { token: 'admin-token' })
+
+  assertEquals(res.body.role, 'subscriber')
+})
+
+Deno.test('denies and records other callers', async () => {
+  const { fakes } = setup()
+
+  assertEquals((await call(handler, { channelId }, { token: 'stranger-token' })).status, 403)
+  assertEquals((await call(handler, { channelId, uid: 42 }, { token: 'mentor-token' })).status, 403)
+  assertEquals((await call(handler, { channelId: 'lobby' }, { token: 'mentor-token' })).status, 404)
+  assertEquals((await call(handler, { channelId })).status, 401)
+  assertEquals(denials(fakes), ['not_a_participant', 'uid_mismatch', 'unknown_channel', 'unauthenticated'])
+  assertEquals(fakes.supabase.table('agora_tokens').length, 0)
+})
@@ -0,0 +1,123 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { clients } from '../_shared/clients.ts'
+import { createHandler } from '../_shared/handler.ts'
+import { HttpError } from '../_shared/http.ts'
+import { addDays, formatDate, isValidTimeZone, parseDate } from '../_shared/time.ts'
+import { v } from '../_shared/validate.ts'
+import { dateRange, type Interval, openSlots } from './slots.ts'
+
+// Longest range one request may cover, in days
+const MAX_RANGE_DAYS = 31
+
+// Slots start on the hour and half hour of each availability window
+const SLOT_STEP_MINUTES = 30
+
+// Free time kept either side of a booked session unless SESSION_BUFFER_MINUTES says otherwise
+const DEFAULT_BUFFER_MINUTES = 10
+
+// Sessions starting this long before the range can still run into it
+const SESSION_LOOKBACK_MS = 24 * 60 * 60_000
+
+// Sessions in these states no longer hold the mentor's time
+const INACTIVE_STATUSES = ['cancelled', 'declined']
+
+const date = () => v.string({ pattern: /^\d{4}-\d{2}-\d{2}$/, description: 'a date (YYYY-MM-DD)' })
+
+const schema = {
+  // The mentor's user id (mentor_profiles.user_id)
+  mentorId: v.uuid(),
+  from: date(),
+  // Inclusive; defaults to a week from `from`
+  to: v.optional(date()),
+  // IANA zone the dates are in and slots are grouped by; defaults to the caller's profile
+  timeZone: v.optional(v.string({ maxLength: 64 })),
+  durationMinutes: v.optional(v.integer({ min: 15, max: 240 }), 60),
+}
+
+const RATE_LIMIT = { limit: 60, windowSeconds: 60 }
+
+function bufferMinutes(): number {
+  const raw = clients().env('SESSION_BUFFER_MINUTES')
+  const minutes = raw ? Number(raw) : DEFAULT_BUFFER_MINUTES
+  return Number.isInteger(minutes) && minutes >= 0 ? minutes : DEFAULT_BUFFER_MINUTES
+}
+
+const instant = (value: string) => new Date(value).getTime()
+
+// The requested time zone, else the caller's profile time zone, else UTC
+async function requestTimeZone(supabase: SupabaseClient, userId: string, requested: string | undefined): Promise<string> {
+  if (requested !== undefined) {
+    if (!isValidTimeZone(requested)) throw new HttpError(400, 'invalid_request', 'timeZone must be an IANA time zone')
+    return requested
+  }
+  const { data: profile } = await supabase.from('user_profiles').select('timezone').eq('id', userId).maybeSingle()
+  const stored: unknown = profile?.timezone
+  return typeof stored === 'string' && isValidTimeZone(stored) ? stored : 'UTC'
+}
+
+export const handler = createHandler({ name: 'mentor-slots', auth: 'user', body: schema, rateLimit: RATE_LIMIT }, async ({ supabase, caller, body }) => {
+  const { mentorId, durationMinutes } = body
+
+  const from = parseDate(body.from)
+  const to = body.to === undefined ? from && addDays(from, 6) : parseDate(body.to)
+  if (!from || !to) throw new HttpError(400, 'invalid_request', 'from and to must be calendar dates')
+  if (formatDate(to) < formatDate(from)) throw new HttpError(400, 'invalid_request', 'to must not be before from')
+  if (formatDate(to) >= formatDate(addDays(from, MAX_RANGE_DAYS))) {
+    throw new HttpError(400, 'invalid_request', `At most ${MAX_RANGE_DAYS} days can be requested at once`)
+  }
+
+  const timeZone = await requestTimeZone(supabase, caller.user.id, body.timeZone)
+
+  const { data: mentor, error: mentorError } = await supabase
+    .from('mentor_profiles')
+    .select('id, user_id')
+    .eq('user_id', mentorId)
+    .maybeSingle()
+  if (mentorError) throw new Error(`Mentor lookup failed: ${mentorError.message}`)
+  if (!mentor) throw new HttpError(404, 'not_found', 'Mentor not found')
+
+  const range = dateRange(timeZone, from, to)
+  const buffer = bufferMinutes()
+  const rangeStart = new Date(range.start).toISOString()
+  const rangeEnd = new Date(range.end).toISOString()
+
+  const [availability, timeOff, sessions] = await Promise.all([
+    supabase
+      .from('mentor_availability')
+      .select('day_of_week, start_time, end_time, is_enabled, timezone')
+      .eq('mentor_id', mentorId),
+    supabase
+      .from('mentor_time_off')
+      .select('start_at, end_at')
+      .eq('mentor_id', mentorId)
+      .lt('start_at', rangeEnd)
+      .gt('end_at', rangeStart),
+    // Older rows store the mentor's user id rather than the profile id
+    supabase
+      .from('mentoring_sessions')
+      .select('scheduled_time, duration_minutes, status')
+      .in('mentor_id', [mentor.user_id, mentor.id])
+      .gte('scheduled_time', new Date(range.start - SESSION_LOOKBACK_MS).toISOString())
+      .lt('scheduled_time', new Date(range.end + buffer * 60_000).toISOString()),
+  ])
+  if (availability.error) throw new Error(`Availability lookup failed: ${availability.error.message}`)
+  if (timeOff.error) throw new Error(`Time off lookup failed: ${timeOff.error.message}`)
+  if (sessions.error) throw new Error(`Session lookup failed: ${sessions.error.message}`)
+
+  const booked: Interval[] = (sessions.data ?? [])
+    .filter((s) => !INACTIVE_STATUSES.includes(s.status))
+    .map((s) => ({ start: instant(s.scheduled_time), end: instant(s.scheduled_time) + (s.duration_minutes ?? 60) * 60_000 }))
+  const blocked: Interval[] = (timeOff.data ?? []).map((t) => ({ start: instant(t.start_at), end: instant(t.end_at) }))
+
+  const days = openSlots(availability.data ?? [], booked, blocked, {
+    timeZone,
+    from,
+    to,
+    durationMinutes,
+    stepMinutes: SLOT_STEP_MINUTES,
+    bufferMinutes: buffer,
+    now: new Date(),
+  })
+
+  return { success: true, mentorId, timeZone, durationMinutes, bufferMinutes: buffer, days }
+})
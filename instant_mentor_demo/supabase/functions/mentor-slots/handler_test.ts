@@ -0,0 +1,65 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { call, installFakes } from '../_shared/testing.ts'
+import { handler } from './handler.ts'
+
+const MENTOR = '22222222-2222-4222-8222-222222222222'
+const PROFILE = '33333333-3333-4333-8333-333333333333'
+const STUDENT = '11111111-1111-4111-8111-111111111111'
+
+// 2030-01-07 is a Monday; London is on GMT in January
+function setup(env: Record<string, string> = {}) {
+  return installFakes({
+    env,
+    users: { 'student-token': { id: STUDENT } },
+    tables: {
+      user_profiles: [{ id: STUDENT, timezone: 'Asia/Kolkata' }],
+      mentor_profiles: [{ id: PROFILE, user_id: MENTOR }],
+      mentor_availability: [{ mentor_id: MENTOR, day_of_week: 0, start_time: '09:00:00', end_time: '11:00:00', is_enabled: true, timezone: 'Europe/London' }],
+      mentoring_sessions: [
+        // Older rows carry the mentor's user id
+        { id: 's-1', mentor_id: MENTOR, scheduled_time: '2030-01-07T10:30:00+00:00', duration_minutes: 30, status: 'scheduled' },
+        { id: 's-2', mentor_id: PROFILE, scheduled_time: '2030-01-07T09:00:00+00:00', duration_minutes: 60, status: 'cancelled' },
+      ],
+    },
+  })
+}
+
+const slotsOn = (body: { days: { date: string; slots: { start: string }[] }[] }, date: string) =>
+  body.days.find((d) => d.date === date)?.slots.map((s) => s.start)
+
+Deno.test('returns open slots in the caller time zone around booked sessions', async () => {
+  setup()
+  const res = await call(handler, { mentorId: MENTOR, from: '2030-01-07' }, { token: 'student-token' })
+
+  assertEquals(res.status, 200)
+  assertEquals([res.body.timeZone, res.body.bufferMinutes, res.body.days.length], ['Asia/Kolkata', 10, 7])
+  // 09:30 and 10:00 would run into the 10:30 session's buffer; the cancelled one frees 09:00
+  assertEquals(slotsOn(res.body, '2030-01-07'), ['2030-01-07T09:00:00.000Z'])
+  assertEquals(slotsOn(res.body, '2030-01-08'), [])
+})
+
+Deno.test('uses the configured buffer and requested time zone', async () => {
+  setup({ SESSION_BUFFER_MINUTES: '0' })
+  const res = await call(handler, { mentorId: MENTOR, from: '2030-01-07', to: '2030-01-07', timeZone: 'America/Los_Angeles', durationMinutes: 30 }, { token: 'student-token' })
+
+  assertEquals(res.body.days, [{
+    date: '2030-01-07',
+    slots: [
+      { start: '2030-01-07T09:00:00.000Z', end: '2030-01-07T09:30:00.000Z' },
+      { start: '2030-01-07T09:30:00.000Z', end: '2030-01-07T10:00:00.000Z' },
+      { start: '2030-01-07T10:00:00.000Z', end: '2030-01-07T10:30:00.000Z' },
+    ],
+  }])
+})
+
+Deno.test('rejects bad ranges, zones and unknown mentors', async () => {
+  setup()
+  const slots = (body: Record<string, unknown>, token?: string) => call(handler, { mentorId: MENTOR, from: '2030-01-07', ...body }, { token })
+
+  assertEquals((await slots({ to: '2030-02-07' }, 'student-token')).status, 400)
+  assertEquals((await slots({ to: '2030-01-06' }, 'student-token')).status, 400)
+  assertEquals((await slots({ from: '2030-02-30' }, 'student-token')).status, 400)
+  assertEquals((await slots({ timeZone: 'Mars/Olympus_Mons' }, 'student-token')).status, 400)
+  assertEquals((await slots({ mentorId: STUDENT }, 'student-token')).status, 404)
+  assertEquals((await slots({})).status, 401)
+})
@@ -0,0 +1,121 @@
+// Bookable slots from a mentor's weekly availability.
+//
+// mentor_availability holds one window per weekday (0 = Monday, as the app
+// writes it) as local times in the row's own time zone; an end at or before
+// the start runs past midnight. Windows are turned into instants day by day,
+// so a DST change moves them with the mentor's wall clock. Slots start every
+// `stepMinutes` from the window start and must fit inside it. A slot is taken
+// when it overlaps another session widened by `bufferMinutes` on both sides, or
+// any mentor_time_off block. The result is grouped by date in the student's
+// time zone.
+
+import { addDays, formatDate, type LocalDate, localTime, parseTime, weekday, zonedTime } from '../_shared/time.ts'
+
+export interface AvailabilityRow {
+  day_of_week: number
+  start_time: string
+  end_time: string
+  is_enabled?: boolean | null
+  timezone?: string | null
+}
+
+/** Half-open [start, end) in ms since the epoch. */
+export interface Interval {
+  start: number
+  end: number
+}
+
+export interface SlotQuery {
+  // The student's time zone; `from` and `to` (inclusive) are dates there
+  timeZone: string
+  from: LocalDate
+  to: LocalDate
+  durationMinutes: number
+  stepMinutes: number
+  bufferMinutes: number
+  now: Date
+}
+
+export interface Slot {
+  start: string
+  end: string
+}
+
+export interface SlotDay {
+  date: string
+  slots: Slot[]
+}
+
+const MINUTE = 60_000
+
+/** The instants [from 00:00, day after `to` 00:00) in `timeZone`. */
+export function dateRange(timeZone: string, from: LocalDate, to: LocalDate): Interval {
+  const end = addDays(to, 1)
+  return {
+    start: zonedTime(timeZone, from.year, from.month, from.day, 0).getTime(),
+    end: zonedTime(timeZone, end.year, end.month, end.day, 0).getTime(),
+  }
+}
+
+/** Availability windows overlapping `range`, as instants. Rows with an unusable time or zone are skipped. */
+export function availabilityWindows(rows: AvailabilityRow[], range: Interval): Interval[] {
+  const windows: Interval[] = []
+  for (const row of rows) {
+    if (row.is_enabled === false) continue
+    const start = parseTime(row.start_time)
+    const end = parseTime(row.end_time)
+    const timeZone = row.timezone || 'UTC'
+    if (start === null || end === null) continue
+    let first: LocalDate
+    let last: LocalDate
+    try {
+      // One day either side covers any zone offset and windows past midnight
+      first = addDays(localTime(timeZone, range.start), -1)
+      last = addDays(localTime(timeZone, range.end), 1)
+    } catch (_) {
+      continue
+    }
+    for (let day = first; formatDate(day) <= formatDate(last); day = addDays(day, 1)) {
+      if (weekday(day) !== row.day_of_week) continue
+      const endDay = end <= start ? addDays(day, 1) : day
+      const window = {
+        start: zonedTime(timeZone, day.year, day.month, day.day, start).getTime(),
+        end: zonedTime(timeZone, endDay.year, endDay.month, endDay.day, end).getTime(),
+      }
+      if (window.start < range.end && window.end > range.start) windows.push(window)
+    }
+  }
+  return windows
+}
+
+const overlaps = (a: Interval, b: Interval) => a.start < b.end && b.start < a.end
+
+export function openSlots(rows: AvailabilityRow[], sessions: Interval[], timeOff: Interval[], query: SlotQuery): SlotDay[] {
+  const range = dateRange(query.timeZone, query.from, query.to)
+  const duration = query.durationMinutes * MINUTE
+  const buffer = query.bufferMinutes * MINUTE
+  const busy = [
+    ...sessions.map((s) => ({ start: s.start - buffer, end: s.end + buffer })),
+    ...timeOff,
+  ]
+
+  // Keyed by start, so overlapping windows do not offer a slot twice
+  const starts = new Set<number>()
+  for (const window of availabilityWindows(rows, range)) {
+    for (let start = window.start; start + duration <= window.end; start += query.stepMinutes * MINUTE) {
+      if (start < range.start || start >= range.end || start < query.now.getTime()) continue
+      const slot = { start, end: start + duration }
+      if (!busy.some((b) => overlaps(slot, b))) starts.add(start)
+    }
+  }
+
+  const days = new Map<string, Slot[]>()
+  for (let day = query.from; formatDate(day) <= formatDate(query.to); day = addDays(day, 1)) days.set(formatDate(day), [])
+  for (const start of [...starts].sort((a, b) => a - b)) {
+    days.get(formatDate(localTime(query.timeZone, start)))?.push({
+      start: new Date(start).toISOString(),
+      end: new Date(start + duration).toISOString(),
+    })
+  }
+  return [...days].map(([date, slots]) => ({ date, slots }))
+}
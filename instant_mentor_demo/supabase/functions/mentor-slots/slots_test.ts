@@ -0,0 +1,64 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { parseDate } from '../_shared/time.ts'
+import { type AvailabilityRow, type Interval, openSlots, type SlotQuery } from './slots.ts'
+
+const at = (iso: string) => Date.parse(iso)
+
+function query(overrides: Omit<Partial<SlotQuery>, 'from' | 'to'> & { from: string; to: string }): SlotQuery {
+  return {
+    timeZone: 'UTC',
+    durationMinutes: 60,
+    stepMinutes: 30,
+    bufferMinutes: 10,
+    now: new Date('2025-03-01T00:00:00Z'),
+    ...overrides,
+    from: parseDate(overrides.from)!,
+    to: parseDate(overrides.to)!,
+  }
+}
+
+const starts = (days: ReturnType<typeof openSlots>) =>
+  Object.fromEntries(days.map((d) => [d.date, d.slots.map((s) => s.start.slice(11, 16))]))
+
+// Mondays 09:00–11:00 in New York
+const mondayMornings: AvailabilityRow[] = [
+  { day_of_week: 0, start_time: '09:00:00', end_time: '11:00:00', is_enabled: true, timezone: 'America/New_York' },
+]
+
+Deno.test('follows the mentor wall clock across a DST change', () => {
+  // New York moves to EDT on 2025-03-09; Berlin stays on CET until the 30th
+  const days = openSlots(mondayMornings, [], [], query({ timeZone: 'Europe/Berlin', from: '2025-03-03', to: '2025-03-10' }))
+
+  assertEquals(days.length, 8)
+  assertEquals(starts(days)['2025-03-03'], ['14:00', '14:30', '15:00'])
+  assertEquals(starts(days)['2025-03-10'], ['13:00', '13:30', '14:00'])
+  assertEquals(days[0].slots[0], { start: '2025-03-03T14:00:00.000Z', end: '2025-03-03T15:00:00.000Z' })
+  assertEquals(starts(days)['2025-03-04'], [])
+})
+
+Deno.test('keeps a buffer around booked sessions and skips time off', () => {
+  const sessions: Interval[] = [{ start: at('2025-03-03T15:30:00Z'), end: at('2025-03-03T16:00:00Z') }]
+  const timeOff: Interval[] = [{ start: at('2025-03-10T00:00:00Z'), end: at('2025-03-11T00:00:00Z') }]
+  const days = openSlots(mondayMornings, sessions, timeOff, query({ from: '2025-03-03', to: '2025-03-10' }))
+
+  // 14:30 would end at 15:30, inside the 10 minute buffer before the 15:30 session
+  assertEquals(starts(days)['2025-03-03'], ['14:00'])
+  assertEquals(starts(days)['2025-03-10'], [])
+})
+
+Deno.test('runs windows past midnight and hides slots already started', () => {
+  const lateFriday: AvailabilityRow[] = [{ day_of_week: 4, start_time: '22:00', end_time: '01:00', timezone: 'UTC' }]
+  const now = new Date('2025-03-07T22:15:00Z')
+  const days = openSlots(lateFriday, [], [], query({ from: '2025-03-07', to: '2025-03-08', now, durationMinutes: 30 }))
+
+  assertEquals(starts(days), { '2025-03-07': ['22:30', '23:00', '23:30'], '2025-03-08': ['00:00', '00:30'] })
+})
+
+Deno.test('ignores disabled days and rows with a bad time zone', () => {
+  const rows: AvailabilityRow[] = [
+    { day_of_week: 0, start_time: '09:00', end_time: '11:00', is_enabled: false, timezone: 'UTC' },
+    { day_of_week: 0, start_time: '09:00', end_time: '11:00', timezone: 'Mars/Olympus_Mons' },
+  ]
+
+  assertEquals(starts(openSlots(rows, [], [], query({ from: '2025-03-03', to: '2025-03-03' }))), { '2025-03-03': [] })
+})
@@ -0,0 +1,90 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { PushContent } from '../_shared/fcm.ts'
+import { createHandler } from '../_shared/handler.ts'
+import { loadPreferences, quietHoursEnd } from '../_shared/preferences.ts'
+import { pushToDevices } from '../_shared/push.ts'
+import { digestItems, digestPush, groupOutbox, MAX_ATTEMPTS, type OutboxJob, type OutboxRow, retryDelayMs } from './outbox.ts'
+
+// Delivers due notification_outbox rows: pushes deferred by quiet hours and the
+// digests of low-priority categories. Meant to run on a schedule (every few
+// minutes) with the service role key as its bearer token.
+
+type Outcome = 'sent' | 'rescheduled' | 'retry' | 'failed'
+
+// Not worth retrying (no address, suppressed recipient)
+class PermanentError extends Error {}
+
+async function deliver(supabase: SupabaseClient, job: OutboxJob): Promise<{ outcome: 'sent' } | { outcome: 'rescheduled'; until: Date }> {
+  if (job.channel === 'push') {
+    // Quiet hours may have been changed (or started) since the row was queued
+    const until = quietHoursEnd(await loadPreferences(supabase, job.userId))
+    if (until) return { outcome: 'rescheduled', until }
+    const content = job.kind === 'deferred' ? job.rows[0].payload as unknown as PushContent : digestPush(job.rows)
+    await pushToDevices(supabase, job.userId, content)
+    return { outcome: 'sent' }
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('email, full_name, preferred_language')
+    .eq('id', job.userId)
+    .maybeSingle()
+  if (profileError) throw new Error(`Failed to load profile: ${profileError.message}`)
+  if (!profile?.email) throw new PermanentError('User has no email address')
+
+  // Through send-email so suppression and email_logs apply; no category, the
+  // items were already filtered by preference when they were queued
+  const { data, error } = await supabase.functions.invoke('send-email', {
+    body: {
+      to: profile.email,
+      userId: job.userId,
+      template: 'notification_digest',
+      variables: { recipientName: profile.full_name ?? undefined, count: job.rows.length, items: digestItems(job.rows) },
+      locale: profile.preferred_language ?? undefined,
+    },
+  })
+  if (error) throw new Error(`send-email failed: ${error.message}`)
+  if (data?.suppressed) throw new PermanentError(`Recipient suppressed (${data.reason})`)
+  return { outcome: 'sent' }
+}
+
+async function settle(supabase: SupabaseClient, rows: OutboxRow[], update: Record<string, unknown>) {
+  const { error } = await supabase.from('notification_outbox').update(update).in('id', rows.map((r) => r.id))
+  if (error) console.error('Failed to update outbox rows:', error)
+}
+
+export const handler = createHandler({ name: 'notification-digest', auth: 'service' }, async ({ supabase }) => {
+  const { data: rows, error } = await supabase.rpc('claim_notification_outbox', { p_limit: 200 })
+  if (error) throw new Error(`claim_notification_outbox failed: ${error.message}`)
+
+  const counts: Record<Outcome, number> = { sent: 0, rescheduled: 0, retry: 0, failed: 0 }
+  for (const job of groupOutbox((rows ?? []) as OutboxRow[])) {
+    const attempts = Math.max(...job.rows.map((r) => r.attempts))
+    try {
+      const result = await deliver(supabase, job)
+      if (result.outcome === 'rescheduled') {
+        // Waiting out quiet hours is not a failed attempt
+        for (const row of job.rows) {
+          await settle(supabase, [row], { status: 'pending', deliver_after: result.until.toISOString(), attempts: row.attempts - 1, locked_at: null })
+        }
+        counts.rescheduled += job.rows.length
+      } else {
+        await settle(supabase, job.rows, { status: 'sent', sent_at: new Date().toISOString(), locked_at: null, last_error: null })
+        counts.sent += job.rows.length
+      }
+    } catch (err) {
+      const message = String(err?.message || err)
+      console.error(`Outbox delivery failed for ${job.userId}/${job.channel}:`, message)
+      if (err instanceof PermanentError || attempts >= MAX_ATTEMPTS) {
+        await settle(supabase, job.rows, { status: 'failed', last_error: message, locked_at: null })
+        counts.failed += job.rows.length
+      } else {
+        const retryAt = new Date(Date.now() + retryDelayMs(attempts)).toISOString()
+        await settle(supabase, job.rows, { status: 'pending', deliver_after: retryAt, last_error: message, locked_at: null })
+        counts.retry += job.rows.length
+      }
+    }
+  }
+
+  return { claimed: rows?.length ?? 0, ...counts }
+})
@@ -0,0 +1,79 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { call, fcmServiceAccount, installFakes, SERVICE_KEY } from '../_shared/testing.ts'
+import { handler } from './handler.ts'
+
+const past = (minutes: number) => new Date(Date.now() - minutes * 60_000).toISOString()
+
+const row = (id: string, fields: Record<string, unknown>) => ({
+  id,
+  user_id: 'user-1',
+  category: 'marketing',
+  channel: 'email',
+  kind: 'digest',
+  payload: { title: `Item ${id}` },
+  deliver_after: past(1),
+  attempts: 0,
+  status: 'pending',
+  created_at: past(60 - Number(id.slice(1))),
+  ...fields,
+})
+
+// claim_notification_outbox from 017_notification_preferences.sql: takes due pending rows
+async function setup(rows: Record<string, unknown>[]) {
+  const fakes = installFakes({
+    env: { FCM_SERVICE_ACCOUNT: await fcmServiceAccount() },
+    users: { 'user-token': { id: 'user-1' } },
+    tables: {
+      notification_outbox: rows,
+      user_profiles: [{ id: 'user-1', email: 'asha@example.com', full_name: 'Asha', preferred_language: 'hi' }],
+      user_devices: [{ user_id: 'user-1', token: 'phone' }],
+    },
+  })
+  fakes.supabase.onRpc('claim_notification_outbox', ({ p_limit }, db) =>
+    db.table('notification_outbox')
+      .filter((r) => r.status === 'pending' && r.deliver_after <= new Date().toISOString())
+      .slice(0, p_limit)
+      .map((r) => ({ ...Object.assign(r, { status: 'processing', attempts: r.attempts + 1 }) })))
+  fakes.supabase.onInvoke('send-email', () => ({ success: true }))
+  return fakes
+}
+
+const statuses = (fakes: Awaited<ReturnType<typeof setup>>) => fakes.supabase.table('notification_outbox').map((r) => r.status)
+
+Deno.test('sends one digest email per user and a deferred push as queued', async () => {
+  const fakes = await setup([
+    row('r1', {}),
+    row('r2', {}),
+    row('r3', { channel: 'push', kind: 'deferred', category: 'sessions', payload: { title: 'Session moved', body: 'Now at 6pm', data: { type: 'session' } } }),
+  ])
+  const res = await call(handler, {}, { token: SERVICE_KEY })
+
+  assertEquals(res.body, { claimed: 3, sent: 3, rescheduled: 0, retry: 0, failed: 0 })
+  assertEquals(fakes.supabase.invocations.map((i) => i.name), ['send-email'])
+  const email = fakes.supabase.invocations[0].body as Record<string, any>
+  assertEquals([email.to, email.template, email.locale, email.variables.items], ['asha@example.com', 'notification_digest', 'hi', ['Item r1', 'Item r2']])
+  assertEquals(fakes.fcm.sent.map((s) => s.message.notification.title), ['Session moved'])
+  assertEquals(statuses(fakes), ['sent', 'sent', 'sent'])
+})
+
+Deno.test('retries failed deliveries and gives up on suppressed recipients', async () => {
+  const fakes = await setup([row('r1', {})])
+  fakes.supabase.onInvoke('send-email', () => {
+    throw new Error('timeout')
+  })
+  assertEquals((await call(handler, {}, { token: SERVICE_KEY })).body.retry, 1)
+  const [retried] = fakes.supabase.table('notification_outbox')
+  assertEquals([retried.status, retried.last_error], ['pending', 'send-email failed: timeout'])
+
+  retried.deliver_after = past(1)
+  fakes.supabase.onInvoke('send-email', () => ({ success: false, suppressed: true, reason: 'bounce' }))
+  assertEquals((await call(handler, {}, { token: SERVICE_KEY })).body.failed, 1)
+  assertEquals(statuses(fakes), ['failed'])
+})
+
+Deno.test('is for the service role only', async () => {
+  const fakes = await setup([row('r1', {})])
+
+  assertEquals((await call(handler, {}, { token: 'user-token' })).status, 403)
+  assertEquals(fakes.supabase.calls('claim_notification_outbox').length, 0)
+})
@@ -0,0 +1,66 @@
+// Grouping and retry rules for notification_outbox rows.
+
+import type { PushContent } from '../_shared/fcm.ts'
+
+export interface OutboxRow {
+  id: string
+  user_id: string
+  category: string
+  channel: 'push' | 'email'
+  kind: 'deferred' | 'digest'
+  payload: Record<string, unknown>
+  deliver_after: string
+  attempts: number
+  created_at: string
+}
+
+export type OutboxJob =
+  // One push held back by quiet hours, sent as it was
+  | { kind: 'deferred'; userId: string; channel: 'push'; rows: [OutboxRow] }
+  // All due digest items of one user on one channel, sent as a single message
+  | { kind: 'digest'; userId: string; channel: 'push' | 'email'; rows: OutboxRow[] }
+
+export const MAX_ATTEMPTS = 5
+
+// Digest emails list at most this many items, then "and N more"
+export const MAX_DIGEST_ITEMS = 20
+
+export function groupOutbox(rows: OutboxRow[]): OutboxJob[] {
+  const jobs: OutboxJob[] = []
+  const digests = new Map<string, OutboxRow[]>()
+  for (const row of [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at))) {
+    if (row.kind === 'deferred' && row.channel === 'push') {
+      jobs.push({ kind: 'deferred', userId: row.user_id, channel: 'push', rows: [row] })
+      continue
+    }
+    const key = `${row.user_id}:${row.channel}`
+    digests.set(key, [...(digests.get(key) ?? []), row])
+  }
+  for (const group of digests.values()) {
+    jobs.push({ kind: 'digest', userId: group[0].user_id, channel: group[0].channel, rows: group })
+  }
+  return jobs
+}
+
+const titleOf = (row: OutboxRow) => String(row.payload.title ?? '').trim()
+
+export function digestItems(rows: OutboxRow[]): string[] {
+  const titles = rows.map(titleOf).filter(Boolean)
+  if (titles.length <= MAX_DIGEST_ITEMS) return titles
+  return [...titles.slice(0, MAX_DIGEST_ITEMS - 1), `and ${titles.length - MAX_DIGEST_ITEMS + 1} more`]
+}
+
+export function digestPush(rows: OutboxRow[]): PushContent {
+  const titles = rows.map(titleOf).filter(Boolean)
+  const body = titles.join(' · ')
+  return {
+    title: rows.length === 1 ? titles[0] || 'New update' : `${rows.length} new updates`,
+    body: body.length > 200 ? `${body.slice(0, 199)}…` : body,
+    data: { type: 'digest', count: rows.length },
+  }
+}
+
+/** Backoff before the next attempt: 5 minutes doubling, capped at 6 hours. */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(5 * 60_000 * 2 ** Math.max(0, attempts - 1), 6 * 60 * 60_000)
+}
@@ -0,0 +1,53 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { digestItems, digestPush, groupOutbox, type OutboxRow, retryDelayMs } from './outbox.ts'
+
+let seq = 0
+const row = (overrides: Partial<OutboxRow>): OutboxRow => ({
+  id: `row-${++seq}`,
+  user_id: 'u1',
+  category: 'marketing',
+  channel: 'email',
+  kind: 'digest',
+  payload: { title: `Item ${seq}` },
+  deliver_after: '2025-03-01T12:00:00Z',
+  attempts: 1,
+  created_at: `2025-03-01T10:00:${String(seq).padStart(2, '0')}Z`,
+  ...overrides,
+})
+
+Deno.test('groups digest items per user and channel, deferred pushes one by one', () => {
+  const rows = [
+    row({ user_id: 'u1' }),
+    row({ user_id: 'u2' }),
+    row({ user_id: 'u1', channel: 'push' }),
+    row({ user_id: 'u1' }),
+    row({ user_id: 'u1', channel: 'push', kind: 'deferred', category: 'sessions' }),
+    row({ user_id: 'u1', channel: 'push', kind: 'deferred', category: 'sessions' }),
+  ]
+  const jobs = groupOutbox(rows)
+  assertEquals(jobs.map((j) => [j.kind, j.userId, j.channel, j.rows.length]), [
+    ['deferred', 'u1', 'push', 1],
+    ['deferred', 'u1', 'push', 1],
+    ['digest', 'u1', 'email', 2],
+    ['digest', 'u2', 'email', 1],
+    ['digest', 'u1', 'push', 1],
+  ])
+})
+
+Deno.test('digest content summarises the items', () => {
+  const rows = Array.from({ length: 25 }, () => row({}))
+  const items = digestItems(rows)
+  assertEquals(items.length, 20)
+  assertEquals(items[19], 'and 6 more')
+  const push = digestPush(rows.slice(0, 2))
+  assertEquals(push.title, '2 new updates')
+  assertEquals(push.body, `${rows[0].payload.title} · ${rows[1].payload.title}`)
+  assertEquals(digestPush([rows[0]]).title, rows[0].payload.title)
+  assertEquals(digestPush(rows).body.length, 200)
+})
+
+Deno.test('retry delay doubles and is capped', () => {
+  assertEquals(retryDelayMs(1), 5 * 60_000)
+  assertEquals(retryDelayMs(3), 20 * 60_000)
+  assertEquals(retryDelayMs(20), 6 * 60 * 60_000)
+})
@@ -0,0 +1,133 @@
+// Gateway-neutral pieces of process-payment: which gateway a request asked
+// for, whether a session's pending intent can be handed out again, and the
+// Razorpay Orders REST calls (there is no Deno SDK).
+//
+// A session has at most one pending payment_transactions row. A retry for the
+// same gateway, amount and currency gets that intent back while the gateway
+// still considers it open; anything else supersedes it.
+
+import { fromMajor, type Money } from '../_shared/money.ts'
+
+export type PaymentGateway = 'stripe' | 'razorpay' | 'wallet'
+
+export const PAYMENT_GATEWAYS: readonly PaymentGateway[] = ['stripe', 'razorpay', 'wallet']
+
+export function parseGateway(value: unknown): PaymentGateway | null {
+  if (value === undefined || value === null || value === '') return 'stripe'
+  return typeof value === 'string' && (PAYMENT_GATEWAYS as readonly string[]).includes(value)
+    ? value as PaymentGateway
+    : null
+}
+
+/** How the gateway sees an intent: still payable, already paid, or dead. */
+export type IntentState = 'open' | 'paid' | 'closed'
+
+export function stripeIntentState(status: string): IntentState {
+  switch (status) {
+    case 'requires_payment_method':
+    case 'requires_confirmation':
+    case 'requires_action':
+    case 'processing':
+      return 'open'
+    case 'succeeded':
+    case 'requires_capture':
+      return 'paid'
+    default:
+      return 'closed'
+  }
+}
+
+export function razorpayOrderState(status: string): IntentState {
+  switch (status) {
+    case 'created':
+    case 'attempted':
+      return 'open'
+    case 'paid':
+      return 'paid'
+    default:
+      return 'closed'
+  }
+}
+
+/** The session's pending payment_transactions row, as far as reuse is concerned. */
+export interface PendingIntent {
+  payment_method: string | null
+  transaction_id: string | null
+  // major units, DECIMAL column
+  amount: number | string
+  currency: string | null
+}
+
+export type ReuseDecision = 'reuse' | 'supersede' | 'paid'
+
+export function decideReuse(
+  pending: PendingIntent,
+  requested: { gateway: PaymentGateway; charge: Money },
+  state: IntentState,
+): ReuseDecision {
+  if (state === 'paid') return 'paid'
+  if (state === 'closed') return 'supersede'
+  if (requested.gateway === 'wallet' || pending.payment_method !== requested.gateway) return 'supersede'
+  if ((pending.currency ?? '').toUpperCase() !== requested.charge.currency) return 'supersede'
+  const pendingMinor = fromMajor(pending.amount, requested.charge.currency, 'half_up').amountMinor
+  return pendingMinor === requested.charge.amountMinor ? 'reuse' : 'supersede'
+}
+
+// ---------------------------------------------------------------------------
+// Razorpay Orders API
+// ---------------------------------------------------------------------------
+
+export interface RazorpayCredentials {
+  keyId: string
+  keySecret: string
+}
+
+export interface RazorpayOrder {
+  id: string
+  amount: number
+  currency: string
+  status: string
+  receipt?: string
+}
+
+const RAZORPAY_API = 'https://api.razorpay.com/v1'
+
+async function razorpayRequest<T>(
+  creds: RazorpayCredentials, path: string, init: RequestInit, fetchFn: typeof fetch,
+): Promise<T> {
+  const res = await fetchFn(`${RAZORPAY_API}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Basic ${btoa(`${creds.keyId}:${creds.keySecret}`)}`,
+      'Content-Type': 'application/json',
+    },
+  })
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new Error(`Razorpay ${path} failed (${res.status}): ${body?.error?.description ?? 'unknown error'}`)
+  }
+  return body as T
+}
+
+export function createRazorpayOrder(
+  creds: RazorpayCredentials,
+  params: { charge: Money; receipt: string; notes: Record<string, string> },
+  fetchFn: typeof fetch = fetch,
+): Promise<RazorpayOrder> {
+  return razorpayRequest<RazorpayOrder>(creds, '/orders', {
+    method: 'POST',
+    body: JSON.stringify({
+      amount: params.charge.amountMinor,
+      currency: params.charge.currency,
+      // Razorpay caps receipts at 40 characters
+      receipt: params.receipt.slice(0, 40),
+      notes: params.notes,
+    }),
+  }, fetchFn)
+}
+
+export function fetchRazorpayOrder(
+  creds: RazorpayCredentials, orderId: string, fetchFn: typeof fetch = fetch,
+): Promise<RazorpayOrder> {
+  return razorpayRequest<RazorpayOrder>(creds, `/orders/${encodeURIComponent(orderId)}`, { method: 'GET' }, fetchFn)
+}
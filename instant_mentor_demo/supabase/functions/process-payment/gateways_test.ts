@@ -0,0 +1,77 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { fromMajor } from '../_shared/money.ts'
+import {
+  createRazorpayOrder,
+  decideReuse,
+  parseGateway,
+  type PendingIntent,
+  razorpayOrderState,
+  stripeIntentState,
+} from './gateways.ts'
+
+const pending: PendingIntent = { payment_method: 'stripe', transaction_id: 'pi_123', amount: '100.50', currency: 'INR' }
+const charge = fromMajor(100.5, 'INR')
+
+Deno.test('defaults to Stripe and rejects unknown gateways', () => {
+  assertEquals(parseGateway(undefined), 'stripe')
+  assertEquals(parseGateway('razorpay'), 'razorpay')
+  assertEquals(parseGateway('wallet'), 'wallet')
+  assertEquals(parseGateway('paypal'), null)
+  assertEquals(parseGateway(1), null)
+})
+
+Deno.test('maps gateway statuses', () => {
+  assertEquals(stripeIntentState('requires_action'), 'open')
+  assertEquals(stripeIntentState('succeeded'), 'paid')
+  assertEquals(stripeIntentState('canceled'), 'closed')
+  assertEquals(razorpayOrderState('attempted'), 'open')
+  assertEquals(razorpayOrderState('paid'), 'paid')
+})
+
+Deno.test('reuses an open intent for the same gateway, amount and currency', () => {
+  assertEquals(decideReuse(pending, { gateway: 'stripe', charge }, 'open'), 'reuse')
+  assertEquals(decideReuse({ ...pending, amount: 100.5 }, { gateway: 'stripe', charge }, 'open'), 'reuse')
+})
+
+Deno.test('supersedes anything else', () => {
+  assertEquals(decideReuse(pending, { gateway: 'razorpay', charge }, 'open'), 'supersede')
+  assertEquals(decideReuse(pending, { gateway: 'wallet', charge }, 'open'), 'supersede')
+  assertEquals(decideReuse(pending, { gateway: 'stripe', charge: fromMajor(120, 'INR') }, 'open'), 'supersede')
+  assertEquals(decideReuse(pending, { gateway: 'stripe', charge: fromMajor(100.5, 'USD') }, 'open'), 'supersede')
+  assertEquals(decideReuse(pending, { gateway: 'stripe', charge }, 'closed'), 'supersede')
+  // Rows written before gateways were recorded carry the client's payment method id
+  assertEquals(decideReuse({ ...pending, payment_method: 'pm_card_visa' }, { gateway: 'stripe', charge }, 'open'), 'supersede')
+})
+
+Deno.test('never supersedes an intent that was already paid', () => {
+  assertEquals(decideReuse(pending, { gateway: 'wallet', charge }, 'paid'), 'paid')
+})
+
+Deno.test('creates Razorpay orders in minor units', async () => {
+  let request: { url: string; init: RequestInit } | null = null
+  const fakeFetch = ((url: string, init: RequestInit) => {
+    request = { url, init }
+    return Promise.resolve(new Response(JSON.stringify({ id: 'order_1', amount: 500, currency: 'JPY', status: 'created' })))
+  }) as typeof fetch
+
+  const order = await createRazorpayOrder(
+    { keyId: 'rzp_test', keySecret: 'secret' },
+    { charge: fromMajor(500, 'JPY'), receipt: 'session-1', notes: { sessionId: 'session-1' } },
+    fakeFetch,
+  )
+  assertEquals(order.id, 'order_1')
+  assertEquals(request!.url, 'https://api.razorpay.com/v1/orders')
+  assertEquals(JSON.parse(request!.init.body as string).amount, 500)
+  assertEquals((request!.init.headers as Record<string, string>)['Authorization'], `Basic ${btoa('rzp_test:secret')}`)
+})
+
+Deno.test('surfaces Razorpay errors', async () => {
+  const fakeFetch = (() => Promise.resolve(new Response(
+    JSON.stringify({ error: { description: 'Authentication failed' } }), { status: 401 },
+  ))) as typeof fetch
+  await assertRejects(
+    () => createRazorpayOrder({ keyId: 'k', keySecret: 's' }, { charge: fromMajor(1, 'INR'), receipt: 'r', notes: {} }, fakeFetch),
+    Error,
+    'Authentication failed',
+  )
+})
@@ -0,0 +1,290 @@
+import type Stripe from 'https://esm.sh/stripe@14.21.0'
+import { clients } from '../_shared/clients.ts'
+import { createHandler } from '../_shared/handler.ts'
+import { HttpError } from '../_shared/http.ts'
+import { currencyExponent, formatMajor, fromMajor, type Money, MoneyError, ratio, toMajor } from '../_shared/money.ts'
+import { v } from '../_shared/validate.ts'
+import {
+  createRazorpayOrder,
+  decideReuse,
+  fetchRazorpayOrder,
+  type IntentState,
+  type PaymentGateway,
+  type PendingIntent,
+  PAYMENT_GATEWAYS,
+  razorpayOrderState,
+  type RazorpayCredentials,
+  type RazorpayOrder,
+  stripeIntentState,
+} from './gateways.ts'
+
+// Amounts are major units of the currency, checked against its exponent below
+// and against the session's price
+const schema = {
+  sessionId: v.uuid(),
+  amount: v.number(),
+  currency: v.optional(v.string({ pattern: /^[A-Za-z]{3}$/, description: 'an ISO 4217 currency code' }), 'INR'),
+  gateway: v.optional(v.oneOf(PAYMENT_GATEWAYS), 'stripe'),
+}
+
+const RATE_LIMIT = { limit: 10, windowSeconds: 60 }
+
+// Gateway keys are read on first use so a Razorpay-only or wallet-only
+// deployment does not need Stripe keys, and vice versa.
+function stripe(): Stripe {
+  const { env, stripe: connect } = clients()
+  const stripeKey = env('STRIPE_SECRET_KEY')
+  if (!stripeKey) throw new Error('Stripe secret key not configured')
+  return connect(stripeKey)
+}
+
+function razorpay(): RazorpayCredentials {
+  const { env } = clients()
+  const keyId = env('RAZORPAY_KEY_ID')
+  const keySecret = env('RAZORPAY_KEY_SECRET')
+  if (!keyId || !keySecret) throw new Error('Razorpay keys not configured')
+  return { keyId, keySecret }
+}
+
+interface MentorRate {
+  hourly_rate: number | string | null
+  hourly_rate_currency: string
+}
+
+// The mentor's hourly rate × booked minutes, as the Firebase pricing does.
+// hourly_rate is in major units of hourly_rate_currency and never converted.
+function sessionPrice(rate: MentorRate, minutes: number): Money {
+  const hourly = Number(rate.hourly_rate ?? 0)
+  if (!(hourly > 0)) throw new HttpError(409, 'conflict', 'Mentor has no hourly rate')
+  return ratio(fromMajor(hourly, rate.hourly_rate_currency, 'half_up'), minutes, 60)
+}
+
+function gatewayOf(row: PendingIntent): PaymentGateway | null {
+  const id = row.transaction_id ?? ''
+  if (id.startsWith('pi_')) return 'stripe'
+  if (id.startsWith('order_')) return 'razorpay'
+  return null
+}
+
+// What the client needs to complete a gateway intent
+function stripeResponse(intent: Stripe.PaymentIntent, rowId: string, reused: boolean) {
+  return {
+    success: true,
+    gateway: 'stripe',
+    clientSecret: intent.client_secret,
+    paymentIntentId: intent.id,
+    transactionId: rowId,
+    reused,
+  }
+}
+
+function razorpayResponse(order: RazorpayOrder, keyId: string, rowId: string, reused: boolean) {
+  return {
+    success: true,
+    gateway: 'razorpay',
+    orderId: order.id,
+    keyId,
+    // minor units, as Razorpay Checkout expects
+    amount: order.amount,
+    currency: order.currency,
+    transactionId: rowId,
+    reused,
+  }
+}
+
+async function existingIntentResponse(gateway: PaymentGateway, transactionId: string, rowId: string) {
+  if (gateway === 'stripe') return stripeResponse(await stripe().paymentIntents.retrieve(transactionId), rowId, true)
+  const creds = razorpay()
+  return razorpayResponse(await fetchRazorpayOrder(creds, transactionId, clients().fetch), creds.keyId, rowId, true)
+}
+
+async function intentState(row: PendingIntent): Promise<IntentState> {
+  const gateway = gatewayOf(row)
+  if (gateway === 'stripe') return stripeIntentState((await stripe().paymentIntents.retrieve(row.transaction_id!)).status)
+  if (gateway === 'razorpay') return razorpayOrderState((await fetchRazorpayOrder(razorpay(), row.transaction_id!, clients().fetch)).status)
+  return 'closed'
+}
+
+// Best effort: a Stripe intent that is no longer ours to use is cancelled so it
+// cannot be confirmed later. Razorpay orders cannot be cancelled; they expire
+// and the gateway webhook reconciles any late payment.
+async function discardIntent(gateway: PaymentGateway, transactionId: string) {
+  if (gateway !== 'stripe') return
+  try {
+    await stripe().paymentIntents.cancel(transactionId)
+  } catch (err) {
+    console.warn('Failed to cancel superseded payment intent:', transactionId, err instanceof Error ? err.message : err)
+  }
+}
+
+export const handler = createHandler({ name: 'process-payment', auth: 'user', body: schema, rateLimit: RATE_LIMIT }, async ({ supabase, caller, body }) => {
+  const { user } = caller
+  const { sessionId, amount, currency, gateway } = body
+
+  // `amount` is in major units; reject more decimals than the currency has (e.g. any for JPY)
+  let charge: Money
+  try {
+    charge = fromMajor(amount, currency)
+  } catch (err) {
+    if (!(err instanceof MoneyError)) throw err
+    throw new HttpError(400, 'invalid_request', err.message)
+  }
+  if (charge.amountMinor <= 0) {
+    throw new HttpError(400, 'invalid_request', 'amount must be positive')
+  }
+
+  // Get session details from database
+  const { data: session, error: sessionError } = await supabase
+    .from('mentoring_sessions')
+    .select('id, student_id, mentor_id, subject, duration_minutes, payment_status, mentor_profiles!inner(user_id, hourly_rate, hourly_rate_currency)')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (sessionError) throw new Error(`Session lookup failed: ${sessionError.message}`)
+  if (!session) {
+    throw new HttpError(404, 'not_found', 'Session not found')
+  }
+  if (session.student_id !== user.id) {
+    throw new HttpError(403, 'forbidden', 'Only the student of this session can pay for it')
+  }
+  if (session.payment_status === 'paid') {
+    throw new HttpError(409, 'conflict', 'Session is already paid')
+  }
+  const payeeId: string = session.mentor_profiles.user_id
+
+  // The client shows the price, the server decides it: every gateway charges
+  // exactly the session's price, so a stale or edited amount is refused
+  const price = sessionPrice(session.mentor_profiles, session.duration_minutes)
+  if (charge.currency !== price.currency || charge.amountMinor !== price.amountMinor) {
+    throw new HttpError(409, 'conflict', `amount does not match the session price of ${formatMajor(price)} ${price.currency}`, {
+      amount: toMajor(price),
+      currency: price.currency,
+    })
+  }
+
+  const { data: pending, error: pendingError } = await supabase
+    .from('payment_transactions')
+    .select('id, payment_method, transaction_id, amount, currency')
+    .eq('session_id', sessionId)
+    .eq('status', 'pending')
+    .maybeSingle()
+  if (pendingError) throw new Error(`Payment lookup failed: ${pendingError.message}`)
+
+  // An open intent for the same gateway, amount and currency is handed out again
+  if (pending) {
+    const decision = decideReuse(pending, { gateway, charge }, await intentState(pending))
+    if (decision === 'paid') {
+      throw new HttpError(409, 'conflict', 'A payment for this session has already gone through and is being confirmed')
+    }
+    if (decision === 'reuse') {
+      return await existingIntentResponse(gateway, pending.transaction_id!, pending.id)
+    }
+    if (gateway !== 'wallet') {
+      // Supersede; the wallet charge does this itself in the same transaction
+      const { error: supersedeError } = await supabase
+        .from('payment_transactions')
+        .update({ status: 'failed', updated_at: new Date().toISOString() })
+        .eq('id', pending.id)
+        .eq('status', 'pending')
+      if (supersedeError) throw new Error(`Failed to supersede pending payment: ${supersedeError.message}`)
+    }
+  }
+
+  if (gateway === 'wallet') {
+    // Debit, mentor credit, payment_transactions row and session status in one transaction
+    const { data: result, error: chargeError } = await supabase.rpc('charge_session_wallet', {
+      p_session_id: sessionId,
+      p_student_id: user.id,
+      p_mentor_id: payeeId,
+      p_amount: toMajor(charge),
+      p_commission_rate: Number(clients().env('PLATFORM_FEE_PERCENT')) || 0.15,
+      p_currency: charge.currency,
+      p_currency_exponent: currencyExponent(charge.currency),
+    })
+    if (chargeError) throw new Error(`Wallet charge failed: ${chargeError.message}`)
+
+    if (result.status === 'insufficient_funds') {
+      throw new HttpError(402, 'insufficient_funds', 'Insufficient wallet balance', { balance: result.balance, required: result.gross_amount })
+    }
+    if (result.status === 'already_paid') {
+      throw new HttpError(409, 'conflict', 'Session is already paid')
+    }
+    const superseded = pending && gatewayOf(pending)
+    if (superseded) await discardIntent(superseded, pending.transaction_id!)
+    return {
+      success: true,
+      gateway,
+      status: result.status,
+      transactionId: result.transaction_id,
+      amount: result.gross_amount,
+      currency: charge.currency,
+    }
+  }
+
+  const superseded = pending && gatewayOf(pending)
+  if (superseded) await discardIntent(superseded, pending.transaction_id!)
+
+  // Create the gateway intent
+  let intentId: string
+  let respond: (rowId: string) => Record<string, unknown>
+  if (gateway === 'stripe') {
+    const paymentIntent = await stripe().paymentIntents.create({
+      amount: charge.amountMinor,
+      currency: charge.currency.toLowerCase(),
+      metadata: {
+        sessionId: sessionId,
+        studentId: session.student_id,
+        mentorId: session.mentor_id,
+        type: 'session_payment'
+      },
+      description: `InstantMentor Session - ${session.subject}`,
+      receipt_email: user.email
+    })
+    intentId = paymentIntent.id
+    respond = (rowId) => stripeResponse(paymentIntent, rowId, false)
+  } else {
+    const creds = razorpay()
+    const order = await createRazorpayOrder(creds, {
+      charge,
+      receipt: sessionId,
+      notes: {
+        sessionId: sessionId,
+        studentId: session.student_id,
+        mentorId: session.mentor_id,
+        type: 'session_payment'
+      },
+    }, clients().fetch)
+    intentId = order.id
+    respond = (rowId) => razorpayResponse(order, creds.keyId, rowId, false)
+  }
+
+  // Pending row and session status in one transaction. A failure here leaves
+  // an intent nobody can reconcile, so it is cancelled and the request fails.
+  const { data: transaction, error: transactionError } = await supabase
+    .rpc('record_session_payment_intent', {
+      p_session_id: sessionId,
+      p_payer_id: user.id,
+      p_payee_id: payeeId,
+      p_amount: toMajor(charge),
+      p_currency: charge.currency,
+      p_payment_method: gateway,
+      p_transaction_id: intentId,
+    })
+    .single()
+
+  if (transactionError || !transaction) {
+    await discardIntent(gateway, intentId)
+    throw new Error(`Failed to record payment transaction: ${transactionError?.message ?? 'no row returned'}`)
+  }
+
+  if (transaction.transaction_id !== intentId) {
+    // A concurrent request recorded its intent first; hand that one out if it matches
+    await discardIntent(gateway, intentId)
+    if (decideReuse(transaction, { gateway, charge }, 'open') !== 'reuse') {
+      throw new HttpError(409, 'conflict', 'Another payment for this session is in progress')
+    }
+    return await existingIntentResponse(gateway, transaction.transaction_id, transaction.id)
+  }
+
+  return respond(transaction.id)
+})
@@ -0,0 +1,151 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { call, FakeSupabase, installFakes } from '../_shared/testing.ts'
+import { handler } from './handler.ts'
+
+const SESSION = '5d6b1c1e-8f0a-4c4e-9a57-2f1f4d2b9c10'
+const STUDENT = 'student-1'
+
+// record_session_payment_intent from 012_session_payment_intents.sql: keeps the
+// first pending row for a session and returns it
+function setup() {
+  const fakes = installFakes({
+    env: { STRIPE_SECRET_KEY: 'sk_test', RAZORPAY_KEY_ID: 'rzp_test_key', RAZORPAY_KEY_SECRET: 'rzp_test_secret' },
+    users: { 'student-token': { id: STUDENT, email: 'student@example.com' }, 'other-token': { id: 'student-2' } },
+    tables: {
+      mentoring_sessions: [
+        // 666 INR an hour for 45 minutes: 499.50 INR
+        {
+          id: SESSION,
+          student_id: STUDENT,
+          mentor_id: 'mentor-profile-1',
+          subject: 'Calculus',
+          duration_minutes: 45,
+          payment_status: 'pending',
+          mentor_profiles: { user_id: 'mentor-1', hourly_rate: 666, hourly_rate_currency: 'INR' },
+        },
+      ],
+    },
+  })
+  fakes.supabase.onRpc('record_session_payment_intent', (args, db: FakeSupabase) => {
+    const transactions = db.table('payment_transactions')
+    let row = transactions.find((t) => t.session_id === args.p_session_id && t.status === 'pending')
+    if (!row) {
+      row = {
+        id: `tx-${transactions.length + 1}`,
+        session_id: args.p_session_id,
+        status: 'pending',
+        payment_method: args.p_payment_method,
+        transaction_id: args.p_transaction_id,
+        amount: args.p_amount,
+        currency: args.p_currency,
+      }
+      transactions.push(row)
+    }
+    return { ...row }
+  })
+  return fakes
+}
+
+Deno.test('creates and records a Stripe payment intent in minor units', async () => {
+  const fakes = setup()
+  const res = await call(handler, { sessionId: SESSION, amount: 499.5 }, { token: 'student-token' })
+
+  assertEquals(res.status, 200)
+  const [intent] = fakes.stripe.intentsById.values()
+  assertEquals([intent.amount, intent.currency, intent.metadata.sessionId], [49950, 'inr', SESSION])
+  assertEquals(res.body, {
+    success: true,
+    gateway: 'stripe',
+    clientSecret: intent.client_secret,
+    paymentIntentId: intent.id,
+    transactionId: 'tx-1',
+    reused: false,
+  })
+  assertEquals(fakes.supabase.calls('record_session_payment_intent')[0].p_payee_id, 'mentor-1')
+})
+
+Deno.test('hands out the open intent again on a retry', async () => {
+  const fakes = setup()
+  const first = await call(handler, { sessionId: SESSION, amount: 499.5 }, { token: 'student-token' })
+  const retry = await call(handler, { sessionId: SESSION, amount: 499.5 }, { token: 'student-token' })
+
+  assertEquals(retry.body.paymentIntentId, first.body.paymentIntentId)
+  assertEquals(retry.body.reused, true)
+  assertEquals(fakes.stripe.intentsById.size, 1)
+})
+
+Deno.test('supersedes the open intent when the price changes', async () => {
+  const fakes = setup()
+  const first = await call(handler, { sessionId: SESSION, amount: 499.5 }, { token: 'student-token' })
+  fakes.supabase.onRpc('record_session_payment_intent', (args) => ({ id: 'tx-2', transaction_id: args.p_transaction_id }))
+  fakes.supabase.table('mentoring_sessions')[0].duration_minutes = 60
+  const second = await call(handler, { sessionId: SESSION, amount: 666 }, { token: 'student-token' })
+
+  assertEquals(second.body.reused, false)
+  assertEquals(fakes.stripe.intentsById.get(first.body.paymentIntentId)!.status, 'canceled')
+  assertEquals(fakes.supabase.table('payment_transactions')[0].status, 'failed')
+})
+
+Deno.test('creates a Razorpay order', async () => {
+  const fakes = setup()
+  const res = await call(handler, { sessionId: SESSION, amount: 499.5, gateway: 'razorpay' }, { token: 'student-token' })
+
+  const [order] = fakes.razorpay.orders.values()
+  assertEquals([order.amount, order.currency, order.receipt], [49950, 'INR', SESSION])
+  assertEquals(res.body, {
+    success: true,
+    gateway: 'razorpay',
+    orderId: order.id,
+    keyId: 'rzp_test_key',
+    amount: 49950,
+    currency: 'INR',
+    transactionId: 'tx-1',
+    reused: false,
+  })
+})
+
+Deno.test('reports an insufficient wallet balance', async () => {
+  const fakes = setup()
+  fakes.supabase.onRpc('charge_session_wallet', () => ({ status: 'insufficient_funds', balance: 100, gross_amount: 499.5 }))
+  const res = await call(handler, { sessionId: SESSION, amount: 499.5, gateway: 'wallet' }, { token: 'student-token' })
+
+  assertEquals(res.status, 402)
+  assertEquals(res.body.error.code, 'insufficient_funds')
+  assertEquals(fakes.supabase.calls('charge_session_wallet')[0].p_commission_rate, 0.15)
+})
+
+Deno.test('only the session student may pay', async () => {
+  const fakes = setup()
+
+  assertEquals((await call(handler, { sessionId: SESSION, amount: 499.5 }, { token: 'other-token' })).status, 403)
+  assertEquals((await call(handler, { sessionId: SESSION, amount: 499.5 })).status, 401)
+  assertEquals((await call(handler, { sessionId: SESSION, amount: 4.995 }, { token: 'student-token' })).status, 400)
+  assertEquals(fakes.stripe.intentsById.size, 0)
+})
+
+Deno.test('charges only the session price', async () => {
+  const fakes = setup()
+  fakes.supabase.onRpc('charge_session_wallet', () => ({ status: 'completed', transaction_id: 'tx-wallet', gross_amount: 499.5 }))
+
+  for (const body of [{ amount: 1 }, { amount: 499.5, currency: 'USD' }]) {
+    const res = await call(handler, { sessionId: SESSION, gateway: 'wallet', ...body }, { token: 'student-token' })
+    assertEquals(res.status, 409)
+    assertEquals(res.body.error.details, { amount: 499.5, currency: 'INR' })
+  }
+  assertEquals((await call(handler, { sessionId: SESSION, amount: 1 }, { token: 'student-token' })).status, 409)
+  assertEquals(fakes.supabase.calls('charge_session_wallet').length, 0)
+  assertEquals(fakes.stripe.intentsById.size, 0)
+
+  const res = await call(handler, { sessionId: SESSION, amount: 499.5, gateway: 'wallet' }, { token: 'student-token' })
+  assertEquals(res.status, 200)
+  assertEquals(fakes.supabase.calls('charge_session_wallet')[0].p_amount, 499.5)
+})
+
+Deno.test('refuses to price a mentor without an hourly rate', async () => {
+  const fakes = setup()
+  fakes.supabase.table('mentoring_sessions')[0].mentor_profiles.hourly_rate = null
+
+  const res = await call(handler, { sessionId: SESSION, amount: 499.5, gateway: 'wallet' }, { token: 'student-token' })
+  assertEquals([res.status, res.body.error.message], [409, 'Mentor has no hourly rate'])
+  assertEquals(fakes.supabase.calls('charge_session_wallet').length, 0)
+})
@@ -0,0 +1,251 @@
+import type Stripe from "https://esm.sh/stripe@14.21.0";
+import { clients } from "../_shared/clients.ts";
+import { createHandler, type ErrorContext } from "../_shared/handler.ts";
+import { HttpError } from "../_shared/http.ts";
+import { allocate, fromMajor, type Money, money, MoneyError, multiply, subtract } from "../_shared/money.ts";
+import { v } from "../_shared/validate.ts";
+import { type Canceller, parseRefundPolicy, quoteFullRefund, quoteRefund, type RefundQuote } from "./policy.ts";
+
+// Stripe only accepts these; any other reason (e.g. "Session cancelled") goes into metadata
+const STRIPE_REFUND_REASONS = new Set(["duplicate", "fraudulent", "requested_by_customer"]);
+
+const schema = {
+	sessionId: v.uuid(),
+	// Stripe PaymentIntent ID stored as payment_transactions.transaction_id
+	transactionId: v.optional(v.string({ maxLength: 255 })),
+	// Major units (e.g., 100.00); defaults to everything the policy still allows
+	amount: v.optional(v.number()),
+	reason: v.optional(v.string({ maxLength: 500 }), "requested_by_customer"),
+	// Admins only: refund up to the full paid amount regardless of timing or session status
+	overridePolicy: v.optional(v.boolean(), false),
+};
+
+// Sessions that were called off; anything else needs an admin override
+const REFUNDABLE_STATUSES = new Set(["cancelled", "declined", "no_show"]);
+
+const RATE_LIMIT = { limit: 5, windowSeconds: 60 };
+
+// Unexpected failures raise an admin alert; refusals (HttpError) are expected
+async function alertOnFailure(error: unknown, { supabase, requestId }: ErrorContext) {
+	if (error instanceof HttpError) return;
+	await supabase.rpc("admin_log_alert", {
+		p_type: "refund_failed",
+		p_severity: "error",
+		p_message: "Refund processing failed",
+		p_details: { requestId, reason: String((error as Error)?.message || error) },
+	});
+}
+
+// Best effort: the refund has already gone through when these are raised
+async function logAlert(supabase: ErrorContext["supabase"], type: string, message: string, details: Record<string, unknown>) {
+	try {
+		await supabase.rpc("admin_log_alert", { p_type: type, p_severity: "error", p_message: message, p_details: details });
+	} catch (_) {}
+}
+
+const quoteBody = (quote: RefundQuote) => ({
+	rule: quote.rule,
+	percent: quote.percent,
+	entitlementMinor: quote.entitlement.amountMinor,
+	remainingMinor: quote.remaining.amountMinor,
+	currency: quote.entitlement.currency,
+});
+
+// Users ask for their own refunds; the service role is the session lifecycle
+// (transitionSession) refunding a cancelled session, always within the policy
+export const handler = createHandler({ name: "process-refund", auth: "user_or_service", body: schema, rateLimit: RATE_LIMIT, onError: alertOnFailure }, async ({ supabase, caller, body }) => {
+	const user = caller.kind === "user" ? caller.user : null;
+	const { sessionId, transactionId, amount, reason, overridePolicy } = body;
+
+	const { env, stripe: connect } = clients();
+	const stripeKey = env("STRIPE_SECRET_KEY");
+	if (!stripeKey) throw new Error("Stripe secret key not configured");
+	const policy = parseRefundPolicy(env("REFUND_POLICY"));
+	const stripe = connect(stripeKey);
+
+	// Fetch session to identify student/mentor and the cancellation
+	const { data: session, error: sessionErr } = await supabase
+		.from("mentoring_sessions")
+		.select("id, student_id, mentor_id, status, scheduled_time, cancelled_at, cancelled_by, mentor_profiles!inner(user_id)")
+		.eq("id", sessionId)
+		.maybeSingle();
+	if (sessionErr) throw new Error(`Session lookup failed: ${sessionErr.message}`);
+	if (!session) throw new HttpError(404, "not_found", "Session not found");
+
+	const mentorUserId: string = session.mentor_profiles.user_id;
+	const isStudent = user?.id === session.student_id;
+	const isAdmin = caller.kind === "user" && caller.role === "admin";
+	if (caller.kind === "user" && !isStudent && !isAdmin) {
+		throw new HttpError(403, "forbidden", "Only the session's student or an admin can request a refund");
+	}
+	if (overridePolicy && !isAdmin) {
+		throw new HttpError(403, "forbidden", "Only admins can override the refund policy");
+	}
+	// A session still on (or completed) is not refunded: cancel it first, which records who called it off and when
+	if (!overridePolicy) {
+		if (!REFUNDABLE_STATUSES.has(session.status)) {
+			throw new HttpError(409, "conflict", `A ${session.status} session cannot be refunded; only cancelled, declined or no-show sessions can`);
+		}
+		if (!session.cancelled_at) throw new HttpError(409, "conflict", "Session has no recorded cancellation time");
+	}
+
+	// The completed payment being refunded
+	let paymentQuery = supabase
+		.from("payment_transactions")
+		.select("id, transaction_id, status")
+		.eq("session_id", sessionId)
+		.in("status", ["completed", "refunded"]);
+	if (transactionId) paymentQuery = paymentQuery.eq("transaction_id", transactionId);
+	const { data: payment, error: paymentErr } = await paymentQuery
+		.order("created_at", { ascending: false })
+		.limit(1)
+		.maybeSingle();
+	if (paymentErr) throw new Error(`Payment lookup failed: ${paymentErr.message}`);
+	if (!payment?.transaction_id) throw new HttpError(404, "not_found", "No completed payment found for this session");
+	if (!payment.transaction_id.startsWith("pi_")) {
+		throw new HttpError(400, "invalid_request", "Only Stripe payments can be refunded by this function");
+	}
+	const paymentIntentId: string = payment.transaction_id;
+
+	// The gateway is the source of truth for what was paid and what has been refunded so far
+	const pi = await stripe.paymentIntents.retrieve(paymentIntentId, { expand: ["latest_charge"] });
+	if (pi.metadata?.sessionId && pi.metadata.sessionId !== sessionId) {
+		throw new HttpError(400, "invalid_request", "Payment does not belong to this session");
+	}
+	const paid = money(pi.amount_received || 0, pi.currency);
+	if (paid.amountMinor <= 0) throw new HttpError(409, "conflict", "Payment has not been captured");
+
+	const { data: refundRows, error: refundsErr } = await supabase
+		.from("payment_refunds")
+		.select("amount, currency")
+		.eq("session_id", sessionId);
+	if (refundsErr) throw new Error(`Refund lookup failed: ${refundsErr.message}`);
+	const ledgerRefunded = (refundRows ?? [])
+		.filter((r: any) => (r.currency ?? "INR").toUpperCase() === paid.currency)
+		.reduce((sum: number, r: any) => sum + (r.amount ?? 0), 0);
+	const charge = pi.latest_charge as Stripe.Charge | null;
+	// Refunds made in the Stripe dashboard may not have reached the ledger yet
+	const alreadyRefunded = money(Math.max(ledgerRefunded, charge?.amount_refunded ?? 0), paid.currency);
+
+	// Anyone but the two parties (an admin, or a scheduled job that records nobody) counts as the platform
+	const cancelledBy: Canceller = session.cancelled_by === session.student_id
+		? "student"
+		: session.cancelled_by === mentorUserId
+		? "mentor"
+		: "admin";
+	const quote = overridePolicy
+		? quoteFullRefund(paid, alreadyRefunded)
+		: quoteRefund({
+			policy,
+			paid,
+			alreadyRefunded,
+			scheduledAt: new Date(session.scheduled_time),
+			cancelledAt: new Date(session.cancelled_at),
+			cancelledBy,
+		});
+
+	// A given amount is in major units of the payment's currency; otherwise refund what is left
+	let refundAmount: Money;
+	if (amount === undefined) {
+		refundAmount = quote.remaining;
+	} else {
+		try {
+			refundAmount = fromMajor(amount, paid.currency);
+		} catch (err) {
+			if (!(err instanceof MoneyError)) throw err;
+			throw new HttpError(400, "invalid_request", err.message);
+		}
+	}
+	if (quote.remaining.amountMinor <= 0) {
+		throw new HttpError(422, "policy_violation", "Nothing left to refund under the refund policy", { policy: quoteBody(quote) });
+	}
+	if (refundAmount.amountMinor <= 0) {
+		throw new HttpError(400, "invalid_request", "Refund amount must be positive");
+	}
+	if (refundAmount.amountMinor > quote.remaining.amountMinor) {
+		throw new HttpError(422, "policy_violation", "Refund amount exceeds what the refund policy allows", { policy: quoteBody(quote) });
+	}
+	const refundMinor = refundAmount.amountMinor;
+
+	// Create refund (prefer payment_intent reference for idempotency).
+	// metadata.source tells the Stripe webhook this function posts the ledger entries itself.
+	// The key includes the refunded total, so concurrent duplicates collapse into one refund.
+	const refund = await stripe.refunds.create({
+		payment_intent: paymentIntentId,
+		amount: refundMinor,
+		reason: (STRIPE_REFUND_REASONS.has(reason) ? reason : "requested_by_customer") as Stripe.RefundCreateParams.Reason,
+		metadata: { source: "process-refund", sessionId, policyRule: quote.rule, requestedBy: user?.id ?? "service", reason: String(reason).slice(0, 500) },
+	}, { idempotencyKey: `refund:${sessionId}:${alreadyRefunded.amountMinor}:${refundMinor}` });
+
+	// Split in the captured mentor/platform proportion; the configured fee when nothing was captured
+	const { data: sp } = await supabase
+		.from("session_payments")
+		.select("student_uid, mentor_uid, amount_total, amount_platform")
+		.eq("session_id", sessionId)
+		.maybeSingle();
+	let refundMentor: Money;
+	let refundPlatform: Money;
+	if (sp?.amount_total > 0 && sp.amount_platform !== null) {
+		[refundMentor, refundPlatform] = allocate(refundAmount, [sp.amount_total - sp.amount_platform, sp.amount_platform]);
+	} else {
+		refundPlatform = multiply(refundAmount, Number(env("PLATFORM_FEE_PERCENT")) || 0.15);
+		refundMentor = subtract(refundAmount, refundPlatform);
+	}
+
+	// The payment_refunds row counts towards the cap; the webhook skips refunds tagged with metadata.source,
+	// so from here on the ledger must be posted whatever happens to the row
+	const { error: recordErr } = await supabase.from("payment_refunds").insert({
+		gateway: "stripe",
+		gateway_refund_id: refund.id,
+		session_id: sessionId,
+		charge_id: charge?.id ?? null,
+		payment_intent_id: paymentIntentId,
+		amount: refundMinor,
+		mentor_share: refundMentor.amountMinor,
+		platform_share: refundPlatform.amountMinor,
+		currency: refundAmount.currency,
+		source: "process-refund",
+	});
+	// 23505 is a replay of a refund this function already recorded
+	const duplicate = recordErr?.code === "23505";
+	if (recordErr && !duplicate) {
+		await logAlert(supabase, "refund_record_failed", "Stripe refund succeeded but payment_refunds could not be written", {
+			sessionId, transactionId: paymentIntentId, refundId: refund.id, amountMinor: refundMinor, reason: recordErr.message,
+		});
+	}
+
+	// The card was refunded, so the wallet is not credited: reverse the platform fee and the mentor share.
+	// record_gateway_refund posts each refund id once, so a replay is harmless.
+	const { error: rpcErr } = await supabase.rpc("record_gateway_refund", {
+		p_refund_id: refund.id,
+		p_session_id: sessionId,
+		p_mentor_id: sp?.mentor_uid ?? mentorUserId,
+		p_mentor_share: refundMentor.amountMinor,
+		p_platform_share: refundPlatform.amountMinor,
+		p_currency: refundAmount.currency,
+		p_payment_intent_id: paymentIntentId,
+	});
+	if (rpcErr) {
+		// Do not fail the HTTP response since the gateway refund succeeded
+		await logAlert(supabase, "refund_ledger_update_failed", "Stripe refund succeeded but ledger update failed", {
+			sessionId, transactionId: paymentIntentId, refundId: refund.id, reason: rpcErr.message,
+		});
+	}
+	if (duplicate) {
+		return { success: true, refundId: refund.id, amountMinor: refundMinor, currency: paid.currency, duplicate: true };
+	}
+
+	// Only a payment refunded in full is marked refunded
+	if (alreadyRefunded.amountMinor + refundMinor >= paid.amountMinor) {
+		await supabase.from("payment_transactions").update({ status: "refunded" }).eq("id", payment.id);
+		await supabase.from("mentoring_sessions").update({ payment_status: "refunded" }).eq("id", sessionId);
+	}
+
+	return {
+		success: true,
+		refundId: refund.id,
+		amountMinor: refundMinor,
+		currency: paid.currency,
+		policy: quoteBody({ ...quote, remaining: money(quote.remaining.amountMinor - refundMinor, paid.currency) }),
+	};
+});
@@ -0,0 +1,134 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { call, installFakes, SERVICE_KEY } from "../_shared/testing.ts";
+import { handler } from "./handler.ts";
+
+const SESSION = "0b9f3d3a-6c1e-4f0e-8d8a-5b7a9e2c4f11";
+const scheduledAt = new Date("2025-03-01T10:00:00Z");
+const hoursBefore = (h: number) => new Date(scheduledAt.getTime() - h * 3_600_000).toISOString();
+
+// A paid 1000 INR session the student cancelled 12 hours ahead: 75% refundable
+async function setup() {
+	const fakes = installFakes({
+		env: { STRIPE_SECRET_KEY: "sk_test" },
+		users: { "student-token": { id: "student-1" }, "mentor-token": { id: "mentor-1" }, "admin-token": { id: "admin-1" } },
+		admins: ["admin-1"],
+		unique: { payment_refunds: ["gateway", "gateway_refund_id"] },
+		tables: {
+			mentoring_sessions: [{
+				id: SESSION,
+				student_id: "student-1",
+				status: "cancelled",
+				scheduled_time: scheduledAt.toISOString(),
+				cancelled_at: hoursBefore(12),
+				cancelled_by: "student-1",
+				payment_status: "paid",
+				mentor_profiles: { user_id: "mentor-1" },
+			}],
+			session_payments: [{ session_id: SESSION, student_uid: "student-1", mentor_uid: "mentor-1", amount_total: 100000, amount_platform: 15000 }],
+		},
+	});
+	const intent = await fakes.stripe.paymentIntents.create({ amount: 100000, currency: "inr", metadata: { sessionId: SESSION } });
+	fakes.stripe.succeed(intent.id);
+	fakes.supabase.table("payment_transactions").push({ id: "tx-1", session_id: SESSION, transaction_id: intent.id, status: "completed" });
+	return fakes;
+}
+
+Deno.test("refunds what the policy allows and splits it like the capture", async () => {
+	const fakes = await setup();
+	const res = await call(handler, { sessionId: SESSION }, { token: "student-token" });
+
+	assertEquals(res.status, 200);
+	assertEquals(res.body.amountMinor, 75000);
+	assertEquals(res.body.policy.rule, "min_2h_before");
+	assertEquals(fakes.stripe.refundList.map((r) => r.amount), [75000]);
+	// The card is refunded, so the ledger reverses the shares without crediting the wallet
+	assertEquals(fakes.supabase.calls("record_gateway_refund"), [{
+		p_refund_id: res.body.refundId,
+		p_session_id: SESSION,
+		p_mentor_id: "mentor-1",
+		p_mentor_share: 63750,
+		p_platform_share: 11250,
+		p_currency: "INR",
+		p_payment_intent_id: fakes.stripe.refundList[0].payment_intent,
+	}]);
+	assertEquals(fakes.supabase.calls("process_session_refund"), []);
+	// Partly refunded, so the payment stays completed
+	assertEquals(fakes.supabase.table("payment_transactions")[0].status, "completed");
+
+	const again = await call(handler, { sessionId: SESSION }, { token: "student-token" });
+	assertEquals(again.status, 422);
+	assertEquals(again.body.error.code, "policy_violation");
+});
+
+Deno.test("admins can override the policy and refund in full", async () => {
+	const fakes = await setup();
+	const res = await call(handler, { sessionId: SESSION, overridePolicy: true }, { token: "admin-token" });
+
+	assertEquals(res.body.amountMinor, 100000);
+	assertEquals(fakes.supabase.table("payment_transactions")[0].status, "refunded");
+	assertEquals(fakes.supabase.table("mentoring_sessions")[0].payment_status, "refunded");
+});
+
+Deno.test("only called-off sessions are refunded unless an admin overrides", async () => {
+	const fakes = await setup();
+	Object.assign(fakes.supabase.table("mentoring_sessions")[0], { status: "confirmed", cancelled_at: null, cancelled_by: null });
+
+	const res = await call(handler, { sessionId: SESSION }, { token: "student-token" });
+	assertEquals([res.status, res.body.error.code], [409, "conflict"]);
+	assertEquals(fakes.stripe.refundList.length, 0);
+
+	const admin = await call(handler, { sessionId: SESSION, overridePolicy: true }, { token: "admin-token" });
+	assertEquals([admin.status, admin.body.amountMinor], [200, 100000]);
+});
+
+Deno.test("a called-off session without a recorded cancellation time is not refunded", async () => {
+	const fakes = await setup();
+	fakes.supabase.table("mentoring_sessions")[0].cancelled_at = null;
+
+	assertEquals((await call(handler, { sessionId: SESSION }, { token: "student-token" })).status, 409);
+	assertEquals(fakes.stripe.refundList.length, 0);
+});
+
+Deno.test("only the student or an admin may refund", async () => {
+	const fakes = await setup();
+
+	assertEquals((await call(handler, { sessionId: SESSION }, { token: "mentor-token" })).status, 403);
+	assertEquals((await call(handler, { sessionId: SESSION, overridePolicy: true }, { token: "student-token" })).status, 403);
+	assertEquals(fakes.stripe.refundList.length, 0);
+});
+
+Deno.test("the service role refunds a cancelled session within the policy", async () => {
+	const fakes = await setup();
+	// The mentor called it off, so the policy refunds everything
+	fakes.supabase.table("mentoring_sessions")[0].cancelled_by = "mentor-1";
+	const res = await call(handler, { sessionId: SESSION, reason: "Session declined" }, { token: SERVICE_KEY });
+
+	assertEquals([res.status, res.body.amountMinor], [200, 100000]);
+	assertEquals(fakes.stripe.refundList[0].metadata.requestedBy, "service");
+	assertEquals((await call(handler, { sessionId: SESSION, overridePolicy: true }, { token: SERVICE_KEY })).status, 403);
+});
+
+Deno.test("raises an alert when the gateway fails", async () => {
+	const fakes = await setup();
+	fakes.stripe.failNext("refunds.create", "Stripe is unavailable");
+	const res = await call(handler, { sessionId: SESSION }, { token: "student-token" });
+
+	assertEquals(res.status, 500);
+	assertEquals(fakes.supabase.calls("admin_log_alert")[0].p_type, "refund_failed");
+});
+
+Deno.test("posts the ledger and alerts with the refund id when the refund row cannot be written", async () => {
+	const fakes = await setup();
+	const from = fakes.supabase.from.bind(fakes.supabase);
+	fakes.supabase.from = ((name: string) => {
+		const query = from(name);
+		if (name === "payment_refunds") query.insert = () => Promise.resolve({ data: null, error: { message: "connection reset", code: "08006" } });
+		return query;
+	}) as typeof fakes.supabase.from;
+	const res = await call(handler, { sessionId: SESSION }, { token: "student-token" });
+
+	assertEquals(res.status, 200);
+	assertEquals(fakes.supabase.calls("record_gateway_refund").length, 1);
+	const [alert] = fakes.supabase.calls("admin_log_alert");
+	assertEquals([alert.p_type, alert.p_details.refundId], ["refund_record_failed", res.body.refundId]);
+});
@@ -0,0 +1,127 @@
+// Refund policy for session payments.
+//
+// How much of a payment a student gets back depends on when the session was
+// cancelled relative to its scheduled start and on who cancelled it. Tiers are
+// checked from the earliest cancellation window down; the first one whose
+// `minHoursBefore` the cancellation meets applies. Cancelling after the start
+// gets `afterStartPercent`. `byCanceller` overrides the tiers for a party, e.g.
+// a mentor who cancels always owes a full refund.
+//
+// The entitlement is a cap on the sum of all refunds for the payment, so a
+// series of partial refunds can never exceed it.
+
+import { type Money, min, multiply, subtract, zero } from "../_shared/money.ts";
+
+export type Canceller = "student" | "mentor" | "admin";
+
+export interface RefundTier {
+	minHoursBefore: number;
+	// 0..1 share of the paid amount
+	percent: number;
+}
+
+export interface RefundPolicy {
+	tiers: RefundTier[];
+	afterStartPercent: number;
+	byCanceller: Partial<Record<Canceller, number>>;
+}
+
+export class RefundPolicyError extends Error {}
+
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+	tiers: [
+		{ minHoursBefore: 24, percent: 1 },
+		{ minHoursBefore: 2, percent: 0.75 },
+		{ minHoursBefore: 0, percent: 0.5 },
+	],
+	afterStartPercent: 0,
+	byCanceller: { mentor: 1 },
+};
+
+function checkPercent(value: unknown, field: string): number {
+	if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 1) {
+		throw new RefundPolicyError(`${field} must be a number between 0 and 1`);
+	}
+	return value;
+}
+
+/** Parses the REFUND_POLICY JSON; falls back to DEFAULT_REFUND_POLICY when unset. */
+export function parseRefundPolicy(raw: string | undefined | null): RefundPolicy {
+	if (!raw) return DEFAULT_REFUND_POLICY;
+	let parsed: any;
+	try {
+		parsed = JSON.parse(raw);
+	} catch (_) {
+		throw new RefundPolicyError("REFUND_POLICY is not valid JSON");
+	}
+	if (!Array.isArray(parsed?.tiers)) throw new RefundPolicyError("REFUND_POLICY.tiers must be an array");
+	const tiers = parsed.tiers.map((t: any, i: number) => {
+		if (typeof t?.minHoursBefore !== "number" || !Number.isFinite(t.minHoursBefore) || t.minHoursBefore < 0) {
+			throw new RefundPolicyError(`tiers[${i}].minHoursBefore must be a non-negative number`);
+		}
+		return { minHoursBefore: t.minHoursBefore, percent: checkPercent(t.percent, `tiers[${i}].percent`) };
+	}).sort((a: RefundTier, b: RefundTier) => b.minHoursBefore - a.minHoursBefore);
+
+	const byCanceller: Partial<Record<Canceller, number>> = {};
+	for (const [who, percent] of Object.entries(parsed.byCanceller ?? {})) {
+		if (who !== "student" && who !== "mentor" && who !== "admin") {
+			throw new RefundPolicyError(`byCanceller has unknown party: ${who}`);
+		}
+		byCanceller[who] = checkPercent(percent, `byCanceller.${who}`);
+	}
+	return {
+		tiers,
+		afterStartPercent: checkPercent(parsed.afterStartPercent ?? 0, "afterStartPercent"),
+		byCanceller,
+	};
+}
+
+export interface RefundQuote {
+	percent: number;
+	// Why this percentage applies, for the response and audit trail
+	rule: string;
+	// paid × percent
+	entitlement: Money;
+	// entitlement minus what has already been refunded, never negative
+	remaining: Money;
+}
+
+/** Works out how much of `paid` may still be refunded under the policy. */
+export function quoteRefund(params: {
+	policy: RefundPolicy;
+	paid: Money;
+	alreadyRefunded: Money;
+	scheduledAt: Date;
+	cancelledAt: Date;
+	cancelledBy: Canceller;
+}): RefundQuote {
+	const { policy, paid, alreadyRefunded, scheduledAt, cancelledAt, cancelledBy } = params;
+	let percent: number;
+	let rule: string;
+	const override = policy.byCanceller[cancelledBy];
+	const hoursBefore = (scheduledAt.getTime() - cancelledAt.getTime()) / 3_600_000;
+	if (override !== undefined) {
+		percent = override;
+		rule = `cancelled_by_${cancelledBy}`;
+	} else if (hoursBefore < 0) {
+		percent = policy.afterStartPercent;
+		rule = "after_start";
+	} else {
+		const tier = policy.tiers.find((t) => hoursBefore >= t.minHoursBefore);
+		percent = tier?.percent ?? policy.afterStartPercent;
+		rule = tier ? `min_${tier.minHoursBefore}h_before` : "after_start";
+	}
+	return withCap(paid, alreadyRefunded, percent, rule);
+}
+
+/** The full paid amount, capped by earlier refunds; for admin overrides. */
+export function quoteFullRefund(paid: Money, alreadyRefunded: Money): RefundQuote {
+	return withCap(paid, alreadyRefunded, 1, "admin_override");
+}
+
+function withCap(paid: Money, alreadyRefunded: Money, percent: number, rule: string): RefundQuote {
+	const entitlement = min(multiply(paid, percent, "down"), paid);
+	const left = subtract(entitlement, alreadyRefunded);
+	const remaining = left.amountMinor > 0 ? left : zero(paid.currency);
+	return { percent, rule, entitlement, remaining };
+}
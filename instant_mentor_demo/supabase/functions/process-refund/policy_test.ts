@@ -0,0 +1,66 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { money } from "../_shared/money.ts";
+import { DEFAULT_REFUND_POLICY, parseRefundPolicy, quoteFullRefund, quoteRefund, RefundPolicyError } from "./policy.ts";
+
+const scheduledAt = new Date("2025-03-01T10:00:00Z");
+const hoursBefore = (h: number) => new Date(scheduledAt.getTime() - h * 3_600_000);
+const paid = money(100000, "INR");
+const none = money(0, "INR");
+
+const quote = (cancelledAt: Date, cancelledBy: "student" | "mentor" | "admin" = "student", alreadyRefunded = none) =>
+	quoteRefund({ policy: DEFAULT_REFUND_POLICY, paid, alreadyRefunded, scheduledAt, cancelledAt, cancelledBy });
+
+Deno.test("applies cancellation windows", () => {
+	assertEquals(quote(hoursBefore(48)).remaining.amountMinor, 100000);
+	assertEquals(quote(hoursBefore(24)).remaining.amountMinor, 100000);
+	assertEquals(quote(hoursBefore(23.9)).remaining.amountMinor, 75000);
+	assertEquals(quote(hoursBefore(1)).remaining.amountMinor, 50000);
+	assertEquals(quote(hoursBefore(1)).rule, "min_0h_before");
+	assertEquals(quote(hoursBefore(-0.1)).remaining.amountMinor, 0);
+	assertEquals(quote(hoursBefore(-0.1)).rule, "after_start");
+});
+
+Deno.test("a mentor cancellation is always refunded in full", () => {
+	assertEquals(quote(hoursBefore(-1), "mentor").remaining.amountMinor, 100000);
+	assertEquals(quote(hoursBefore(-1), "mentor").rule, "cancelled_by_mentor");
+});
+
+Deno.test("caps the sum of partial refunds at the entitlement", () => {
+	const partial = quote(hoursBefore(1), "student", money(30000, "INR"));
+	assertEquals(partial.entitlement.amountMinor, 50000);
+	assertEquals(partial.remaining.amountMinor, 20000);
+	assertEquals(quote(hoursBefore(1), "student", money(60000, "INR")).remaining.amountMinor, 0);
+	assertEquals(quoteFullRefund(paid, money(60000, "INR")).remaining.amountMinor, 40000);
+});
+
+Deno.test("rounds entitlements down in the payment currency", () => {
+	const jpy = quoteRefund({
+		policy: DEFAULT_REFUND_POLICY,
+		paid: money(1001, "JPY"),
+		alreadyRefunded: money(0, "JPY"),
+		scheduledAt,
+		cancelledAt: hoursBefore(3),
+		cancelledBy: "student",
+	});
+	assertEquals(jpy.remaining, money(750, "JPY"));
+});
+
+Deno.test("parses a configured policy", () => {
+	const policy = parseRefundPolicy(JSON.stringify({
+		tiers: [{ minHoursBefore: 2, percent: 0.5 }, { minHoursBefore: 48, percent: 1 }],
+		afterStartPercent: 0.1,
+		byCanceller: { admin: 1 },
+	}));
+	assertEquals(policy.tiers.map((t) => t.minHoursBefore), [48, 2]);
+	assertEquals(policy.byCanceller, { admin: 1 });
+	assertEquals(parseRefundPolicy(undefined), DEFAULT_REFUND_POLICY);
+	// Closer to the start than the last tier allows: the after-start share applies
+	const early = quoteRefund({ policy, paid, alreadyRefunded: none, scheduledAt, cancelledAt: hoursBefore(1), cancelledBy: "student" });
+	assertEquals(early.remaining.amountMinor, 10000);
+});
+
+Deno.test("rejects invalid policies", () => {
+	assertThrows(() => parseRefundPolicy("{"), RefundPolicyError);
+	assertThrows(() => parseRefundPolicy(JSON.stringify({ tiers: [{ minHoursBefore: 1, percent: 1.5 }] })), RefundPolicyError);
+	assertThrows(() => parseRefundPolicy(JSON.stringify({ tiers: [], byCanceller: { guest: 1 } })), RefundPolicyError);
+});
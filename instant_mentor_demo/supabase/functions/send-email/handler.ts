@@ -0,0 +1,176 @@
+import { clients } from '../_shared/clients.ts'
+import { createHandler } from '../_shared/handler.ts'
+import { HttpError } from '../_shared/http.ts'
+import { CATEGORIES, decideDelivery, loadPreferences } from '../_shared/preferences.ts'
+import { v } from '../_shared/validate.ts'
+import { createEmailProvider } from './providers.ts'
+import { renderTemplate, TemplateError } from './render.ts'
+
+const schema = {
+  to: v.email(),
+  template: v.string({ maxLength: 64 }),
+  variables: v.optional(v.object(), {}),
+  locale: v.optional(v.string({ maxLength: 35 })),
+  timeZone: v.optional(v.string({ maxLength: 64 })),
+  cc: v.optional(v.array(v.email(), { maxItems: 10 })),
+  bcc: v.optional(v.array(v.email(), { maxItems: 10 })),
+  html: v.unsupported('is not accepted; send a template id and variables'),
+  userId: v.optional(v.uuid()),
+  category: v.optional(v.oneOf(CATEGORIES)),
+}
+
+// Per signed-in user; other functions call with the service role and are not limited
+const RATE_LIMIT = { limit: 20, windowSeconds: 10 * 60 }
+
+// What a signed-in user may send, and only to their own address. Receipts,
+// payouts, password resets and digests carry amounts or links the server must
+// vouch for, so only the service role sends them.
+const USER_TEMPLATES = new Set(['welcome', 'booking_confirmation', 'session_reminder', 'session_completed'])
+
+export const handler = createHandler({ name: 'send-email', auth: 'user_or_service', body: schema, rateLimit: RATE_LIMIT }, async ({ supabase, caller, body }) => {
+  const { to, template, variables, locale, timeZone, cc, bcc, userId, category: requestedCategory } = body
+  const recipients = [to, ...(cc ?? []), ...(bcc ?? [])]
+
+  if (caller.kind === 'user') {
+    if (!USER_TEMPLATES.has(template)) throw new HttpError(403, 'forbidden', `Template ${template} is sent by the server only`)
+    const ownAddress = caller.user.email?.toLowerCase()
+    if (!ownAddress || to.toLowerCase() !== ownAddress || cc?.length || bcc?.length || (userId && userId !== caller.user.id)) {
+      throw new HttpError(403, 'forbidden', 'Signed-in users can only email their own address')
+    }
+  }
+
+  let rendered
+  try {
+    rendered = renderTemplate(template, variables, { locale, timeZone })
+  } catch (err) {
+    if (!(err instanceof TemplateError)) throw err
+    throw new HttpError(400, 'invalid_request', err.message)
+  }
+
+  // Hard-bounced and complained addresses (see email-events) are never sent to
+  const { data: suppressions, error: suppressionError } = await supabase
+    .from('email_suppressions')
+    .select('email, reason')
+    .in('email', recipients.map((address: string) => address.toLowerCase()))
+  if (suppressionError) throw new Error(`Suppression check failed: ${suppressionError.message}`)
+  const suppressed = new Map<string, string>((suppressions ?? []).map((row) => [row.email, row.reason]))
+
+  const toReason = suppressed.get(to.toLowerCase())
+  if (toReason) {
+    const { error: skipLogError } = await supabase.from('email_logs').insert({
+      recipient: to,
+      subject: rendered.subject,
+      template: rendered.template,
+      locale: rendered.locale,
+      status: 'suppressed',
+      error: `Recipient suppressed (${toReason})`,
+    })
+    if (skipLogError) console.error('Failed to log email activity:', skipLogError)
+    return { success: false, suppressed: true, reason: toReason, template: rendered.template, locale: rendered.locale }
+  }
+  const notSuppressed = (list?: string[]) => list?.filter((address) => !suppressed.has(address.toLowerCase()))
+
+  // Emails in a preference category honour the recipient's settings: switched
+  // off means skipped, low priority means collected for the digest
+  const category = requestedCategory ?? rendered.category
+  if (category) {
+    let recipientId: string | null = userId ?? null
+    if (!recipientId) {
+      const { data: profile } = await supabase
+        .from('user_profiles')
+        .select('id')
+        .ilike('email', to.replace(/[\\%_]/g, '\\$&'))
+        .limit(1)
+        .maybeSingle()
+      recipientId = profile?.id ?? null
+    }
+
+    if (recipientId) {
+      const delivery = decideDelivery(await loadPreferences(supabase, recipientId), category, 'email')
+      if (delivery.action === 'skip') {
+        const { error: skipLogError } = await supabase.from('email_logs').insert({
+          recipient: to,
+          subject: rendered.subject,
+          template: rendered.template,
+          locale: rendered.locale,
+          status: 'skipped',
+          error: `Disabled in notification preferences (${category})`,
+        })
+        if (skipLogError) console.error('Failed to log email activity:', skipLogError)
+        return { success: false, skipped: 'preferences', template: rendered.template, locale: rendered.locale }
+      }
+      if (delivery.action === 'digest' || delivery.action === 'defer') {
+        const { error: outboxError } = await supabase.from('notification_outbox').insert({
+          user_id: recipientId,
+          category,
+          channel: 'email',
+          kind: 'digest',
+          payload: { title: rendered.subject },
+          deliver_after: delivery.until.toISOString(),
+        })
+        if (outboxError) throw new Error(`Failed to queue digest item: ${outboxError.message}`)
+        return { success: true, queued: 'digest', deliverAfter: delivery.until.toISOString(), template: rendered.template, locale: rendered.locale }
+      }
+    }
+  }
+
+  const { env, fetch } = clients()
+  const provider = createEmailProvider(env, fetch)
+
+  // Log first so the provider can echo the log id back in delivery events
+  const { data: logRow, error: logError } = await supabase
+    .from('email_logs')
+    .insert({
+      recipient: to,
+      subject: rendered.subject,
+      template: rendered.template,
+      locale: rendered.locale,
+      status: 'queued',
+      provider: provider.name,
+    })
+    .select('id')
+    .single()
+
+  if (logError) {
+    console.error('Failed to log email activity:', logError)
+  }
+
+  let result
+  try {
+    result = await provider.send({
+      from: {
+        email: env('FROM_EMAIL') || 'noreply@instantmentor.app',
+        name: env('FROM_NAME') || 'InstantMentor'
+      },
+      to,
+      cc: notSuppressed(cc),
+      bcc: notSuppressed(bcc),
+      subject: rendered.subject,
+      html: rendered.html,
+      text: rendered.text,
+      metadata: logRow ? { emailLogId: logRow.id, template: rendered.template } : { template: rendered.template },
+    })
+  } catch (err) {
+    if (logRow) {
+      await supabase.from('email_logs').update({ status: 'failed', error: String(err?.message || err) }).eq('id', logRow.id)
+    }
+    throw err
+  }
+
+  if (logRow) {
+    const { error: updateError } = await supabase
+      .from('email_logs')
+      .update({ status: 'sent', provider_message_id: result.messageId, sent_at: new Date().toISOString() })
+      .eq('id', logRow.id)
+    if (updateError) console.error('Failed to log email activity:', updateError)
+  }
+
+  return {
+    success: true,
+    message: 'Email sent successfully',
+    provider: result.provider,
+    messageId: result.messageId,
+    template: rendered.template,
+    locale: rendered.locale,
+  }
+})
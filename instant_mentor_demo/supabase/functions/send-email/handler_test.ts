@@ -0,0 +1,88 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { call, installFakes, SERVICE_KEY } from '../_shared/testing.ts'
+import { handler } from './handler.ts'
+
+const USER = '7c1d2e3f-4a5b-4c6d-8e9f-0a1b2c3d4e5f'
+
+function setup() {
+  return installFakes({
+    env: { SENDGRID_API_KEY: 'SG.test' },
+    users: { 'asha-token': { id: USER, email: 'Asha@Example.com' } },
+    tables: {
+      user_profiles: [{ id: USER, email: 'Asha@Example.com', timezone: 'Asia/Kolkata' }],
+      email_suppressions: [{ email: 'bounced@example.com', reason: 'bounce' }],
+    },
+  })
+}
+
+Deno.test('sends through SendGrid and logs the provider message id', async () => {
+  const fakes = setup()
+  const res = await call(handler, { to: 'asha@example.com', template: 'welcome', variables: { userName: 'Asha' } }, { token: SERVICE_KEY })
+
+  assertEquals(res.status, 200)
+  assertEquals([res.body.provider, res.body.messageId], ['sendgrid', 'sg-message-1'])
+  const [sent] = fakes.sendgrid.sent
+  assertEquals(sent.personalizations[0].to, [{ email: 'asha@example.com' }])
+  assertEquals(sent.from, { email: 'noreply@instantmentor.app', name: 'InstantMentor' })
+
+  const [log] = fakes.supabase.table('email_logs')
+  assertEquals(sent.personalizations[0].custom_args, { emailLogId: log.id, template: 'welcome' })
+  assertEquals([log.status, log.provider_message_id], ['sent', 'sg-message-1'])
+})
+
+Deno.test('does not send to suppressed addresses', async () => {
+  const fakes = setup()
+  const res = await call(handler, {
+    to: 'Bounced@example.com',
+    template: 'welcome',
+    variables: { userName: 'Ravi' },
+  }, { token: SERVICE_KEY })
+
+  assertEquals(res.body, { success: false, suppressed: true, reason: 'bounce', template: 'welcome', locale: 'en' })
+  assertEquals(fakes.sendgrid.sent.length, 0)
+  assertEquals(fakes.supabase.table('email_logs')[0].status, 'suppressed')
+
+  await call(handler, { to: 'asha@example.com', bcc: ['bounced@example.com'], template: 'welcome', variables: { userName: 'Asha' } }, { token: SERVICE_KEY })
+  assertEquals(fakes.sendgrid.sent[0].personalizations[0].bcc, undefined)
+})
+
+Deno.test('follows the recipient\'s notification preferences', async () => {
+  const fakes = setup()
+  const body = { to: 'asha@example.com', template: 'welcome', variables: { userName: 'Asha' }, category: 'marketing' }
+
+  // Low priority mail waits for the digest; the profile is found by email
+  const queued = await call(handler, body, { token: SERVICE_KEY })
+  assertEquals(queued.body.queued, 'digest')
+  assertEquals(fakes.supabase.table('notification_outbox')[0].user_id, USER)
+
+  fakes.supabase.table('notification_preferences').push({ user_id: USER, channels: { marketing: { email: false } } })
+  const skipped = await call(handler, body, { token: SERVICE_KEY })
+  assertEquals(skipped.body.skipped, 'preferences')
+  assertEquals(fakes.sendgrid.sent.length, 0)
+})
+
+Deno.test('rejects raw html and unknown templates', async () => {
+  setup()
+
+  assertEquals((await call(handler, { to: 'asha@example.com', template: 'welcome', html: '<p>hi</p>' }, { token: SERVICE_KEY })).status, 400)
+  assertEquals((await call(handler, { to: 'asha@example.com', template: 'nope' }, { token: SERVICE_KEY })).status, 400)
+})
+
+Deno.test('signed-in users may send a few templates to their own address only', async () => {
+  const fakes = setup()
+  const welcome = { template: 'welcome', variables: { userName: 'Asha' } }
+
+  const own = await call(handler, { to: 'asha@example.com', userId: USER, ...welcome }, { token: 'asha-token' })
+  assertEquals(own.status, 200)
+
+  for (const body of [
+    { to: 'ravi@example.com', ...welcome },
+    { to: 'asha@example.com', bcc: ['ravi@example.com'], ...welcome },
+    { to: 'asha@example.com', userId: '9d8c7b6a-5f4e-4d3c-8b2a-1f0e9d8c7b6a', ...welcome },
+    { to: 'asha@example.com', template: 'payment_receipt', variables: {} },
+  ]) {
+    const res = await call(handler, body, { token: 'asha-token' })
+    assertEquals([res.status, res.body.error.code], [403, 'forbidden'])
+  }
+  assertEquals(fakes.sendgrid.sent.length, 1)
+})
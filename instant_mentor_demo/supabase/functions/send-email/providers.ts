@@ -0,0 +1,207 @@
+// Email delivery providers for send-email. Each provider takes a fully
+// rendered message and reports the provider's message id (used to match
+// delivery events later).
+//
+// EMAIL_PROVIDER selects one explicitly: 'sendgrid', 'smtp' or 'console'.
+// Without it, SendGrid is used when an API key is set, then SMTP when a host is
+// set; otherwise configuration is incomplete and sending fails.
+
+export interface EmailAddress {
+  email: string
+  name?: string
+}
+
+export interface OutgoingEmail {
+  from: EmailAddress
+  to: string
+  cc?: string[]
+  bcc?: string[]
+  subject: string
+  html: string
+  text: string
+  // Echoed back by providers that support it (SendGrid custom_args), e.g. the email_logs id
+  metadata?: Record<string, string>
+}
+
+export interface SendResult {
+  provider: string
+  messageId: string | null
+}
+
+export interface EmailProvider {
+  readonly name: string
+  send(email: OutgoingEmail): Promise<SendResult>
+}
+
+const formatAddress = (a: EmailAddress) => (a.name ? `${a.name} <${a.email}>` : a.email)
+
+// ---------------------------------------------------------------------------
+// SendGrid (v3 Mail Send API)
+// ---------------------------------------------------------------------------
+
+export class SendGridProvider implements EmailProvider {
+  readonly name = 'sendgrid'
+  private readonly endpoint: string
+
+  /** `baseUrl` is EMAIL_SERVICE_URL, e.g. https://api.eu.sendgrid.com for EU data residency. */
+  constructor(private readonly apiKey: string, baseUrl = 'https://api.sendgrid.com', private readonly fetchFn: typeof fetch = fetch) {
+    const base = baseUrl.replace(/\/+$/, '')
+    this.endpoint = base.endsWith('/mail/send') ? base : `${base}/v3/mail/send`
+  }
+
+  async send(email: OutgoingEmail): Promise<SendResult> {
+    const payload = {
+      personalizations: [
+        {
+          to: [{ email: email.to }],
+          ...(email.cc?.length && { cc: email.cc.map((address) => ({ email: address })) }),
+          ...(email.bcc?.length && { bcc: email.bcc.map((address) => ({ email: address })) }),
+          ...(email.metadata && { custom_args: email.metadata }),
+        },
+      ],
+      from: email.from,
+      subject: email.subject,
+      // SendGrid requires text/plain before text/html
+      content: [
+        { type: 'text/plain', value: email.text },
+        { type: 'text/html', value: email.html },
+      ],
+    }
+    const res = await this.fetchFn(this.endpoint, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${this.apiKey}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    })
+    if (!res.ok) {
+      throw new Error(`SendGrid API error: ${res.status} - ${await res.text()}`)
+    }
+    return { provider: this.name, messageId: res.headers.get('x-message-id') }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// SMTP
+// ---------------------------------------------------------------------------
+
+export interface SmtpConfig {
+  hostname: string
+  port: number
+  // Implicit TLS (usually port 465); otherwise STARTTLS is negotiated
+  tls: boolean
+  username?: string
+  password?: string
+}
+
+/** The slice of denomailer's SMTPClient the provider uses. */
+export interface SmtpClient {
+  send(message: Record<string, unknown>): Promise<void>
+  close(): Promise<void>
+}
+
+export type SmtpConnect = (config: SmtpConfig) => Promise<SmtpClient>
+
+// Loaded on first use so the other providers (and tests) do not fetch it
+const denomailerConnect: SmtpConnect = async (config) => {
+  const { SMTPClient } = await import('https://deno.land/x/denomailer@1.6.0/mod.ts')
+  return new SMTPClient({
+    connection: {
+      hostname: config.hostname,
+      port: config.port,
+      tls: config.tls,
+      ...(config.username && { auth: { username: config.username, password: config.password ?? '' } }),
+    },
+  })
+}
+
+export class SmtpProvider implements EmailProvider {
+  readonly name = 'smtp'
+
+  constructor(private readonly config: SmtpConfig, private readonly connect: SmtpConnect = denomailerConnect) {}
+
+  async send(email: OutgoingEmail): Promise<SendResult> {
+    // SMTP has no provider id; we set Message-ID ourselves so bounces can be matched
+    const domain = email.from.email.split('@')[1] || 'localhost'
+    const messageId = `<${crypto.randomUUID()}@${domain}>`
+    const client = await this.connect(this.config)
+    try {
+      await client.send({
+        from: formatAddress(email.from),
+        to: email.to,
+        ...(email.cc?.length && { cc: email.cc }),
+        ...(email.bcc?.length && { bcc: email.bcc }),
+        subject: email.subject,
+        content: email.text,
+        html: email.html,
+        headers: {
+          'Message-ID': messageId,
+          ...Object.fromEntries(Object.entries(email.metadata ?? {}).map(([k, v]) => [`X-InstantMentor-${k}`, v])),
+        },
+      })
+    } finally {
+      await client.close()
+    }
+    return { provider: this.name, messageId }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Console / file sink (development and tests)
+// ---------------------------------------------------------------------------
+
+export class ConsoleProvider implements EmailProvider {
+  readonly name = 'console'
+
+  /**
+   * With `outboxDir` (EMAIL_OUTBOX_DIR) each message is written there as JSON;
+   * otherwise it is logged. `write` and `log` are injectable for tests.
+   */
+  constructor(
+    private readonly outboxDir?: string,
+    private readonly write: (path: string, data: string) => Promise<void> = (path, data) => Deno.writeTextFile(path, data),
+    private readonly log: (...args: unknown[]) => void = console.log,
+  ) {}
+
+  async send(email: OutgoingEmail): Promise<SendResult> {
+    const messageId = `console-${crypto.randomUUID()}`
+    if (this.outboxDir) {
+      const path = `${this.outboxDir.replace(/\/+$/, '')}/${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId}.json`
+      await this.write(path, JSON.stringify({ messageId, ...email }, null, 2))
+    } else {
+      this.log(`[email] ${messageId} to=${email.to} subject=${JSON.stringify(email.subject)}\n${email.text}`)
+    }
+    return { provider: this.name, messageId }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+export function createEmailProvider(env: (name: string) => string | undefined, fetchFn: typeof fetch = fetch): EmailProvider {
+  const apiKey = env('EMAIL_API_KEY') || env('SENDGRID_API_KEY')
+  const smtpHost = env('SMTP_HOST')
+  const choice = env('EMAIL_PROVIDER') || (apiKey ? 'sendgrid' : smtpHost ? 'smtp' : undefined)
+
+  switch (choice) {
+    case 'sendgrid':
+      if (!apiKey) throw new Error('Email service API key not configured')
+      return new SendGridProvider(apiKey, env('EMAIL_SERVICE_URL') || undefined, fetchFn)
+    case 'smtp': {
+      if (!smtpHost) throw new Error('SMTP_HOST not configured')
+      const tls = env('SMTP_TLS') === 'true'
+      return new SmtpProvider({
+        hostname: smtpHost,
+        port: Number(env('SMTP_PORT')) || (tls ? 465 : 587),
+        tls,
+        username: env('SMTP_USERNAME'),
+        password: env('SMTP_PASSWORD'),
+      })
+    }
+    case 'console':
+      return new ConsoleProvider(env('EMAIL_OUTBOX_DIR'))
+    case undefined:
+      throw new Error('No email provider configured (set EMAIL_PROVIDER, EMAIL_API_KEY or SMTP_HOST)')
+    default:
+      throw new Error(`Unknown EMAIL_PROVIDER: ${choice}`)
+  }
+}
@@ -0,0 +1,92 @@
+import { assert, assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import {
+  ConsoleProvider,
+  createEmailProvider,
+  type OutgoingEmail,
+  SendGridProvider,
+  type SmtpClient,
+  SmtpProvider,
+} from './providers.ts'
+
+const email: OutgoingEmail = {
+  from: { email: 'noreply@instantmentor.app', name: 'InstantMentor' },
+  to: 'asha@example.com',
+  cc: ['ops@example.com'],
+  subject: 'Hello',
+  html: '<p>Hello</p>',
+  text: 'Hello',
+  metadata: { emailLogId: 'log-1' },
+}
+
+const envOf = (vars: Record<string, string>) => (name: string) => vars[name]
+
+Deno.test('SendGrid posts both parts and custom args', async () => {
+  let request: { url: string; body: any; auth: string } | null = null
+  const fakeFetch = ((url: string, init: RequestInit) => {
+    request = { url, body: JSON.parse(init.body as string), auth: (init.headers as Record<string, string>)['Authorization'] }
+    return Promise.resolve(new Response(null, { status: 202, headers: { 'x-message-id': 'sg-1' } }))
+  }) as typeof fetch
+
+  const result = await new SendGridProvider('key', 'https://api.eu.sendgrid.com/', fakeFetch).send(email)
+  assertEquals(result, { provider: 'sendgrid', messageId: 'sg-1' })
+  assertEquals(request!.url, 'https://api.eu.sendgrid.com/v3/mail/send')
+  assertEquals(request!.auth, 'Bearer key')
+  assertEquals(request!.body.content.map((c: any) => c.type), ['text/plain', 'text/html'])
+  assertEquals(request!.body.personalizations[0].cc, [{ email: 'ops@example.com' }])
+  assertEquals(request!.body.personalizations[0].custom_args, { emailLogId: 'log-1' })
+})
+
+Deno.test('SendGrid errors carry the status', async () => {
+  const fakeFetch = (() => Promise.resolve(new Response('bad key', { status: 401 }))) as typeof fetch
+  await assertRejects(() => new SendGridProvider('key', undefined, fakeFetch).send(email), Error, '401')
+})
+
+Deno.test('SMTP sets a Message-ID and always closes the connection', async () => {
+  const sent: Record<string, unknown>[] = []
+  let closed = 0
+  const client: SmtpClient = {
+    send: (message) => {
+      sent.push(message)
+      return Promise.resolve()
+    },
+    close: () => {
+      closed++
+      return Promise.resolve()
+    },
+  }
+  const provider = new SmtpProvider({ hostname: 'smtp.example.com', port: 587, tls: false }, () => Promise.resolve(client))
+  const result = await provider.send(email)
+  assert(result.messageId?.endsWith('@instantmentor.app>'))
+  assertEquals((sent[0].headers as Record<string, string>)['Message-ID'], result.messageId)
+  assertEquals(sent[0].from, 'InstantMentor <noreply@instantmentor.app>')
+  assertEquals(closed, 1)
+
+  client.send = () => Promise.reject(new Error('mailbox full'))
+  await assertRejects(() => provider.send(email), Error, 'mailbox full')
+  assertEquals(closed, 2)
+})
+
+Deno.test('console sink writes to the outbox directory', async () => {
+  const files: Record<string, string> = {}
+  const provider = new ConsoleProvider('/tmp/outbox/', (path, data) => {
+    files[path] = data
+    return Promise.resolve()
+  })
+  const result = await provider.send(email)
+  const [path] = Object.keys(files)
+  assert(path.startsWith('/tmp/outbox/') && path.endsWith(`${result.messageId}.json`))
+  assertEquals(JSON.parse(files[path]).subject, 'Hello')
+
+  const lines: unknown[] = []
+  await new ConsoleProvider(undefined, undefined, (...args) => lines.push(...args)).send(email)
+  assert(String(lines[0]).includes('to=asha@example.com'))
+})
+
+Deno.test('picks a provider from the environment', () => {
+  assertEquals(createEmailProvider(envOf({ SENDGRID_API_KEY: 'k' })).name, 'sendgrid')
+  assertEquals(createEmailProvider(envOf({ SMTP_HOST: 'smtp.example.com' })).name, 'smtp')
+  assertEquals(createEmailProvider(envOf({ EMAIL_PROVIDER: 'console', SENDGRID_API_KEY: 'k' })).name, 'console')
+  assertThrows(() => createEmailProvider(envOf({})), Error, 'No email provider configured')
+  assertThrows(() => createEmailProvider(envOf({ EMAIL_PROVIDER: 'smtp' })), Error, 'SMTP_HOST')
+  assertThrows(() => createEmailProvider(envOf({ EMAIL_PROVIDER: 'pigeon' })), Error, 'Unknown EMAIL_PROVIDER')
+})
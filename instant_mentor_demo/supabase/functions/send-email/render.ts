@@ -0,0 +1,177 @@
+// Renders registry templates (templates.ts) with caller variables.
+//
+// Template syntax is a small Mustache subset:
+//   {{name}}               the formatted variable (HTML-escaped in html; a list
+//                          becomes <li> items in html and "- " lines in text)
+//   {{#flag}}...{{/flag}}  kept when the variable is truthy
+//   {{^flag}}...{{/flag}}  kept when it is falsy or absent
+// Variables are declared per template with a kind, checked, and formatted for
+// the locale (dates in the recipient's time zone, money with its currency).
+// Every template gets a plain-text part generated from its HTML unless the
+// variant provides one.
+
+import type { Category } from '../_shared/preferences.ts'
+import { currencyExponent, formatMajor, money, MoneyError } from '../_shared/money.ts'
+import { DEFAULT_LOCALE, TEMPLATES, type TemplateDefinition, type VariableKind } from './templates.ts'
+
+export class TemplateError extends Error {}
+
+export interface RenderedEmail {
+  template: string
+  // Preference category of the template; undefined for account emails
+  category?: Category
+  locale: string
+  subject: string
+  html: string
+  text: string
+}
+
+export interface RenderOptions {
+  locale?: string
+  // IANA zone for datetime variables, e.g. 'Asia/Kolkata'; UTC when absent
+  timeZone?: string
+}
+
+/** Picks the best variant: exact ('pt-BR'), then language ('pt'), then DEFAULT_LOCALE. */
+export function resolveLocale(definition: TemplateDefinition, requested?: string): string {
+  if (requested) {
+    const normalized = requested.replace('_', '-').toLowerCase()
+    const exact = Object.keys(definition.locales).find((l) => l.toLowerCase() === normalized)
+    if (exact) return exact
+    const language = normalized.split('-')[0]
+    if (definition.locales[language]) return language
+  }
+  return DEFAULT_LOCALE
+}
+
+type Formatted = string | boolean | string[]
+
+const MAX_LIST_ITEMS = 50
+
+function formatVariable(name: string, kind: VariableKind, value: unknown, locale: string, timeZone: string): Formatted {
+  switch (kind) {
+    case 'list':
+      if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS || value.some((v) => typeof v !== 'string')) {
+        throw new TemplateError(`${name} must be a list of at most ${MAX_LIST_ITEMS} strings`)
+      }
+      return value
+    case 'flag':
+      return value === true
+    case 'text':
+      if (typeof value !== 'string' && typeof value !== 'number') throw new TemplateError(`${name} must be a string`)
+      return String(value)
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw new TemplateError(`${name} must be a number`)
+      return new Intl.NumberFormat(locale).format(value)
+    case 'url': {
+      let url: URL
+      try {
+        url = new URL(String(value))
+      } catch (_) {
+        throw new TemplateError(`${name} must be a URL`)
+      }
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') throw new TemplateError(`${name} must be an http(s) URL`)
+      return url.toString()
+    }
+    case 'datetime': {
+      const date = new Date(String(value))
+      if (typeof value !== 'string' || Number.isNaN(date.getTime())) throw new TemplateError(`${name} must be an ISO timestamp`)
+      return new Intl.DateTimeFormat(locale, {
+        year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', timeZone, timeZoneName: 'short',
+      }).format(date)
+    }
+    case 'money': {
+      // { amountMinor, currency } as everywhere else in the payment code
+      const m = value as { amountMinor?: unknown; currency?: unknown } | null
+      try {
+        const amount = money(m?.amountMinor as number, m?.currency as string)
+        const digits = currencyExponent(amount.currency)
+        return new Intl.NumberFormat(locale, {
+          style: 'currency', currency: amount.currency, minimumFractionDigits: digits, maximumFractionDigits: digits,
+        }).format(Number(formatMajor(amount)))
+      } catch (err) {
+        if (err instanceof MoneyError) throw new TemplateError(`${name} must be { amountMinor, currency }: ${err.message}`)
+        throw err
+      }
+    }
+  }
+}
+
+const ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (c) => ESCAPES[c])
+}
+
+function interpolate(source: string, values: Record<string, Formatted>, escape: boolean): string {
+  const sections = source.replace(/\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g, (_, mode, name, body) => {
+    const value = values[name]
+    const on = Array.isArray(value) ? value.length > 0 : Boolean(value)
+    return (mode === '#' ? on : !on) ? body : ''
+  })
+  return sections.replace(/\{\{(\w+)\}\}/g, (_, name) => {
+    const value = values[name]
+    if (value === undefined || typeof value === 'boolean') return ''
+    if (Array.isArray(value)) {
+      return escape ? value.map((item) => `<li>${escapeHtml(item)}</li>`).join('') : value.map((item) => `- ${item}`).join('\n')
+    }
+    return escape ? escapeHtml(value) : value
+  })
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' }
+
+/** Plain-text rendering of an HTML email: paragraphs, list bullets, and links as "text (url)". */
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(head|style|script)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href, label) => {
+      const text = label.replace(/<[^>]+>/g, '').trim()
+      return text && text !== href ? `${text} (${href})` : href
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|table|tr)>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, e) => ENTITIES[e])
+    .split('\n').map((line) => line.replace(/[ \t]+/g, ' ').trim()).join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+export function renderTemplate(id: string, variables: Record<string, unknown>, options: RenderOptions = {}): RenderedEmail {
+  const definition: TemplateDefinition | undefined = Object.hasOwn(TEMPLATES, id) ? TEMPLATES[id as keyof typeof TEMPLATES] : undefined
+  if (!definition) throw new TemplateError(`Unknown template: ${id}`)
+  const locale = resolveLocale(definition, options.locale)
+  const timeZone = options.timeZone ?? 'UTC'
+  try {
+    new Intl.DateTimeFormat('en', { timeZone })
+  } catch (_) {
+    throw new TemplateError(`Unknown time zone: ${timeZone}`)
+  }
+
+  const unknown = Object.keys(variables ?? {}).filter((k) => !Object.hasOwn(definition.variables, k))
+  if (unknown.length > 0) throw new TemplateError(`Unknown variables for ${id}: ${unknown.join(', ')}`)
+
+  const values: Record<string, Formatted> = {}
+  for (const [name, spec] of Object.entries(definition.variables)) {
+    const value = variables?.[name]
+    if (value === undefined || value === null || value === '') {
+      if (!spec.optional && spec.kind !== 'flag') throw new TemplateError(`Missing variable for ${id}: ${name}`)
+      if (spec.kind === 'flag') values[name] = false
+      continue
+    }
+    values[name] = formatVariable(name, spec.kind, value, locale, timeZone)
+  }
+
+  const variant = definition.locales[locale]
+  const html = interpolate(variant.html, values, true)
+  return {
+    template: id,
+    category: definition.category,
+    locale,
+    subject: interpolate(variant.subject, values, false).replace(/\s+/g, ' ').trim(),
+    html,
+    text: variant.text ? interpolate(variant.text, values, false) : htmlToText(html),
+  }
+}
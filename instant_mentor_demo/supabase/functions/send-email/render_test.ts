@@ -0,0 +1,90 @@
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { htmlToText, renderTemplate, TemplateError } from './render.ts'
+import { DEFAULT_LOCALE, TEMPLATES } from './templates.ts'
+
+const booking = {
+  recipientName: 'Asha',
+  otherPartyName: 'Ravi <Mentor>',
+  subject: 'Calculus',
+  startsAt: '2025-03-01T10:00:00Z',
+  durationMinutes: 60,
+  sessionId: 'sess-1',
+}
+
+Deno.test('every template has a default-locale variant', () => {
+  for (const [id, definition] of Object.entries(TEMPLATES)) {
+    assert((definition.locales as Record<string, unknown>)[DEFAULT_LOCALE], `${id} has no ${DEFAULT_LOCALE} variant`)
+  }
+})
+
+Deno.test('renders variables, escaping them in html only', () => {
+  const email = renderTemplate('booking_confirmation', booking)
+  assertEquals(email.subject, 'Session confirmed - Calculus with Ravi <Mentor>')
+  assert(email.html.includes('Ravi &lt;Mentor&gt;'))
+  assert(!email.html.includes('Ravi <Mentor>'))
+  assert(email.text.includes('Mentor: Ravi <Mentor>'))
+})
+
+Deno.test('flags switch sections', () => {
+  const mentor = renderTemplate('booking_confirmation', { ...booking, isMentor: true })
+  assert(mentor.subject.startsWith('New session booked'))
+  assert(mentor.html.includes('<strong>Student:</strong>'))
+  assert(!mentor.html.includes('{{'))
+})
+
+Deno.test('formats dates in the given time zone and money in its currency', () => {
+  const email = renderTemplate('booking_confirmation', booking, { timeZone: 'Asia/Kolkata' })
+  assert(email.text.includes('3:30'), email.text)
+  const receipt = renderTemplate('payment_receipt', {
+    recipientName: 'Asha',
+    amount: { amountMinor: 150050, currency: 'INR' },
+    paidAt: '2025-03-01T10:00:00Z',
+    receiptId: 'rcpt_1',
+    description: 'Calculus session',
+  })
+  assert(receipt.subject.includes('1,500.50'), receipt.subject)
+  const yen = renderTemplate('payout_sent', {
+    recipientName: 'Ravi', amount: { amountMinor: 500, currency: 'JPY' }, sentAt: '2025-03-01T10:00:00Z', payoutId: 'po_1',
+  })
+  assert(yen.subject.includes('500') && !yen.subject.includes('500.00'), yen.subject)
+})
+
+Deno.test('falls back from region to language to the default locale', () => {
+  const link = { resetLink: 'https://instantmentor.app/reset?token=abc' }
+  assertEquals(renderTemplate('password_reset', link, { locale: 'hi-IN' }).locale, 'hi')
+  assertEquals(renderTemplate('password_reset', link, { locale: 'fr' }).locale, 'en')
+  assertEquals(renderTemplate('welcome', { userName: 'Asha' }, { locale: 'hi' }).locale, 'en')
+})
+
+Deno.test('generates a plain-text part with links spelled out', () => {
+  const email = renderTemplate('password_reset', { resetLink: 'https://instantmentor.app/reset?token=a&b=1', expiresInMinutes: 60 })
+  assert(email.text.includes('Reset Password (https://instantmentor.app/reset?token=a&b=1)'), email.text)
+  assert(email.text.includes('expires in 60 minutes'))
+  assert(!email.text.includes('<'))
+  assert(!email.text.includes('font-family'))
+})
+
+Deno.test('htmlToText keeps structure', () => {
+  assertEquals(htmlToText('<p>One &amp; two</p><ul><li>a</li><li>b</li></ul><p>x<br>y</p>'), 'One & two\n\n- a\n- b\n\nx\ny')
+})
+
+Deno.test('rejects bad input', () => {
+  assertThrows(() => renderTemplate('nope', {}), TemplateError, 'Unknown template')
+  assertThrows(() => renderTemplate('welcome', {}), TemplateError, 'Missing variable')
+  assertThrows(() => renderTemplate('welcome', { userName: 'A', html: '<b>' }), TemplateError, 'Unknown variables')
+  assertThrows(() => renderTemplate('password_reset', { resetLink: 'javascript:alert(1)' }), TemplateError)
+  assertThrows(() => renderTemplate('booking_confirmation', { ...booking, startsAt: 'tomorrow' }), TemplateError)
+  assertThrows(() => renderTemplate('booking_confirmation', booking, { timeZone: 'Mars/Base' }), TemplateError)
+  assertThrows(() => renderTemplate('payout_sent', {
+    recipientName: 'R', amount: { amountMinor: 1.5, currency: 'INR' }, sentAt: '2025-03-01T10:00:00Z', payoutId: 'p',
+  }), TemplateError)
+})
+
+Deno.test('renders list variables as escaped items', () => {
+  const email = renderTemplate('notification_digest', { count: 2, items: ['New <b>course</b>', 'Offer'] })
+  assert(email.html.includes('<ul><li>New &lt;b&gt;course&lt;/b&gt;</li><li>Offer</li></ul>'), email.html)
+  assert(email.text.includes('- New <b>course</b>\n- Offer'), email.text)
+  assertEquals(email.category, undefined)
+  assertEquals(renderTemplate('booking_confirmation', booking).category, 'sessions')
+  assertThrows(() => renderTemplate('notification_digest', { count: 1, items: [1] }), TemplateError, 'list')
+})
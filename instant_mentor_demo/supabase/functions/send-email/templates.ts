@@ -0,0 +1,321 @@
+// Template registry for send-email. Callers pick a template id and pass its
+// variables; the markup lives here, not in the apps. Each template declares its
+// variables and has an `en` variant plus optional locale variants. A variant
+// without `text` gets a plain-text part generated from its HTML (render.ts).
+// A template with a `category` is subject to the recipient's notification
+// preferences; templates without one (account emails) are always sent.
+
+import type { Category } from '../_shared/preferences.ts'
+
+// 'list' is an array of strings, rendered as <li> items (put it inside <ul>)
+export type VariableKind = 'text' | 'number' | 'url' | 'datetime' | 'money' | 'flag' | 'list'
+
+export interface VariableSpec {
+  kind: VariableKind
+  optional?: boolean
+}
+
+export interface TemplateVariant {
+  subject: string
+  html: string
+  text?: string
+}
+
+export interface TemplateDefinition {
+  category?: Category
+  variables: Record<string, VariableSpec>
+  // Must contain DEFAULT_LOCALE
+  locales: Record<string, TemplateVariant>
+}
+
+export const DEFAULT_LOCALE = 'en'
+
+const APP_URL = 'https://instantmentor.app'
+
+const layout = (lang: string, title: string, body: string, footer = '') => `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="utf-8">
+<style>
+  body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+  .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+  .header { background-color: #0B1C49; color: white; padding: 20px; text-align: center; }
+  .content { padding: 20px; background-color: #f8f9fa; }
+  .details { background-color: white; padding: 15px; border-radius: 8px; margin: 15px 0; }
+  .button { display: inline-block; padding: 12px 24px; background-color: #2563EB; color: white; text-decoration: none; border-radius: 8px; margin: 10px 5px; }
+  .footer { text-align: center; padding: 20px; font-size: 12px; color: #666; }
+</style>
+</head>
+<body>
+<div class="container">
+<div class="header"><h1>${title}</h1></div>
+<div class="content">
+${body}
+</div>
+<div class="footer">
+<p>© InstantMentor. All rights reserved.</p>
+${footer}
+</div>
+</div>
+</body>
+</html>`
+
+export const TEMPLATES = {
+  welcome: {
+    variables: { userName: { kind: 'text' } },
+    locales: {
+      en: {
+        subject: "Welcome to InstantMentor - Let's Begin Your Learning Journey!",
+        html: layout('en', 'Welcome to InstantMentor!', `
+<h2>Hello {{userName}},</h2>
+<p>Welcome to InstantMentor - your platform for connecting with expert mentors and advancing your learning journey!</p>
+<p>Here's what you can do next:</p>
+<ul>
+<li>Complete your profile to get better mentor matches</li>
+<li>Browse our mentors across various subjects</li>
+<li>Schedule your first mentoring session</li>
+</ul>
+<p style="text-align: center;"><a href="${APP_URL}/dashboard" class="button">Get Started</a></p>
+<p>Best regards,<br>The InstantMentor Team</p>`, '<p>You received this email because you signed up for InstantMentor.</p>'),
+      },
+    },
+  },
+
+  booking_confirmation: {
+    category: 'sessions',
+    variables: {
+      recipientName: { kind: 'text' },
+      otherPartyName: { kind: 'text' },
+      isMentor: { kind: 'flag' },
+      subject: { kind: 'text' },
+      startsAt: { kind: 'datetime' },
+      durationMinutes: { kind: 'number' },
+      sessionId: { kind: 'text' },
+    },
+    locales: {
+      en: {
+        subject: '{{#isMentor}}New session booked{{/isMentor}}{{^isMentor}}Session confirmed{{/isMentor}} - {{subject}} with {{otherPartyName}}',
+        html: layout('en', 'Session Confirmed', `
+<h2>Hello {{recipientName}},</h2>
+<p>{{#isMentor}}A student has booked a mentoring session with you.{{/isMentor}}{{^isMentor}}Your mentoring session has been confirmed.{{/isMentor}}</p>
+<div class="details">
+<p><strong>{{#isMentor}}Student{{/isMentor}}{{^isMentor}}Mentor{{/isMentor}}:</strong> {{otherPartyName}}</p>
+<p><strong>Subject:</strong> {{subject}}</p>
+<p><strong>Starts:</strong> {{startsAt}}</p>
+<p><strong>Duration:</strong> {{durationMinutes}} minutes</p>
+<p><strong>Session ID:</strong> {{sessionId}}</p>
+</div>
+<p>{{#isMentor}}Please prepare any materials you might need. The session link will be available in your dashboard.{{/isMentor}}{{^isMentor}}Please be ready 5 minutes before the session starts.{{/isMentor}}</p>
+<p style="text-align: center;"><a href="${APP_URL}/sessions/{{sessionId}}" class="button">View Session</a></p>
+<p>Best regards,<br>The InstantMentor Team</p>`),
+      },
+      hi: {
+        subject: '{{#isMentor}}नया सत्र बुक हुआ{{/isMentor}}{{^isMentor}}सत्र की पुष्टि हो गई{{/isMentor}} - {{subject}}, {{otherPartyName}} के साथ',
+        html: layout('hi', 'सत्र की पुष्टि', `
+<h2>नमस्ते {{recipientName}},</h2>
+<p>{{#isMentor}}एक छात्र ने आपके साथ मेंटरिंग सत्र बुक किया है।{{/isMentor}}{{^isMentor}}आपके मेंटरिंग सत्र की पुष्टि हो गई है।{{/isMentor}}</p>
+<div class="details">
+<p><strong>{{#isMentor}}छात्र{{/isMentor}}{{^isMentor}}मेंटर{{/isMentor}}:</strong> {{otherPartyName}}</p>
+<p><strong>विषय:</strong> {{subject}}</p>
+<p><strong>शुरुआत:</strong> {{startsAt}}</p>
+<p><strong>अवधि:</strong> {{durationMinutes}} मिनट</p>
+<p><strong>सत्र आईडी:</strong> {{sessionId}}</p>
+</div>
+<p>{{#isMentor}}कृपया आवश्यक सामग्री तैयार रखें। सत्र का लिंक आपके डैशबोर्ड में उपलब्ध होगा।{{/isMentor}}{{^isMentor}}कृपया सत्र शुरू होने से 5 मिनट पहले तैयार रहें।{{/isMentor}}</p>
+<p style="text-align: center;"><a href="${APP_URL}/sessions/{{sessionId}}" class="button">सत्र देखें</a></p>
+<p>शुभकामनाएँ,<br>InstantMentor टीम</p>`),
+      },
+    },
+  },
+
+  session_reminder: {
+    category: 'sessions',
+    variables: {
+      recipientName: { kind: 'text' },
+      otherPartyName: { kind: 'text' },
+      isMentor: { kind: 'flag' },
+      subject: { kind: 'text' },
+      startsAt: { kind: 'datetime' },
+      sessionId: { kind: 'text' },
+    },
+    locales: {
+      en: {
+        subject: 'Reminder: your session with {{otherPartyName}} starts {{startsAt}}',
+        html: layout('en', 'Session Reminder', `
+<h2>Hello {{recipientName}},</h2>
+<p>This is a reminder about your upcoming mentoring session.</p>
+<div class="details">
+<p><strong>Starts:</strong> {{startsAt}}</p>
+<p><strong>{{#isMentor}}Student{{/isMentor}}{{^isMentor}}Mentor{{/isMentor}}:</strong> {{otherPartyName}}</p>
+<p><strong>Subject:</strong> {{subject}}</p>
+</div>
+<p>{{#isMentor}}Please prepare any materials you might need for the session.{{/isMentor}}{{^isMentor}}Please be ready with your questions and learning goals.{{/isMentor}}</p>
+<p style="text-align: center;"><a href="${APP_URL}/sessions/{{sessionId}}/join" class="button">Join Session</a></p>
+<p>Best regards,<br>The InstantMentor Team</p>`),
+      },
+    },
+  },
+
+  session_completed: {
+    category: 'sessions',
+    variables: {
+      recipientName: { kind: 'text' },
+      otherPartyName: { kind: 'text' },
+      isMentor: { kind: 'flag' },
+      subject: { kind: 'text' },
+      sessionId: { kind: 'text' },
+    },
+    locales: {
+      en: {
+        subject: 'Session completed - please share your feedback',
+        html: layout('en', 'Session Completed', `
+<h2>Hello {{recipientName}},</h2>
+<p>Your mentoring session about "{{subject}}" with {{otherPartyName}} has been completed.</p>
+<p>{{#isMentor}}Thank you for sharing your knowledge and expertise!{{/isMentor}}{{^isMentor}}We hope you learned something valuable today!{{/isMentor}}</p>
+<p>Your feedback is important to us. Please take a moment to rate your session:</p>
+<p style="text-align: center;"><a href="${APP_URL}/sessions/{{sessionId}}/feedback" class="button">Rate Session</a></p>
+<p>Best regards,<br>The InstantMentor Team</p>`),
+      },
+    },
+  },
+
+  payment_receipt: {
+    category: 'payments',
+    variables: {
+      recipientName: { kind: 'text' },
+      amount: { kind: 'money' },
+      paidAt: { kind: 'datetime' },
+      receiptId: { kind: 'text' },
+      description: { kind: 'text' },
+      paymentMethod: { kind: 'text', optional: true },
+    },
+    locales: {
+      en: {
+        subject: 'Your InstantMentor receipt for {{amount}}',
+        html: layout('en', 'Payment Receipt', `
+<h2>Hello {{recipientName}},</h2>
+<p>Thank you for your payment. Here is your receipt.</p>
+<div class="details">
+<p><strong>Amount:</strong> {{amount}}</p>
+<p><strong>For:</strong> {{description}}</p>
+<p><strong>Date:</strong> {{paidAt}}</p>
+{{#paymentMethod}}<p><strong>Paid with:</strong> {{paymentMethod}}</p>{{/paymentMethod}}
+<p><strong>Receipt number:</strong> {{receiptId}}</p>
+</div>
+<p>Keep this email for your records.</p>
+<p>Best regards,<br>The InstantMentor Team</p>`),
+      },
+      hi: {
+        subject: '{{amount}} के लिए आपकी InstantMentor रसीद',
+        html: layout('hi', 'भुगतान रसीद', `
+<h2>नमस्ते {{recipientName}},</h2>
+<p>आपके भुगतान के लिए धन्यवाद। आपकी रसीद नीचे है।</p>
+<div class="details">
+<p><strong>राशि:</strong> {{amount}}</p>
+<p><strong>विवरण:</strong> {{description}}</p>
+<p><strong>तारीख:</strong> {{paidAt}}</p>
+{{#paymentMethod}}<p><strong>भुगतान का माध्यम:</strong> {{paymentMethod}}</p>{{/paymentMethod}}
+<p><strong>रसीद संख्या:</strong> {{receiptId}}</p>
+</div>
+<p>कृपया इस ईमेल को अपने रिकॉर्ड के लिए सुरक्षित रखें।</p>
+<p>शुभकामनाएँ,<br>InstantMentor टीम</p>`),
+      },
+    },
+  },
+
+  payout_sent: {
+    category: 'payments',
+    variables: {
+      recipientName: { kind: 'text' },
+      amount: { kind: 'money' },
+      sentAt: { kind: 'datetime' },
+      payoutId: { kind: 'text' },
+      destination: { kind: 'text', optional: true },
+    },
+    locales: {
+      en: {
+        subject: 'Your payout of {{amount}} is on its way',
+        html: layout('en', 'Payout Sent', `
+<h2>Hello {{recipientName}},</h2>
+<p>We have sent your earnings payout.</p>
+<div class="details">
+<p><strong>Amount:</strong> {{amount}}</p>
+<p><strong>Sent:</strong> {{sentAt}}</p>
+{{#destination}}<p><strong>To:</strong> {{destination}}</p>{{/destination}}
+<p><strong>Payout reference:</strong> {{payoutId}}</p>
+</div>
+<p>Depending on your bank, it can take a few working days for the money to arrive.</p>
+<p>Best regards,<br>The InstantMentor Team</p>`),
+      },
+      hi: {
+        subject: '{{amount}} का आपका भुगतान भेज दिया गया है',
+        html: layout('hi', 'भुगतान भेजा गया', `
+<h2>नमस्ते {{recipientName}},</h2>
+<p>हमने आपकी कमाई का भुगतान भेज दिया है।</p>
+<div class="details">
+<p><strong>राशि:</strong> {{amount}}</p>
+<p><strong>भेजा गया:</strong> {{sentAt}}</p>
+{{#destination}}<p><strong>प्राप्तकर्ता खाता:</strong> {{destination}}</p>{{/destination}}
+<p><strong>भुगतान संदर्भ:</strong> {{payoutId}}</p>
+</div>
+<p>आपके बैंक के अनुसार राशि पहुँचने में कुछ कार्यदिवस लग सकते हैं।</p>
+<p>शुभकामनाएँ,<br>InstantMentor टीम</p>`),
+      },
+    },
+  },
+
+  password_reset: {
+    variables: {
+      resetLink: { kind: 'url' },
+      expiresInMinutes: { kind: 'number', optional: true },
+    },
+    locales: {
+      en: {
+        subject: 'Reset your InstantMentor password',
+        html: layout('en', 'Password Reset Request', `
+<h2>Reset your password</h2>
+<p>We received a request to reset your InstantMentor account password.</p>
+<p style="text-align: center;"><a href="{{resetLink}}" class="button">Reset Password</a></p>
+{{#expiresInMinutes}}<p><strong>Important:</strong> this link expires in {{expiresInMinutes}} minutes.</p>{{/expiresInMinutes}}
+<p>If you didn't request a password reset, you can ignore this email. Your password will remain unchanged.</p>
+<p>Never share this link with anyone.</p>
+<p>Best regards,<br>The InstantMentor Team</p>`, `<p>If the button does not work, copy this URL into your browser:</p>
+<p style="word-break: break-all;">{{resetLink}}</p>`),
+      },
+      hi: {
+        subject: 'अपना InstantMentor पासवर्ड रीसेट करें',
+        html: layout('hi', 'पासवर्ड रीसेट अनुरोध', `
+<h2>अपना पासवर्ड रीसेट करें</h2>
+<p>हमें आपके InstantMentor खाते का पासवर्ड रीसेट करने का अनुरोध मिला है।</p>
+<p style="text-align: center;"><a href="{{resetLink}}" class="button">पासवर्ड रीसेट करें</a></p>
+{{#expiresInMinutes}}<p><strong>महत्वपूर्ण:</strong> यह लिंक {{expiresInMinutes}} मिनट में समाप्त हो जाएगा।</p>{{/expiresInMinutes}}
+<p>अगर आपने यह अनुरोध नहीं किया है, तो इस ईमेल को अनदेखा करें। आपका पासवर्ड नहीं बदलेगा।</p>
+<p>यह लिंक किसी के साथ साझा न करें।</p>
+<p>शुभकामनाएँ,<br>InstantMentor टीम</p>`, `<p>अगर बटन काम नहीं करता है, तो यह URL अपने ब्राउज़र में कॉपी करें:</p>
+<p style="word-break: break-all;">{{resetLink}}</p>`),
+      },
+    },
+  },
+
+  // Sent by notification-digest; the items were already filtered by preference
+  notification_digest: {
+    variables: {
+      recipientName: { kind: 'text', optional: true },
+      count: { kind: 'number' },
+      items: { kind: 'list' },
+    },
+    locales: {
+      en: {
+        subject: 'Your InstantMentor digest: {{count}} updates',
+        html: layout('en', 'Your Updates', `
+<h2>Hello{{#recipientName}} {{recipientName}}{{/recipientName}},</h2>
+<p>Here is what you missed:</p>
+<ul>{{items}}</ul>
+<p style="text-align: center;"><a href="${APP_URL}/notifications" class="button">Open InstantMentor</a></p>
+<p>Best regards,<br>The InstantMentor Team</p>`, `<p>Change which updates you receive in <a href="${APP_URL}/settings/notifications">notification settings</a>.</p>`),
+      },
+    },
+  },
+} satisfies Record<string, TemplateDefinition>
+
+export type TemplateId = keyof typeof TEMPLATES
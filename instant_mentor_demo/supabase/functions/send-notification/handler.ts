@@ -0,0 +1,115 @@
+import { createHandler } from '../_shared/handler.ts'
+import { CATEGORIES, decideDelivery, loadPreferences, type Category } from '../_shared/preferences.ts'
+import { pushToDevices } from '../_shared/push.ts'
+import { v } from '../_shared/validate.ts'
+
+// notifications.type
+const TYPES = ['info', 'success', 'warning', 'error', 'session', 'payment', 'system'] as const
+
+const schema = {
+  userId: v.uuid(),
+  title: v.string({ maxLength: 200 }),
+  message: v.string({ maxLength: 2000 }),
+  type: v.optional(v.oneOf(TYPES), 'info'),
+  category: v.optional(v.oneOf(CATEGORIES)),
+  data: v.optional(v.object()),
+  actionUrl: v.optional(v.string({ maxLength: 2048 })),
+}
+
+// Per signed-in user; other functions call with the service role and are not limited
+const RATE_LIMIT = { limit: 30, windowSeconds: 60 }
+
+export const handler = createHandler({ name: 'send-notification', auth: 'user_or_service', body: schema, rateLimit: RATE_LIMIT }, async ({ supabase, body }) => {
+  const { userId, title, message, type, data, actionUrl } = body
+  // Older callers only send `type`; payment notifications were the only other kind
+  const category: Category = body.category ?? (type === 'payment' ? 'payments' : 'sessions')
+
+  const prefs = await loadPreferences(supabase, userId)
+  const now = new Date()
+  const inApp = decideDelivery(prefs, category, 'in_app', now)
+  const pushDelivery = decideDelivery(prefs, category, 'push', now)
+
+  // Store notification in database (the in-app copy)
+  let notification: { id: string; created_at: string } | null = null
+  if (inApp.action === 'send') {
+    const { data: stored, error: notificationError } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: userId,
+        title: title,
+        message: message,
+        type: type,
+        category: category,
+        action_url: actionUrl,
+        data: data,
+        is_read: false
+      })
+      .select()
+      .single()
+
+    if (notificationError) {
+      throw new Error(`Failed to store notification: ${notificationError.message}`)
+    }
+    notification = stored
+  }
+
+  const pushContent = {
+    title,
+    body: message,
+    data: { type, category, userId, notificationId: notification?.id, ...data },
+    clickAction: actionUrl,
+  }
+
+  // Push to every device registered for the user (see user_devices), now or
+  // via the outbox once quiet hours end / at digest time
+  let push = null
+  if (pushDelivery.action === 'send') {
+    push = await pushToDevices(supabase, userId, pushContent)
+  } else if (pushDelivery.action === 'defer' || pushDelivery.action === 'digest') {
+    const { error: outboxError } = await supabase.from('notification_outbox').insert({
+      user_id: userId,
+      category,
+      channel: 'push',
+      kind: pushDelivery.action === 'defer' ? 'deferred' : 'digest',
+      payload: pushContent,
+      deliver_after: pushDelivery.until.toISOString(),
+    })
+    if (outboxError) throw new Error(`Failed to queue push: ${outboxError.message}`)
+  }
+
+  // Send real-time notification via Supabase realtime
+  if (notification) {
+    const { error: realtimeError } = await supabase
+      .channel(`user_${userId}`)
+      .send({
+        type: 'broadcast',
+        event: 'notification',
+        payload: {
+          id: notification.id,
+          title: title,
+          message: message,
+          type: type,
+          category: category,
+          data: data,
+          actionUrl: actionUrl,
+          createdAt: notification.created_at
+        }
+      })
+
+    if (realtimeError) {
+      console.error('Failed to send realtime notification:', realtimeError)
+    }
+  }
+
+  return {
+    success: true,
+    notificationId: notification?.id ?? null,
+    delivery: {
+      in_app: inApp.action === 'send' ? 'sent' : 'skipped',
+      push: pushDelivery.action === 'send' ? 'sent' : pushDelivery.action === 'skip' ? 'skipped' : pushDelivery.action,
+      ...('until' in pushDelivery && { pushDeliverAfter: pushDelivery.until.toISOString() }),
+    },
+    push,
+    message: 'Notification sent successfully'
+  }
+})
@@ -0,0 +1,59 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { call, fcmServiceAccount, installFakes, SERVICE_KEY } from '../_shared/testing.ts'
+import { handler } from './handler.ts'
+
+const USER = '2f8e4c1a-9b3d-4e6f-a1c2-d3e4f5a6b7c8'
+
+async function setup(preferences?: Record<string, unknown>) {
+  const fakes = installFakes({
+    env: { FCM_SERVICE_ACCOUNT: await fcmServiceAccount() },
+    users: { 'user-token': { id: USER } },
+    tables: {
+      user_devices: [{ user_id: USER, token: 'phone' }, { user_id: USER, token: 'old-tablet' }],
+      notification_preferences: preferences ? [{ user_id: USER, ...preferences }] : [],
+    },
+  })
+  fakes.fcm.unregistered.add('old-tablet')
+  return fakes
+}
+
+// A quiet period around the current UTC time
+function quietNow() {
+  const hhmm = (offsetHours: number) => new Date(Date.now() + offsetHours * 3_600_000).toISOString().slice(11, 16)
+  return { quiet_hours_start: hhmm(-1), quiet_hours_end: hhmm(1) }
+}
+
+Deno.test('stores, broadcasts and pushes to every device, pruning dead tokens', async () => {
+  const fakes = await setup()
+  const res = await call(handler, { userId: USER, title: 'Session starts soon', message: 'Join in 10 minutes', type: 'session' }, { token: SERVICE_KEY })
+
+  assertEquals(res.status, 200)
+  const [stored] = fakes.supabase.table('notifications')
+  assertEquals(res.body.notificationId, stored.id)
+  assertEquals(res.body.push, { sent: 1, failed: 1, pruned: 1 })
+  assertEquals(fakes.fcm.sent.map((s) => [s.token, s.message.notification.title]), [['phone', 'Session starts soon']])
+  assertEquals(fakes.supabase.table('user_devices').map((d) => d.token), ['phone'])
+  assertEquals(fakes.supabase.broadcasts.map((b) => [b.channel, b.message.payload.id]), [[`user_${USER}`, stored.id]])
+})
+
+Deno.test('defers pushes during quiet hours', async () => {
+  const fakes = await setup(quietNow())
+  const res = await call(handler, { userId: USER, title: 'Payment received', message: '₹500', type: 'payment' }, { token: SERVICE_KEY })
+
+  assertEquals(res.body.delivery.in_app, 'sent')
+  assertEquals(res.body.delivery.push, 'defer')
+  assertEquals(fakes.fcm.sent.length, 0)
+  const [queued] = fakes.supabase.table('notification_outbox')
+  assertEquals([queued.kind, queued.category, queued.deliver_after], ['deferred', 'payments', res.body.delivery.pushDeliverAfter])
+})
+
+Deno.test('rate limits signed-in callers', async () => {
+  const fakes = await setup()
+  fakes.supabase.onRpc('hit_rate_limit', () => ({ allowed: false, hit_count: 31, retry_after_seconds: 42 }))
+
+  const res = await call(handler, { userId: USER, title: 'Hi', message: 'Hello' }, { token: 'user-token' })
+  assertEquals(res.status, 429)
+  assertEquals(res.headers.get('Retry-After'), '42')
+  assertEquals(fakes.supabase.calls('hit_rate_limit')[0].p_bucket, `send-notification:${USER}`)
+  assertEquals(fakes.supabase.table('notifications').length, 0)
+})
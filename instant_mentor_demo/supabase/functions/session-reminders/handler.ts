@@ -0,0 +1,156 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { clients } from '../_shared/clients.ts'
+import { createHandler } from '../_shared/handler.ts'
+import { joinUrl, offsetLabel, parseOffsets } from './reminders.ts'
+
+// Reminds the student and the mentor of a booked session at each configured
+// offset before it starts (SESSION_REMINDER_OFFSETS), by push and email. Meant
+// to run on a schedule (every few minutes) with the service role key as its
+// bearer token.
+
+interface DueReminder {
+  reminder_id: string
+  session_id: string
+  offset_minutes: number
+  scheduled_time: string
+  duration_minutes: number
+  subject: string | null
+  student_id: string
+  mentor_user_id: string
+}
+
+interface Profile {
+  id: string
+  email: string | null
+  full_name: string | null
+  preferred_language: string | null
+  timezone: string | null
+}
+
+// Per channel: 'sent', 'skipped' or what went wrong
+type Delivery = Record<'push' | 'email', string>
+
+type Outcome = 'sent' | 'cancelled' | 'failed'
+
+// Statuses in which a session still takes place at its scheduled time
+const BOOKED_STATUSES = ['scheduled', 'accepted', 'confirmed']
+
+// A session rescheduled or called off after the claim must not be announced
+async function stillBooked(supabase: SupabaseClient, reminder: DueReminder): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('mentoring_sessions')
+    .select('status, scheduled_time')
+    .eq('id', reminder.session_id)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load session: ${error.message}`)
+  return !!data && BOOKED_STATUSES.includes(data.status) && Date.parse(data.scheduled_time) === Date.parse(reminder.scheduled_time)
+}
+
+async function remind(supabase: SupabaseClient, reminder: DueReminder, recipient: Profile | undefined, other: Profile | undefined, isMentor: boolean): Promise<Delivery> {
+  const userId = isMentor ? reminder.mentor_user_id : reminder.student_id
+  const otherPartyName = other?.full_name ?? (isMentor ? 'your student' : 'your mentor')
+  const subject = reminder.subject ?? 'Mentoring session'
+  const link = joinUrl(reminder.session_id)
+  const delivery: Delivery = { push: 'sent', email: 'sent' }
+
+  // send-notification and send-email apply the recipient's 'sessions' preferences
+  const { error: pushError } = await supabase.functions.invoke('send-notification', {
+    body: {
+      userId,
+      title: `Your session starts in ${offsetLabel(reminder.offset_minutes)}`,
+      message: `${subject} with ${otherPartyName}`,
+      type: 'session',
+      category: 'sessions',
+      data: { sessionId: reminder.session_id, action: 'reminder', offsetMinutes: reminder.offset_minutes, joinUrl: link },
+      actionUrl: link,
+    },
+  })
+  if (pushError) delivery.push = `send-notification failed: ${pushError.message}`
+
+  if (!recipient?.email) {
+    delivery.email = 'skipped'
+  } else {
+    const { data, error } = await supabase.functions.invoke('send-email', {
+      body: {
+        to: recipient.email,
+        userId,
+        template: 'session_reminder',
+        variables: {
+          recipientName: recipient.full_name ?? undefined,
+          otherPartyName,
+          isMentor,
+          subject,
+          startsAt: reminder.scheduled_time,
+          sessionId: reminder.session_id,
+        },
+        locale: recipient.preferred_language ?? undefined,
+        timeZone: recipient.timezone ?? undefined,
+      },
+    })
+    if (error) delivery.email = `send-email failed: ${error.message}`
+    else if (data?.suppressed || data?.skipped) delivery.email = 'skipped'
+  }
+  return delivery
+}
+
+async function settle(supabase: SupabaseClient, reminder: DueReminder, update: Record<string, unknown>) {
+  const { error } = await supabase.from('session_reminders').update(update).eq('id', reminder.reminder_id)
+  if (error) console.error('Failed to update session reminder:', error)
+}
+
+export const handler = createHandler({ name: 'session-reminders', auth: 'service' }, async ({ supabase }) => {
+  // claim_session_reminders from 023_session_reminders.sql: each reminder is
+  // claimed once, so it is sent at most once and never retried
+  const { data: rows, error } = await supabase.rpc('claim_session_reminders', {
+    p_offsets: parseOffsets(clients().env('SESSION_REMINDER_OFFSETS')),
+    p_limit: 200,
+  })
+  if (error) throw new Error(`claim_session_reminders failed: ${error.message}`)
+  const reminders = (rows ?? []) as DueReminder[]
+
+  const userIds = [...new Set(reminders.flatMap((r) => [r.student_id, r.mentor_user_id]))]
+  const profiles = new Map<string, Profile>()
+  if (userIds.length > 0) {
+    const { data, error: profileError } = await supabase
+      .from('user_profiles')
+      .select('id, email, full_name, preferred_language, timezone')
+      .in('id', userIds)
+    if (profileError) throw new Error(`Failed to load profiles: ${profileError.message}`)
+    for (const profile of (data ?? []) as Profile[]) profiles.set(profile.id, profile)
+  }
+
+  const counts: Record<Outcome, number> = { sent: 0, cancelled: 0, failed: 0 }
+  for (const reminder of reminders) {
+    try {
+      if (!(await stillBooked(supabase, reminder))) {
+        await settle(supabase, reminder, { status: 'cancelled' })
+        counts.cancelled++
+        continue
+      }
+      const student = profiles.get(reminder.student_id)
+      const mentor = profiles.get(reminder.mentor_user_id)
+      const delivery = {
+        student: await remind(supabase, reminder, student, mentor, false),
+        mentor: await remind(supabase, reminder, mentor, student, true),
+      }
+      const results = [delivery.student, delivery.mentor].flatMap((d) => [d.push, d.email])
+      const errors = results.filter((r) => r !== 'sent' && r !== 'skipped')
+      // Failed only when nothing could be delivered at all
+      const outcome: Outcome = errors.length > 0 && !results.includes('sent') ? 'failed' : 'sent'
+      await settle(supabase, reminder, {
+        status: outcome,
+        delivery,
+        last_error: errors[0] ?? null,
+        sent_at: outcome === 'sent' ? new Date().toISOString() : null,
+      })
+      counts[outcome]++
+    } catch (err) {
+      const message = String(err?.message || err)
+      console.error(`Session reminder ${reminder.reminder_id} failed:`, message)
+      await settle(supabase, reminder, { status: 'failed', last_error: message })
+      counts.failed++
+    }
+  }
+
+  return { claimed: reminders.length, ...counts }
+})
@@ -0,0 +1,130 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { call, installFakes, SERVICE_KEY } from '../_shared/testing.ts'
+import { handler } from './handler.ts'
+
+const STUDENT = 'student-1'
+const MENTOR = 'mentor-1'
+const START = '2030-01-07T10:00:00.000Z'
+
+const due = (id: string, offset: number) => ({
+  reminder_id: `reminder-${id}`,
+  session_id: id,
+  offset_minutes: offset,
+  scheduled_time: START,
+  duration_minutes: 60,
+  subject: 'Calculus',
+  student_id: STUDENT,
+  mentor_user_id: MENTOR,
+})
+
+// claim_session_reminders from 023_session_reminders.sql: hands out `claimable`
+// once, recording each claim like the unique key
+function setup(claimable: ReturnType<typeof due>[], env: Record<string, string> = {}) {
+  const fakes = installFakes({
+    env,
+    users: { 'user-token': { id: STUDENT } },
+    tables: {
+      mentoring_sessions: claimable.map((r) => ({ id: r.session_id, status: 'scheduled', scheduled_time: START })),
+      session_reminders: [],
+      user_profiles: [
+        { id: STUDENT, email: 'asha@example.com', full_name: 'Asha', preferred_language: 'hi', timezone: 'Asia/Kolkata' },
+        { id: MENTOR, email: 'ravi@example.com', full_name: 'Ravi', preferred_language: null, timezone: null },
+      ],
+    },
+  })
+  fakes.supabase.onRpc('claim_session_reminders', (_args, db) => {
+    const rows = claimable.filter((r) => !db.table('session_reminders').some((c) => c.id === r.reminder_id))
+    db.table('session_reminders').push(...rows.map((r) => ({ id: r.reminder_id, session_id: r.session_id, status: 'processing' })))
+    return rows
+  })
+  fakes.supabase.onInvoke('send-notification', () => ({ success: true }))
+  fakes.supabase.onInvoke('send-email', () => ({ success: true }))
+  return fakes
+}
+
+const statuses = (fakes: ReturnType<typeof setup>) => fakes.supabase.table('session_reminders').map((r) => r.status)
+
+Deno.test('reminds both parties by push and email with the join link', async () => {
+  const fakes = setup([due('s-1', 60)], { SESSION_REMINDER_OFFSETS: '1440,60,15' })
+  const res = await call(handler, {}, { token: SERVICE_KEY })
+
+  assertEquals(res.body, { claimed: 1, sent: 1, cancelled: 0, failed: 0 })
+  assertEquals(fakes.supabase.calls('claim_session_reminders')[0], { p_offsets: [1440, 60, 15], p_limit: 200 })
+  assertEquals(fakes.supabase.invocations.map((i) => [i.name, (i.body as Record<string, any>).userId]), [
+    ['send-notification', STUDENT],
+    ['send-email', STUDENT],
+    ['send-notification', MENTOR],
+    ['send-email', MENTOR],
+  ])
+  const push = fakes.supabase.invocations[0].body as Record<string, any>
+  assertEquals([push.title, push.message, push.category, push.actionUrl], [
+    'Your session starts in 1 hour', 'Calculus with Ravi', 'sessions', 'https://instantmentor.app/sessions/s-1/join',
+  ])
+  assertEquals(push.data, { sessionId: 's-1', action: 'reminder', offsetMinutes: 60, joinUrl: 'https://instantmentor.app/sessions/s-1/join' })
+  const email = fakes.supabase.invocations[3].body as Record<string, any>
+  assertEquals([email.to, email.template, email.variables.otherPartyName, email.variables.isMentor, email.variables.startsAt], [
+    'ravi@example.com', 'session_reminder', 'Asha', true, START,
+  ])
+  assertEquals((fakes.supabase.invocations[1].body as Record<string, any>).timeZone, 'Asia/Kolkata')
+  assertEquals(statuses(fakes), ['sent'])
+})
+
+Deno.test('sends each reminder once', async () => {
+  const fakes = setup([due('s-1', 60)])
+  await call(handler, {}, { token: SERVICE_KEY })
+  const res = await call(handler, {}, { token: SERVICE_KEY })
+
+  assertEquals(res.body, { claimed: 0, sent: 0, cancelled: 0, failed: 0 })
+  assertEquals(fakes.supabase.calls('claim_session_reminders')[0].p_offsets, [1440, 60, 10])
+  assertEquals(fakes.supabase.invocations.length, 4)
+})
+
+Deno.test('drops reminders for sessions rescheduled or cancelled since the claim', async () => {
+  const fakes = setup([due('s-1', 60), due('s-2', 10), due('s-3', 10)])
+  const [moved, cancelled] = fakes.supabase.table('mentoring_sessions')
+  moved.scheduled_time = '2030-01-07T12:00:00.000Z'
+  cancelled.status = 'cancelled'
+  const res = await call(handler, {}, { token: SERVICE_KEY })
+
+  assertEquals(res.body, { claimed: 3, sent: 1, cancelled: 2, failed: 0 })
+  assertEquals(statuses(fakes), ['cancelled', 'cancelled', 'sent'])
+  assertEquals(fakes.supabase.invocations.length, 4)
+  assertEquals((fakes.supabase.invocations[0].body as Record<string, any>).data.sessionId, 's-3')
+})
+
+Deno.test('records failed deliveries without retrying them', async () => {
+  const fakes = setup([due('s-1', 10)])
+  fakes.supabase.onInvoke('send-notification', () => {
+    throw new Error('FCM down')
+  })
+  fakes.supabase.onInvoke('send-email', () => {
+    throw new Error('timeout')
+  })
+  assertEquals((await call(handler, {}, { token: SERVICE_KEY })).body.failed, 1)
+  const [reminder] = fakes.supabase.table('session_reminders')
+  assertEquals([reminder.status, reminder.last_error], ['failed', 'send-notification failed: FCM down'])
+
+  assertEquals((await call(handler, {}, { token: SERVICE_KEY })).body.claimed, 0)
+})
+
+Deno.test('counts a reminder as sent when one channel got through', async () => {
+  const fakes = setup([due('s-1', 10)])
+  fakes.supabase.onInvoke('send-email', () => ({ success: false, suppressed: true, reason: 'bounce' }))
+  fakes.supabase.onInvoke('send-notification', (body) => {
+    if (body.userId === MENTOR) throw new Error('FCM down')
+    return { success: true }
+  })
+  assertEquals((await call(handler, {}, { token: SERVICE_KEY })).body.sent, 1)
+  const [reminder] = fakes.supabase.table('session_reminders')
+  assertEquals(reminder.delivery, {
+    student: { push: 'sent', email: 'skipped' },
+    mentor: { push: 'send-notification failed: FCM down', email: 'skipped' },
+  })
+})
+
+Deno.test('is for the service role only', async () => {
+  const fakes = setup([due('s-1', 60)])
+
+  assertEquals((await call(handler, {}, { token: 'user-token' })).status, 403)
+  assertEquals(fakes.supabase.calls('claim_session_reminders').length, 0)
+})
@@ -0,0 +1,30 @@
+// Reminder offsets, wording and links for session-reminders.
+
+// 24 hours, 1 hour and 10 minutes before the start
+export const DEFAULT_OFFSETS = [1440, 60, 10]
+
+// Same base as the links in send-email's templates
+const APP_URL = 'https://instantmentor.app'
+
+/**
+ * Minutes before the start to remind at, from a comma-separated list such as
+ * "1440,60,10"; largest first, duplicates dropped. Unset or with any entry
+ * that is not a positive whole number, the defaults apply.
+ */
+export function parseOffsets(raw: string | undefined): number[] {
+  if (!raw?.trim()) return DEFAULT_OFFSETS
+  const offsets = raw.split(',').map((part) => Number(part.trim()))
+  if (!offsets.every((o) => Number.isInteger(o) && o > 0)) return DEFAULT_OFFSETS
+  return [...new Set(offsets)].sort((a, b) => b - a)
+}
+
+// 1440 → '24 hours', 90 → '90 minutes', 60 → '1 hour'
+export function offsetLabel(minutes: number): string {
+  const [count, unit] = minutes % 60 === 0 ? [minutes / 60, 'hour'] : [minutes, 'minute']
+  return `${count} ${unit}${count === 1 ? '' : 's'}`
+}
+
+/** Where the reminder takes the user: the app opens the session's call from it. */
+export function joinUrl(sessionId: string): string {
+  return `${APP_URL}/sessions/${sessionId}/join`
+}
@@ -0,0 +1,18 @@
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { DEFAULT_OFFSETS, joinUrl, offsetLabel, parseOffsets } from './reminders.ts'
+
+Deno.test('parses offsets largest first and falls back to the defaults', () => {
+  assertEquals(parseOffsets('10, 60,1440,60'), [1440, 60, 10])
+  assertEquals(parseOffsets(undefined), DEFAULT_OFFSETS)
+  assertEquals(parseOffsets(' '), DEFAULT_OFFSETS)
+  assertEquals(parseOffsets('60,soon'), DEFAULT_OFFSETS)
+  assertEquals(parseOffsets('60,-10'), DEFAULT_OFFSETS)
+})
+
+Deno.test('labels offsets in hours when they are whole hours', () => {
+  assertEquals([1440, 60, 90, 10, 1].map(offsetLabel), ['24 hours', '1 hour', '90 minutes', '10 minutes', '1 minute'])
+})
+
+Deno.test('links to the session call', () => {
+  assertEquals(joinUrl('s-1'), 'https://instantmentor.app/sessions/s-1/join')
+})
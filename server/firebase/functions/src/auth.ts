@@ -0,0 +1,23 @@
+// Caller checks shared by callable functions.
+
+import * as functions from 'firebase-functions';
+import { clients } from './clients.js';
+
+/** Whether the signed-in caller is an admin (custom claim or Supabase `is_admin`). */
+export async function isAdmin(context: functions.https.CallableContext): Promise<boolean> {
+  const uid = context.auth?.uid;
+  if (!uid) return false;
+  if (context.auth?.token?.admin === true) return true;
+  const { supabase } = clients();
+  if (!supabase) return false;
+  const { data } = await supabase.rpc('is_admin', { p_uid: uid });
+  return data === true;
+}
+
+/** Returns the caller's uid when they are an admin. */
+export async function requireAdmin(context: functions.https.CallableContext): Promise<string> {
+  const uid = context.auth?.uid;
+  if (!uid) throw new functions.https.HttpsError('unauthenticated', 'Login required');
+  if (await isAdmin(context)) return uid;
+  throw new functions.https.HttpsError('permission-denied', 'Admin only');
+}
@@ -0,0 +1,75 @@
+// Conflict-free session booking. book_mentoring_session checks the slot against
+// the mentor's availability, time off and other sessions under a per-mentor
+// lock and inserts the session; bookSession then reserves the funds and undoes
+// the booking with release_unfunded_booking if that fails.
+
+import * as functions from 'firebase-functions';
+import { clients, logAlert } from './clients.js';
+
+export interface BookingRequest {
+  // Mentor's user id or mentor_profiles id
+  mentorId: string;
+  startTime: Date;
+  durationMinutes: number;
+  subject?: string;
+  description?: string;
+}
+
+const MIN_DURATION_MINUTES = 15;
+const MAX_DURATION_MINUTES = 240;
+
+export function parseBookingRequest(data: any): BookingRequest {
+  const { mentorId, startTime, durationMinutes, subject, description } = data ?? {};
+  if (typeof mentorId !== 'string' || !mentorId) throw new functions.https.HttpsError('invalid-argument', 'mentorId required');
+  const start = typeof startTime === 'string' ? new Date(startTime) : null;
+  if (!start || Number.isNaN(start.getTime())) {
+    throw new functions.https.HttpsError('invalid-argument', 'startTime must be an ISO 8601 timestamp');
+  }
+  if (!Number.isInteger(durationMinutes) || durationMinutes < MIN_DURATION_MINUTES || durationMinutes > MAX_DURATION_MINUTES) {
+    throw new functions.https.HttpsError('invalid-argument', `durationMinutes must be a whole number from ${MIN_DURATION_MINUTES} to ${MAX_DURATION_MINUTES}`);
+  }
+  for (const [name, value] of [['subject', subject], ['description', description]] as const) {
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      throw new functions.https.HttpsError('invalid-argument', `${name} must be a string`);
+    }
+  }
+  return { mentorId, startTime: start, durationMinutes, subject: subject ?? undefined, description: description ?? undefined };
+}
+
+// Why book_mentoring_session turned a slot down
+const REJECTIONS: Record<string, [functions.https.FunctionsErrorCode, string]> = {
+  not_a_mentor: ['not-found', 'Mentor not found'],
+  in_past: ['failed-precondition', 'The slot has already started'],
+  unavailable: ['failed-precondition', 'The mentor is not available at that time'],
+  time_off: ['failed-precondition', 'The mentor is away at that time'],
+  conflict: ['already-exists', 'The slot is no longer free'],
+};
+
+/** Books the slot for the student and returns the new session id. */
+export async function bookSlot(studentId: string, request: BookingRequest, bufferMinutes: number): Promise<string> {
+  const { supabase } = clients();
+  if (!supabase) throw new functions.https.HttpsError('failed-precondition', 'Supabase not configured');
+  const { data, error } = await supabase.rpc('book_mentoring_session', {
+    p_student_id: studentId,
+    p_mentor_id: request.mentorId,
+    p_start: request.startTime.toISOString(),
+    p_duration_minutes: request.durationMinutes,
+    p_buffer_minutes: bufferMinutes,
+    p_subject: request.subject ?? null,
+    p_description: request.description ?? null,
+  });
+  if (error) throw new functions.https.HttpsError('internal', error.message);
+  if (data?.status === 'booked') return data.session_id;
+  const [code, message] = REJECTIONS[data?.status] ?? ['internal', `Unexpected booking result: ${data?.status}`];
+  throw new functions.https.HttpsError(code, message);
+}
+
+/**
+ * Deletes a booking whose funds were never reserved so the slot opens again.
+ * Never throws: the caller is already failing the request. A booking left
+ * behind raises an admin alert instead.
+ */
+export async function releaseUnfundedBooking(sessionId: string): Promise<void> {
+  const { error } = await clients().supabase!.rpc('release_unfunded_booking', { p_session_id: sessionId });
+  if (error) await logAlert('booking_release_failed', 'warning', 'Unfunded booking could not be released', { sessionId, reason: error.message });
+}
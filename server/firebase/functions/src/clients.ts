@@ -0,0 +1,183 @@
+// Shared configuration and gateway/database clients for all functions.
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import Razorpay from 'razorpay';
+import Stripe from 'stripe';
+import { createClient } from '@supabase/supabase-js';
+
+// Env: support both process.env and Firebase functions:config()
+function cfg(path: string): string | undefined {
+  try {
+    const c: any = functions.config?.() || {};
+    // path like 'stripe.secret'
+    const parts = path.split('.');
+    let cur: any = c;
+    for (const p of parts) { if (!cur) return undefined; cur = cur[p]; }
+    return typeof cur === 'string' ? cur : undefined;
+  } catch { return undefined; }
+}
+export const STRIPE_SECRET = process.env.STRIPE_SECRET || cfg('stripe.secret') || '';
+export const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || cfg('stripe.webhook_secret') || '';
+export const RAZORPAY_KEY_ID = process.env.RAZORPAY_KEY_ID || cfg('razorpay.key_id') || '';
+export const RAZORPAY_KEY_SECRET = process.env.RAZORPAY_KEY_SECRET || cfg('razorpay.key_secret') || '';
+export const RAZORPAY_WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || cfg('razorpay.webhook_secret') || '';
+export const SUPABASE_URL = process.env.SUPABASE_URL || cfg('supabase.url') || '';
+export const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || cfg('supabase.service_role_key') || '';
+export const STRIPE_PAYOUT_WEBHOOK_SECRET = process.env.STRIPE_PAYOUT_WEBHOOK_SECRET || cfg('stripe.payout_webhook_secret') || '';
+export const RAZORPAYX_ACCOUNT_NUMBER = process.env.RAZORPAYX_ACCOUNT_NUMBER || cfg('razorpayx.account_number') || '';
+export const RAZORPAYX_WEBHOOK_SECRET = process.env.RAZORPAYX_WEBHOOK_SECRET || cfg('razorpayx.webhook_secret') || '';
+export const PAYOUT_MIN_AMOUNT = Number(process.env.PAYOUT_MIN_AMOUNT || cfg('payout.min_amount')) || 10000;
+export const PLATFORM_FEE_PERCENT = Number(process.env.PLATFORM_FEE_PERCENT || cfg('platform.fee_percent')) || 0.15;
+// JSON FeeSchedule, e.g. {"tiers":[{"upToMinor":50000,"percent":0.2},{"percent":0.15}],"minimumFeeMinor":1000}
+export const PLATFORM_FEE_SCHEDULE = process.env.PLATFORM_FEE_SCHEDULE || cfg('platform.fee_schedule') || '';
+// Free minutes kept between a mentor's sessions when booking; "0" turns the buffer off
+export const SESSION_BUFFER_MINUTES = Number(process.env.SESSION_BUFFER_MINUTES || cfg('booking.buffer_minutes') || 10);
+// Hours a mentor has to accept a request before it expires (it also expires at the scheduled start)
+export const SESSION_ACCEPT_HOURS = Number(process.env.SESSION_ACCEPT_HOURS || cfg('booking.accept_hours')) || 24;
+// JSON NoShowPolicy, e.g. {"studentAbsentPercent":1,"bothAbsentPercent":0.25}
+export const NO_SHOW_POLICY = process.env.NO_SHOW_POLICY || cfg('booking.no_show_policy') || '';
+// Secret of the Agora channel event notification (NCS) project; signs handleAgoraWebhook deliveries
+export const AGORA_NCS_SECRET = process.env.AGORA_NCS_SECRET || cfg('agora.ncs_secret') || '';
+// JSON UsagePolicy, e.g. {"incrementMinutes":5,"rounding":"up","minimumChargeMinor":10000}
+export const USAGE_BILLING_POLICY = process.env.USAGE_BILLING_POLICY || cfg('billing.usage_policy') || '';
+
+// The parts of each client the functions use. Clients is typed to these rather
+// than the whole SDKs, so the in-memory fakes in test/fakes implement them as is.
+export interface StripeApi {
+  paymentIntents: { create(params: Stripe.PaymentIntentCreateParams, options?: Stripe.RequestOptions): Promise<Stripe.PaymentIntent> };
+  charges: { retrieve(id: string): Promise<Stripe.Charge> };
+  // Auto-paginating
+  refunds: { list(params: Stripe.RefundListParams): AsyncIterable<Stripe.Refund> };
+  transfers: { create(params: Stripe.TransferCreateParams, options?: Stripe.RequestOptions): Promise<Stripe.Transfer> };
+  balanceTransactions: { list(params: Stripe.BalanceTransactionListParams): Promise<Stripe.ApiList<Stripe.BalanceTransaction>> };
+  webhooks: Pick<Stripe.Webhooks, 'constructEvent'>;
+}
+
+export interface RazorpayApi {
+  orders: Pick<Razorpay['orders'], 'create'>;
+  // The SDK types a report page as a single row; it is { count, items }
+  settlements: { reports(params: { year: number; month: number; day?: number; count?: number; skip?: number }): Promise<any> };
+}
+
+export interface DbError { message: string; code?: string }
+export interface DbResult { data: any; error: DbError | null }
+
+/** A PostgREST request: modifiers chain, awaiting it runs it. */
+export interface DbTransform extends PromiseLike<DbResult> {
+  order(column: string, options?: { ascending?: boolean }): DbTransform;
+  limit(count: number): DbTransform;
+  range(from: number, to: number): DbTransform;
+  maybeSingle(): PromiseLike<DbResult>;
+  single(): PromiseLike<DbResult>;
+}
+
+/** A PostgREST request that can still be filtered. */
+export interface DbQuery extends DbTransform {
+  // Returns the written rows of an insert, update or delete
+  select(columns?: string): DbTransform;
+  eq(column: string, value: unknown): DbQuery;
+  neq(column: string, value: unknown): DbQuery;
+  in(column: string, values: readonly unknown[]): DbQuery;
+  is(column: string, value: null | boolean): DbQuery;
+  lt(column: string, value: unknown): DbQuery;
+  lte(column: string, value: unknown): DbQuery;
+  gt(column: string, value: unknown): DbQuery;
+  gte(column: string, value: unknown): DbQuery;
+  not(column: string, operator: string, value: unknown): DbQuery;
+  or(filters: string): DbQuery;
+  order(column: string, options?: { ascending?: boolean }): DbQuery;
+  limit(count: number): DbQuery;
+  range(from: number, to: number): DbQuery;
+}
+
+export interface SupabaseApi {
+  from(table: string): {
+    select(columns?: string): DbQuery;
+    insert(values: object | object[]): DbQuery;
+    update(values: object): DbQuery;
+    delete(): DbQuery;
+  };
+  rpc(fn: string, args?: object): PromiseLike<DbResult>;
+  functions: { invoke(name: string, options?: { body?: any }): Promise<{ data: any; error: any }> };
+}
+
+export interface FirestoreDoc {
+  update(data: Record<string, any>): Promise<unknown>;
+  delete(): Promise<unknown>;
+}
+
+export interface FirestoreQuery {
+  where(field: string, op: '==' | '<' | '<=' | '>' | '>=', value: unknown): FirestoreQuery;
+  limit(count: number): FirestoreQuery;
+  get(): Promise<{ empty: boolean; size: number; docs: Array<{ ref: FirestoreDoc }> }>;
+}
+
+export interface FirestoreTransaction {
+  get(ref: FirestoreDoc): Promise<{ exists: boolean; data(): Record<string, any> | undefined }>;
+  set(ref: FirestoreDoc, data: Record<string, any>): unknown;
+}
+
+export interface FirestoreApi {
+  collection(path: string): FirestoreQuery & { doc(id: string): FirestoreDoc };
+  runTransaction<T>(fn: (tx: FirestoreTransaction) => Promise<T>): Promise<T>;
+  batch(): { delete(ref: FirestoreDoc): unknown; commit(): Promise<unknown> };
+}
+
+// Clients
+export interface Clients {
+  stripe?: StripeApi;
+  razorpay?: RazorpayApi;
+  supabase?: SupabaseApi;
+  db: FirestoreApi;
+  // Gateway APIs the SDKs do not cover (RazorpayX payouts)
+  fetch: typeof fetch;
+}
+
+let current: Clients | undefined;
+
+function createClients(): Clients {
+  if (admin.apps.length === 0) admin.initializeApp();
+  // tsc gives up comparing select()'s column-string parser with SupabaseApi (TS2589), so this one is asserted
+  const supabase = (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY)
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } }) as unknown as SupabaseApi
+    : undefined;
+  return {
+    stripe: STRIPE_SECRET ? new Stripe(STRIPE_SECRET, { apiVersion: '2024-06-20' }) : undefined,
+    razorpay: (RAZORPAY_KEY_ID && RAZORPAY_KEY_SECRET) ? new Razorpay({ key_id: RAZORPAY_KEY_ID, key_secret: RAZORPAY_KEY_SECRET }) : undefined,
+    supabase,
+    db: admin.firestore(),
+    fetch: (input, init) => fetch(input, init),
+  };
+}
+
+/**
+ * The clients every function uses, created from the configuration above on
+ * first use rather than at module load. A missing gateway or Supabase config
+ * leaves its client undefined.
+ */
+export function clients(): Clients {
+  current ??= createClients();
+  return current;
+}
+
+/** Replaces the clients, e.g. with the in-memory fakes in `test/fakes`. */
+export function setClients(next: Clients): void {
+  current = next;
+}
+
+export function resetClients(): void {
+  current = undefined;
+}
+
+// Best-effort admin alert; never throws so it can be used on error paths.
+export async function logAlert(type: string, severity: 'info' | 'warning' | 'error' | 'critical', message: string, details: Record<string, any> = {}) {
+  try {
+    await clients().supabase?.rpc('admin_log_alert', {
+      p_type: type,
+      p_severity: severity,
+      p_message: message,
+      p_details: details,
+    });
+  } catch {}
+}
@@ -0,0 +1,193 @@
+// Releases mentor earnings once the post-capture hold has passed.
+// Runs in bounded batches and checkpoints its keyset cursor in
+// `scheduled_job_runs`, so a crashed or budget-limited run resumes where it stopped.
+
+import { clients, logAlert } from './clients.js';
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+export const RELEASE_JOB = 'release_mentor_earnings';
+export const RELEASE_HOLD_MS = 24 * 60 * 60 * 1000;
+
+export interface ReleaseOptions {
+  clock?: Clock;
+  holdMs?: number;
+  batchSize?: number;
+  // Upper bound on batches per invocation; the rest is picked up by the next run
+  maxBatches?: number;
+}
+
+interface Cursor {
+  capturedAt: string;
+  sessionId: string;
+}
+
+export interface ReleaseSummary {
+  runId: string;
+  cutoff: string;
+  resumed: boolean;
+  complete: boolean;
+  batches: number;
+  scanned: number;
+  released: number;
+  releasedAmount: number;
+  alreadyReleased: number;
+  heldForDispute: number;
+  heldForRefund: number;
+  failed: number;
+  failures: Array<{ sessionId: string; reason: string }>;
+}
+
+interface DueRow {
+  session_id: string;
+  mentor_uid: string;
+  // Mentor share less the mentor share of the session's refunds so far
+  amount_mentor: number;
+  currency: string;
+  captured_at: string;
+  hold_reason: 'dispute' | 'refund' | null;
+}
+
+const MAX_REPORTED_FAILURES = 20;
+
+function requireSupabase() {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  return supabase;
+}
+
+function emptySummary(runId: string, cutoff: string, resumed: boolean): ReleaseSummary {
+  return {
+    runId, cutoff, resumed, complete: false, batches: 0, scanned: 0, released: 0, releasedAmount: 0,
+    alreadyReleased: 0, heldForDispute: 0, heldForRefund: 0, failed: 0, failures: [],
+  };
+}
+
+/** Resumes the unfinished run if there is one, otherwise starts a run with a fresh cutoff. */
+async function startOrResumeRun(clock: Clock, holdMs: number): Promise<{ summary: ReleaseSummary; cursor: Cursor | null }> {
+  const sb = requireSupabase();
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: running, error } = await sb.from('scheduled_job_runs')
+      .select('id, cutoff, cursor, summary')
+      .eq('job_name', RELEASE_JOB)
+      .eq('status', 'running')
+      .maybeSingle();
+    if (error) throw new Error(`scheduled_job_runs read failed: ${error.message}`);
+    if (running) {
+      const prior = (running.summary ?? {}) as Partial<ReleaseSummary>;
+      return {
+        summary: { ...emptySummary(running.id, running.cutoff, true), ...prior, runId: running.id, cutoff: running.cutoff, resumed: true, complete: false },
+        cursor: (running.cursor as Cursor | null) ?? null,
+      };
+    }
+
+    const cutoff = new Date(clock.now().getTime() - holdMs).toISOString();
+    const { data: created, error: insertError } = await sb.from('scheduled_job_runs')
+      .insert({ job_name: RELEASE_JOB, status: 'running', cutoff, started_at: clock.now().toISOString() })
+      .select('id')
+      .single();
+    if (!insertError) return { summary: emptySummary(created.id, cutoff, false), cursor: null };
+    // Another invocation started a run between our read and insert; resume that one
+    if (insertError.code !== '23505') throw new Error(`scheduled_job_runs insert failed: ${insertError.message}`);
+  }
+  throw new Error('Could not start or resume earnings release run');
+}
+
+async function checkpoint(summary: ReleaseSummary, cursor: Cursor | null, clock: Clock, status?: 'completed') {
+  const now = clock.now().toISOString();
+  const { error } = await requireSupabase().from('scheduled_job_runs')
+    .update({
+      cursor,
+      summary,
+      updated_at: now,
+      ...(status ? { status, finished_at: now } : {}),
+    })
+    .eq('id', summary.runId);
+  if (error) throw new Error(`scheduled_job_runs checkpoint failed: ${error.message}`);
+}
+
+async function releaseRow(row: DueRow, summary: ReleaseSummary) {
+  if (row.hold_reason === 'dispute') { summary.heldForDispute++; return; }
+  if (row.hold_reason === 'refund') { summary.heldForRefund++; return; }
+
+  const { data: released, error } = await requireSupabase().rpc('process_mentor_earnings_release', {
+    mentor_id: row.mentor_uid,
+    amount_minor: row.amount_mentor,
+    session_id: row.session_id,
+    transaction_data: { runId: summary.runId },
+  });
+  if (error) {
+    summary.failed++;
+    if (summary.failures.length < MAX_REPORTED_FAILURES) summary.failures.push({ sessionId: row.session_id, reason: error.message });
+    return;
+  }
+  if (released) {
+    summary.released++;
+    summary.releasedAmount += row.amount_mentor;
+  } else {
+    summary.alreadyReleased++;
+  }
+}
+
+/**
+ * Releases the mentor share of every captured session past the hold window,
+ * net of what was refunded, skipping sessions with an open dispute or pending refund.
+ * A failing session is recorded and skipped; the next run retries it.
+ */
+export async function releaseDueMentorEarnings(opts: ReleaseOptions = {}): Promise<ReleaseSummary> {
+  const clock = opts.clock ?? systemClock;
+  const batchSize = opts.batchSize ?? 100;
+  const maxBatches = opts.maxBatches ?? 20;
+  const sb = requireSupabase();
+
+  const run = await startOrResumeRun(clock, opts.holdMs ?? RELEASE_HOLD_MS);
+  const summary = run.summary;
+  let cursor = run.cursor;
+  try {
+    for (let batch = 0; batch < maxBatches; batch++) {
+      const { data, error } = await sb.rpc('list_mentor_earnings_due', {
+        p_cutoff: summary.cutoff,
+        p_after_captured_at: cursor?.capturedAt ?? null,
+        p_after_session_id: cursor?.sessionId ?? null,
+        p_limit: batchSize,
+      });
+      if (error) throw new Error(`list_mentor_earnings_due failed: ${error.message}`);
+      const rows = (data ?? []) as DueRow[];
+
+      for (const row of rows) await releaseRow(row, summary);
+      summary.batches++;
+      summary.scanned += rows.length;
+      if (rows.length > 0) {
+        const last = rows[rows.length - 1];
+        cursor = { capturedAt: last.captured_at, sessionId: last.session_id };
+      }
+
+      if (rows.length < batchSize) {
+        summary.complete = true;
+        break;
+      }
+      await checkpoint(summary, cursor, clock);
+    }
+  } catch (err: any) {
+    // Leave the run 'running' so the next invocation resumes from the last checkpoint
+    await logAlert('mentor_earnings_release_failed', 'error', 'Mentor earnings release run failed', {
+      ...summary, reason: String(err?.message || err),
+    });
+    throw err;
+  }
+
+  if (summary.complete) {
+    await checkpoint(summary, cursor, clock, 'completed');
+  } else {
+    await checkpoint(summary, cursor, clock);
+  }
+
+  await logAlert('mentor_earnings_release_summary', summary.failed > 0 ? 'warning' : 'info',
+    summary.complete ? 'Mentor earnings release run completed' : 'Mentor earnings release run paused; resumes next run',
+    { ...summary });
+  return summary;
+}
@@ -0,0 +1,147 @@
+// Idempotency store shared by the callables. A request carrying an
+// `idempotencyKey` is recorded with a fingerprint of its payload; a retry with
+// the same key and payload gets the stored result instead of running again.
+// Records live in Firestore `idempotencyRecords` and are swept after IDEMPOTENCY_TTL_MS.
+
+import * as functions from 'firebase-functions';
+import * as admin from 'firebase-admin';
+import { createHash } from 'crypto';
+import { clients, type FirestoreQuery, type FirestoreTransaction } from './clients.js';
+
+export const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+// A request still `in_progress` after this long is assumed to have crashed and may be taken over
+export const IN_PROGRESS_LEASE_MS = 2 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+const COLLECTION = 'idempotencyRecords';
+// Written by the old guard (key only, no result or expiry); cleared by the sweep
+const LEGACY_COLLECTION = 'idempotencyKeys';
+
+export interface IdempotencyRecord {
+  scope: string;
+  uid: string;
+  fingerprint: string;
+  state: 'in_progress' | 'completed';
+  // JSON of the handler's result once completed
+  response?: string;
+  createdAt: admin.firestore.Timestamp;
+  leaseExpiresAt: admin.firestore.Timestamp;
+  expiresAt: admin.firestore.Timestamp;
+}
+
+type CallableHandler<T> = (data: any, context: functions.https.CallableContext) => Promise<T>;
+
+/** JSON with object keys sorted, so equal payloads fingerprint the same regardless of key order. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>).sort()
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function requestFingerprint(payload: Record<string, unknown>): string {
+  const { idempotencyKey: _key, ...rest } = payload;
+  return createHash('sha256').update(canonicalJson(rest)).digest('hex');
+}
+
+function recordRef(scope: string, uid: string, key: string) {
+  // Keys are client-chosen; hash them into a valid document id
+  return clients().db.collection(COLLECTION).doc(createHash('sha256').update(`${scope}:${uid}:${key}`).digest('hex'));
+}
+
+/**
+ * Runs `fn` once per (scope, uid, key). A matching retry returns the stored
+ * result; a retry while the first call is still running is rejected with
+ * `aborted`; a reused key with a different payload with `invalid-argument`.
+ * A failed call releases the key so the client can retry it.
+ */
+export async function withIdempotency<T>(
+  scope: string, uid: string, key: string, payload: Record<string, unknown>, fn: () => Promise<T>,
+): Promise<T> {
+  const ref = recordRef(scope, uid, key);
+  const fingerprint = requestFingerprint(payload);
+
+  const replay = await clients().db.runTransaction(async (tx: FirestoreTransaction) => {
+    const snap = await tx.get(ref);
+    const now = admin.firestore.Timestamp.now();
+    const record = snap.exists ? snap.data() as IdempotencyRecord : undefined;
+    if (record && record.expiresAt.toMillis() > now.toMillis()) {
+      if (record.fingerprint !== fingerprint) {
+        throw new functions.https.HttpsError('invalid-argument', 'Idempotency key was already used with a different request');
+      }
+      if (record.state === 'completed') return { response: record.response ?? 'null' };
+      if (record.leaseExpiresAt.toMillis() > now.toMillis()) {
+        throw new functions.https.HttpsError('aborted', 'A request with this idempotency key is still in progress');
+      }
+    }
+    const fresh: IdempotencyRecord = {
+      scope,
+      uid,
+      fingerprint,
+      state: 'in_progress',
+      createdAt: now,
+      leaseExpiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + IN_PROGRESS_LEASE_MS),
+      expiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + IDEMPOTENCY_TTL_MS),
+    };
+    tx.set(ref, fresh);
+    return null;
+  });
+  if (replay) return JSON.parse(replay.response) as T;
+
+  let result: T;
+  try {
+    result = await fn();
+  } catch (err) {
+    await ref.delete().catch((e: any) => functions.logger.warn('Failed to release idempotency key', { scope, reason: String(e?.message || e) }));
+    throw err;
+  }
+  await ref.update({ state: 'completed', response: JSON.stringify(result ?? null) });
+  return result;
+}
+
+/**
+ * Wraps a callable handler so a request with `data.idempotencyKey` goes through
+ * the idempotency store. Requests without a key (or without a signed-in user)
+ * run as before.
+ */
+export function idempotent<T>(scope: string, handler: CallableHandler<T>): CallableHandler<T> {
+  return async (data, context) => {
+    const key = data?.idempotencyKey;
+    const uid = context.auth?.uid;
+    if (key === undefined || key === null || key === '' || !uid) return handler(data, context);
+    if (typeof key !== 'string' || key.length > MAX_KEY_LENGTH) {
+      throw new functions.https.HttpsError('invalid-argument', `idempotencyKey must be a string of at most ${MAX_KEY_LENGTH} characters`);
+    }
+    return withIdempotency(scope, uid, key, data, () => handler(data, context));
+  };
+}
+
+async function deleteBatch(query: FirestoreQuery): Promise<number> {
+  const snap = await query.get();
+  if (snap.empty) return 0;
+  const batch = clients().db.batch();
+  snap.docs.forEach((doc) => batch.delete(doc.ref));
+  await batch.commit();
+  return snap.size;
+}
+
+/** Deletes expired records (and the legacy key-only collection) in batches of `batchSize`. */
+export async function sweepExpiredIdempotencyRecords(batchSize = 500, maxBatches = 20): Promise<number> {
+  const { db } = clients();
+  const now = admin.firestore.Timestamp.now();
+  let deleted = 0;
+  for (let i = 0; i < maxBatches; i++) {
+    const n = await deleteBatch(db.collection(COLLECTION).where('expiresAt', '<=', now).limit(batchSize));
+    deleted += n;
+    if (n < batchSize) break;
+  }
+  for (let i = 0; i < maxBatches; i++) {
+    const n = await deleteBatch(db.collection(LEGACY_COLLECTION).limit(batchSize));
+    deleted += n;
+    if (n < batchSize) break;
+  }
+  return deleted;
+}
@@ -2,72 +2,53 @@
 // Node 18+, ESM modules
 
 import * as functions from 'firebase-functions';
-import * as admin from 'firebase-admin';
 import type { Request, Response } from 'express';
-import Razorpay from 'razorpay';
-import Stripe from 'stripe';
-import { createClient } from '@supabase/supabase-js';
-// import Stripe from 'stripe';
-// const stripe = new Stripe(process.env.STRIPE_SECRET!, { apiVersion: '2024-06-20' });
+import type Stripe from 'stripe';
+import { createHash } from 'crypto';
+import {
+  AGORA_NCS_SECRET, NO_SHOW_POLICY, PAYOUT_MIN_AMOUNT, PLATFORM_FEE_PERCENT, PLATFORM_FEE_SCHEDULE, RAZORPAYX_WEBHOOK_SECRET, RAZORPAY_WEBHOOK_SECRET, SESSION_ACCEPT_HOURS,
+  SESSION_BUFFER_MINUTES, STRIPE_PAYOUT_WEBHOOK_SECRET, STRIPE_WEBHOOK_SECRET, USAGE_BILLING_POLICY, clients, logAlert,
+} from './clients.js';
+import { isAdmin, requireAdmin } from './auth.js';
+import { bookSlot, parseBookingRequest, releaseUnfundedBooking } from './booking.js';
+import { releaseDueMentorEarnings } from './earningsRelease.js';
+import { idempotent, sweepExpiredIdempotencyRecords } from './idempotency.js';
+import { MoneyError, money, type Money } from './money.js';
+import { choosePayoutRail, executePayout, type PayoutProfile, type PayoutRequestRow } from './payouts.js';
+import { loadSessionPricing, parseFeeSchedule, quoteSession, type SessionPricing } from './pricing.js';
+import { runReconciliation } from './reconciliation.js';
+import { SETTLEMENT_LAG_DAYS, runSettlementReconciliation, type SettlementGateway } from './settlement.js';
+import { expireStaleSessions } from './sessionExpiry.js';
+import { SESSION_ACTIONS, applySessionTransition, parseNoShowPolicy } from './sessionLifecycle.js';
+import { verifyHmacSha256Hex } from './signatures.js';
+import { parseAgoraNotice, parseUsagePolicy, type PresenceEvent } from './usage.js';
+import { drainWebhookInbox, enqueueWebhookEvent, type WebhookProvider } from './webhookInbox.js';
 
-admin.initializeApp();
-const db = admin.firestore();
-
-// Env: support both process.env and Firebase functions:config()
-function cfg(path: string): string | undefined {
-  try {
-    const c: any = functions.config?.() || {};
-    // path like 'stripe.secret'
-    const parts = path.split('.');
-    let cur: any = c;
-    for (const p of parts) { if (!cur) return undefined; cur = cur[p]; }
-    return typeof cur === 'string' ? cur : undefined;
-  } catch { return undefined; }
-}
-const STRIPE_SECRET = process.env.STRIPE_SECRET || cfg('stripe.secret') || '';
-const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET || cfg('stripe.webhook_secret') || '';
-const RAZORPAY_KEY_ID = process.env.RAZORPAY_KEY_ID || cfg('razorpay.key_id') || '';
-const RAZORPAY_KEY_SECRET = process.env.RAZORPAY_KEY_SECRET || cfg('razorpay.key_secret') || '';
-const RAZORPAY_WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || cfg('razorpay.webhook_secret') || '';
-const SUPABASE_URL = process.env.SUPABASE_URL || cfg('supabase.url') || '';
-const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY || cfg('supabase.service_role_key') || '';
-
-// Clients
-const stripe = STRIPE_SECRET ? new Stripe(STRIPE_SECRET, { apiVersion: '2024-06-20' }) : undefined;
-const razorpay = (RAZORPAY_KEY_ID && RAZORPAY_KEY_SECRET) ? new Razorpay({ key_id: RAZORPAY_KEY_ID, key_secret: RAZORPAY_KEY_SECRET }) : undefined;
-const supabase = (SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY) ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } }) : undefined;
-
-// Util: idempotency guard
-async function ensureIdempotency(key: string) {
-  if (!key) return;
-  const ref = db.collection('idempotencyKeys').doc(key);
-  await db.runTransaction(async (tx: FirebaseFirestore.Transaction) => {
-    const snap = await tx.get(ref);
-    if (snap.exists) {
-      throw new functions.https.HttpsError('already-exists', 'Duplicate request');
-    }
-    tx.set(ref, { createdAt: admin.firestore.FieldValue.serverTimestamp() });
-  });
-}
-
-export const createTopupIntent = functions.https.onCall(async (data: any, context: functions.https.CallableContext) => {
+export const createTopupIntent = functions.https.onCall(idempotent('topup', async (data: any, context: functions.https.CallableContext) => {
   const { amount, currency, idempotencyKey, gateway } = data ?? {};
   const uid = context.auth?.uid; if (!uid) throw new functions.https.HttpsError('unauthenticated', 'Login required');
-  if (!amount || amount <= 0) throw new functions.https.HttpsError('invalid-argument', 'Invalid amount');
-  await ensureIdempotency(`topup:${uid}:${idempotencyKey}`);
+  const topup = requireMinorAmount(amount, currency || 'INR');
+  const { stripe, razorpay, supabase } = clients();
+  if (supabase) {
+    // Wallets hold a single currency; process_wallet_topup credits the minor units as-is
+    const { data: wallet } = await supabase.from('enhanced_wallets').select('currency').eq('user_uid', uid).maybeSingle();
+    if (wallet?.currency && wallet.currency.toUpperCase() !== topup.currency) {
+      throw new functions.https.HttpsError('failed-precondition', `Wallet currency is ${wallet.currency}`);
+    }
+  }
   if (gateway === 'stripe') {
     if (!stripe) throw new functions.https.HttpsError('failed-precondition', 'Stripe not configured');
     const intent = await stripe.paymentIntents.create({
-      amount,
-      currency: currency || 'inr',
+      amount: topup.amountMinor,
+      currency: topup.currency.toLowerCase(),
       metadata: { uid, idem: idempotencyKey || '' }
     }, { idempotencyKey });
     return { gateway: 'stripe', clientSecret: intent.client_secret };
   } else if (gateway === 'razorpay') {
     if (!razorpay) throw new functions.https.HttpsError('failed-precondition', 'Razorpay not configured');
     const order: any = await razorpay.orders.create({
-      amount,
-      currency: (currency || 'INR').toUpperCase(),
+      amount: topup.amountMinor,
+      currency: topup.currency,
       receipt: `topup_${uid}_${Date.now()}`,
       notes: { uid, idem: idempotencyKey || '' },
     });
@@ -75,9 +56,10 @@ export const createTopupIntent = functions.https.onCall(async (data: any, contex
   } else {
     throw new functions.https.HttpsError('invalid-argument', 'Unsupported gateway');
   }
-});
+}));
 
 export const handleStripeWebhook = functions.https.onRequest(async (req: Request, res: Response): Promise<void> => {
+  const { stripe, supabase } = clients();
   if (!stripe) { res.status(500).send('Stripe not configured'); return; }
   const sig = req.headers['stripe-signature'] as string | undefined;
   let event: Stripe.Event;
@@ -98,214 +80,426 @@ export const handleStripeWebhook = functions.https.onRequest(async (req: Request
   }
 
   if (!supabase) { res.status(500).send('Supabase not configured'); return; }
+  await acceptWebhookEvent(res, 'stripe', event.id, event.type, event);
+});
 
-  if (event.type === 'payment_intent.succeeded') {
-    const pi = event.data.object as Stripe.PaymentIntent;
-    const uid = (pi.metadata && pi.metadata.uid) || undefined;
-    const idem = (pi.metadata && pi.metadata.idem) || undefined;
-  if (!uid) { res.status(200).send('Missing uid'); return; }
-    // Credit wallet via RPC; rely on DB idempotency
-    await supabase.rpc('process_wallet_topup', {
-      user_id: uid,
-      amount_minor: pi.amount_received,
-      transaction_data: { gatewayId: pi.id, idempotencyKey: idem }
-    });
+// A signed body that is not a Razorpay event is the sender's fault (400), not ours
+function parseRazorpayEvent(body: Buffer): { event: string } | null {
+  try {
+    const event = JSON.parse(body.toString());
+    return typeof event?.event === 'string' ? event : null;
+  } catch {
+    return null;
   }
-
-  // TODO: handle charge.refunded → call process_session_refund accordingly if mapping exists
-
-  res.sendStatus(200);
-});
+}
 
 export const handleRazorpayWebhook = functions.https.onRequest(async (req: Request, res: Response): Promise<void> => {
+  const { razorpay, supabase } = clients();
   if (!razorpay) { res.status(500).send('Razorpay not configured'); return; }
   // Verify signature
   const signature = req.headers['x-razorpay-signature'] as string | undefined;
   const body = await getRawBody(req);
-  const crypto = await import('crypto');
-  const expected = crypto.createHmac('sha256', RAZORPAY_WEBHOOK_SECRET).update(body).digest('hex');
-  if (expected !== signature) {
-    try {
-      await supabase?.rpc('admin_log_alert', {
-        p_type: 'webhook_verification_failed',
-        p_severity: 'error',
-        p_message: 'Razorpay signature verification failed',
-        p_details: { provider: 'razorpay' }
-      } as any);
-    } catch {}
+  if (!verifyHmacSha256Hex(body, signature, RAZORPAY_WEBHOOK_SECRET)) {
+    await logAlert('webhook_verification_failed', 'error', 'Razorpay signature verification failed', { provider: 'razorpay' });
     res.status(400).send('Invalid signature');
     return;
   }
 
-  const event = JSON.parse(body.toString());
+  const event = parseRazorpayEvent(body);
+  if (!event) { res.status(400).send('Invalid payload'); return; }
+  if (!supabase) { res.status(500).send('Supabase not configured'); return; }
+
+  // Razorpay sends a unique id per event; duplicate deliveries reuse it
+  const eventId = (req.headers['x-razorpay-event-id'] as string | undefined)
+    || createHash('sha256').update(body).digest('hex');
+  await acceptWebhookEvent(res, 'razorpay', eventId, event.event, event);
+});
+
+// Agora channel event notifications: join/leave per uid, the verified usage completed sessions are billed by
+export const handleAgoraWebhook = functions.https.onRequest(async (req: Request, res: Response): Promise<void> => {
+  const signature = req.headers['agora-signature-v2'] as string | undefined;
+  const body = await getRawBody(req);
+  if (!verifyHmacSha256Hex(body, signature, AGORA_NCS_SECRET)) {
+    await logAlert('webhook_verification_failed', 'error', 'Agora notification signature verification failed', { provider: 'agora' });
+    res.status(400).send('Invalid signature');
+    return;
+  }
+  const { supabase } = clients();
   if (!supabase) { res.status(500).send('Supabase not configured'); return; }
-  if (event.event === 'payment.captured') {
-    const payment = event.payload.payment.entity;
-    const uid = payment.notes?.uid as string | undefined;
-    const orderId = payment.order_id as string | undefined;
-    const idem = payment.notes?.idem as string | undefined;
-    if (uid) {
-      await supabase.rpc('process_wallet_topup', {
-        user_id: uid,
-        amount_minor: payment.amount,
-        transaction_data: { gatewayId: orderId || payment.id, idempotencyKey: idem }
-      });
+  let event: PresenceEvent | null;
+  try {
+    event = parseAgoraNotice(JSON.parse(body.toString()));
+  } catch (err: any) {
+    res.status(400).send(String(err?.message || err));
+    return;
+  }
+  // Other channel events are acknowledged and dropped
+  if (event) {
+    const { error } = await supabase.from('call_presence_events').insert(event);
+    // Agora redelivers until it gets a 200; a stored notice id is a duplicate
+    if (error && error.code !== '23505') {
+      await logAlert('webhook_enqueue_failed', 'error', 'Failed to store Agora notification', { provider: 'agora', eventId: event.notice_id, reason: error.message });
+      res.status(500).send('Failed to store event');
+      return;
     }
   }
-  // TODO: handle refund events
   res.sendStatus(200);
 });
 
-export const reserveFundsOnBooking = functions.https.onCall(async (data: any, context: functions.https.CallableContext) => {
-  const { sessionId, idempotencyKey } = data ?? {}; const uid = context.auth?.uid;
-  if (!uid) throw new functions.https.HttpsError('unauthenticated', 'Login required');
-  if (!sessionId) throw new functions.https.HttpsError('invalid-argument', 'sessionId required');
-  await ensureIdempotency(`reserve:${uid}:${sessionId}:${idempotencyKey}`);
+// Webhook inbox worker – retries failed events with backoff
+export const processWebhookInboxScheduled = functions.pubsub.schedule('every 1 minutes').onRun(async () => {
+  if (!clients().supabase) return null;
+  try {
+    await drainWebhookInbox({ limit: 50 });
+  } catch (e: any) {
+    await logAlert('webhook_inbox_failed', 'error', 'Webhook inbox worker failed', { reason: String(e?.message || e) });
+  }
+  return null;
+});
+
+export const listDeadWebhookEvents = functions.https.onCall(async (data: any, context: functions.https.CallableContext) => {
+  await requireAdmin(context);
+  const { supabase } = clients();
   if (!supabase) throw new functions.https.HttpsError('failed-precondition', 'Supabase not configured');
-  // Expect caller to include amount and currency or derive from session
-  const { amountMinor, currency } = data ?? {};
-  const { error } = await supabase.rpc('process_funds_reserve', {
-    user_id: uid,
-    amount_minor: amountMinor,
-    session_id: sessionId,
-    transaction_data: { idempotencyKey }
-  });
+  const { provider, before, includeReplayed } = data ?? {};
+  const limit = Math.min(Math.max(Number(data?.limit) || 50, 1), 200);
+  let query = supabase.from('webhook_dead_letters')
+    .select('provider, event_id, event_type, attempts, last_error, received_at, dead_at, replayed_at, replayed_by, payload')
+    .order('dead_at', { ascending: false })
+    .limit(limit);
+  if (provider) query = query.eq('provider', provider);
+  if (before) query = query.lt('dead_at', before);
+  if (!includeReplayed) query = query.is('replayed_at', null);
+  const { data: rows, error } = await query;
   if (error) throw new functions.https.HttpsError('internal', error.message);
-  return { ok: true };
+  return { events: rows ?? [] };
 });
 
-export const settleOnSessionComplete = functions.https.onCall(async (data: any, context: functions.https.CallableContext) => {
-  const { sessionId, finalAmount, mode, idempotencyKey } = data ?? {};
-  if (!sessionId || !finalAmount) throw new functions.https.HttpsError('invalid-argument', 'Missing params');
-  await ensureIdempotency(`settle:${sessionId}:${idempotencyKey}`);
+export const replayDeadWebhookEvent = functions.https.onCall(idempotent('replay_dead_webhook_event', async (data: any, context: functions.https.CallableContext) => {
+  const adminId = await requireAdmin(context);
+  const { provider, eventId } = data ?? {};
+  if ((provider !== 'stripe' && provider !== 'razorpay') || !eventId) {
+    throw new functions.https.HttpsError('invalid-argument', 'provider and eventId required');
+  }
+  const { supabase } = clients();
   if (!supabase) throw new functions.https.HttpsError('failed-precondition', 'Supabase not configured');
-  const { studentId, mentorId, feePercent } = data ?? {};
-  const platformFee = Math.round(finalAmount * (feePercent ?? 0.15));
-  const mentorAmount = finalAmount - platformFee;
-  const { error } = await supabase.rpc('process_session_completion', {
-    session_id: sessionId,
-    student_id: studentId,
-    mentor_id: mentorId,
-    total_amount: finalAmount,
-    mentor_amount: mentorAmount,
-    platform_fee: platformFee,
-    transactions_data: null
+  const { data: replayed, error } = await supabase.rpc('replay_dead_webhook_event', {
+    p_provider: provider,
+    p_event_id: eventId,
+    p_admin_id: adminId,
   });
   if (error) throw new functions.https.HttpsError('internal', error.message);
-  return { ok: true };
-});
+  if (!replayed) throw new functions.https.HttpsError('failed-precondition', 'Event is not dead-lettered');
+
+  // Try once now so the admin sees the outcome; a failure goes back to the retry schedule
+  const result = await drainWebhookInbox({ provider, eventId, limit: 1 });
+  return { status: result.processed ? 'processed' : result.dead ? 'dead' : 'retrying' };
+}));
+
+const feeSchedule = parseFeeSchedule(PLATFORM_FEE_SCHEDULE, PLATFORM_FEE_PERCENT);
+const noShowPolicy = parseNoShowPolicy(NO_SHOW_POLICY);
+const usagePolicy = parseUsagePolicy(USAGE_BILLING_POLICY);
+
+async function requireSessionPricing(sessionId: string): Promise<SessionPricing & { hourlyRate: Money }> {
+  let pricing: SessionPricing | null;
+  try {
+    pricing = await loadSessionPricing(sessionId);
+  } catch (err: any) {
+    throw new functions.https.HttpsError('internal', String(err?.message || err));
+  }
+  if (!pricing) throw new functions.https.HttpsError('not-found', 'Session not found');
+  const { hourlyRate } = pricing;
+  if (!hourlyRate) throw new functions.https.HttpsError('failed-precondition', pricing.rateError ?? 'Session cannot be priced');
+  return { ...pricing, hourlyRate };
+}
+
+// Prices the booked duration at the mentor's current rate and reserves it from
+// the student's wallet; `reserved` is false on insufficient balance
+async function reserveSessionFunds(sessionId: string, uid: string): Promise<{ reserved: boolean; amountMinor: number; currency: string }> {
+  const { supabase } = clients();
+  if (!supabase) throw new functions.https.HttpsError('failed-precondition', 'Supabase not configured');
+  const pricing = await requireSessionPricing(sessionId);
+  if (pricing.studentId !== uid) throw new functions.https.HttpsError('permission-denied', 'Only the booking student can reserve funds');
+  if (['cancelled', 'declined', 'completed'].includes(pricing.status)) {
+    throw new functions.https.HttpsError('failed-precondition', `Session is ${pricing.status}`);
+  }
+
+  const quote = quoteSession(pricing.hourlyRate, pricing.bookedMinutes, feeSchedule);
+  const { data: reserved, error } = await supabase.rpc('reserve_session_funds', {
+    p_session_id: sessionId,
+    p_student_id: uid,
+    p_mentor_id: pricing.mentorId,
+    p_amount_total: quote.total.amountMinor,
+    p_amount_mentor: quote.mentor.amountMinor,
+    p_amount_platform: quote.platform.amountMinor,
+    p_currency: quote.total.currency,
+  });
+  if (error) throw new functions.https.HttpsError('internal', error.message);
+  return { reserved: Boolean(reserved), amountMinor: quote.total.amountMinor, currency: quote.total.currency };
+}
 
-export const requestPayout = functions.https.onCall(async (data: any, context: functions.https.CallableContext) => {
-  const { amount, currency, idempotencyKey } = data ?? {}; const mentorId = context.auth?.uid;
+export const reserveFundsOnBooking = functions.https.onCall(idempotent('reserve', async (data: any, context: functions.https.CallableContext) => {
+  const { sessionId } = data ?? {}; const uid = context.auth?.uid;
+  if (!uid) throw new functions.https.HttpsError('unauthenticated', 'Login required');
+  if (!sessionId) throw new functions.https.HttpsError('invalid-argument', 'sessionId required');
+  const reservation = await reserveSessionFunds(sessionId, uid);
+  if (!reservation.reserved) throw new functions.https.HttpsError('failed-precondition', 'Insufficient wallet balance');
+  return { ok: true, amountMinor: reservation.amountMinor, currency: reservation.currency };
+}));
+
+// Books a free slot and reserves its price from the student's wallet. The
+// booking is undone when the funds cannot be reserved, so an unpaid session
+// never holds the mentor's time.
+export const bookSession = functions.https.onCall(idempotent('book', async (data: any, context: functions.https.CallableContext) => {
+  const uid = context.auth?.uid;
+  if (!uid) throw new functions.https.HttpsError('unauthenticated', 'Login required');
+  const request = parseBookingRequest(data);
+  if (request.mentorId === uid) throw new functions.https.HttpsError('invalid-argument', 'Cannot book a session with yourself');
+
+  const sessionId = await bookSlot(uid, request, SESSION_BUFFER_MINUTES);
+  let reservation: { reserved: boolean; amountMinor: number; currency: string };
+  try {
+    reservation = await reserveSessionFunds(sessionId, uid);
+  } catch (err) {
+    await releaseUnfundedBooking(sessionId);
+    throw err;
+  }
+  if (!reservation.reserved) {
+    await releaseUnfundedBooking(sessionId);
+    throw new functions.https.HttpsError('failed-precondition', 'Insufficient wallet balance');
+  }
+  return { ok: true, sessionId, amountMinor: reservation.amountMinor, currency: reservation.currency };
+}));
+
+// Moves a session through its lifecycle (sessionLifecycle.ts): the only way
+// its status changes. The money movement that goes with the action happens in
+// the same step.
+export const transitionSession = functions.https.onCall(idempotent('session_transition', async (data: any, context: functions.https.CallableContext) => {
+  const uid = context.auth?.uid;
+  if (!uid) throw new functions.https.HttpsError('unauthenticated', 'Login required');
+  const { sessionId, action, reason } = data ?? {};
+  if (typeof sessionId !== 'string' || !sessionId) throw new functions.https.HttpsError('invalid-argument', 'sessionId required');
+  if (!SESSION_ACTIONS.includes(action)) {
+    throw new functions.https.HttpsError('invalid-argument', `action must be one of ${SESSION_ACTIONS.join(', ')}`);
+  }
+  if (reason !== undefined && reason !== null && (typeof reason !== 'string' || reason.length > 500)) {
+    throw new functions.https.HttpsError('invalid-argument', 'reason must be a string of at most 500 characters');
+  }
+  const result = await applySessionTransition(sessionId, action, { uid, admin: await isAdmin(context) }, feeSchedule, { reason: reason ?? undefined, noShow: noShowPolicy, usage: usagePolicy });
+  return { ok: true, ...result };
+}));
+
+// Older app builds: the `complete` transition, answered in the old shape
+export const settleOnSessionComplete = functions.https.onCall(idempotent('settle', async (data: any, context: functions.https.CallableContext) => {
+  const { sessionId } = data ?? {}; const uid = context.auth?.uid;
+  if (!uid) throw new functions.https.HttpsError('unauthenticated', 'Login required');
+  if (!sessionId) throw new functions.https.HttpsError('invalid-argument', 'sessionId required');
+  const result = await applySessionTransition(sessionId, 'complete', { uid }, feeSchedule, { usage: usagePolicy });
+  return { ok: true, ...result.charge };
+}));
+
+export const requestPayout = functions.https.onCall(idempotent('payout', async (data: any, context: functions.https.CallableContext) => {
+  const { amount, idempotencyKey } = data ?? {}; const mentorId = context.auth?.uid;
   if (!mentorId) throw new functions.https.HttpsError('unauthenticated', 'Login required');
-  if (!amount || amount <= 0) throw new functions.https.HttpsError('invalid-argument', 'Invalid amount');
-  await ensureIdempotency(`payout:${mentorId}:${idempotencyKey}`);
+  const { supabase } = clients();
   if (!supabase) throw new functions.https.HttpsError('failed-precondition', 'Supabase not configured');
-  // TODO: verify KYC and balance threshold via Supabase profile/earnings
-  let gateway: 'stripe' | 'razorpay' = 'stripe'; // choose based on region/profile
-  if (gateway === 'stripe') {
-    if (!stripe) throw new functions.https.HttpsError('failed-precondition', 'Stripe not configured');
-    // Here you’d create a Stripe Transfer/Payout depending on your Connect setup
-  } else {
-    if (!razorpay) throw new functions.https.HttpsError('failed-precondition', 'Razorpay not configured');
-    // Here you’d create a Razorpay payout to the mentor’s fund account
-  }
-  // Deduct mentor_available via ledger payout entry is best done upon webhook confirmation; you can also soft-lock now.
-  const { data: row, error } = await supabase.from('payout_requests').insert({
-    mentor_uid: mentorId,
-    amount,
-    currency: currency ?? 'INR',
-    status: 'created',
-    gateway: gateway
-  }).select('*').single();
+  const { data: earnings, error: earningsError } = await supabase.from('mentor_earnings')
+    .select('currency').eq('mentor_uid', mentorId).maybeSingle();
+  if (earningsError) throw new functions.https.HttpsError('internal', earningsError.message);
+  const payout = requireMinorAmount(amount, earnings?.currency ?? 'INR');
+  if (payout.amountMinor < PAYOUT_MIN_AMOUNT) throw new functions.https.HttpsError('failed-precondition', `Minimum payout is ${PAYOUT_MIN_AMOUNT}`);
+
+  const { data: profile, error: profileError } = await supabase.from('user_payment_profiles')
+    .select('uid, kyc_status, region, stripe_account_id, stripe_onboarding_complete, razorpay_fund_account_id, bank_account_number, bank_ifsc_code, bank_account_holder_name')
+    .eq('uid', mentorId).maybeSingle();
+  if (profileError) throw new functions.https.HttpsError('internal', profileError.message);
+  if (!profile || profile.kyc_status !== 'verified') throw new functions.https.HttpsError('failed-precondition', 'KYC verification required');
+  const rail = choosePayoutRail(profile as PayoutProfile);
+  if ('error' in rail) throw new functions.https.HttpsError('failed-precondition', rail.error);
+
+  // Checks the available balance and soft-locks the amount atomically; a repeated key returns the same request
+  const { data: row, error } = await supabase.rpc('create_payout_request', {
+    p_mentor_id: mentorId,
+    p_amount: payout.amountMinor,
+    p_gateway: rail.gateway,
+    p_idempotency_key: idempotencyKey || null,
+    p_bank_snapshot: {
+      bank_account_number: profile.bank_account_number,
+      bank_ifsc_code: profile.bank_ifsc_code,
+      bank_account_holder_name: profile.bank_account_holder_name,
+    },
+  });
   if (error) {
-    try {
-      await supabase.rpc('admin_log_alert', {
-        p_type: 'payout_request_failed',
-        p_severity: 'error',
-        p_message: 'Failed to create payout request row',
-        p_details: { mentorId, amount, currency, reason: error.message }
-      } as any);
-    } catch {}
+    await logAlert('payout_request_failed', 'error', 'Failed to create payout request row', { mentorId, amount, reason: error.message });
     throw new functions.https.HttpsError('internal', error.message);
   }
-  return { status: 'pending', id: row.id };
-});
+  const request = row as PayoutRequestRow | null;
+  if (!request?.id) throw new functions.https.HttpsError('failed-precondition', 'Insufficient available earnings');
+  if (request.status !== 'created') return { status: request.status, id: request.id };
+
+  let status: PayoutRequestRow['status'];
+  try {
+    status = await executePayout(request, rail);
+  } catch {
+    throw new functions.https.HttpsError('unavailable', 'Payout submitted but not confirmed; it will be reviewed');
+  }
+  if (status === 'failed') throw new functions.https.HttpsError('aborted', 'Payout was rejected by the gateway');
+  return { status, id: request.id };
+}));
 
-export const handlePayoutWebhook = functions.https.onRequest(async (req: Request, res: Response): Promise<void> => {
-  // Implement signature verification per gateway route you expose
+// Stripe Connect events (transfer.created / transfer.reversed) on their own endpoint and signing secret
+export const handleStripePayoutWebhook = functions.https.onRequest(async (req: Request, res: Response): Promise<void> => {
+  const { stripe, supabase } = clients();
+  if (!stripe) { res.status(500).send('Stripe not configured'); return; }
+  const sig = req.headers['stripe-signature'] as string | undefined;
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(await getRawBody(req), sig || '', STRIPE_PAYOUT_WEBHOOK_SECRET);
+  } catch (err: any) {
+    await logAlert('webhook_verification_failed', 'error', 'Stripe payout webhook signature verification failed', { reason: String(err?.message || err), provider: 'stripe' });
+    res.status(400).send(`Webhook Error: ${err.message}`);
+    return;
+  }
   if (!supabase) { res.status(500).send('Supabase not configured'); return; }
-  // Example skeleton (you may separate by path /stripe-payouts, /razorpay-payouts):
-  const body = req.body;
-  const status = body.status as string | undefined;
-  const payoutId = body.payoutId as string | undefined;
-  const requestId = body.requestId as string | undefined; // our payout_requests.id
-  if (!requestId) { res.sendStatus(200); return; }
-  if (status === 'paid') {
-    await supabase.from('payout_requests').update({ status: 'paid', payout_id: payoutId, completed_at: new Date().toISOString() }).eq('id', requestId);
-    // Append ledger payout mentor_available -> external_gateway via a dedicated RPC if desired
-  } else if (status === 'failed') {
-    await supabase.from('payout_requests').update({ status: 'failed', payout_id: payoutId, failure_reason: body.failure_reason }).eq('id', requestId);
-    // Reverse any soft-lock to mentor_available if applied earlier
-    try {
-      await supabase.rpc('admin_log_alert', {
-        p_type: 'payout_failed',
-        p_severity: 'error',
-        p_message: 'Gateway reported payout failure',
-        p_details: { requestId, payoutId, failure_reason: body.failure_reason }
-      } as any);
-    } catch {}
+  await acceptWebhookEvent(res, 'stripe', event.id, event.type, event);
+});
+
+// RazorpayX payout events (payout.processed / reversed / failed / rejected)
+export const handleRazorpayPayoutWebhook = functions.https.onRequest(async (req: Request, res: Response): Promise<void> => {
+  const signature = req.headers['x-razorpay-signature'] as string | undefined;
+  const body = await getRawBody(req);
+  if (!verifyHmacSha256Hex(body, signature, RAZORPAYX_WEBHOOK_SECRET)) {
+    await logAlert('webhook_verification_failed', 'error', 'RazorpayX payout webhook signature verification failed', { provider: 'razorpay' });
+    res.status(400).send('Invalid signature');
+    return;
   }
-  res.sendStatus(200);
+  const event = parseRazorpayEvent(body);
+  if (!event) { res.status(400).send('Invalid payload'); return; }
+  if (!clients().supabase) { res.status(500).send('Supabase not configured'); return; }
+  const eventId = (req.headers['x-razorpay-event-id'] as string | undefined)
+    || createHash('sha256').update(body).digest('hex');
+  await acceptWebhookEvent(res, 'razorpay', eventId, event.event, event);
 });
 
 // Scheduled release (T+24h) – runs hourly
 export const releaseMentorEarningsScheduled = functions.pubsub.schedule('every 60 minutes').onRun(async () => {
-  if (!supabase) return null;
-  // Here you’d query sessions captured >24h and not yet released; for demo we assume you have a list or view
-  // Example: select sessions needing release and call RPC per row
-  // const { data: rows } = await supabase.from('sessions_to_release_view').select('*');
-  // for (const r of rows ?? []) { await supabase.rpc('process_mentor_earnings_release', { mentor_id: r.mentor_id, amount_minor: r.amount_mentor, session_id: r.session_id }); }
+  if (!clients().supabase) return null;
+  // Failures are alerted inside; the unfinished run resumes on the next tick
+  await releaseDueMentorEarnings().catch(() => undefined);
   return null;
 });
 
-// Periodic reconciliation job – checks invariants and logs alerts
+// Expires unanswered requests and settles sessions that ended without a call
+export const expireStaleSessionsScheduled = functions.pubsub.schedule('every 15 minutes').onRun(async () => {
+  if (!clients().supabase) return null;
+  try {
+    await expireStaleSessions({ acceptHours: SESSION_ACCEPT_HOURS, noShow: noShowPolicy, feeSchedule });
+  } catch (e: any) {
+    await logAlert('session_expiry_failed', 'error', 'Stale session sweep failed', { reason: String(e?.message || e) });
+  }
+  return null;
+});
+
+// Periodic reconciliation job – checks ledger invariants and logs alerts
 export const reconciliationCheckScheduled = functions.pubsub.schedule('every 30 minutes').onRun(async () => {
-  if (!supabase) return null;
+  if (!clients().supabase) return null;
   try {
-    const res: any = await supabase.rpc('admin_get_reconciliation_stats');
-    const stats = (res?.data ?? res) as Record<string, any>;
-    // Basic invariants: ensure no negative totals
-    const negatives = [
-      stats?.wallet_total_available,
-      stats?.wallet_total_locked,
-      stats?.earnings_total_available,
-      stats?.earnings_total_locked,
-      stats?.platform_revenue_net,
-    ].some((v: any) => typeof v === 'number' && v < 0);
-    if (negatives) {
-      await supabase.rpc('admin_log_alert', {
-        p_type: 'reconciliation_mismatch',
-        p_severity: 'warning',
-        p_message: 'Negative balance detected in reconciliation stats',
-        p_details: stats,
-      } as any);
-    }
-    // Optional: additional cross-sum checks can go here (platform net = fees – platform refunds)
+    await runReconciliation();
   } catch (e: any) {
-    try {
-      await supabase.rpc('admin_log_alert', {
-        p_type: 'reconciliation_check_failed',
-        p_severity: 'error',
-        p_message: 'Failed to run reconciliation stats',
-        p_details: { reason: String(e?.message || e) },
-      } as any);
-    } catch {}
+    await logAlert('reconciliation_check_failed', 'error', 'Failed to run reconciliation checks', { reason: String(e?.message || e) });
+  }
+  return null;
+});
+
+// Removes idempotency records past their TTL
+export const sweepIdempotencyRecordsScheduled = functions.pubsub.schedule('every 60 minutes').onRun(async () => {
+  try {
+    await sweepExpiredIdempotencyRecords();
+  } catch (e: any) {
+    functions.logger.warn('Idempotency sweep failed', { reason: String(e?.message || e) });
+  }
+  return null;
+});
+
+// Daily gateway settlement reconciliation for the UTC day that ended SETTLEMENT_LAG_DAYS ago,
+// once both gateways have settled it
+export const settlementReconciliationScheduled = functions.pubsub.schedule('every day 04:00').timeZone('UTC').onRun(async () => {
+  const { stripe, razorpay, supabase } = clients();
+  if (!supabase || (!stripe && !razorpay)) return null;
+  const today = new Date();
+  const to = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - SETTLEMENT_LAG_DAYS));
+  const from = new Date(to.getTime() - 24 * 60 * 60 * 1000);
+  try {
+    await runSettlementReconciliation({ stripe, razorpay, supabase, alert: logAlert }, { from, to });
+  } catch (e: any) {
+    await logAlert('settlement_reconciliation_failed', 'error', 'Failed to reconcile gateway settlements', {
+      from: from.toISOString(), to: to.toISOString(), reason: String(e?.message || e),
+    });
   }
   return null;
 });
 
+export const reconcileGatewaySettlement = functions.https.onCall(idempotent('settlement_reconciliation', async (data: any, context: functions.https.CallableContext) => {
+  await requireAdmin(context);
+  const { stripe, razorpay, supabase } = clients();
+  if (!supabase) throw new functions.https.HttpsError('failed-precondition', 'Supabase not configured');
+  const from = new Date(data?.from);
+  const to = new Date(data?.to);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from >= to) {
+    throw new functions.https.HttpsError('invalid-argument', 'from and to must be dates with from < to');
+  }
+  if (to.getTime() - from.getTime() > 31 * 24 * 60 * 60 * 1000) {
+    throw new functions.https.HttpsError('invalid-argument', 'Range is limited to 31 days');
+  }
+  const gateway = data?.gateway as SettlementGateway | undefined;
+  if (gateway && gateway !== 'stripe' && gateway !== 'razorpay') {
+    throw new functions.https.HttpsError('invalid-argument', 'Unsupported gateway');
+  }
+  try {
+    return await runSettlementReconciliation({ stripe, razorpay, supabase, alert: logAlert }, {
+      from, to, gateways: gateway ? [gateway] : undefined,
+    });
+  } catch (err: any) {
+    throw new functions.https.HttpsError('internal', String(err?.message || err));
+  }
+}));
+
 // Helpers
+
+// Validates a client-supplied amount in minor units of `currency`
+function requireMinorAmount(amount: unknown, currency: unknown): Money {
+  try {
+    const m = money(amount as number, currency as string);
+    if (m.amountMinor > 0) return m;
+  } catch (err) {
+    if (!(err instanceof MoneyError)) throw err;
+  }
+  throw new functions.https.HttpsError('invalid-argument', 'Invalid amount or currency');
+}
+
+// Stores a verified event, acknowledges it, and makes a first processing attempt.
+// Only a failure to store the event returns non-2xx, so the gateway redelivers.
+async function acceptWebhookEvent(res: Response, provider: WebhookProvider, eventId: string, eventType: string, payload: unknown) {
+  let received: boolean;
+  try {
+    received = await enqueueWebhookEvent(provider, eventId, eventType, payload);
+  } catch (err: any) {
+    await logAlert('webhook_enqueue_failed', 'error', 'Failed to store webhook event', { provider, eventId, type: eventType, reason: String(err?.message || err) });
+    res.status(500).send('Failed to store event');
+    return;
+  }
+  // Redeliveries of an event already in the inbox are acknowledged without reprocessing
+  if (received) {
+    try {
+      await drainWebhookInbox({ provider, eventId, limit: 1 });
+    } catch (err: any) {
+      // Left pending/processing; the inbox worker picks it up
+      functions.logger.warn('Inline webhook processing failed', { provider, eventId, reason: String(err?.message || err) });
+    }
+  }
+  res.sendStatus(200);
+}
+
 async function getRawBody(req: Request): Promise<Buffer> {
   // Prefer the rawBody provided by Firebase Functions to preserve exact bytes for signature verification
   const anyReq = req as any;
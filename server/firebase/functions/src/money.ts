@@ -0,0 +1,194 @@
+// Currency-aware money in integer minor units, shared by the Firebase functions
+// and the Supabase edge functions. This file is copied verbatim to
+// instant_mentor_demo/supabase/functions/_shared/money.ts; keep the two identical
+// (test/money.test.ts fails when they drift). It must not import anything.
+//
+// Rules:
+// - Amounts are safe integers in the currency's minor unit (ISO 4217 exponent).
+// - Major-unit input is parsed as a decimal string, never multiplied as a float.
+//   Extra decimal places are rejected unless a rounding mode is given.
+// - Rates and ratios are applied with exact integer arithmetic and an explicit
+//   rounding mode ('half_up' unless stated).
+// - Amounts in different currencies never mix.
+
+export class MoneyError extends Error {}
+
+export interface Money {
+  readonly amountMinor: number;
+  readonly currency: string;
+}
+
+// half_up: half away from zero; half_even: banker's rounding; down: toward zero; up: away from zero
+export type Rounding = 'half_up' | 'half_even' | 'down' | 'up';
+
+const DEFAULT_EXPONENT = 2;
+
+// ISO 4217 currencies whose minor unit is not 1/100
+export const CURRENCY_EXPONENTS: Readonly<Record<string, number>> = Object.freeze({
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0,
+  RWF: 0, UGX: 0, UYI: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3,
+});
+
+/** Upper-cases and validates a three-letter currency code. */
+export function normalizeCurrency(code: unknown): string {
+  if (typeof code !== 'string' || !/^[A-Za-z]{3}$/.test(code)) throw new MoneyError(`Invalid currency: ${String(code)}`);
+  return code.toUpperCase();
+}
+
+export function currencyExponent(currency: string): number {
+  return CURRENCY_EXPONENTS[normalizeCurrency(currency)] ?? DEFAULT_EXPONENT;
+}
+
+/** An amount already in minor units, e.g. from a gateway payload or an integer column. */
+export function money(amountMinor: number, currency: string): Money {
+  if (!Number.isSafeInteger(amountMinor)) throw new MoneyError(`Minor-unit amount must be a safe integer: ${amountMinor}`);
+  return Object.freeze({ amountMinor, currency: normalizeCurrency(currency) });
+}
+
+export function zero(currency: string): Money {
+  return money(0, currency);
+}
+
+interface Decimal {
+  // value = digits / 10^scale
+  digits: bigint;
+  scale: number;
+}
+
+function parseDecimal(value: number | string): Decimal {
+  if (typeof value === 'number' && !Number.isFinite(value)) throw new MoneyError(`Not a finite amount: ${value}`);
+  const text = String(value).trim();
+  const m = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!m || (m[2] === '' && (m[3] ?? '') === '')) throw new MoneyError(`Not a decimal amount: ${text}`);
+  const fraction = m[3] ?? '';
+  let digits = BigInt(`${m[2]}${fraction}` || '0');
+  let scale = fraction.length - Number(m[4] ?? 0);
+  if (scale < 0) {
+    digits *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+  return { digits: m[1] === '-' ? -digits : digits, scale };
+}
+
+function divideRounded(numerator: bigint, denominator: bigint, rounding: Rounding): bigint {
+  if (denominator < 0n) return divideRounded(-numerator, -denominator, rounding);
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) return quotient;
+  const away = quotient + (numerator < 0n ? -1n : 1n);
+  const twice = 2n * (remainder < 0n ? -remainder : remainder);
+  switch (rounding) {
+    case 'down': return quotient;
+    case 'up': return away;
+    case 'half_up': return twice >= denominator ? away : quotient;
+    case 'half_even':
+      if (twice !== denominator) return twice > denominator ? away : quotient;
+      return quotient % 2n === 0n ? quotient : away;
+  }
+}
+
+function toSafeNumber(value: bigint): number {
+  const n = Number(value);
+  if (!Number.isSafeInteger(n)) throw new MoneyError(`Amount out of range: ${value}`);
+  return n;
+}
+
+/**
+ * Converts a major-unit amount (e.g. 100.5 INR, "1.234" KWD, 500 JPY) to minor units.
+ * Without `rounding`, an amount with more decimals than the currency allows is rejected.
+ */
+export function fromMajor(amount: number | string, currency: string, rounding?: Rounding): Money {
+  const exponent = currencyExponent(currency);
+  const { digits, scale } = parseDecimal(amount);
+  const shift = exponent - scale;
+  if (shift >= 0) return money(toSafeNumber(digits * 10n ** BigInt(shift)), currency);
+  const divisor = 10n ** BigInt(-shift);
+  if (digits % divisor !== 0n && !rounding) {
+    throw new MoneyError(`${currency.toUpperCase()} allows ${exponent} decimal places: ${amount}`);
+  }
+  return money(toSafeNumber(divideRounded(digits, divisor, rounding ?? 'down')), currency);
+}
+
+/** The amount in major units as a decimal string, e.g. "100.50", "500", "1.234". */
+export function formatMajor(m: Money): string {
+  const exponent = currencyExponent(m.currency);
+  const abs = Math.abs(m.amountMinor).toString().padStart(exponent + 1, '0');
+  const sign = m.amountMinor < 0 ? '-' : '';
+  if (exponent === 0) return `${sign}${abs}`;
+  return `${sign}${abs.slice(0, -exponent)}.${abs.slice(-exponent)}`;
+}
+
+/** The amount in major units, for decimal columns and display. */
+export function toMajor(m: Money): number {
+  return Number(formatMajor(m));
+}
+
+export function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) throw new MoneyError(`Currency mismatch: ${a.currency} vs ${b.currency}`);
+}
+
+export function add(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amountMinor + b.amountMinor, a.currency);
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return money(a.amountMinor - b.amountMinor, a.currency);
+}
+
+export function compare(a: Money, b: Money): number {
+  assertSameCurrency(a, b);
+  return Math.sign(a.amountMinor - b.amountMinor);
+}
+
+export function min(a: Money, b: Money): Money {
+  return compare(a, b) <= 0 ? a : b;
+}
+
+export function max(a: Money, b: Money): Money {
+  return compare(a, b) >= 0 ? a : b;
+}
+
+/** Multiplies by a decimal factor such as a fee percentage (0.15), exactly, then rounds. */
+export function multiply(m: Money, factor: number | string, rounding: Rounding = 'half_up'): Money {
+  const { digits, scale } = parseDecimal(factor);
+  return money(toSafeNumber(divideRounded(BigInt(m.amountMinor) * digits, 10n ** BigInt(scale), rounding)), m.currency);
+}
+
+/** m × numerator / denominator with integer arithmetic, e.g. rate × minutes / 60. */
+export function ratio(m: Money, numerator: number, denominator: number, rounding: Rounding = 'half_up'): Money {
+  if (!Number.isSafeInteger(numerator) || !Number.isSafeInteger(denominator) || denominator === 0) {
+    throw new MoneyError(`Invalid ratio ${numerator}/${denominator}`);
+  }
+  return money(toSafeNumber(divideRounded(BigInt(m.amountMinor) * BigInt(numerator), BigInt(denominator), rounding)), m.currency);
+}
+
+/**
+ * Splits an amount by non-negative integer weights using largest remainders,
+ * so the parts always add up to the original amount.
+ */
+export function allocate(m: Money, weights: number[]): Money[] {
+  if (weights.length === 0 || weights.some((w) => !Number.isSafeInteger(w) || w < 0)) {
+    throw new MoneyError('Weights must be non-negative integers');
+  }
+  const total = weights.reduce((sum, w) => sum + BigInt(w), 0n);
+  if (total === 0n) throw new MoneyError('Weights must not all be zero');
+
+  const amount = BigInt(m.amountMinor);
+  const sign = amount < 0n ? -1n : 1n;
+  const abs = amount * sign;
+  const parts = weights.map((w) => (abs * BigInt(w)) / total);
+  let left = abs - parts.reduce((sum, p) => sum + p, 0n);
+  // Hand out the leftover units to the largest remainders, earliest first on ties
+  const order = weights
+    .map((w, i) => ({ i, rem: (abs * BigInt(w)) % total }))
+    .sort((a, b) => (a.rem === b.rem ? a.i - b.i : a.rem > b.rem ? -1 : 1));
+  for (const { i } of order) {
+    if (left === 0n) break;
+    parts[i] += 1n;
+    left -= 1n;
+  }
+  return parts.map((p) => money(Number(p * sign), m.currency));
+}
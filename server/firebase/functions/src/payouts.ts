@@ -0,0 +1,186 @@
+// Mentor payouts: Stripe Connect transfers and RazorpayX payouts.
+// The amount is soft-locked by create_payout_request and settled (or reversed)
+// by settle_payout_request once the gateway webhook reports the outcome.
+
+import type Stripe from 'stripe';
+import {
+  RAZORPAYX_ACCOUNT_NUMBER, RAZORPAY_KEY_ID, RAZORPAY_KEY_SECRET, clients, logAlert,
+} from './clients.js';
+
+export type PayoutGateway = 'stripe' | 'razorpay';
+
+export interface PayoutProfile {
+  uid: string;
+  kyc_status: string | null;
+  region: string | null;
+  stripe_account_id: string | null;
+  stripe_onboarding_complete: boolean | null;
+  razorpay_fund_account_id: string | null;
+  bank_account_number: string | null;
+  bank_ifsc_code: string | null;
+  bank_account_holder_name: string | null;
+}
+
+export interface PayoutRequestRow {
+  id: string;
+  mentor_uid: string;
+  amount: number;
+  currency: string;
+  status: 'created' | 'pending' | 'paid' | 'failed';
+  gateway: PayoutGateway;
+}
+
+export interface PayoutRail {
+  gateway: PayoutGateway;
+  destination: string;
+}
+
+/** The gateway refused the payout outright, so the locked amount can be released. */
+export class PayoutRejectedError extends Error {}
+
+/** India-based mentors are paid over RazorpayX, everyone else through Stripe Connect. */
+export function choosePayoutRail(profile: PayoutProfile): PayoutRail | { error: string } {
+  const region = profile.region?.toUpperCase();
+  const useRazorpay = region ? region === 'IN' : Boolean(profile.razorpay_fund_account_id);
+  if (useRazorpay) {
+    if (!profile.razorpay_fund_account_id) return { error: 'No RazorpayX fund account on file' };
+    return { gateway: 'razorpay', destination: profile.razorpay_fund_account_id };
+  }
+  if (!profile.stripe_account_id || !profile.stripe_onboarding_complete) return { error: 'Stripe Connect onboarding incomplete' };
+  return { gateway: 'stripe', destination: profile.stripe_account_id };
+}
+
+async function createStripeTransfer(request: PayoutRequestRow, destination: string): Promise<string> {
+  const { stripe } = clients();
+  if (!stripe) throw new Error('Stripe not configured');
+  try {
+    const transfer = await stripe.transfers.create({
+      amount: request.amount,
+      currency: request.currency.toLowerCase(),
+      destination,
+      transfer_group: `payout_${request.id}`,
+      metadata: { payoutRequestId: request.id, mentorId: request.mentor_uid },
+    }, { idempotencyKey: `payout:${request.id}` });
+    return transfer.id;
+  } catch (err: any) {
+    // Card/invalid-request errors are definitive; connection and API errors may have gone through
+    if (err?.type === 'StripeInvalidRequestError' || err?.type === 'StripeCardError' || err?.type === 'StripePermissionError') {
+      throw new PayoutRejectedError(err.message);
+    }
+    throw err;
+  }
+}
+
+async function createRazorpayXPayout(request: PayoutRequestRow, fundAccountId: string): Promise<{ id: string; status: string; reason?: string }> {
+  if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET || !RAZORPAYX_ACCOUNT_NUMBER) throw new Error('RazorpayX not configured');
+  // The Razorpay SDK has no payouts API; call RazorpayX directly
+  const res = await clients().fetch('https://api.razorpay.com/v1/payouts', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${Buffer.from(`${RAZORPAY_KEY_ID}:${RAZORPAY_KEY_SECRET}`).toString('base64')}`,
+      'Content-Type': 'application/json',
+      'X-Payout-Idempotency': `payout_${request.id}`,
+    },
+    body: JSON.stringify({
+      account_number: RAZORPAYX_ACCOUNT_NUMBER,
+      fund_account_id: fundAccountId,
+      amount: request.amount,
+      currency: request.currency.toUpperCase(),
+      mode: 'IMPS',
+      purpose: 'payout',
+      queue_if_low_balance: true,
+      reference_id: request.id,
+      narration: 'Instant Mentor payout',
+      notes: { payoutRequestId: request.id, mentorId: request.mentor_uid },
+    }),
+  });
+  const body: any = await res.json().catch(() => ({}));
+  if (res.status >= 400 && res.status < 500) {
+    throw new PayoutRejectedError(body?.error?.description || `RazorpayX rejected payout (${res.status})`);
+  }
+  if (!res.ok) throw new Error(body?.error?.description || `RazorpayX error (${res.status})`);
+  return { id: body.id, status: body.status, reason: body.status_details?.description };
+}
+
+/**
+ * Sends a locked payout request to its gateway and marks it pending.
+ * A definitive rejection releases the lock; an ambiguous failure leaves the
+ * request in `created` with the amount still locked for manual review.
+ */
+export async function executePayout(request: PayoutRequestRow, rail: PayoutRail): Promise<PayoutRequestRow['status']> {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  let gatewayRef: string;
+  try {
+    if (rail.gateway === 'stripe') {
+      gatewayRef = await createStripeTransfer(request, rail.destination);
+    } else {
+      const payout = await createRazorpayXPayout(request, rail.destination);
+      gatewayRef = payout.id;
+      if (['failed', 'rejected', 'cancelled', 'reversed'].includes(payout.status)) {
+        return settlePayout(request.id, 'failed', payout.id, payout.reason || `RazorpayX payout ${payout.status}`);
+      }
+    }
+  } catch (err: any) {
+    const reason = String(err?.message || err);
+    if (err instanceof PayoutRejectedError) {
+      return settlePayout(request.id, 'failed', undefined, reason);
+    }
+    await logAlert('payout_submission_unknown', 'critical', 'Payout submission failed with an unknown outcome; amount stays locked', {
+      requestId: request.id, gateway: rail.gateway, reason,
+    });
+    throw err;
+  }
+
+  const ref = rail.gateway === 'stripe' ? { transfer_id: gatewayRef } : { payout_id: gatewayRef };
+  const { error } = await supabase.from('payout_requests')
+    .update({ status: 'pending', processed_at: new Date().toISOString(), ...ref })
+    .eq('id', request.id)
+    .eq('status', 'created');
+  if (error) throw new Error(`payout_requests update failed: ${error.message}`);
+  return 'pending';
+}
+
+/** Applies a gateway outcome to a payout request; replays are no-ops. */
+export async function settlePayout(requestId: string, outcome: 'paid' | 'failed', gatewayRef?: string, reason?: string): Promise<PayoutRequestRow['status']> {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data: status, error } = await supabase.rpc('settle_payout_request', {
+    p_request_id: requestId,
+    p_outcome: outcome,
+    p_gateway_ref: gatewayRef ?? null,
+    p_reason: reason ?? null,
+  });
+  if (error) throw new Error(`settle_payout_request failed: ${error.message}`);
+  if (outcome === 'paid' && status === 'failed') {
+    // Funds left the platform after we had already released the lock
+    await logAlert('payout_paid_after_failure', 'critical', 'Gateway paid a payout that was already marked failed', { requestId, gatewayRef });
+  } else if (outcome === 'failed') {
+    await logAlert('payout_failed', 'error', 'Gateway reported payout failure', { requestId, gatewayRef, reason });
+  }
+  return status as PayoutRequestRow['status'];
+}
+
+/** transfer.created / transfer.reversed from the Stripe Connect payouts endpoint. */
+export async function handleStripeTransferEvent(event: Stripe.Event) {
+  const transfer = event.data.object as Stripe.Transfer;
+  const requestId = transfer.metadata?.payoutRequestId;
+  if (!requestId) return; // Not a payout transfer
+  if (event.type === 'transfer.created') {
+    await settlePayout(requestId, 'paid', transfer.id);
+  } else if (event.type === 'transfer.reversed' && transfer.amount_reversed >= transfer.amount) {
+    await settlePayout(requestId, 'failed', transfer.id, 'Transfer reversed');
+  }
+}
+
+/** payout.processed / payout.reversed / payout.failed / payout.rejected from RazorpayX. */
+export async function handleRazorpayXPayoutEvent(eventName: string, payout: any) {
+  const requestId = (payout.reference_id || payout.notes?.payoutRequestId) as string | undefined;
+  if (!requestId) return;
+  if (eventName === 'payout.processed') {
+    await settlePayout(requestId, 'paid', payout.id);
+  } else {
+    await settlePayout(requestId, 'failed', payout.id,
+      payout.status_details?.description || payout.failure_reason || `RazorpayX payout ${payout.status}`);
+  }
+}
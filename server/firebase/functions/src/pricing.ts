@@ -0,0 +1,111 @@
+// Server-side session pricing: mentor hourly rate × duration, split by the platform fee schedule.
+// Clients never supply amounts, parties or fees.
+
+import { clients } from './clients.js';
+import { fromMajor, max, min, money, multiply, ratio, subtract, type Money } from './money.js';
+
+// Thresholds and minimum fee are in minor units of the session currency
+export interface FeeTier {
+  // Applies to sessions whose total is at most this; omit for the last tier
+  upToMinor?: number;
+  percent: number;
+}
+
+export interface FeeSchedule {
+  tiers: FeeTier[];
+  minimumFeeMinor?: number;
+}
+
+/** Parses a JSON fee schedule from config, falling back to a single flat percentage. */
+export function parseFeeSchedule(raw: string | undefined, fallbackPercent: number): FeeSchedule {
+  const flat: FeeSchedule = { tiers: [{ percent: fallbackPercent }] };
+  if (!raw) return flat;
+  try {
+    const parsed = JSON.parse(raw) as FeeSchedule;
+    const valid = Array.isArray(parsed?.tiers) && parsed.tiers.length > 0
+      && parsed.tiers.every((t) => typeof t.percent === 'number' && t.percent >= 0 && t.percent < 1);
+    return valid ? parsed : flat;
+  } catch {
+    return flat;
+  }
+}
+
+export interface Quote {
+  total: Money;
+  mentor: Money;
+  platform: Money;
+}
+
+export function platformFee(total: Money, schedule: FeeSchedule): Money {
+  const tier = schedule.tiers.find((t) => t.upToMinor === undefined || total.amountMinor <= t.upToMinor)
+    ?? schedule.tiers[schedule.tiers.length - 1];
+  const fee = max(multiply(total, tier.percent), money(schedule.minimumFeeMinor ?? 0, total.currency));
+  return min(fee, total);
+}
+
+export function quoteSession(hourlyRate: Money, minutes: number, schedule: FeeSchedule): Quote {
+  const total = ratio(hourlyRate, minutes, 60);
+  const platform = platformFee(total, schedule);
+  return { total, mentor: subtract(total, platform), platform };
+}
+
+export interface SessionPricing {
+  sessionId: string;
+  studentId: string;
+  // auth.users id of the mentor (mentoring_sessions.mentor_id may hold a mentor_profiles id)
+  mentorId: string;
+  status: string;
+  scheduledTime: string;
+  bookedMinutes: number;
+  // In the student's wallet currency; null when the session cannot be priced, with the reason in rateError
+  hourlyRate: Money | null;
+  rateError: string | null;
+}
+
+interface MentorRate {
+  hourly_rate: number | string | null;
+  hourly_rate_currency: string;
+}
+
+// hourly_rate is stored in major units of hourly_rate_currency; it is never converted
+function walletRate(profile: MentorRate, currency: string): Pick<SessionPricing, 'hourlyRate' | 'rateError'> {
+  const rate = Number(profile.hourly_rate ?? 0);
+  if (!(rate > 0)) return { hourlyRate: null, rateError: 'Mentor has no hourly rate' };
+  const rateCurrency = profile.hourly_rate_currency.toUpperCase();
+  if (rateCurrency !== currency.toUpperCase()) {
+    return { hourlyRate: null, rateError: `Mentor hourly rate is in ${rateCurrency} but the student's wallet is in ${currency}` };
+  }
+  return { hourlyRate: fromMajor(rate, currency, 'half_up'), rateError: null };
+}
+
+/** Loads the session, its mentor's hourly rate and the student's wallet currency. */
+export async function loadSessionPricing(sessionId: string): Promise<SessionPricing | null> {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data: session, error } = await supabase.from('mentoring_sessions')
+    .select('id, student_id, mentor_id, status, scheduled_time, duration_minutes')
+    .eq('id', sessionId).maybeSingle();
+  if (error) throw new Error(`Session lookup failed: ${error.message}`);
+  if (!session) return null;
+
+  const { data: profile, error: profileError } = await supabase.from('mentor_profiles')
+    .select('id, user_id, hourly_rate, hourly_rate_currency')
+    .or(`user_id.eq.${session.mentor_id},id.eq.${session.mentor_id}`)
+    .limit(1).maybeSingle();
+  if (profileError) throw new Error(`Mentor profile lookup failed: ${profileError.message}`);
+  if (!profile) throw new Error(`No mentor profile for session ${sessionId}`);
+
+  const { data: wallet } = await supabase.from('enhanced_wallets')
+    .select('currency').eq('user_uid', session.student_id).maybeSingle();
+  const currency = wallet?.currency ?? 'INR';
+
+  return {
+    sessionId,
+    studentId: session.student_id,
+    mentorId: profile.user_id ?? session.mentor_id,
+    status: session.status,
+    scheduledTime: session.scheduled_time,
+    bookedMinutes: session.duration_minutes,
+    ...walletRate(profile, currency),
+  };
+}
@@ -0,0 +1,138 @@
+// Razorpay payment, order, refund and RazorpayX payout events → payment_transactions and ledger.
+// Amounts in Razorpay payloads are already in minor units (paise).
+
+import { clients, logAlert } from './clients.js';
+import { handleRazorpayXPayoutEvent } from './payouts.js';
+import { applyGatewayRefund, sessionIdForPayment } from './refunds.js';
+
+export interface RazorpayEvent {
+  event: string;
+  payload: {
+    payment?: { entity: any };
+    order?: { entity: any };
+    refund?: { entity: any };
+    payout?: { entity: any };
+  };
+}
+
+// Refunds created by the process-refund edge function post their own ledger entries.
+const LEDGER_POSTED_BY_CALLER = 'process-refund';
+
+function requireSupabase() {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  return supabase;
+}
+
+async function creditTopup(uid: string, amountMinor: number, gatewayId: string, idem?: string) {
+  // process_wallet_topup ignores a gatewayId it has already credited, so
+  // payment.captured and order.paid for the same order credit the wallet once
+  const { error } = await requireSupabase().rpc('process_wallet_topup', {
+    user_id: uid,
+    amount_minor: amountMinor,
+    transaction_data: { gatewayId, idempotencyKey: idem },
+  });
+  if (error) throw new Error(`process_wallet_topup failed: ${error.message}`);
+}
+
+async function markSessionPayment(ids: Array<string | undefined>, status: 'completed' | 'failed' | 'refunded') {
+  const sb = requireSupabase();
+  const gatewayIds = ids.filter((id): id is string => Boolean(id));
+  if (gatewayIds.length === 0) return;
+  const { data, error } = await sb.from('payment_transactions')
+    .update({ status })
+    .in('transaction_id', gatewayIds)
+    .select('session_id');
+  if (error) throw new Error(`payment_transactions update failed: ${error.message}`);
+  const sessionIds = [...new Set((data ?? []).map((r: any) => r.session_id).filter(Boolean))];
+  if (sessionIds.length > 0 && status !== 'refunded') {
+    await sb.from('mentoring_sessions')
+      .update({ payment_status: status === 'completed' ? 'paid' : 'failed' })
+      .in('id', sessionIds);
+  }
+}
+
+async function onPaymentCaptured(payment: any, order?: any) {
+  const notes = { ...(order?.notes ?? {}), ...(payment.notes ?? {}) };
+  const orderId = (payment.order_id ?? order?.id) as string | undefined;
+  if (notes.uid && !notes.sessionId) {
+    await creditTopup(notes.uid, payment.amount, orderId || payment.id, notes.idem);
+    return;
+  }
+  await markSessionPayment([orderId, payment.id], 'completed');
+}
+
+async function onPaymentFailed(payment: any) {
+  await markSessionPayment([payment.order_id, payment.id], 'failed');
+  if (payment.notes?.sessionId) {
+    await logAlert('payment_failed', 'info', 'Razorpay session payment failed', {
+      paymentId: payment.id, orderId: payment.order_id, sessionId: payment.notes.sessionId,
+      errorCode: payment.error_code, errorDescription: payment.error_description,
+    });
+  }
+}
+
+async function onRefundProcessed(refund: any, payment?: any) {
+  if (refund.notes?.source === LEDGER_POSTED_BY_CALLER) return;
+  const paymentId = refund.payment_id as string;
+  const orderId = payment?.order_id as string | undefined;
+  const sessionId = await sessionIdForPayment(orderId, { ...(payment?.notes ?? {}), ...(refund.notes ?? {}) })
+    ?? await sessionIdForPayment(paymentId);
+  if (!sessionId) {
+    const isTopup = Boolean(payment?.notes?.uid);
+    await logAlert(isTopup ? 'topup_refund_requires_review' : 'refund_unmatched', 'warning',
+      isTopup ? 'Razorpay refund on a wallet top-up' : 'Razorpay refund could not be matched to a session', {
+        refundId: refund.id, paymentId, orderId, uid: payment?.notes?.uid, amount: refund.amount,
+      });
+    return;
+  }
+
+  await applyGatewayRefund({
+    gateway: 'razorpay',
+    refundId: refund.id,
+    sessionId,
+    amount: refund.amount,
+    currency: refund.currency,
+    chargeId: paymentId,
+    paymentIntentId: orderId,
+    source: 'webhook',
+  });
+
+  if (payment && payment.amount_refunded >= payment.amount) {
+    await markSessionPayment([orderId, paymentId], 'refunded');
+  }
+}
+
+async function onRefundFailed(refund: any) {
+  await logAlert('refund_failed', 'error', 'Razorpay refund failed', {
+    refundId: refund.id, paymentId: refund.payment_id, amount: refund.amount, notes: refund.notes,
+  });
+}
+
+export async function handleRazorpayEvent(event: RazorpayEvent) {
+  const payment = event.payload.payment?.entity;
+  const order = event.payload.order?.entity;
+  const refund = event.payload.refund?.entity;
+  const payout = event.payload.payout?.entity;
+  switch (event.event) {
+    case 'payment.captured':
+    case 'order.paid':
+      if (payment) await onPaymentCaptured(payment, order);
+      break;
+    case 'payment.failed':
+      if (payment) await onPaymentFailed(payment);
+      break;
+    case 'refund.processed':
+      if (refund) await onRefundProcessed(refund, payment);
+      break;
+    case 'refund.failed':
+      if (refund) await onRefundFailed(refund);
+      break;
+    case 'payout.processed':
+    case 'payout.reversed':
+    case 'payout.failed':
+    case 'payout.rejected':
+      if (payout) await handleRazorpayXPayoutEvent(event.event, payout);
+      break;
+  }
+}
@@ -0,0 +1,86 @@
+// Ledger reconciliation: runs the invariant checks in `reconciliation_findings`
+// and raises one detailed admin alert per violated check.
+
+import { clients, logAlert } from './clients.js';
+
+export interface Finding {
+  check_name: string;
+  subject: string;
+  expected: number;
+  actual: number;
+  details: Record<string, any>;
+}
+
+export interface ReconciliationSummary {
+  checkedAt: string;
+  findings: number;
+  byCheck: Record<string, number>;
+}
+
+const CHECK_MESSAGES: Record<string, string> = {
+  entry_invalid: 'Ledger entries post to and from the same account',
+  transaction_unbalanced: 'Session ledger legs do not balance',
+  wallet_balance_mismatch: 'Wallet balances differ from their ledger postings',
+  earnings_balance_mismatch: 'Mentor earnings differ from their ledger postings',
+  negative_balance: 'Negative wallet balance',
+  platform_revenue_mismatch: 'Platform revenue differs from fees minus platform refunds',
+  gateway_topup_mismatch: 'Gateway top-ups differ from wallet top-up credits',
+};
+
+// Money already moved wrongly is critical; the rest needs review
+const CRITICAL_CHECKS = new Set(['wallet_balance_mismatch', 'earnings_balance_mismatch', 'negative_balance', 'gateway_topup_mismatch']);
+
+export function groupFindings(findings: Finding[]): Map<string, Finding[]> {
+  const byCheck = new Map<string, Finding[]>();
+  for (const f of findings) {
+    const list = byCheck.get(f.check_name) ?? [];
+    list.push(f);
+    byCheck.set(f.check_name, list);
+  }
+  return byCheck;
+}
+
+// Each SQL branch of a check is limited on its own (details.branch tells them
+// apart), so a check is truncated when any one branch came back full
+function truncated(findings: Finding[], limitPerCheck: number): boolean {
+  const perBranch = new Map<string, number>();
+  for (const f of findings) {
+    const branch = String(f.details?.branch ?? '');
+    perBranch.set(branch, (perBranch.get(branch) ?? 0) + 1);
+  }
+  return [...perBranch.values()].some((count) => count >= limitPerCheck);
+}
+
+export async function runReconciliation(limitPerCheck = 50): Promise<ReconciliationSummary> {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data, error } = await supabase.rpc('reconciliation_findings', { p_limit: limitPerCheck });
+  if (error) throw new Error(`reconciliation_findings failed: ${error.message}`);
+
+  const byCheck = groupFindings((data ?? []) as Finding[]);
+  const summary: ReconciliationSummary = { checkedAt: new Date().toISOString(), findings: 0, byCheck: {} };
+  for (const [check, findings] of byCheck) {
+    summary.findings += findings.length;
+    summary.byCheck[check] = findings.length;
+    await logAlert('reconciliation_mismatch', CRITICAL_CHECKS.has(check) ? 'critical' : 'error', CHECK_MESSAGES[check] ?? check, {
+      check,
+      count: findings.length,
+      truncated: truncated(findings, limitPerCheck),
+      offenders: findings.map((f) => ({
+        subject: f.subject,
+        expected: f.expected,
+        actual: f.actual,
+        difference: Number(f.actual) - Number(f.expected),
+        ...f.details,
+      })),
+    });
+  }
+
+  await supabase.from('scheduled_job_runs').insert({
+    job_name: 'reconciliation_check',
+    status: 'completed',
+    summary,
+    finished_at: new Date().toISOString(),
+  });
+  return summary;
+}
@@ -0,0 +1,139 @@
+// Posting gateway refunds (dashboard refunds, partial refunds, lost disputes) to the ledger.
+
+import { PLATFORM_FEE_PERCENT, clients, logAlert } from './clients.js';
+import { allocate, assertSameCurrency, money, multiply, subtract, zero, type Money } from './money.js';
+
+export interface SessionSplit {
+  sessionId: string;
+  studentId: string;
+  mentorId: string;
+  currency: string;
+  // Captured amounts from session_payments; absent when the session was never captured
+  amountTotal?: number;
+  amountMentor?: number;
+  amountPlatform?: number;
+}
+
+/** Finds the mentoring session a gateway payment belongs to. */
+export async function sessionIdForPayment(paymentId: string | null | undefined, metadata?: Record<string, any> | null): Promise<string | null> {
+  const fromMetadata = metadata?.sessionId || metadata?.session_id;
+  if (fromMetadata) return String(fromMetadata);
+  const { supabase } = clients();
+  if (!paymentId || !supabase) return null;
+
+  const { data: sp } = await supabase.from('session_payments')
+    .select('session_id').eq('payment_intent_id', paymentId).maybeSingle();
+  if (sp?.session_id) return sp.session_id;
+
+  const { data: tx } = await supabase.from('payment_transactions')
+    .select('session_id').eq('transaction_id', paymentId).limit(1).maybeSingle();
+  return tx?.session_id ?? null;
+}
+
+export async function loadSessionSplit(sessionId: string): Promise<SessionSplit | null> {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data: sp, error } = await supabase.from('session_payments')
+    .select('session_id, student_uid, mentor_uid, amount_total, amount_mentor, amount_platform, currency')
+    .eq('session_id', sessionId).maybeSingle();
+  if (error) throw new Error(`session_payments lookup failed: ${error.message}`);
+  if (sp) {
+    return {
+      sessionId,
+      studentId: sp.student_uid,
+      mentorId: sp.mentor_uid,
+      currency: sp.currency ?? 'INR',
+      amountTotal: sp.amount_total,
+      amountMentor: sp.amount_mentor,
+      amountPlatform: sp.amount_platform,
+    };
+  }
+
+  const { data: session, error: sessionError } = await supabase.from('mentoring_sessions')
+    .select('id, student_id, mentor_id').eq('id', sessionId).maybeSingle();
+  if (sessionError) throw new Error(`Session lookup failed: ${sessionError.message}`);
+  if (!session) return null;
+  return { sessionId, studentId: session.student_id, mentorId: session.mentor_id, currency: 'INR' };
+}
+
+/**
+ * Splits a refund in the same mentor/platform proportion as the original capture.
+ * The refund must be in the captured currency.
+ */
+export function splitRefund(amount: Money, split: Pick<SessionSplit, 'currency' | 'amountTotal' | 'amountPlatform'>): { mentor: Money; platform: Money } {
+  assertSameCurrency(amount, zero(split.currency));
+  if (split.amountTotal && split.amountTotal > 0 && split.amountPlatform !== undefined) {
+    const [mentor, platform] = allocate(amount, [split.amountTotal - split.amountPlatform, split.amountPlatform]);
+    return { mentor, platform };
+  }
+  const platform = multiply(amount, PLATFORM_FEE_PERCENT);
+  return { mentor: subtract(amount, platform), platform };
+}
+
+export interface GatewayRefund {
+  gateway: 'stripe' | 'razorpay';
+  refundId: string;
+  sessionId: string;
+  amount: number;
+  currency?: string;
+  chargeId?: string;
+  paymentIntentId?: string;
+  source: 'webhook' | 'dispute';
+}
+
+/**
+ * Applies one gateway refund via record_gateway_refund exactly once. The
+ * gateway already paid the student back, so the wallet is not credited; the
+ * platform fee and the mentor share are reversed.
+ * The payment_refunds row is the idempotency guard: it is written first and
+ * removed again if the ledger RPC fails, so a retried delivery can re-apply it.
+ */
+export async function applyGatewayRefund(refund: GatewayRefund): Promise<'applied' | 'duplicate'> {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const split = await loadSessionSplit(refund.sessionId);
+  if (!split) throw new Error(`Session ${refund.sessionId} not found for refund ${refund.refundId}`);
+
+  const { mentor, platform } = splitRefund(money(refund.amount, refund.currency || split.currency), split);
+  const { error: insertError } = await supabase.from('payment_refunds').insert({
+    gateway: refund.gateway,
+    gateway_refund_id: refund.refundId,
+    session_id: refund.sessionId,
+    charge_id: refund.chargeId ?? null,
+    payment_intent_id: refund.paymentIntentId ?? null,
+    amount: refund.amount,
+    mentor_share: mentor.amountMinor,
+    platform_share: platform.amountMinor,
+    currency: mentor.currency,
+    source: refund.source,
+  });
+  if (insertError?.code === '23505') return 'duplicate';
+  if (insertError) throw new Error(`payment_refunds insert failed: ${insertError.message}`);
+
+  const { error } = await supabase.rpc('record_gateway_refund', {
+    p_refund_id: refund.refundId,
+    p_session_id: refund.sessionId,
+    p_mentor_id: split.mentorId,
+    p_mentor_share: mentor.amountMinor,
+    p_platform_share: platform.amountMinor,
+    p_currency: mentor.currency,
+    p_payment_intent_id: refund.paymentIntentId ?? null,
+  });
+  if (error) {
+    await supabase.from('payment_refunds').delete()
+      .eq('gateway', refund.gateway).eq('gateway_refund_id', refund.refundId);
+    throw new Error(`record_gateway_refund failed: ${error.message}`);
+  }
+
+  // Over-refunding relative to the captured amount means the ledger and gateway disagree
+  if (split.amountTotal !== undefined) {
+    const { data: rows } = await supabase.from('payment_refunds').select('amount').eq('session_id', refund.sessionId);
+    const refunded = (rows ?? []).reduce((sum: number, r: any) => sum + (r.amount ?? 0), 0);
+    if (refunded > split.amountTotal) {
+      await logAlert('refund_exceeds_capture', 'warning', 'Refunds for session exceed captured amount', {
+        sessionId: refund.sessionId, refunded, captured: split.amountTotal, refundId: refund.refundId,
+      });
+    }
+  }
+  return 'applied';
+}
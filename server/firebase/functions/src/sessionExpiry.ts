@@ -0,0 +1,139 @@
+// Sweeps sessions nobody moved on. A request the mentor has not accepted by
+// the deadline expires and its reservation is released. A booking that ended
+// without a call is a no-show: whoever rang the other is taken to have turned
+// up, and the no-show policy decides how much of the reservation is captured.
+// Both parties are notified through the send-notification edge function.
+
+import * as functions from 'firebase-functions';
+import { clients, logAlert } from './clients.js';
+import { systemClock, type Clock } from './earningsRelease.js';
+import type { FeeSchedule } from './pricing.js';
+import { applySessionTransition, type NoShowPolicy, type SessionAction, type TransitionResult } from './sessionLifecycle.js';
+
+export interface ExpiryOptions {
+  clock?: Clock;
+  acceptHours: number;
+  noShow: NoShowPolicy;
+  feeSchedule: FeeSchedule;
+  // Sessions of each kind handled per run; the rest wait for the next run
+  batchSize?: number;
+}
+
+export interface StaleSession {
+  session_id: string;
+  kind: 'unaccepted' | 'no_show';
+  student_joined: boolean;
+  mentor_joined: boolean;
+}
+
+export interface ExpirySummary {
+  scanned: number;
+  expired: number;
+  studentNoShows: number;
+  mentorNoShows: number;
+  bothNoShows: number;
+  // Moved on (accepted, cancelled, ...) between the listing and the transition
+  skipped: number;
+  failed: number;
+  failures: Array<{ sessionId: string; reason: string }>;
+  notificationsFailed: number;
+}
+
+const MAX_REPORTED_FAILURES = 20;
+
+/** The transition the sweep takes for a stale session. */
+export function staleAction(row: StaleSession): SessionAction {
+  if (row.kind === 'unaccepted') return 'expire';
+  if (row.mentor_joined && !row.student_joined) return 'student_no_show';
+  if (row.student_joined && !row.mentor_joined) return 'mentor_no_show';
+  return 'both_no_show';
+}
+
+type Notice = { title: string; message: string };
+
+// What each party is told, by action
+const NOTICES: Partial<Record<SessionAction, { student: Notice; mentor: Notice }>> = {
+  expire: {
+    student: { title: 'Session request expired', message: 'Your mentor did not respond in time. The reserved amount is back in your wallet.' },
+    mentor: { title: 'Session request expired', message: 'A session request expired before you accepted it.' },
+  },
+  student_no_show: {
+    student: { title: 'Missed session', message: 'You did not join your session. It was charged under the no-show policy.' },
+    mentor: { title: 'Student did not join', message: 'Your student did not join the session. It was settled under the no-show policy.' },
+  },
+  mentor_no_show: {
+    student: { title: 'Mentor did not join', message: 'Your mentor did not join the session. You have not been charged.' },
+    mentor: { title: 'Missed session', message: 'You did not join your session, so it was not paid.' },
+  },
+  both_no_show: {
+    student: { title: 'Missed session', message: 'Neither you nor your mentor joined the session. It was settled under the no-show policy.' },
+    mentor: { title: 'Missed session', message: 'Neither you nor your student joined the session. It was settled under the no-show policy.' },
+  },
+};
+
+// Best effort: returns how many of the two notifications failed
+async function notifyParties(result: TransitionResult): Promise<number> {
+  const notices = NOTICES[result.action];
+  if (!notices) return 0;
+  let failed = 0;
+  for (const [userId, notice] of [[result.studentId, notices.student], [result.mentorId, notices.mentor]] as const) {
+    const { error } = await clients().supabase!.functions.invoke('send-notification', {
+      body: {
+        userId,
+        title: notice.title,
+        message: notice.message,
+        type: 'session',
+        category: 'sessions',
+        data: { sessionId: result.sessionId, action: result.action, status: result.status },
+      },
+    });
+    if (error) failed++;
+  }
+  return failed;
+}
+
+/**
+ * Expires unanswered requests and settles no-shows, one batch per run. A
+ * session that fails is recorded and retried by the next run.
+ */
+export async function expireStaleSessions(opts: ExpiryOptions): Promise<ExpirySummary> {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const now = (opts.clock ?? systemClock).now();
+  const { data, error } = await supabase.rpc('list_stale_sessions', {
+    p_now: now.toISOString(),
+    p_accept_cutoff: new Date(now.getTime() - opts.acceptHours * 60 * 60 * 1000).toISOString(),
+    p_limit: opts.batchSize ?? 100,
+  });
+  if (error) throw new Error(`list_stale_sessions failed: ${error.message}`);
+
+  const summary: ExpirySummary = {
+    scanned: 0, expired: 0, studentNoShows: 0, mentorNoShows: 0, bothNoShows: 0, skipped: 0, failed: 0, failures: [], notificationsFailed: 0,
+  };
+  for (const row of (data ?? []) as StaleSession[]) {
+    summary.scanned++;
+    const action = staleAction(row);
+    let result: TransitionResult;
+    try {
+      result = await applySessionTransition(row.session_id, action, {}, opts.feeSchedule, { now, noShow: opts.noShow, reason: 'Stale session sweep' });
+    } catch (err: any) {
+      if (err instanceof functions.https.HttpsError && err.code === 'failed-precondition') {
+        summary.skipped++;
+        continue;
+      }
+      summary.failed++;
+      if (summary.failures.length < MAX_REPORTED_FAILURES) summary.failures.push({ sessionId: row.session_id, reason: String(err?.message || err) });
+      continue;
+    }
+    if (action === 'expire') summary.expired++;
+    else if (action === 'student_no_show') summary.studentNoShows++;
+    else if (action === 'mentor_no_show') summary.mentorNoShows++;
+    else summary.bothNoShows++;
+    summary.notificationsFailed += await notifyParties(result);
+  }
+
+  if (summary.failed > 0) {
+    await logAlert('session_expiry_failed', 'warning', 'Some stale sessions could not be expired; the next run retries them', { ...summary });
+  }
+  return summary;
+}
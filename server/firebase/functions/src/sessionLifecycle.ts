@@ -0,0 +1,291 @@
+// Mentoring session lifecycle. Every status change goes through
+// transitionSession: the table below says which statuses an action leaves, who
+// may take it, when, and what happens to the money. apply_session_transition
+// (migration 020) then changes the status, writes the session_transitions audit
+// row and moves the wallet funds in one transaction. A gateway payment is
+// refunded afterwards through the process-refund edge function, which applies
+// the refund policy to whoever called the session off.
+
+import * as functions from 'firebase-functions';
+import { clients, logAlert } from './clients.js';
+import { multiply, ratio, subtract } from './money.js';
+import { loadSessionPricing, platformFee, type FeeSchedule, type SessionPricing } from './pricing.js';
+import { DEFAULT_USAGE_POLICY, billedMinutes, usageTotal, verifiedUsageSeconds, type UsagePolicy } from './usage.js';
+
+export type SessionAction =
+  | 'accept' | 'decline' | 'start' | 'complete'
+  | 'cancel_by_student' | 'cancel_by_mentor' | 'student_no_show' | 'mentor_no_show'
+  | 'expire' | 'both_no_show';
+export type Party = 'student' | 'mentor';
+// Admins and scheduled jobs ('system') may take any action
+export type ActorRole = Party | 'admin' | 'system';
+
+// Who is acting: a signed-in user (their role follows from the session) or,
+// without a uid, a scheduled job
+export interface Actor {
+  uid?: string;
+  admin?: boolean;
+}
+
+type WalletMove = 'none' | 'reserve' | 'release' | 'capture';
+
+// When an action may be taken, relative to the booked start. Admins and
+// scheduled jobs are not held to it.
+type Timing = 'any' | 'before_start' | 'join_window' | 'after_start' | 'after_no_show_grace';
+
+interface Transition {
+  from: string[];
+  to: string;
+  by: Party[];
+  when: Timing;
+  wallet: WalletMove;
+  // Refund a gateway payment under the refund policy
+  refund: boolean;
+  // Recorded as cancelled_by, so the refund policy knows whose doing it was
+  calledOffBy?: Party;
+}
+
+// 'accepted' and 'confirmed' are older names for 'scheduled'
+const BOOKED = ['scheduled', 'accepted', 'confirmed'];
+
+export const TRANSITIONS: Record<SessionAction, Transition> = {
+  accept: { from: ['pending'], to: 'scheduled', by: ['mentor'], when: 'before_start', wallet: 'reserve', refund: false },
+  decline: { from: ['pending'], to: 'declined', by: ['mentor'], when: 'any', wallet: 'release', refund: true, calledOffBy: 'mentor' },
+  start: { from: BOOKED, to: 'in_progress', by: ['student', 'mentor'], when: 'join_window', wallet: 'none', refund: false },
+  // Older app builds never start a session, so a booked one can be completed directly
+  complete: { from: ['in_progress', ...BOOKED], to: 'completed', by: ['student', 'mentor'], when: 'after_start', wallet: 'capture', refund: false },
+  cancel_by_student: { from: ['pending', ...BOOKED], to: 'cancelled', by: ['student'], when: 'before_start', wallet: 'release', refund: true, calledOffBy: 'student' },
+  cancel_by_mentor: { from: ['pending', ...BOOKED], to: 'cancelled', by: ['mentor'], when: 'before_start', wallet: 'release', refund: true, calledOffBy: 'mentor' },
+  // Reported by the party who turned up; a session one of them started still counts
+  student_no_show: { from: [...BOOKED, 'in_progress'], to: 'no_show', by: ['mentor'], when: 'after_no_show_grace', wallet: 'capture', refund: false, calledOffBy: 'student' },
+  mentor_no_show: { from: [...BOOKED, 'in_progress'], to: 'no_show', by: ['student'], when: 'after_no_show_grace', wallet: 'release', refund: true, calledOffBy: 'mentor' },
+  // Admins and the stale session sweep only: a request the mentor never answered,
+  // and a booking neither party turned up for
+  expire: { from: ['pending'], to: 'cancelled', by: [], when: 'any', wallet: 'release', refund: true, calledOffBy: 'mentor' },
+  both_no_show: { from: BOOKED, to: 'no_show', by: [], when: 'after_no_show_grace', wallet: 'capture', refund: true },
+};
+
+// Share (0–1) of the booked price captured from the wallet when the student
+// missed the session alone or together with the mentor. A mentor who missed it
+// never gets paid.
+export interface NoShowPolicy {
+  studentAbsentPercent: number;
+  bothAbsentPercent: number;
+}
+
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicy = { studentAbsentPercent: 1, bothAbsentPercent: 0 };
+
+/** Parses a JSON no-show policy from config; missing or invalid shares keep their default. */
+export function parseNoShowPolicy(raw: string | undefined): NoShowPolicy {
+  let parsed: any = {};
+  try {
+    parsed = raw ? JSON.parse(raw) : {};
+  } catch {
+    return DEFAULT_NO_SHOW_POLICY;
+  }
+  const share = (value: unknown, fallback: number) => (typeof value === 'number' && value >= 0 && value <= 1 ? value : fallback);
+  return {
+    studentAbsentPercent: share(parsed?.studentAbsentPercent, DEFAULT_NO_SHOW_POLICY.studentAbsentPercent),
+    bothAbsentPercent: share(parsed?.bothAbsentPercent, DEFAULT_NO_SHOW_POLICY.bothAbsentPercent),
+  };
+}
+
+export const SESSION_ACTIONS = Object.keys(TRANSITIONS) as SessionAction[];
+
+// Same window as generate-agora-token's default join grace
+export const JOIN_GRACE_MINUTES = 15;
+// How late the other party may be before a no-show can be reported
+export const NO_SHOW_GRACE_MINUTES = 15;
+
+const MINUTE = 60_000;
+
+function timingAllows(when: Timing, session: Pick<SessionPricing, 'scheduledTime' | 'bookedMinutes'>, now: Date): boolean {
+  const start = Date.parse(session.scheduledTime);
+  const t = now.getTime();
+  switch (when) {
+    case 'any': return true;
+    case 'before_start': return t < start;
+    case 'join_window': return t >= start - JOIN_GRACE_MINUTES * MINUTE && t < start + session.bookedMinutes * MINUTE;
+    case 'after_start': return t >= start;
+    case 'after_no_show_grace': return t >= start + NO_SHOW_GRACE_MINUTES * MINUTE;
+  }
+}
+
+const TIMING_MESSAGES: Record<Timing, string> = {
+  any: '',
+  before_start: 'only before the session starts',
+  join_window: `only from ${JOIN_GRACE_MINUTES} minutes before the start until the booked end`,
+  after_start: 'only once the session has started',
+  after_no_show_grace: `only ${NO_SHOW_GRACE_MINUTES} minutes after the start`,
+};
+
+/** The transition for `action`, or an HttpsError saying why this actor cannot take it now. */
+export function checkTransition(
+  session: Pick<SessionPricing, 'status' | 'scheduledTime' | 'bookedMinutes'>,
+  action: SessionAction,
+  actor: ActorRole,
+  now: Date,
+): Transition {
+  const transition = TRANSITIONS[action];
+  const privileged = actor === 'admin' || actor === 'system';
+  if (!privileged && !transition.by.includes(actor)) {
+    throw new functions.https.HttpsError('permission-denied', `The ${actor} cannot ${action.replace(/_/g, ' ')} this session`);
+  }
+  if (!transition.from.includes(session.status)) {
+    throw new functions.https.HttpsError('failed-precondition', `Cannot ${action.replace(/_/g, ' ')} a session that is ${session.status}`);
+  }
+  if (!privileged && !timingAllows(transition.when, session, now)) {
+    throw new functions.https.HttpsError('failed-precondition', `This can be done ${TIMING_MESSAGES[transition.when]}`);
+  }
+  return transition;
+}
+
+export type RefundOutcome = 'none' | 'requested' | 'manual' | 'failed';
+
+export interface Charge {
+  minutes: number;
+  // Time the student and mentor were in the call together, when Agora reported it
+  usageSeconds?: number;
+  amountMinor: number;
+  mentorAmount: number;
+  platformFee: number;
+  currency: string;
+}
+
+export interface TransitionResult {
+  sessionId: string;
+  studentId: string;
+  mentorId: string;
+  action: SessionAction;
+  from: string;
+  status: string;
+  // What happened to the wallet funds: 'reserved', 'released', 'captured' or 'none'
+  wallet: string;
+  refund: RefundOutcome;
+  // What was reserved or captured, when the wallet moved
+  charge?: Charge;
+}
+
+// The completed gateway payment for the session (process-payment), if any
+async function gatewayPayment(sessionId: string): Promise<string | null> {
+  const { data, error } = await clients().supabase!.from('payment_transactions')
+    .select('transaction_id')
+    .eq('session_id', sessionId)
+    .eq('status', 'completed')
+    .limit(1).maybeSingle();
+  if (error) throw new functions.https.HttpsError('internal', `Payment lookup failed: ${error.message}`);
+  return data?.transaction_id ?? null;
+}
+
+// Stripe payments go through process-refund; other gateways are refunded by hand
+async function refundGatewayPayment(sessionId: string, paymentId: string, reason: string): Promise<RefundOutcome> {
+  if (!paymentId.startsWith('pi_')) {
+    await logAlert('manual_refund_required', 'warning', 'Cancelled session was paid outside Stripe; refund it by hand', { sessionId, paymentId });
+    return 'manual';
+  }
+  const { error } = await clients().supabase!.functions.invoke('process-refund', { body: { sessionId, reason } });
+  if (!error) return 'requested';
+  // Nothing left to refund under the policy (e.g. a late cancellation)
+  if ((error as any).context?.status === 422) return 'none';
+  await logAlert('session_refund_failed', 'error', 'Refund after a session transition failed', { sessionId, paymentId, reason: error.message });
+  return 'failed';
+}
+
+function actorRole(actor: Actor, pricing: SessionPricing): ActorRole {
+  if (!actor.uid) return 'system';
+  if (actor.uid === pricing.studentId) return 'student';
+  if (actor.uid === pricing.mentorId) return 'mentor';
+  if (actor.admin) return 'admin';
+  throw new functions.https.HttpsError('permission-denied', 'Not a party to this session');
+}
+
+/**
+ * Takes `action` on the session for `actor`. Fails without changing anything
+ * when the action is not allowed, the session moved on in the meantime, or the
+ * student's wallet cannot cover an accepted booking.
+ */
+export async function applySessionTransition(
+  sessionId: string,
+  action: SessionAction,
+  actor: Actor,
+  feeSchedule: FeeSchedule,
+  options: { reason?: string; now?: Date; noShow?: NoShowPolicy; usage?: UsagePolicy } = {},
+): Promise<TransitionResult> {
+  const { supabase } = clients();
+  if (!supabase) throw new functions.https.HttpsError('failed-precondition', 'Supabase not configured');
+  let pricing: SessionPricing | null;
+  try {
+    pricing = await loadSessionPricing(sessionId);
+  } catch (err: any) {
+    throw new functions.https.HttpsError('internal', String(err?.message || err));
+  }
+  if (!pricing) throw new functions.https.HttpsError('not-found', 'Session not found');
+  const role = actorRole(actor, pricing);
+  const now = options.now ?? new Date();
+  const transition = checkTransition(pricing, action, role, now);
+
+  const paymentId = transition.wallet === 'reserve' || transition.refund ? await gatewayPayment(sessionId) : null;
+  const noShow = options.noShow ?? DEFAULT_NO_SHOW_POLICY;
+  // Share of the booked price a no-show pays
+  const share = action === 'student_no_show' ? noShow.studentAbsentPercent : action === 'both_no_show' ? noShow.bothAbsentPercent : 1;
+  // A session paid through a gateway has nothing to reserve; a no-show the policy
+  // does not charge only releases the reservation
+  const wallet: WalletMove = transition.wallet === 'reserve' && paymentId ? 'none'
+    : transition.wallet === 'capture' && share === 0 ? 'release'
+    : transition.wallet;
+  let charge: Charge | undefined;
+  if (wallet === 'reserve' || wallet === 'capture') {
+    const hourlyRate = pricing.hourlyRate;
+    if (!hourlyRate) throw new functions.https.HttpsError('failed-precondition', pricing.rateError ?? 'Session cannot be priced');
+    // A completed session bills the verified call time (the booking when Agora
+    // reported none); a no-show pays its share of the booking
+    const usageSeconds = action === 'complete'
+      ? await verifiedUsageSeconds(pricing, now).catch((err: any) => { throw new functions.https.HttpsError('internal', String(err?.message || err)); })
+      : null;
+    const usage = options.usage ?? DEFAULT_USAGE_POLICY;
+    const minutes = usageSeconds === null ? pricing.bookedMinutes : billedMinutes(usageSeconds, pricing.bookedMinutes, usage);
+    let total = usageSeconds === null ? ratio(hourlyRate, minutes, 60) : usageTotal(hourlyRate, minutes, pricing.bookedMinutes, usage);
+    if (share < 1) total = multiply(total, share);
+    const platform = platformFee(total, feeSchedule);
+    const mentor = subtract(total, platform);
+    charge = {
+      minutes,
+      ...(usageSeconds !== null ? { usageSeconds } : {}),
+      amountMinor: total.amountMinor,
+      mentorAmount: mentor.amountMinor,
+      platformFee: platform.amountMinor,
+      currency: total.currency,
+    };
+  }
+
+  const calledOffBy = transition.calledOffBy === 'student' ? pricing.studentId : transition.calledOffBy === 'mentor' ? pricing.mentorId : null;
+  const { data, error } = await supabase.rpc('apply_session_transition', {
+    p_session_id: sessionId,
+    p_action: action,
+    p_from: transition.from,
+    p_to: transition.to,
+    p_actor_id: actor.uid ?? null,
+    p_actor_role: role,
+    p_reason: options.reason ?? null,
+    p_cancelled_by: calledOffBy,
+    p_wallet: wallet,
+    p_amounts: charge ? { total: charge.amountMinor, mentor: charge.mentorAmount, platform: charge.platformFee, currency: charge.currency } : null,
+  });
+  if (error) throw new functions.https.HttpsError('internal', error.message);
+  if (data?.status === 'invalid_state') {
+    throw new functions.https.HttpsError('failed-precondition', `Cannot ${action.replace(/_/g, ' ')} a session that is ${data.current}`);
+  }
+  if (data?.status === 'insufficient_funds') {
+    throw new functions.https.HttpsError('failed-precondition', "The student's wallet cannot cover this session");
+  }
+  if (data?.status !== 'applied') throw new functions.https.HttpsError('not-found', 'Session not found');
+
+  const refund = transition.refund && paymentId
+    ? await refundGatewayPayment(sessionId, paymentId, options.reason || `Session ${transition.to}`)
+    : 'none';
+  const result: TransitionResult = {
+    sessionId, studentId: pricing.studentId, mentorId: pricing.mentorId, action, from: data.from, status: transition.to, wallet: data.wallet, refund,
+  };
+  if (charge && data.wallet !== 'none') result.charge = charge;
+  return result;
+}
@@ -0,0 +1,443 @@
+// Gateway settlement reconciliation: compares Stripe balance transactions and
+// Razorpay settlement reports for a date range with the payments, top-ups,
+// refunds and payouts we recorded, matched by gateway id.
+// Clients are passed in so the job can be exercised against recorded fixtures.
+
+import type Stripe from 'stripe';
+import type { RazorpayApi, StripeApi, SupabaseApi } from './clients.js';
+import { fromMajor } from './money.js';
+
+export type SettlementGateway = 'stripe' | 'razorpay';
+export type SettlementKind = 'payment' | 'refund' | 'payout';
+
+export interface SettlementItem {
+  gateway: SettlementGateway;
+  kind: SettlementKind;
+  // Primary gateway id (ch_/re_/du_/tr_, pay_/rfnd_) and related ids that may identify the same money
+  id: string;
+  altIds: string[];
+  // Positive, minor units
+  amount: number;
+  currency: string;
+  occurredAt: string;
+  // Where the item came from: the gateway object type, or `<table>:<row id>` for our records
+  source: string;
+}
+
+export interface Discrepancy {
+  issue: 'missing' | 'extra' | 'mismatch';
+  gateway: SettlementGateway;
+  kind: SettlementKind;
+  gatewayId: string;
+  occurredAt: string;
+  atGateway?: { amount: number; currency: string };
+  inLedger?: { amount: number; currency: string; record: string };
+}
+
+export interface SettlementReport {
+  from: string;
+  to: string;
+  gateways: SettlementGateway[];
+  gatewayItems: number;
+  ledgerItems: number;
+  matched: number;
+  // At the gateway but not in our records
+  missing: Discrepancy[];
+  // In our records but not at the gateway
+  extra: Discrepancy[];
+  mismatched: Discrepancy[];
+}
+
+export type AlertFn = (type: string, severity: 'info' | 'warning' | 'error' | 'critical', message: string, details?: Record<string, any>) => Promise<void>;
+
+export interface SettlementDeps {
+  stripe?: Pick<StripeApi, 'balanceTransactions'>;
+  razorpay?: Pick<RazorpayApi, 'settlements'>;
+  supabase: SupabaseApi;
+  alert: AlertFn;
+}
+
+export interface SettlementOptions {
+  from: Date;
+  to: Date;
+  gateways?: SettlementGateway[];
+  // Gateway items are fetched this far either side of the range so that
+  // records near the edges still find their match (Razorpay settles T+2)
+  lagDays?: number;
+}
+
+export const SETTLEMENT_JOB = 'settlement_reconciliation';
+export const SETTLEMENT_LAG_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+// Per-item alerts per run; the stored report keeps the full list
+const MAX_ITEM_ALERTS = 100;
+
+type Signed = SettlementItem & { signed: number };
+
+function idOf(value: string | { id: string } | null | undefined): string | undefined {
+  if (!value) return undefined;
+  return typeof value === 'string' ? value : value.id;
+}
+
+/**
+ * Maps one Stripe balance transaction (with `source` expanded) to a signed item.
+ * Outflows are negative so reversals, refund failures and won disputes cancel out
+ * when merged. Fees, bank payouts and other balance movements are ignored.
+ */
+export function stripeBalanceItem(bt: Stripe.BalanceTransaction): Signed | null {
+  const src: any = bt.source;
+  const id = idOf(src);
+  if (!id) return null;
+  const sign = bt.amount < 0 ? -1 : 1;
+  const expanded = typeof src === 'object';
+  const base = {
+    gateway: 'stripe' as const,
+    id,
+    occurredAt: new Date(bt.created * 1000).toISOString(),
+    source: bt.type,
+    // The source amount is in the charge currency; bt.amount may be converted
+    amount: expanded ? src.amount : Math.abs(bt.amount),
+    currency: (expanded ? src.currency : bt.currency).toUpperCase(),
+  };
+
+  switch (bt.type) {
+    case 'charge':
+    case 'payment':
+      return { ...base, kind: 'payment', altIds: expanded ? [idOf(src.payment_intent)].filter(Boolean) as string[] : [], signed: sign * base.amount };
+    case 'refund':
+    case 'payment_refund':
+    case 'refund_failure':
+    case 'payment_failure_refund':
+      return { ...base, kind: 'refund', altIds: [], signed: sign * base.amount };
+    case 'adjustment':
+      if (!id.startsWith('du_')) return null;
+      return { ...base, kind: 'refund', altIds: [], signed: sign * base.amount };
+    case 'transfer':
+    case 'transfer_cancel':
+    case 'transfer_failure':
+    case 'transfer_refund':
+      return { ...base, kind: 'payout', altIds: [], signed: sign * base.amount };
+    default:
+      return null;
+  }
+}
+
+/** Maps one Razorpay settlement recon row to a signed item. Route transfers and adjustments are ignored. */
+export function razorpaySettlementItem(row: any): Signed | null {
+  const amount = Number(row.amount);
+  const base = {
+    gateway: 'razorpay' as const,
+    id: row.entity_id as string,
+    amount,
+    currency: String(row.currency || 'INR').toUpperCase(),
+    occurredAt: new Date(Number(row.created_at) * 1000).toISOString(),
+    source: row.type as string,
+  };
+  if (row.type === 'payment') {
+    return { ...base, kind: 'payment', altIds: row.order_id ? [row.order_id] : [], signed: amount };
+  }
+  if (row.type === 'refund') {
+    return { ...base, kind: 'refund', altIds: [], signed: -amount };
+  }
+  return null;
+}
+
+/** Merges signed items sharing a gateway id and drops those that net to zero. */
+export function mergeGatewayItems(items: Signed[]): SettlementItem[] {
+  const byId = new Map<string, Signed>();
+  for (const item of items) {
+    const key = `${item.gateway}:${item.id}`;
+    const prior = byId.get(key);
+    if (!prior) {
+      byId.set(key, { ...item, altIds: [...item.altIds] });
+      continue;
+    }
+    prior.signed += item.signed;
+    for (const alt of item.altIds) if (!prior.altIds.includes(alt)) prior.altIds.push(alt);
+    // Keep the first occurrence (the original movement) as the item's time
+    if (item.occurredAt < prior.occurredAt) prior.occurredAt = item.occurredAt;
+  }
+  const merged: SettlementItem[] = [];
+  for (const { signed, ...item } of byId.values()) {
+    if (signed === 0) continue;
+    merged.push({ ...item, amount: Math.abs(signed) });
+  }
+  return merged;
+}
+
+/**
+ * Matches gateway items to our records by gateway id (or a related id, e.g. a
+ * charge's payment intent or a Razorpay payment's order). Only items whose own
+ * time falls inside [from, to) are reported; the rest only serve as matches.
+ */
+export function reconcileSettlement(
+  gatewayItems: SettlementItem[],
+  ledgerItems: SettlementItem[],
+  range: { from: Date; to: Date },
+): Pick<SettlementReport, 'matched' | 'missing' | 'extra' | 'mismatched'> {
+  const from = range.from.toISOString();
+  const to = range.to.toISOString();
+  const inRange = (item: SettlementItem) => item.occurredAt >= from && item.occurredAt < to;
+
+  const index = new Map<string, SettlementItem>();
+  for (const item of gatewayItems) {
+    for (const id of [item.id, ...item.altIds]) {
+      const key = `${item.gateway}:${item.kind}:${id}`;
+      if (!index.has(key)) index.set(key, item);
+    }
+  }
+
+  const report = { matched: 0, missing: [] as Discrepancy[], extra: [] as Discrepancy[], mismatched: [] as Discrepancy[] };
+  const seen = new Set<SettlementItem>();
+  for (const record of ledgerItems) {
+    const match = [record.id, ...record.altIds]
+      .map((id) => index.get(`${record.gateway}:${record.kind}:${id}`))
+      .find((item) => item !== undefined);
+    const inLedger = { amount: record.amount, currency: record.currency, record: record.source };
+    if (!match) {
+      if (inRange(record)) {
+        report.extra.push({ issue: 'extra', gateway: record.gateway, kind: record.kind, gatewayId: record.id, occurredAt: record.occurredAt, inLedger });
+      }
+      continue;
+    }
+    // The same gateway payment can be recorded by more than one table; count it once
+    if (seen.has(match)) continue;
+    seen.add(match);
+    if (!inRange(match) && !inRange(record)) continue;
+    if (match.amount === record.amount && match.currency === record.currency) {
+      report.matched++;
+    } else {
+      report.mismatched.push({
+        issue: 'mismatch', gateway: match.gateway, kind: match.kind, gatewayId: match.id, occurredAt: match.occurredAt,
+        atGateway: { amount: match.amount, currency: match.currency }, inLedger,
+      });
+    }
+  }
+
+  for (const item of gatewayItems) {
+    if (seen.has(item) || !inRange(item)) continue;
+    report.missing.push({
+      issue: 'missing', gateway: item.gateway, kind: item.kind, gatewayId: item.id, occurredAt: item.occurredAt,
+      atGateway: { amount: item.amount, currency: item.currency },
+    });
+  }
+  return report;
+}
+
+export async function fetchStripeItems(stripe: Pick<StripeApi, 'balanceTransactions'>, from: Date, to: Date): Promise<SettlementItem[]> {
+  const items: Signed[] = [];
+  let startingAfter: string | undefined;
+  for (;;) {
+    const page = await stripe.balanceTransactions.list({
+      created: { gte: Math.floor(from.getTime() / 1000), lt: Math.floor(to.getTime() / 1000) },
+      limit: 100,
+      expand: ['data.source'],
+      ...(startingAfter ? { starting_after: startingAfter } : {}),
+    });
+    for (const bt of page.data) {
+      const item = stripeBalanceItem(bt);
+      if (item) items.push(item);
+    }
+    if (!page.has_more || page.data.length === 0) break;
+    startingAfter = page.data[page.data.length - 1].id;
+  }
+  return mergeGatewayItems(items);
+}
+
+/** Razorpay reports settlements per day; fetches every UTC day in [from, to). */
+export async function fetchRazorpayItems(razorpay: Pick<RazorpayApi, 'settlements'>, from: Date, to: Date): Promise<SettlementItem[]> {
+  const items: Signed[] = [];
+  for (let day = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate())); day < to; day = new Date(day.getTime() + DAY_MS)) {
+    for (let skip = 0; ; skip += PAGE_SIZE) {
+      // The SDK types this as a single row; the API returns a collection
+      const page: any = await razorpay.settlements.reports({
+        year: day.getUTCFullYear(),
+        month: day.getUTCMonth() + 1,
+        day: day.getUTCDate(),
+        count: PAGE_SIZE,
+        skip,
+      });
+      const rows: any[] = page?.items ?? [];
+      for (const row of rows) {
+        const item = razorpaySettlementItem(row);
+        if (item) items.push(item);
+      }
+      if (rows.length < PAGE_SIZE) break;
+    }
+  }
+  return mergeGatewayItems(items);
+}
+
+function gatewayForId(id: string): SettlementGateway | null {
+  if (/^(pi|ch|py)_/.test(id)) return 'stripe';
+  if (/^(pay|order)_/.test(id)) return 'razorpay';
+  return null;
+}
+
+async function selectAll(query: () => any): Promise<any[]> {
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await query().range(offset, offset + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Loads what we recorded as moving through a gateway in [from, to): session
+ * payments, wallet top-ups, refunds (including lost disputes) and Stripe
+ * Connect payout transfers. RazorpayX payouts are not part of Razorpay
+ * settlements and are not reconciled here.
+ */
+export async function loadLedgerItems(sb: SupabaseApi, from: Date, to: Date): Promise<SettlementItem[]> {
+  const gte = from.toISOString();
+  const lt = to.toISOString();
+  const items: SettlementItem[] = [];
+
+  const payments = await selectAll(() => sb.from('payment_transactions')
+    .select('id, amount, currency, transaction_id, created_at')
+    .in('status', ['completed', 'refunded'])
+    .not('transaction_id', 'is', null)
+    .gte('created_at', gte).lt('created_at', lt)
+    .order('created_at'));
+  for (const p of payments) {
+    const gateway = gatewayForId(p.transaction_id);
+    if (!gateway) continue; // wallet-funded
+    // payment_transactions.amount is in major units
+    const amount = fromMajor(p.amount, p.currency || 'INR', 'half_up');
+    items.push({
+      gateway, kind: 'payment', id: p.transaction_id, altIds: [],
+      amount: amount.amountMinor,
+      currency: amount.currency,
+      occurredAt: new Date(p.created_at).toISOString(),
+      source: `payment_transactions:${p.id}`,
+    });
+  }
+
+  const direct = await selectAll(() => sb.from('session_payments')
+    .select('session_id, amount_total, currency, payment_gateway, payment_intent_id, charge_id, created_at')
+    .eq('payment_mode', 'direct')
+    .in('status', ['captured', 'released', 'refunded'])
+    .gte('created_at', gte).lt('created_at', lt)
+    .order('created_at'));
+  for (const s of direct) {
+    const ids = [s.charge_id, s.payment_intent_id].filter(Boolean) as string[];
+    if (ids.length === 0 || !s.payment_gateway) continue;
+    items.push({
+      gateway: s.payment_gateway, kind: 'payment', id: ids[0], altIds: ids.slice(1),
+      amount: s.amount_total,
+      currency: String(s.currency || 'INR').toUpperCase(),
+      occurredAt: new Date(s.created_at).toISOString(),
+      source: `session_payments:${s.session_id}`,
+    });
+  }
+
+  const topups = await selectAll(() => sb.from('ledger_transactions')
+    .select('id, amount, currency, payment_intent_id, created_at')
+    .eq('transaction_type', 'topup')
+    .not('payment_intent_id', 'is', null)
+    .gte('created_at', gte).lt('created_at', lt)
+    .order('created_at'));
+  for (const t of topups) {
+    const gateway = gatewayForId(t.payment_intent_id);
+    if (!gateway) continue;
+    items.push({
+      gateway, kind: 'payment', id: t.payment_intent_id, altIds: [],
+      amount: t.amount,
+      currency: String(t.currency || 'INR').toUpperCase(),
+      occurredAt: new Date(t.created_at).toISOString(),
+      source: `ledger_transactions:${t.id}`,
+    });
+  }
+
+  const refunds = await selectAll(() => sb.from('payment_refunds')
+    .select('gateway, gateway_refund_id, amount, currency, created_at')
+    .gte('created_at', gte).lt('created_at', lt)
+    .order('created_at'));
+  for (const r of refunds) {
+    items.push({
+      gateway: r.gateway, kind: 'refund', id: r.gateway_refund_id, altIds: [],
+      amount: r.amount,
+      currency: String(r.currency || 'INR').toUpperCase(),
+      occurredAt: new Date(r.created_at).toISOString(),
+      source: `payment_refunds:${r.gateway}:${r.gateway_refund_id}`,
+    });
+  }
+
+  const payouts = await selectAll(() => sb.from('payout_requests')
+    .select('id, amount, currency, transfer_id, processed_at, created_at')
+    .eq('gateway', 'stripe')
+    .in('status', ['pending', 'paid'])
+    .not('transfer_id', 'is', null)
+    .gte('created_at', gte).lt('created_at', lt)
+    .order('created_at'));
+  for (const p of payouts) {
+    items.push({
+      gateway: 'stripe', kind: 'payout', id: p.transfer_id, altIds: [],
+      amount: p.amount,
+      currency: String(p.currency || 'INR').toUpperCase(),
+      occurredAt: new Date(p.processed_at ?? p.created_at).toISOString(),
+      source: `payout_requests:${p.id}`,
+    });
+  }
+  return items;
+}
+
+const ISSUE_ALERTS: Record<Discrepancy['issue'], { type: string; message: string }> = {
+  missing: { type: 'settlement_missing', message: 'Gateway settled an item we have no record of' },
+  extra: { type: 'settlement_extra', message: 'Recorded item not found in the gateway settlement' },
+  mismatch: { type: 'settlement_mismatch', message: 'Gateway settled a different amount than we recorded' },
+};
+
+/**
+ * Reconciles gateway settlements for [from, to) against our records, raises
+ * one admin alert per unresolved item and stores the report in `scheduled_job_runs`.
+ */
+export async function runSettlementReconciliation(deps: SettlementDeps, opts: SettlementOptions): Promise<SettlementReport> {
+  const lagMs = (opts.lagDays ?? SETTLEMENT_LAG_DAYS) * DAY_MS;
+  const fetchFrom = new Date(opts.from.getTime() - lagMs);
+  const fetchTo = new Date(opts.to.getTime() + lagMs);
+  const gateways = (opts.gateways ?? ['stripe', 'razorpay']).filter((g) => (g === 'stripe' ? deps.stripe : deps.razorpay));
+  if (gateways.length === 0) throw new Error('No gateway configured');
+
+  const gatewayItems: SettlementItem[] = [];
+  if (gateways.includes('stripe')) gatewayItems.push(...await fetchStripeItems(deps.stripe!, fetchFrom, fetchTo));
+  if (gateways.includes('razorpay')) gatewayItems.push(...await fetchRazorpayItems(deps.razorpay!, fetchFrom, fetchTo));
+  const ledgerItems = (await loadLedgerItems(deps.supabase, fetchFrom, fetchTo))
+    .filter((item) => gateways.includes(item.gateway));
+
+  const report: SettlementReport = {
+    from: opts.from.toISOString(),
+    to: opts.to.toISOString(),
+    gateways,
+    gatewayItems: gatewayItems.length,
+    ledgerItems: ledgerItems.length,
+    ...reconcileSettlement(gatewayItems, ledgerItems, opts),
+  };
+
+  const unresolved = [...report.mismatched, ...report.missing, ...report.extra];
+  for (const item of unresolved.slice(0, MAX_ITEM_ALERTS)) {
+    const { type, message } = ISSUE_ALERTS[item.issue];
+    await deps.alert(type, item.issue === 'extra' ? 'error' : 'critical', message, { ...item, from: report.from, to: report.to });
+  }
+  if (unresolved.length > 0) {
+    await deps.alert('settlement_reconciliation_summary', 'warning', 'Gateway settlement has unresolved items', {
+      from: report.from, to: report.to, gateways, matched: report.matched,
+      missing: report.missing.length, extra: report.extra.length, mismatched: report.mismatched.length,
+      alerted: Math.min(unresolved.length, MAX_ITEM_ALERTS),
+    });
+  }
+
+  const { error } = await deps.supabase.from('scheduled_job_runs').insert({
+    job_name: SETTLEMENT_JOB,
+    status: 'completed',
+    cutoff: report.to,
+    summary: report,
+    finished_at: new Date().toISOString(),
+  });
+  if (error) throw new Error(`scheduled_job_runs insert failed: ${error.message}`);
+  return report;
+}
@@ -0,0 +1,12 @@
+// Webhook signature helpers.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/** Constant-time comparison of a hex HMAC-SHA256 signature over the raw request body. */
+export function verifyHmacSha256Hex(body: Buffer | string, signature: string | undefined, secret: string): boolean {
+  if (!signature || !secret) return false;
+  const expected = createHmac('sha256', secret).update(body).digest();
+  const provided = Buffer.from(signature, 'hex');
+  // timingSafeEqual throws on length mismatch; a wrong length is simply invalid
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,195 @@
+// Stripe payment, refund and dispute events → ledger.
+
+import type Stripe from 'stripe';
+import { clients, logAlert } from './clients.js';
+import { money } from './money.js';
+import { handleStripeTransferEvent } from './payouts.js';
+import { applyGatewayRefund, loadSessionSplit, sessionIdForPayment, splitRefund } from './refunds.js';
+
+const idOf = (ref: string | { id: string } | null | undefined) => (typeof ref === 'string' ? ref : ref?.id) ?? undefined;
+
+// Refunds created by the process-refund edge function post their own ledger entries.
+const LEDGER_POSTED_BY_CALLER = 'process-refund';
+
+async function applyStripeRefund(refund: Stripe.Refund, sessionId: string, chargeId?: string) {
+  if (refund.status !== 'succeeded') return;
+  if (refund.metadata?.source === LEDGER_POSTED_BY_CALLER) return;
+  await applyGatewayRefund({
+    gateway: 'stripe',
+    refundId: refund.id,
+    sessionId,
+    amount: refund.amount,
+    currency: refund.currency,
+    chargeId: chargeId ?? idOf(refund.charge),
+    paymentIntentId: idOf(refund.payment_intent),
+    source: 'webhook',
+  });
+}
+
+async function unmatchedRefundAlert(charge: Pick<Stripe.Charge, 'id' | 'metadata' | 'amount_refunded'>, paymentIntentId?: string) {
+  // Wallet top-ups carry metadata.uid and have no session; reversing them needs manual review
+  const isTopup = Boolean(charge.metadata?.uid);
+  await logAlert(isTopup ? 'topup_refund_requires_review' : 'refund_unmatched', 'warning',
+    isTopup ? 'Stripe refund on a wallet top-up' : 'Stripe refund could not be matched to a session', {
+      chargeId: charge.id, paymentIntentId, uid: charge.metadata?.uid, amountRefunded: charge.amount_refunded,
+    });
+}
+
+/** charge.refunded: fired for every (partial) refund, including ones issued from the dashboard. */
+export async function handleChargeRefunded(charge: Stripe.Charge) {
+  const { stripe, supabase } = clients();
+  if (!stripe || !supabase) throw new Error('Stripe/Supabase not configured');
+  const paymentIntentId = idOf(charge.payment_intent);
+  const sessionId = await sessionIdForPayment(paymentIntentId, charge.metadata);
+  if (!sessionId) { await unmatchedRefundAlert(charge, paymentIntentId); return; }
+
+  // The event payload only carries the cumulative amount_refunded, so list the refunds and apply each one once
+  for await (const refund of stripe.refunds.list({ charge: charge.id, limit: 100 })) {
+    await applyStripeRefund(refund, sessionId, charge.id);
+  }
+
+  if (charge.refunded && paymentIntentId) {
+    await supabase.from('payment_transactions').update({ status: 'refunded' }).eq('transaction_id', paymentIntentId);
+  }
+}
+
+/** charge.refund.updated: refunds that were pending when charge.refunded fired. */
+export async function handleRefundUpdated(refund: Stripe.Refund) {
+  if (refund.status !== 'succeeded') {
+    if (refund.status === 'failed') {
+      await logAlert('refund_failed', 'error', 'Stripe refund failed', {
+        refundId: refund.id, chargeId: idOf(refund.charge), reason: refund.failure_reason,
+      });
+    }
+    return;
+  }
+  const paymentIntentId = idOf(refund.payment_intent);
+  let sessionId = await sessionIdForPayment(paymentIntentId, refund.metadata);
+  const { stripe } = clients();
+  if (!sessionId && stripe && refund.charge) {
+    const charge = await stripe.charges.retrieve(idOf(refund.charge)!);
+    sessionId = await sessionIdForPayment(paymentIntentId, charge.metadata);
+  }
+  if (!sessionId) {
+    await logAlert('refund_unmatched', 'warning', 'Stripe refund could not be matched to a session', {
+      refundId: refund.id, paymentIntentId,
+    });
+    return;
+  }
+  await applyStripeRefund(refund, sessionId);
+}
+
+async function disputeSession(dispute: Stripe.Dispute) {
+  const paymentIntentId = idOf(dispute.payment_intent);
+  const chargeId = idOf(dispute.charge);
+  let sessionId = await sessionIdForPayment(paymentIntentId, dispute.metadata);
+  const { stripe } = clients();
+  if (!sessionId && stripe && chargeId) {
+    const charge = await stripe.charges.retrieve(chargeId);
+    sessionId = await sessionIdForPayment(paymentIntentId, charge.metadata);
+  }
+  return { sessionId, paymentIntentId, chargeId };
+}
+
+/** charge.dispute.created: freeze the mentor's share of the disputed amount. */
+export async function handleDisputeCreated(dispute: Stripe.Dispute) {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const { sessionId, paymentIntentId, chargeId } = await disputeSession(dispute);
+  const details = { disputeId: dispute.id, chargeId, paymentIntentId, sessionId, amount: dispute.amount, currency: dispute.currency, reason: dispute.reason };
+  if (!sessionId) {
+    await logAlert('payment_dispute_unmatched', 'critical', 'Stripe dispute opened on a payment with no session', details);
+    return;
+  }
+  const split = await loadSessionSplit(sessionId);
+  if (!split) throw new Error(`Session ${sessionId} not found for dispute ${dispute.id}`);
+
+  const { mentor } = splitRefund(money(dispute.amount, dispute.currency), split);
+  const { data: held, error } = await supabase.rpc('process_dispute_hold', {
+    p_dispute_id: dispute.id,
+    p_session_id: sessionId,
+    p_mentor_id: split.mentorId,
+    p_amount: dispute.amount,
+    p_mentor_share: mentor.amountMinor,
+    p_currency: mentor.currency,
+    p_charge_id: chargeId ?? null,
+    p_payment_intent_id: paymentIntentId ?? null,
+    p_reason: dispute.reason,
+  });
+  if (error) throw new Error(`process_dispute_hold failed: ${error.message}`);
+
+  await logAlert('payment_dispute_opened', 'critical', 'Stripe dispute opened; mentor share frozen', {
+    ...details, mentorId: split.mentorId, mentorShare: mentor.amountMinor, heldFromAvailable: held,
+  });
+}
+
+/** charge.dispute.closed: lost → post as a refund; won/warning_closed → release the hold. */
+export async function handleDisputeClosed(dispute: Stripe.Dispute) {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const { sessionId, paymentIntentId, chargeId } = await disputeSession(dispute);
+  const lost = dispute.status === 'lost';
+  const details = { disputeId: dispute.id, chargeId, paymentIntentId, sessionId, amount: dispute.amount, status: dispute.status };
+  if (!sessionId) {
+    await logAlert('payment_dispute_unmatched', 'critical', 'Stripe dispute closed on a payment with no session', details);
+    return;
+  }
+
+  if (lost) {
+    await applyGatewayRefund({
+      gateway: 'stripe',
+      refundId: dispute.id,
+      sessionId,
+      amount: dispute.amount,
+      currency: dispute.currency,
+      chargeId,
+      paymentIntentId,
+      source: 'dispute',
+    });
+  }
+  const { error } = await supabase.rpc('process_dispute_close', { p_dispute_id: dispute.id, p_outcome: lost ? 'lost' : 'won' });
+  if (error) throw new Error(`process_dispute_close failed: ${error.message}`);
+
+  await logAlert(lost ? 'payment_dispute_lost' : 'payment_dispute_won', lost ? 'error' : 'info',
+    lost ? 'Stripe dispute lost; amount reversed from mentor and platform' : 'Stripe dispute closed in our favour; hold released',
+    details);
+}
+
+async function handlePaymentSucceeded(pi: Stripe.PaymentIntent) {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const uid = pi.metadata?.uid || undefined;
+  const idem = pi.metadata?.idem || undefined;
+  if (!uid) return;
+  // Credit wallet via RPC; process_wallet_topup ignores a payment intent it has already credited
+  const { error } = await supabase.rpc('process_wallet_topup', {
+    user_id: uid,
+    amount_minor: pi.amount_received,
+    transaction_data: { gatewayId: pi.id, idempotencyKey: idem }
+  });
+  if (error) throw new Error(`process_wallet_topup failed: ${error.message}`);
+}
+
+export async function handleStripeEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case 'payment_intent.succeeded':
+      await handlePaymentSucceeded(event.data.object as Stripe.PaymentIntent);
+      break;
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object as Stripe.Charge);
+      break;
+    case 'charge.refund.updated':
+      await handleRefundUpdated(event.data.object as Stripe.Refund);
+      break;
+    case 'charge.dispute.created':
+      await handleDisputeCreated(event.data.object as Stripe.Dispute);
+      break;
+    case 'charge.dispute.closed':
+      await handleDisputeClosed(event.data.object as Stripe.Dispute);
+      break;
+    case 'transfer.created':
+    case 'transfer.reversed':
+      await handleStripeTransferEvent(event);
+      break;
+  }
+}
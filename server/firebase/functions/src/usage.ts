@@ -0,0 +1,172 @@
+// Verified call usage. Agora's channel event notifications (NCS) say when each
+// uid joined and left a session's channel; handleAgoraWebhook stores them in
+// call_presence_events (migration 022). A completed session is billed per
+// minute for the time the student and the mentor were in the channel
+// together, rounded by the usage policy, with a minimum charge and capped at
+// the booking.
+
+import { createHash } from 'crypto';
+import { clients } from './clients.js';
+import { max, min, money, ratio, type Money } from './money.js';
+import type { SessionPricing } from './pricing.js';
+
+// Agora NCS event types for RTC channels
+const JOIN_EVENTS = [103, 105];
+const LEAVE_EVENTS = [104, 106];
+
+export interface PresenceEvent {
+  notice_id: string;
+  channel_name: string;
+  session_id: string | null;
+  event_type: number;
+  agora_uid: number;
+  account: string | null;
+  client_seq: number | null;
+  event_at: string;
+  payload: Record<string, any>;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Channels are named session_<id> (generate-agora-token); older clients use the bare id
+function sessionIdFromChannel(channelName: string): string | null {
+  const id = channelName.startsWith('session_') ? channelName.slice('session_'.length) : channelName;
+  return UUID_RE.test(id) ? id : null;
+}
+
+/** The presence row for a join or leave notification; null for any other event. */
+export function parseAgoraNotice(notice: any): PresenceEvent | null {
+  const eventType = Number(notice?.eventType);
+  if (![...JOIN_EVENTS, ...LEAVE_EVENTS].includes(eventType)) return null;
+  const payload = notice.payload ?? {};
+  if (typeof notice.noticeId !== 'string' || typeof payload.channelName !== 'string' || !Number.isInteger(payload.uid)) {
+    throw new Error('Malformed Agora notification');
+  }
+  // payload.ts is in seconds; notifyMs is when Agora sent the notice
+  const at = typeof payload.ts === 'number' ? payload.ts * 1000 : Number(notice.notifyMs);
+  if (!Number.isFinite(at)) throw new Error('Agora notification has no timestamp');
+  return {
+    notice_id: notice.noticeId,
+    channel_name: payload.channelName,
+    session_id: sessionIdFromChannel(payload.channelName),
+    event_type: eventType,
+    agora_uid: payload.uid,
+    account: typeof payload.account === 'string' ? payload.account : null,
+    client_seq: typeof payload.clientSeq === 'number' ? payload.clientSeq : null,
+    event_at: new Date(at).toISOString(),
+    payload,
+  };
+}
+
+/**
+ * The numeric Agora uid generate-agora-token hands a user: the first four
+ * bytes of SHA-256 of their id, never 0. Keep in step with agoraUidForUser in
+ * the edge function.
+ */
+export function agoraUidForUser(userId: string): number {
+  const uid = createHash('sha256').update(userId).digest().readUInt32BE(0);
+  return uid === 0 ? 1 : uid;
+}
+
+// A user joins either with their derived uid or with their id as a string account
+function isUser(event: PresenceEvent, userId: string): boolean {
+  return event.account === userId || event.agora_uid === agoraUidForUser(userId);
+}
+
+export type Interval = [start: number, end: number];
+
+/**
+ * Time ranges (epoch ms) the user was in the channel. A join while already in
+ * is ignored; a join without a leave lasts until `until`.
+ */
+export function presenceIntervals(events: PresenceEvent[], userId: string, until: number): Interval[] {
+  const ordered = events
+    .filter((e) => isUser(e, userId))
+    .sort((a, b) => Date.parse(a.event_at) - Date.parse(b.event_at) || (a.client_seq ?? 0) - (b.client_seq ?? 0));
+  const intervals: Interval[] = [];
+  let joinedAt: number | null = null;
+  for (const event of ordered) {
+    const at = Math.min(Date.parse(event.event_at), until);
+    if (JOIN_EVENTS.includes(event.event_type)) {
+      joinedAt ??= at;
+    } else if (joinedAt !== null) {
+      if (at > joinedAt) intervals.push([joinedAt, at]);
+      joinedAt = null;
+    }
+  }
+  if (joinedAt !== null && until > joinedAt) intervals.push([joinedAt, until]);
+  return intervals;
+}
+
+/** Total time (ms) covered by both interval lists. */
+export function overlapMs(a: Interval[], b: Interval[]): number {
+  let total = 0;
+  for (const [aStart, aEnd] of a) {
+    for (const [bStart, bEnd] of b) {
+      total += Math.max(Math.min(aEnd, bEnd) - Math.max(aStart, bStart), 0);
+    }
+  }
+  return total;
+}
+
+export interface UsagePolicy {
+  // Usage is billed in blocks of this many minutes
+  incrementMinutes: number;
+  rounding: 'up' | 'nearest' | 'down';
+  // In minor units of the session currency; applies once any block is billed
+  minimumChargeMinor: number;
+}
+
+export const DEFAULT_USAGE_POLICY: UsagePolicy = { incrementMinutes: 1, rounding: 'up', minimumChargeMinor: 0 };
+
+/** Parses a JSON usage policy from config; missing or invalid fields keep their default. */
+export function parseUsagePolicy(raw: string | undefined): UsagePolicy {
+  let parsed: any = {};
+  try {
+    parsed = raw ? JSON.parse(raw) : {};
+  } catch {
+    return DEFAULT_USAGE_POLICY;
+  }
+  const { incrementMinutes, rounding, minimumChargeMinor } = parsed ?? {};
+  return {
+    incrementMinutes: Number.isInteger(incrementMinutes) && incrementMinutes > 0 ? incrementMinutes : DEFAULT_USAGE_POLICY.incrementMinutes,
+    rounding: ['up', 'nearest', 'down'].includes(rounding) ? rounding : DEFAULT_USAGE_POLICY.rounding,
+    minimumChargeMinor: Number.isInteger(minimumChargeMinor) && minimumChargeMinor >= 0 ? minimumChargeMinor : DEFAULT_USAGE_POLICY.minimumChargeMinor,
+  };
+}
+
+/** Whole minutes billed for `seconds` of usage, capped at the booking. */
+export function billedMinutes(seconds: number, bookedMinutes: number, policy: UsagePolicy): number {
+  const blocks = seconds / (policy.incrementMinutes * 60);
+  const rounded = policy.rounding === 'up' ? Math.ceil(blocks) : policy.rounding === 'down' ? Math.floor(blocks) : Math.round(blocks);
+  return Math.min(rounded * policy.incrementMinutes, bookedMinutes);
+}
+
+/**
+ * The total billed for `minutes` at the hourly rate, raised to the minimum
+ * charge and never above the booked price.
+ */
+export function usageTotal(hourlyRate: Money, minutes: number, bookedMinutes: number, policy: UsagePolicy): Money {
+  const total = ratio(hourlyRate, minutes, 60);
+  if (minutes <= 0) return total;
+  return min(max(total, money(policy.minimumChargeMinor, total.currency)), ratio(hourlyRate, bookedMinutes, 60));
+}
+
+/**
+ * Seconds the student and the mentor were in the session's channel together,
+ * up to `until`; null when Agora reported no presence for the session.
+ */
+export async function verifiedUsageSeconds(pricing: SessionPricing, until: Date): Promise<number | null> {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  const { data, error } = await supabase.from('call_presence_events')
+    .select('notice_id, channel_name, session_id, event_type, agora_uid, account, client_seq, event_at, payload')
+    .eq('session_id', pricing.sessionId);
+  if (error) throw new Error(`call_presence_events lookup failed: ${error.message}`);
+  const events = (data ?? []) as PresenceEvent[];
+  if (events.length === 0) return null;
+  const end = until.getTime();
+  const student = presenceIntervals(events, pricing.studentId, end);
+  const mentor = presenceIntervals(events, pricing.mentorId, end);
+  return Math.floor(overlapMs(student, mentor) / 1000);
+}
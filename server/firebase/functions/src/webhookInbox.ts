@@ -0,0 +1,116 @@
+// Durable inbox for gateway webhooks (Supabase table `webhook_events`).
+// Handlers verify the signature and store the event before acknowledging it;
+// processing happens from the inbox, with exponential backoff between attempts.
+// Events that exhaust their attempts are dead-lettered for an admin to replay.
+
+import type Stripe from 'stripe';
+import { clients, logAlert } from './clients.js';
+import { handleRazorpayEvent, type RazorpayEvent } from './razorpayEvents.js';
+import { handleStripeEvent } from './stripeEvents.js';
+
+export type WebhookProvider = 'stripe' | 'razorpay';
+
+export interface InboxEvent {
+  provider: WebhookProvider;
+  event_id: string;
+  event_type: string;
+  payload: any;
+  attempts: number;
+  created_at: string;
+}
+
+export const MAX_ATTEMPTS = 8;
+const BASE_RETRY_MS = 60 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+
+/** Delay before the next attempt after `attempt` failed ones: 1m, 2m, 4m, ... capped at 6h. */
+export function retryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_MS);
+}
+
+function requireSupabase() {
+  const { supabase } = clients();
+  if (!supabase) throw new Error('Supabase not configured');
+  return supabase;
+}
+
+/** Stores a verified event. Returns false when the event id was already received. */
+export async function enqueueWebhookEvent(provider: WebhookProvider, eventId: string, eventType: string, payload: unknown): Promise<boolean> {
+  const { error } = await requireSupabase().from('webhook_events').insert({
+    provider,
+    event_id: eventId,
+    event_type: eventType,
+    payload,
+    status: 'pending',
+  });
+  if (!error) return true;
+  if (error.code === '23505') return false;
+  throw new Error(`webhook_events insert failed: ${error.message}`);
+}
+
+async function dispatch(event: InboxEvent) {
+  switch (event.provider) {
+    case 'stripe':
+      return handleStripeEvent(event.payload as Stripe.Event);
+    case 'razorpay':
+      return handleRazorpayEvent(event.payload as RazorpayEvent);
+  }
+}
+
+async function processClaimedEvent(event: InboxEvent): Promise<'processed' | 'failed' | 'dead'> {
+  const sb = requireSupabase();
+  try {
+    await dispatch(event);
+  } catch (err: any) {
+    const reason = String(err?.message || err);
+    const retryAt = event.attempts < MAX_ATTEMPTS
+      ? new Date(Date.now() + retryDelayMs(event.attempts)).toISOString()
+      : null;
+    const { data: status, error } = await sb.rpc('fail_webhook_event', {
+      p_provider: event.provider,
+      p_event_id: event.event_id,
+      p_error: reason,
+      p_retry_at: retryAt,
+    });
+    // If even the failure cannot be recorded, the stale claim is picked up again later
+    if (error) throw new Error(`fail_webhook_event failed: ${error.message}`);
+    if (status === 'dead') {
+      await logAlert('webhook_dead_lettered', 'critical', 'Webhook event moved to dead-letter queue', {
+        provider: event.provider, eventId: event.event_id, type: event.event_type, attempts: event.attempts, reason,
+      });
+    }
+    return status as 'failed' | 'dead';
+  }
+
+  const { error } = await sb.from('webhook_events')
+    .update({ status: 'processed', processed_at: new Date().toISOString(), updated_at: new Date().toISOString(), last_error: null, locked_at: null })
+    .eq('provider', event.provider)
+    .eq('event_id', event.event_id);
+  if (error) throw new Error(`webhook_events update failed: ${error.message}`);
+  return 'processed';
+}
+
+export interface DrainResult {
+  processed: number;
+  failed: number;
+  dead: number;
+}
+
+/**
+ * Claims due inbox events and processes them one by one.
+ * Pass `eventId` to process a single just-received (or replayed) event.
+ */
+export async function drainWebhookInbox(opts: { limit?: number; provider?: WebhookProvider; eventId?: string } = {}): Promise<DrainResult> {
+  const { data, error } = await requireSupabase().rpc('claim_webhook_events', {
+    p_limit: opts.limit ?? 25,
+    p_provider: opts.provider ?? null,
+    p_event_id: opts.eventId ?? null,
+  });
+  if (error) throw new Error(`claim_webhook_events failed: ${error.message}`);
+
+  const result: DrainResult = { processed: 0, failed: 0, dead: 0 };
+  for (const event of (data ?? []) as InboxEvent[]) {
+    result[await processClaimedEvent(event)]++;
+  }
+  return result;
+}
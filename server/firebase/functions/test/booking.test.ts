@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { bookSession } from '../src/index.js';
+import { FakeSupabase, installFakes, type Fakes } from './fakes/index.js';
+
+const student = { auth: { uid: 'student-1', token: {} } };
+const slot = { mentorId: 'mentor-1', startTime: '2030-01-07T09:00:00Z', durationMinutes: 60, subject: 'Algebra' };
+
+// book_mentoring_session inserts the session unless the slot is taken; reserve_session_funds
+// succeeds while the wallet covers the amount
+function fakeDatabase(balanceMinor: number) {
+  const db = new FakeSupabase({
+    mentor_profiles: [{ id: 'profile-1', user_id: 'mentor-1', hourly_rate: 800, hourly_rate_currency: 'INR' }],
+    enhanced_wallets: [{ user_uid: 'student-1', currency: 'INR' }],
+  });
+  db.onRpc('book_mentoring_session', (args) => {
+    const taken = db.table('mentoring_sessions').some((s) => s.scheduled_time === args.p_start && s.status !== 'cancelled');
+    if (taken) return { status: 'conflict' };
+    const id = `session-${db.table('mentoring_sessions').length + 1}`;
+    db.table('mentoring_sessions').push({
+      id, mentor_id: args.p_mentor_id, student_id: args.p_student_id, scheduled_time: args.p_start,
+      duration_minutes: args.p_duration_minutes, subject: args.p_subject, status: 'scheduled',
+    });
+    return { status: 'booked', session_id: id };
+  });
+  db.onRpc('reserve_session_funds', (args) => args.p_amount_total <= balanceMinor);
+  db.onRpc('release_unfunded_booking', (args) => {
+    db.tables.mentoring_sessions = db.table('mentoring_sessions').filter((s) => s.id !== args.p_session_id);
+    return true;
+  });
+  return db;
+}
+
+describe('bookSession', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+    fakes = installFakes(fakeDatabase(100000));
+  });
+
+  it('books the slot and reserves its price', async () => {
+    const result = await bookSession.run(slot, student);
+
+    expect(result).toEqual({ ok: true, sessionId: 'session-1', amountMinor: 80000, currency: 'INR' });
+    expect(fakes.supabase.calls('book_mentoring_session')[0]).toMatchObject({
+      p_student_id: 'student-1', p_mentor_id: 'mentor-1', p_start: '2030-01-07T09:00:00.000Z', p_duration_minutes: 60, p_buffer_minutes: 10,
+    });
+    expect(fakes.supabase.calls('reserve_session_funds')[0]).toMatchObject({ p_session_id: 'session-1', p_mentor_id: 'mentor-1', p_amount_total: 80000 });
+  });
+
+  it('rejects a slot that is already booked without reserving funds', async () => {
+    await bookSession.run(slot, student);
+    await expect(bookSession.run(slot, { auth: { uid: 'student-2', token: {} } })).rejects.toMatchObject({ code: 'already-exists' });
+    expect(fakes.supabase.calls('reserve_session_funds')).toHaveLength(1);
+  });
+
+  it('releases the booking when the wallet cannot cover it', async () => {
+    fakes = installFakes(fakeDatabase(50000));
+
+    await expect(bookSession.run(slot, student)).rejects.toMatchObject({ code: 'failed-precondition', message: 'Insufficient wallet balance' });
+    expect(fakes.supabase.calls('release_unfunded_booking')).toEqual([{ p_session_id: 'session-1' }]);
+    expect(fakes.supabase.table('mentoring_sessions')).toHaveLength(0);
+  });
+
+  it('refuses to price a mentor rate that is missing or not in the wallet currency', async () => {
+    const profile = fakes.supabase.table('mentor_profiles')[0];
+    const refused = async (message: string) => {
+      await expect(bookSession.run(slot, student)).rejects.toMatchObject({ code: 'failed-precondition', message });
+      expect(fakes.supabase.table('mentoring_sessions')).toHaveLength(0);
+    };
+
+    profile.hourly_rate_currency = 'USD';
+    await refused("Mentor hourly rate is in USD but the student's wallet is in INR");
+    Object.assign(profile, { hourly_rate: null, hourly_rate_currency: 'INR' });
+    await refused('Mentor has no hourly rate');
+    expect(fakes.supabase.calls('reserve_session_funds')).toHaveLength(0);
+  });
+
+  it('maps other refusals and validates the request', async () => {
+    fakes.supabase.onRpc('book_mentoring_session', () => ({ status: 'time_off' }));
+
+    await expect(bookSession.run(slot, student)).rejects.toMatchObject({ code: 'failed-precondition', message: 'The mentor is away at that time' });
+    await expect(bookSession.run({ ...slot, durationMinutes: 10 }, student)).rejects.toMatchObject({ code: 'invalid-argument' });
+    await expect(bookSession.run({ ...slot, startTime: 'tomorrow' }, student)).rejects.toMatchObject({ code: 'invalid-argument' });
+    await expect(bookSession.run({ ...slot, mentorId: 'student-1' }, student)).rejects.toMatchObject({ code: 'invalid-argument' });
+    await expect(bookSession.run(slot, {})).rejects.toMatchObject({ code: 'unauthenticated' });
+  });
+});
@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { RELEASE_HOLD_MS, RELEASE_JOB, releaseDueMentorEarnings } from '../src/earningsRelease.js';
+import { FakeSupabase, installFakes } from './fakes/index.js';
+
+const t0 = Date.parse('2030-01-07T12:00:00Z');
+const clockAt = (ms: number) => ({ now: () => new Date(ms) });
+const iso = (ms: number) => new Date(ms).toISOString();
+
+const captured = (id: string, capturedAt: number) => ({
+  session_id: id, mentor_uid: 'mentor-1', status: 'captured', amount_total: 80000, amount_mentor: 64000,
+  currency: 'INR', captured_at: iso(capturedAt), released_at: null,
+});
+
+// list_mentor_earnings_due and process_mentor_earnings_release as migration 009
+// runs them; listing number `failListing` fails
+function fakeDatabase(payments: Record<string, any>[], failListing = 0) {
+  const db = new FakeSupabase({ session_payments: payments });
+  let listings = 0;
+  db.onRpc('list_mentor_earnings_due', (args) => {
+    if (++listings === failListing) throw new Error('connection reset');
+    const after = args.p_after_captured_at ? [args.p_after_captured_at, args.p_after_session_id].join('|') : null;
+    return db.table('session_payments')
+      .filter((sp) => sp.status === 'captured' && sp.released_at === null && sp.captured_at <= args.p_cutoff)
+      .filter((sp) => after === null || [sp.captured_at, sp.session_id].join('|') > after)
+      .sort((a, b) => (a.captured_at + a.session_id).localeCompare(b.captured_at + b.session_id))
+      .slice(0, args.p_limit)
+      .map((sp) => {
+        const refunded = db.table('payment_refunds').filter((r) => r.session_id === sp.session_id).reduce((sum, r) => sum + r.mentor_share, 0);
+        const disputed = db.table('payment_disputes').some((d) => d.session_id === sp.session_id && d.status === 'open');
+        const refundPending = db.table('admin_refunds').some((r) => r.session_id === sp.session_id && r.status === 'pending');
+        return {
+          session_id: sp.session_id, mentor_uid: sp.mentor_uid, amount_mentor: Math.max(sp.amount_mentor - refunded, 0),
+          currency: sp.currency, captured_at: sp.captured_at, hold_reason: disputed ? 'dispute' : refundPending ? 'refund' : null,
+        };
+      });
+  });
+  db.onRpc('process_mentor_earnings_release', (args) => {
+    const sp = db.table('session_payments').find((p) => p.session_id === args.session_id)!;
+    if (sp.status !== 'captured' || sp.released_at) return false;
+    Object.assign(sp, { status: 'released', released_at: iso(t0) });
+    return true;
+  });
+  return db;
+}
+
+const releasedIds = (db: FakeSupabase) => db.calls('process_mentor_earnings_release').map((c) => c.session_id);
+const run = (db: FakeSupabase) => db.table('scheduled_job_runs').find((r) => r.job_name === RELEASE_JOB)!;
+
+describe('releaseDueMentorEarnings', () => {
+  beforeEach(() => {
+    resetClients();
+  });
+
+  it('releases sessions captured at least 24 hours before the run', async () => {
+    const db = fakeDatabase([
+      captured('due', t0 - RELEASE_HOLD_MS),
+      captured('not-yet', t0 - RELEASE_HOLD_MS + 1),
+    ]);
+    installFakes(db);
+
+    const summary = await releaseDueMentorEarnings({ clock: clockAt(t0) });
+    expect(summary).toMatchObject({ cutoff: iso(t0 - RELEASE_HOLD_MS), complete: true, scanned: 1, released: 1, releasedAmount: 64000 });
+    expect(releasedIds(db)).toEqual(['due']);
+    expect(run(db)).toMatchObject({ status: 'completed', finished_at: iso(t0) });
+
+    // A millisecond later the second one is due too
+    await releaseDueMentorEarnings({ clock: clockAt(t0 + 1) });
+    expect(releasedIds(db)).toEqual(['due', 'not-yet']);
+  });
+
+  it('holds disputed sessions and those with a pending refund, and nets out earlier refunds', async () => {
+    const due = t0 - RELEASE_HOLD_MS - 60_000;
+    const db = fakeDatabase([captured('disputed', due), captured('refund-pending', due), captured('partly-refunded', due)]);
+    db.table('payment_disputes').push({ session_id: 'disputed', status: 'open' });
+    db.table('admin_refunds').push({ session_id: 'refund-pending', status: 'pending' });
+    db.table('payment_refunds').push({ session_id: 'partly-refunded', amount: 25000, mentor_share: 20000, platform_share: 5000 });
+    installFakes(db);
+
+    const summary = await releaseDueMentorEarnings({ clock: clockAt(t0) });
+    expect(summary).toMatchObject({ scanned: 3, released: 1, releasedAmount: 44000, heldForDispute: 1, heldForRefund: 1, failed: 0 });
+    expect(db.calls('process_mentor_earnings_release')).toEqual([
+      { mentor_id: 'mentor-1', amount_minor: 44000, session_id: 'partly-refunded', transaction_data: { runId: summary.runId } },
+    ]);
+    expect(db.table('session_payments').filter((sp) => sp.status === 'captured').map((sp) => sp.session_id)).toEqual(['disputed', 'refund-pending']);
+  });
+
+  it('resumes a crashed run from its checkpoint with the original cutoff', async () => {
+    const ids = ['s1', 's2', 's3', 's4', 's5'];
+    const db = fakeDatabase(ids.map((id, i) => captured(id, t0 - RELEASE_HOLD_MS - (ids.length - i) * 60_000)), 2);
+    installFakes(db);
+
+    await expect(releaseDueMentorEarnings({ clock: clockAt(t0), batchSize: 2 })).rejects.toThrow('list_mentor_earnings_due failed: connection reset');
+    expect(releasedIds(db)).toEqual(['s1', 's2']);
+    expect(run(db)).toMatchObject({ status: 'running', cursor: { sessionId: 's2' } });
+    expect(db.calls('admin_log_alert').map((a) => a.p_type)).toEqual(['mentor_earnings_release_failed']);
+
+    // Captured after the crashed run's cutoff, so it waits for the next run
+    db.table('session_payments').push(captured('late', t0 - RELEASE_HOLD_MS + 60_000));
+    const summary = await releaseDueMentorEarnings({ clock: clockAt(t0 + 2 * 60 * 60_000), batchSize: 2 });
+    const listings = db.calls('list_mentor_earnings_due');
+    expect(listings[2]).toMatchObject({ p_cutoff: iso(t0 - RELEASE_HOLD_MS), p_after_session_id: 's2' });
+    expect(releasedIds(db)).toEqual(ids);
+    expect(summary).toMatchObject({ resumed: true, complete: true, released: 5, releasedAmount: 5 * 64000 });
+    expect(db.table('scheduled_job_runs')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,88 @@
+// In-memory Firestore with just the document, transaction and batch calls the
+// idempotency store makes. Transactions run once; there is no contention.
+
+type Data = Record<string, any>;
+
+const millis = (value: any) => (typeof value?.toMillis === 'function' ? value.toMillis() : value);
+
+class FakeDocumentRef {
+  constructor(private readonly store: Map<string, Data>, readonly path: string) {}
+
+  get id(): string {
+    return this.path.split('/').pop()!;
+  }
+
+  async get() {
+    const data = this.store.get(this.path);
+    return { id: this.id, ref: this, exists: data !== undefined, data: () => (data ? { ...data } : undefined) };
+  }
+
+  async set(data: Data) {
+    this.store.set(this.path, { ...data });
+  }
+
+  async update(patch: Data) {
+    const data = this.store.get(this.path);
+    if (!data) throw new Error(`FakeFirestore: no document to update at ${this.path}`);
+    this.store.set(this.path, { ...data, ...patch });
+  }
+
+  async delete() {
+    this.store.delete(this.path);
+  }
+}
+
+class FakeQuery {
+  constructor(
+    private readonly store: Map<string, Data>,
+    private readonly collection: string,
+    private readonly filters: Array<(data: Data) => boolean> = [],
+    private readonly max = Infinity,
+  ) {}
+
+  where(field: string, op: '==' | '<' | '<=' | '>' | '>=', value: any): FakeQuery {
+    const test = (data: Data) => {
+      const [a, b] = [millis(data[field]), millis(value)];
+      return op === '==' ? a === b : op === '<' ? a < b : op === '<=' ? a <= b : op === '>' ? a > b : a >= b;
+    };
+    return new FakeQuery(this.store, this.collection, [...this.filters, test], this.max);
+  }
+
+  limit(count: number): FakeQuery {
+    return new FakeQuery(this.store, this.collection, this.filters, count);
+  }
+
+  async get() {
+    const docs = [...this.store.entries()]
+      .filter(([path, data]) => path.startsWith(`${this.collection}/`) && this.filters.every((f) => f(data)))
+      .slice(0, this.max)
+      .map(([path, data]) => ({ id: path.split('/').pop()!, ref: new FakeDocumentRef(this.store, path), data: () => ({ ...data }) }));
+    return { empty: docs.length === 0, size: docs.length, docs };
+  }
+}
+
+export class FakeFirestore {
+  readonly documents = new Map<string, Data>();
+
+  collection(name: string) {
+    const query = new FakeQuery(this.documents, name);
+    return Object.assign(query, { doc: (id: string) => new FakeDocumentRef(this.documents, `${name}/${id}`) });
+  }
+
+  async runTransaction<T>(fn: (tx: any) => Promise<T>): Promise<T> {
+    return fn({
+      get: (ref: FakeDocumentRef) => ref.get(),
+      set: (ref: FakeDocumentRef, data: Data) => { void ref.set(data); },
+      update: (ref: FakeDocumentRef, patch: Data) => { void ref.update(patch); },
+      delete: (ref: FakeDocumentRef) => { void ref.delete(); },
+    });
+  }
+
+  batch() {
+    const deletes: FakeDocumentRef[] = [];
+    return {
+      delete: (ref: FakeDocumentRef) => { deletes.push(ref); },
+      commit: async () => { await Promise.all(deletes.map((ref) => ref.delete())); },
+    };
+  }
+}
@@ -0,0 +1,46 @@
+import { setClients } from '../../src/clients.js';
+import { FakeFirestore } from './firestore.js';
+import { FakeRazorpay } from './razorpay.js';
+import { FakeStripe } from './stripe.js';
+import { FakeSupabase } from './supabase.js';
+
+export { FakeFirestore } from './firestore.js';
+export { FakeRazorpay, razorpayEvent, signRazorpayPayload } from './razorpay.js';
+export { FakeStripe, signStripePayload, stripeEvent } from './stripe.js';
+export { FakeSupabase } from './supabase.js';
+
+export interface Fakes {
+  supabase: FakeSupabase;
+  stripe: FakeStripe;
+  razorpay: FakeRazorpay;
+  db: FakeFirestore;
+}
+
+/**
+ * Installs fresh fakes as the functions' clients. Any request that would leave
+ * the process (other than to the fakes) throws.
+ */
+export function installFakes(supabase = new FakeSupabase()): Fakes {
+  const fakes = { supabase, stripe: new FakeStripe(), razorpay: new FakeRazorpay(), db: new FakeFirestore() };
+  setClients({
+    supabase: fakes.supabase,
+    stripe: fakes.stripe,
+    razorpay: fakes.razorpay,
+    db: fakes.db,
+    fetch: fakes.razorpay.fetch,
+  });
+  return fakes;
+}
+
+/** A bare-bones Express request/response pair for onRequest handlers. */
+export function webhookRequest(headers: Record<string, string>, body: string) {
+  const req: any = { method: 'POST', headers, rawBody: Buffer.from(body), body: JSON.parse(body) };
+  const res: any = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) { res.statusCode = code; return res; },
+    send(payload: unknown) { res.body = payload; return res; },
+    sendStatus(code: number) { res.statusCode = code; return res; },
+  };
+  return { req, res };
+}
@@ -0,0 +1,51 @@
+import { createHmac } from 'crypto';
+
+// In-memory Razorpay: orders through the SDK and RazorpayX payouts through
+// `fetch` (the SDK has no payouts API). Webhook bodies are signed with
+// signRazorpayPayload(), as Razorpay does for both endpoints.
+
+export function signRazorpayPayload(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+/** A webhook event as Razorpay would deliver it. */
+export function razorpayEvent(event: string, entities: Record<string, Record<string, any>>) {
+  const payload = Object.fromEntries(Object.entries(entities).map(([name, entity]) => [name, { entity }]));
+  return { entity: 'event', event, contains: Object.keys(entities), payload, created_at: Math.floor(Date.now() / 1000) };
+}
+
+export class FakeRazorpay {
+  readonly orderList: any[] = [];
+  readonly payoutRequests: Array<{ headers: Record<string, string>; body: any }> = [];
+  // Outcome of the next RazorpayX payout: the status it is created with, or an HTTP rejection
+  nextPayout: { status: string } | { reject: number; description: string } = { status: 'processing' };
+  private seq = 0;
+
+  readonly orders = {
+    create: async (params: any) => {
+      const order = { id: `order_test_${++this.seq}`, entity: 'order', status: 'created', amount_paid: 0, ...params };
+      this.orderList.push(order);
+      return order;
+    },
+  };
+
+  // Settlement reports are empty; the settlement tests use recorded fixtures
+  readonly settlements = {
+    reports: async (_params: any) => ({ entity: 'collection', count: 0, items: [] as any[] }),
+  };
+
+  readonly fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const url = String(input instanceof Request ? input.url : input);
+    if (url !== 'https://api.razorpay.com/v1/payouts' || init.method !== 'POST') {
+      throw new Error(`FakeRazorpay: unexpected request ${init.method ?? 'GET'} ${url}`);
+    }
+    const body = JSON.parse(String(init.body));
+    this.payoutRequests.push({ headers: Object.fromEntries(new Headers(init.headers).entries()), body });
+    const next = this.nextPayout;
+    this.nextPayout = { status: 'processing' };
+    if ('reject' in next) {
+      return Response.json({ error: { code: 'BAD_REQUEST_ERROR', description: next.description } }, { status: next.reject });
+    }
+    return Response.json({ id: `pout_test_${++this.seq}`, entity: 'payout', status: next.status, amount: body.amount, reference_id: body.reference_id });
+  };
+}
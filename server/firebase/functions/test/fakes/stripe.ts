@@ -0,0 +1,126 @@
+import { createHmac } from 'crypto';
+import Stripe from 'stripe';
+
+// In-memory Stripe: payment intents, charges, refunds, Connect transfers and
+// balance transactions.
+// Requests with an idempotency key Stripe has seen return the first result.
+// Webhook verification is the real SDK's, so payloads must be signed with
+// signStripePayload().
+
+export interface StripeFailure { type: string; message: string }
+
+export function signStripePayload(payload: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/** A webhook event as Stripe would deliver it. */
+export function stripeEvent(type: string, object: Record<string, any>, id = `evt_${object.id ?? Date.now()}`) {
+  return { id, object: 'event', type, api_version: '2024-06-20', created: Math.floor(Date.now() / 1000), data: { object } };
+}
+
+export class FakeStripe {
+  readonly intentsById = new Map<string, any>();
+  readonly chargesById = new Map<string, any>();
+  readonly refundList: any[] = [];
+  readonly transferList: any[] = [];
+  readonly balanceTransactionList: any[] = [];
+  private readonly replies = new Map<string, any>();
+  private readonly failures = new Map<string, StripeFailure>();
+  private seq = 0;
+
+  // Signature checks only; the client never makes a request
+  readonly webhooks = new Stripe('sk_test_fake', { apiVersion: '2024-06-20' }).webhooks;
+
+  /** Makes the next call to `method` (e.g. `transfers.create`) throw a Stripe error of `type`. */
+  failNext(method: string, failure: StripeFailure): void {
+    this.failures.set(method, failure);
+  }
+
+  /** Marks an intent paid, with a charge for the full amount. */
+  succeed(intentId: string): any {
+    const intent = this.intentsById.get(intentId);
+    const charge = { id: this.id('ch'), object: 'charge', amount: intent.amount, amount_refunded: 0, currency: intent.currency, payment_intent: intentId, metadata: intent.metadata };
+    this.chargesById.set(charge.id, charge);
+    Object.assign(intent, { status: 'succeeded', amount_received: intent.amount, latest_charge: charge.id });
+    return intent;
+  }
+
+  readonly paymentIntents = {
+    create: (params: any, options: { idempotencyKey?: string } = {}) => this.call('paymentIntents.create', options.idempotencyKey, () => {
+      const id = this.id('pi');
+      const intent = {
+        id, object: 'payment_intent', client_secret: `${id}_secret_${this.seq}`, status: 'requires_payment_method',
+        amount: params.amount, amount_received: 0, currency: params.currency, metadata: params.metadata ?? {}, latest_charge: null,
+      };
+      this.intentsById.set(id, intent);
+      return intent;
+    }),
+    retrieve: (id: string) => this.call('paymentIntents.retrieve', undefined, () => this.found(this.intentsById, id)),
+    cancel: (id: string) => this.call('paymentIntents.cancel', undefined, () => Object.assign(this.found(this.intentsById, id), { status: 'canceled' })),
+  };
+
+  readonly charges = {
+    retrieve: (id: string) => this.call('charges.retrieve', undefined, () => this.found(this.chargesById, id)),
+  };
+
+  readonly refunds = {
+    create: (params: any, options: { idempotencyKey?: string } = {}) => this.call('refunds.create', options.idempotencyKey, () => {
+      const intent = this.found(this.intentsById, params.payment_intent);
+      const charge = this.chargesById.get(intent.latest_charge);
+      const amount = params.amount ?? intent.amount_received - (charge?.amount_refunded ?? 0);
+      if (!charge || amount > charge.amount - charge.amount_refunded) throw this.error('StripeInvalidRequestError', 'Refund exceeds the charge');
+      charge.amount_refunded += amount;
+      const refund = { id: this.id('re'), object: 'refund', amount, charge: charge.id, payment_intent: intent.id, currency: intent.currency, status: 'succeeded', metadata: params.metadata ?? {} };
+      this.refundList.push(refund);
+      return refund;
+    }),
+    // Auto-paginating list, as the SDK returns it
+    list: (params: { charge?: string }) => {
+      const refunds = this.refundList.filter((r) => !params.charge || r.charge === params.charge);
+      return (async function* () { yield* refunds; })();
+    },
+  };
+
+  readonly transfers = {
+    create: (params: any, options: { idempotencyKey?: string } = {}) => this.call('transfers.create', options.idempotencyKey, () => {
+      const transfer = { id: this.id('tr'), object: 'transfer', amount: params.amount, amount_reversed: 0, currency: params.currency, destination: params.destination, metadata: params.metadata ?? {} };
+      this.transferList.push(transfer);
+      return transfer;
+    }),
+  };
+
+  // A single page; the settlement tests page through recorded fixtures of their own
+  readonly balanceTransactions = {
+    list: async (_params: Stripe.BalanceTransactionListParams) => ({
+      object: 'list' as const, data: this.balanceTransactionList, has_more: false, url: '/v1/balance_transactions',
+    }),
+  };
+
+  private id(prefix: string): string {
+    return `${prefix}_test_${++this.seq}`;
+  }
+
+  private found(map: Map<string, any>, id: string): any {
+    const object = map.get(id);
+    if (!object) throw this.error('StripeInvalidRequestError', `No such object: '${id}'`);
+    return object;
+  }
+
+  private error(type: string, message: string): Error {
+    return Object.assign(new Error(message), { type });
+  }
+
+  private async call(method: string, idempotencyKey: string | undefined, run: () => any): Promise<any> {
+    const failure = this.failures.get(method);
+    if (failure) {
+      this.failures.delete(method);
+      throw this.error(failure.type, failure.message);
+    }
+    const key = idempotencyKey && `${method}:${idempotencyKey}`;
+    if (key && this.replies.has(key)) return this.replies.get(key);
+    const result = run();
+    if (key) this.replies.set(key, result);
+    return result;
+  }
+}
@@ -0,0 +1,218 @@
+import { randomUUID } from 'crypto';
+
+// In-memory stand-in for the service-role Supabase client. Tables are arrays of
+// rows; the PostgREST builder supports the filters the functions use. Column
+// lists and embedded resources in select() are not interpreted, so seed nested
+// objects directly. RPCs are recorded and answered by handlers registered with
+// onRpc(); unregistered ones return no data. Edge function invocations are
+// recorded the same way and answered by onInvoke() handlers; a handler throws
+// `{ status, message }` to fail with that HTTP status.
+
+type Row = Record<string, any>;
+export interface FakeError { message: string; code?: string; context?: { status: number } }
+export interface FakeResult { data: any; error: FakeError | null }
+export type RpcHandler = (args: Record<string, any>, db: FakeSupabase) => unknown;
+
+export class FakeSupabase {
+  readonly tables: Record<string, Row[]>;
+  readonly rpcCalls: Array<{ name: string; args: Record<string, any> }> = [];
+  readonly invocations: Array<{ name: string; body: any }> = [];
+  private readonly handlers = new Map<string, RpcHandler>();
+  private readonly functionHandlers = new Map<string, (body: any) => unknown>();
+
+  // `unique` lists the columns whose combination must be unique per table (insert fails with 23505)
+  constructor(tables: Record<string, Row[]> = {}, readonly unique: Record<string, string[]> = {}) {
+    this.tables = Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.map((r) => ({ ...r }))]));
+  }
+
+  onRpc(name: string, handler: RpcHandler): this {
+    this.handlers.set(name, handler);
+    return this;
+  }
+
+  onInvoke(name: string, handler: (body: any) => unknown): this {
+    this.functionHandlers.set(name, handler);
+    return this;
+  }
+
+  readonly functions = {
+    invoke: async (name: string, options: { body?: any } = {}): Promise<FakeResult> => {
+      this.invocations.push({ name, body: options.body });
+      const handler = this.functionHandlers.get(name);
+      if (!handler) return { data: null, error: { message: `FakeSupabase: no function ${name}` } };
+      try {
+        return { data: await handler(options.body), error: null };
+      } catch (err: any) {
+        return { data: null, error: { message: String(err?.message || err), context: { status: err?.status ?? 500 } } as FakeError };
+      }
+    },
+  };
+
+  /** Arguments of every call to `name`, in order. */
+  calls(name: string): Record<string, any>[] {
+    return this.rpcCalls.filter((c) => c.name === name).map((c) => c.args);
+  }
+
+  table(name: string): Row[] {
+    return (this.tables[name] ??= []);
+  }
+
+  from(table: string): FakeQuery {
+    return new FakeQuery(this, table);
+  }
+
+  async rpc(name: string, args: Record<string, any> = {}): Promise<FakeResult> {
+    this.rpcCalls.push({ name, args });
+    const handler = this.handlers.get(name);
+    if (!handler) return { data: null, error: null };
+    try {
+      return { data: await handler(args, this), error: null };
+    } catch (err: any) {
+      return { data: null, error: { message: String(err?.message || err), code: err?.code } };
+    }
+  }
+}
+
+function compare(a: any, b: any): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+export class FakeQuery implements PromiseLike<FakeResult> {
+  private op: 'select' | 'insert' | 'update' | 'delete' = 'select';
+  private values: Row[] = [];
+  private patch: Row = {};
+  private returning = false;
+  private readonly filters: Array<(row: Row) => boolean> = [];
+  private sort?: { column: string; ascending: boolean };
+  private window?: { from: number; to: number };
+
+  constructor(private readonly db: FakeSupabase, private readonly name: string) {}
+
+  select(_columns?: string): this {
+    if (this.op !== 'select') this.returning = true;
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.op = 'insert';
+    this.values = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  update(patch: Row): this {
+    this.op = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  delete(): this {
+    this.op = 'delete';
+    return this;
+  }
+
+  private where(test: (row: Row) => boolean): this {
+    this.filters.push(test);
+    return this;
+  }
+
+  eq(column: string, value: any) { return this.where((r) => r[column] === value); }
+  neq(column: string, value: any) { return this.where((r) => r[column] !== value); }
+  in(column: string, values: any[]) { return this.where((r) => values.includes(r[column])); }
+  is(column: string, value: null | boolean) { return this.where((r) => (r[column] ?? null) === value); }
+  lt(column: string, value: any) { return this.where((r) => compare(r[column], value) < 0); }
+  lte(column: string, value: any) { return this.where((r) => compare(r[column], value) <= 0); }
+  gt(column: string, value: any) { return this.where((r) => compare(r[column], value) > 0); }
+  gte(column: string, value: any) { return this.where((r) => compare(r[column], value) >= 0); }
+
+  not(column: string, op: string, value: any) {
+    if (op !== 'is' || value !== null) throw new Error(`FakeSupabase: unsupported not(${op})`);
+    return this.where((r) => r[column] !== null && r[column] !== undefined);
+  }
+
+  // Only `column.eq.value` terms, e.g. or('user_id.eq.x,id.eq.x')
+  or(filters: string) {
+    const terms = filters.split(',').map((term) => {
+      const [column, op, ...value] = term.split('.');
+      if (op !== 'eq') throw new Error(`FakeSupabase: unsupported or(${term})`);
+      return { column, value: value.join('.') };
+    });
+    return this.where((r) => terms.some((t) => String(r[t.column]) === t.value));
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.sort = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.window = { from: 0, to: count - 1 };
+    return this;
+  }
+
+  range(from: number, to: number): this {
+    this.window = { from, to };
+    return this;
+  }
+
+  async maybeSingle(): Promise<FakeResult> {
+    const { data, error } = await this.run();
+    if (error) return { data: null, error };
+    const rows = (data ?? []) as Row[];
+    if (rows.length > 1) return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+    return { data: rows[0] ?? null, error: null };
+  }
+
+  async single(): Promise<FakeResult> {
+    const result = await this.maybeSingle();
+    if (!result.error && result.data === null) {
+      return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+    }
+    return result;
+  }
+
+  then<A = FakeResult, B = never>(onfulfilled?: ((value: FakeResult) => A | PromiseLike<A>) | null, onrejected?: ((reason: any) => B | PromiseLike<B>) | null): PromiseLike<A | B> {
+    return this.run().then(onfulfilled, onrejected);
+  }
+
+  private matching(): Row[] {
+    let rows = this.db.table(this.name).filter((r) => this.filters.every((f) => f(r)));
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      rows = [...rows].sort((a, b) => (ascending ? 1 : -1) * compare(a[column], b[column]));
+    }
+    if (this.window) rows = rows.slice(this.window.from, this.window.to + 1);
+    return rows;
+  }
+
+  private async run(): Promise<FakeResult> {
+    const table = this.db.table(this.name);
+    switch (this.op) {
+      case 'select':
+        return { data: this.matching().map((r) => ({ ...r })), error: null };
+      case 'insert': {
+        const key = this.db.unique[this.name];
+        const inserted: Row[] = [];
+        for (const value of this.values) {
+          const row: Row = { id: randomUUID(), created_at: new Date().toISOString(), ...value };
+          if (key && table.some((r) => key.every((c) => r[c] === row[c]))) {
+            return { data: null, error: { message: `duplicate key value violates unique constraint on ${this.name}`, code: '23505' } };
+          }
+          table.push(row);
+          inserted.push(row);
+        }
+        return { data: this.returning ? inserted.map((r) => ({ ...r })) : null, error: null };
+      }
+      case 'update': {
+        const rows = this.matching();
+        rows.forEach((r) => Object.assign(r, this.patch));
+        return { data: this.returning ? rows.map((r) => ({ ...r })) : null, error: null };
+      }
+      case 'delete': {
+        const rows = this.matching();
+        this.db.tables[this.name] = table.filter((r) => !rows.includes(r));
+        return { data: this.returning ? rows : null, error: null };
+      }
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import * as admin from 'firebase-admin';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import {
+  IDEMPOTENCY_TTL_MS, IN_PROGRESS_LEASE_MS, idempotent, sweepExpiredIdempotencyRecords, withIdempotency,
+} from '../src/idempotency.js';
+import { installFakes, type Fakes } from './fakes/index.js';
+
+const t0 = Date.parse('2030-01-07T09:00:00Z');
+const student = { auth: { uid: 'student-1', token: {} } } as any;
+
+const records = (fakes: Fakes) => [...fakes.db.documents.entries()].filter(([path]) => path.startsWith('idempotencyRecords/'));
+
+describe('withIdempotency', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+    fakes = installFakes();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(t0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('replays the stored result of a completed request', async () => {
+    const fn = vi.fn(async () => ({ paymentId: 'pay-1' }));
+
+    expect(await withIdempotency('reserve', 'student-1', 'key-1', { sessionId: 's-1', idempotencyKey: 'key-1' }, fn)).toEqual({ paymentId: 'pay-1' });
+    // Key order and the key itself do not change the fingerprint
+    expect(await withIdempotency('reserve', 'student-1', 'key-1', { idempotencyKey: 'key-1', sessionId: 's-1' }, fn)).toEqual({ paymentId: 'pay-1' });
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(records(fakes)).toEqual([[expect.any(String), expect.objectContaining({ state: 'completed', response: '{"paymentId":"pay-1"}' })]]);
+  });
+
+  it('rejects a reused key with a different request', async () => {
+    await withIdempotency('reserve', 'student-1', 'key-1', { sessionId: 's-1' }, async () => 'first');
+
+    await expect(withIdempotency('reserve', 'student-1', 'key-1', { sessionId: 's-2' }, async () => 'second'))
+      .rejects.toMatchObject({ code: 'invalid-argument' });
+    // Keys are per scope and user
+    expect(await withIdempotency('reserve', 'student-2', 'key-1', { sessionId: 's-2' }, async () => 'other user')).toBe('other user');
+  });
+
+  it('rejects a retry while the first request runs, until its lease expires', async () => {
+    let finish!: (value: string) => void;
+    const first = withIdempotency('payout', 'mentor-1', 'key-1', {}, () => new Promise<string>((resolve) => { finish = resolve; }));
+    // Let the first call claim the key
+    await new Promise((resolve) => setImmediate(resolve));
+
+    await expect(withIdempotency('payout', 'mentor-1', 'key-1', {}, async () => 'retry')).rejects.toMatchObject({ code: 'aborted' });
+
+    vi.setSystemTime(t0 + IN_PROGRESS_LEASE_MS + 1);
+    expect(await withIdempotency('payout', 'mentor-1', 'key-1', {}, async () => 'taken over')).toBe('taken over');
+    finish('first');
+    await first;
+  });
+
+  it('releases the key when the request fails', async () => {
+    await expect(withIdempotency('book', 'student-1', 'key-1', {}, async () => { throw new Error('slot taken'); })).rejects.toThrow('slot taken');
+    expect(records(fakes)).toHaveLength(0);
+
+    expect(await withIdempotency('book', 'student-1', 'key-1', {}, async () => 'booked')).toBe('booked');
+  });
+
+  it('runs a request again once its record has expired', async () => {
+    const fn = vi.fn(async () => 'done');
+    await withIdempotency('settle', 'student-1', 'key-1', {}, fn);
+
+    vi.setSystemTime(t0 + IDEMPOTENCY_TTL_MS + 1);
+    await withIdempotency('settle', 'student-1', 'key-1', {}, fn);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('idempotent', () => {
+  beforeEach(() => {
+    resetClients();
+    installFakes();
+  });
+
+  it('only goes through the store for signed-in requests with a key', async () => {
+    const handler = vi.fn(async () => 'ok');
+    const wrapped = idempotent('topup', handler);
+
+    await wrapped({ amount: 100 }, student);
+    await wrapped({ amount: 100, idempotencyKey: 'k' }, { auth: undefined } as any);
+    await wrapped({ amount: 100, idempotencyKey: 'k' }, student);
+    await wrapped({ amount: 100, idempotencyKey: 'k' }, student);
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    await expect(wrapped({ idempotencyKey: 'x'.repeat(256) }, student)).rejects.toMatchObject({ code: 'invalid-argument' });
+    await expect(wrapped({ idempotencyKey: 42 }, student)).rejects.toMatchObject({ code: 'invalid-argument' });
+  });
+});
+
+describe('sweepExpiredIdempotencyRecords', () => {
+  it('deletes expired records and the legacy keys, keeping live ones', async () => {
+    resetClients();
+    const fakes = installFakes();
+    const at = (ms: number) => admin.firestore.Timestamp.fromMillis(ms);
+    fakes.db.documents.set('idempotencyRecords/old-1', { expiresAt: at(Date.now() - 1000) });
+    fakes.db.documents.set('idempotencyRecords/old-2', { expiresAt: at(Date.now() - 1) });
+    fakes.db.documents.set('idempotencyRecords/live', { expiresAt: at(Date.now() + 60_000) });
+    fakes.db.documents.set('idempotencyKeys/legacy', { createdAt: at(0) });
+
+    expect(await sweepExpiredIdempotencyRecords(1)).toBe(3);
+    expect([...fakes.db.documents.keys()]).toEqual(['idempotencyRecords/live']);
+  });
+});
@@ -0,0 +1,166 @@
+import { readFileSync } from 'fs';
+import fc from 'fast-check';
+import { describe, expect, it } from 'vitest';
+import {
+  CURRENCY_EXPONENTS, MoneyError, add, allocate, currencyExponent, formatMajor, fromMajor, money, multiply, ratio, subtract, toMajor,
+  type Rounding,
+} from '../src/money.js';
+
+const currencies = ['INR', 'USD', 'EUR', 'JPY', 'KRW', 'KWD', 'BHD', 'TND'];
+const currency = fc.constantFrom(...currencies);
+const roundings: Rounding[] = ['half_up', 'half_even', 'down', 'up'];
+const rounding = fc.constantFrom(...roundings);
+// Comfortably inside the safe-integer range so products stay representable
+const minor = fc.integer({ min: -1e12, max: 1e12 });
+
+describe('exponents', () => {
+  it('uses ISO 4217 minor units', () => {
+    expect(currencyExponent('inr')).toBe(2);
+    expect(currencyExponent('JPY')).toBe(0);
+    expect(currencyExponent('KWD')).toBe(3);
+    expect(Object.values(CURRENCY_EXPONENTS).every((e) => e === 0 || e === 3)).toBe(true);
+  });
+
+  it('rejects malformed currency codes', () => {
+    expect(() => money(1, 'RUPEES')).toThrow(MoneyError);
+    expect(() => currencyExponent('')).toThrow(MoneyError);
+  });
+});
+
+describe('fromMajor', () => {
+  it('converts per currency exponent', () => {
+    expect(fromMajor(100.5, 'INR').amountMinor).toBe(10050);
+    expect(fromMajor('500', 'JPY').amountMinor).toBe(500);
+    expect(fromMajor('1.234', 'KWD').amountMinor).toBe(1234);
+    expect(fromMajor('100.00', 'JPY').amountMinor).toBe(100);
+    expect(fromMajor('1e3', 'USD').amountMinor).toBe(100000);
+  });
+
+  it('does not pick up float error', () => {
+    expect(fromMajor(1.005, 'USD', 'half_up').amountMinor).toBe(101);
+    expect(fromMajor(19.99, 'USD').amountMinor).toBe(1999);
+    expect(fromMajor(0.29, 'USD').amountMinor).toBe(29);
+  });
+
+  it('rejects extra decimal places unless a rounding mode is given', () => {
+    expect(() => fromMajor('10.5', 'JPY')).toThrow(MoneyError);
+    expect(() => fromMajor('1.2345', 'KWD')).toThrow(MoneyError);
+    expect(fromMajor('10.5', 'JPY', 'half_even').amountMinor).toBe(10);
+    expect(fromMajor('11.5', 'JPY', 'half_even').amountMinor).toBe(12);
+    expect(fromMajor('-10.5', 'JPY', 'half_up').amountMinor).toBe(-11);
+  });
+
+  it('rejects non-numbers and out-of-range amounts', () => {
+    expect(() => fromMajor(Number.NaN, 'USD')).toThrow(MoneyError);
+    expect(() => fromMajor('12abc', 'USD')).toThrow(MoneyError);
+    expect(() => fromMajor('1e20', 'USD')).toThrow(MoneyError);
+  });
+
+  it('round-trips with formatMajor', () => {
+    fc.assert(fc.property(minor, currency, (amount, cur) => {
+      const m = money(amount, cur);
+      expect(fromMajor(formatMajor(m), cur)).toEqual(m);
+    }));
+  });
+
+  it('round-trips with toMajor', () => {
+    fc.assert(fc.property(fc.integer({ min: -1e9, max: 1e9 }), currency, (amount, cur) => {
+      expect(fromMajor(toMajor(money(amount, cur)), cur).amountMinor).toBe(amount);
+    }));
+  });
+
+  it('rounds to within half a minor unit', () => {
+    fc.assert(fc.property(fc.integer({ min: -1e9, max: 1e9 }), fc.integer({ min: 0, max: 999 }), currency, (whole, extra, cur) => {
+      // whole minor units plus up to three extra decimal digits
+      const exp = currencyExponent(cur);
+      const text = formatMajor(money(whole, cur)) + (exp === 0 ? '.' : '') + String(extra).padStart(3, '0');
+      const rounded = fromMajor(text, cur, 'half_up').amountMinor;
+      const distance = Math.abs(rounded - whole - (whole < 0 ? -extra : extra) / 1000);
+      expect(distance).toBeLessThanOrEqual(0.5);
+    }));
+  });
+});
+
+describe('arithmetic', () => {
+  it('never mixes currencies', () => {
+    expect(() => add(money(1, 'INR'), money(1, 'USD'))).toThrow(MoneyError);
+    expect(() => subtract(money(1, 'JPY'), money(1, 'KWD'))).toThrow(MoneyError);
+  });
+
+  it('rejects fractional minor units', () => {
+    expect(() => money(10.5, 'INR')).toThrow(MoneyError);
+    expect(() => money(Number.MAX_SAFE_INTEGER + 1, 'INR')).toThrow(MoneyError);
+  });
+
+  it('add and subtract are inverse', () => {
+    fc.assert(fc.property(minor, minor, currency, (a, b, cur) => {
+      expect(subtract(add(money(a, cur), money(b, cur)), money(b, cur))).toEqual(money(a, cur));
+    }));
+  });
+
+  it('multiply is exact for decimal factors', () => {
+    expect(multiply(money(1000, 'INR'), 0.15).amountMinor).toBe(150);
+    expect(multiply(money(333, 'INR'), 0.15).amountMinor).toBe(50);
+    expect(multiply(money(1005, 'USD'), '0.1', 'half_even').amountMinor).toBe(100);
+    expect(multiply(money(1015, 'USD'), '0.1', 'half_even').amountMinor).toBe(102);
+  });
+
+  it('multiply rounding brackets the exact result', () => {
+    fc.assert(fc.property(fc.integer({ min: -1e9, max: 1e9 }), fc.integer({ min: 0, max: 10000 }), (amount, basisPoints) => {
+      const m = money(amount, 'INR');
+      const factor = basisPoints / 10000;
+      const down = multiply(m, factor, 'down').amountMinor;
+      const up = multiply(m, factor, 'up').amountMinor;
+      const exact = (amount * basisPoints) / 10000;
+      expect(Math.abs(down)).toBeLessThanOrEqual(Math.abs(exact));
+      expect(Math.abs(up)).toBeGreaterThanOrEqual(Math.abs(exact));
+      expect(Math.abs(up - down)).toBeLessThanOrEqual(1);
+    }));
+  });
+
+  it('ratio matches integer division within the rounding mode', () => {
+    fc.assert(fc.property(fc.integer({ min: 0, max: 1e9 }), fc.integer({ min: 0, max: 600 }), fc.integer({ min: 1, max: 600 }), rounding,
+      (amount, num, den, mode) => {
+        const result = ratio(money(amount, 'USD'), num, den, mode).amountMinor;
+        const exact = (amount * num) / den;
+        expect(Math.abs(result - exact)).toBeLessThan(1);
+        if (mode === 'down') expect(result).toBe(Math.floor(exact));
+        if (mode === 'up') expect(result).toBe(Math.ceil(exact));
+      }));
+  });
+});
+
+describe('allocate', () => {
+  it('splits by weights without losing a unit', () => {
+    expect(allocate(money(100, 'INR'), [1, 1, 1]).map((m) => m.amountMinor)).toEqual([34, 33, 33]);
+    expect(allocate(money(5, 'JPY'), [85, 15]).map((m) => m.amountMinor)).toEqual([4, 1]);
+    expect(allocate(money(-100, 'INR'), [1, 1, 1]).map((m) => m.amountMinor)).toEqual([-34, -33, -33]);
+  });
+
+  it('parts always sum to the total and stay within one unit of their share', () => {
+    fc.assert(fc.property(minor, fc.array(fc.integer({ min: 0, max: 1e6 }), { minLength: 1, maxLength: 8 }), currency, (amount, weights, cur) => {
+      fc.pre(weights.some((w) => w > 0));
+      const parts = allocate(money(amount, cur), weights);
+      expect(parts.reduce((sum, p) => sum + p.amountMinor, 0)).toBe(amount);
+      const total = weights.reduce((a, b) => a + b, 0);
+      parts.forEach((p, i) => {
+        expect(p.currency).toBe(cur);
+        expect(Math.abs(p.amountMinor - (amount * weights[i]) / total)).toBeLessThan(1);
+      });
+    }));
+  });
+
+  it('rejects invalid weights', () => {
+    expect(() => allocate(money(100, 'INR'), [])).toThrow(MoneyError);
+    expect(() => allocate(money(100, 'INR'), [0, 0])).toThrow(MoneyError);
+    expect(() => allocate(money(100, 'INR'), [1, -1])).toThrow(MoneyError);
+  });
+});
+
+describe('edge function copy', () => {
+  it('is identical to the Firebase module', () => {
+    const firebase = readFileSync(new URL('../src/money.ts', import.meta.url), 'utf8');
+    const edge = readFileSync(new URL('../../../../instant_mentor_demo/supabase/functions/_shared/money.ts', import.meta.url), 'utf8');
+    expect(edge).toBe(firebase);
+  });
+});
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { requestPayout } from '../src/index.js';
+import { FakeSupabase, installFakes, type Fakes } from './fakes/index.js';
+
+const mentor = { auth: { uid: 'mentor-1', token: {} } };
+
+const profile = {
+  uid: 'mentor-1',
+  kyc_status: 'verified',
+  region: 'US',
+  stripe_account_id: 'acct_mentor',
+  stripe_onboarding_complete: true,
+  razorpay_fund_account_id: 'fa_mentor',
+  bank_account_number: null,
+  bank_ifsc_code: null,
+  bank_account_holder_name: null,
+};
+
+// create_payout_request and settle_payout_request from 008_payout_execution.sql over payout_requests
+function payoutSupabase(overrides: Record<string, any> = {}) {
+  return new FakeSupabase({
+    mentor_earnings: [{ mentor_uid: 'mentor-1', currency: 'USD', available: 50000 }],
+    user_payment_profiles: [{ ...profile, ...overrides }],
+  })
+    .onRpc('create_payout_request', ({ p_mentor_id, p_amount, p_gateway }, db) => {
+      const earnings = db.table('mentor_earnings').find((e) => e.mentor_uid === p_mentor_id)!;
+      if (earnings.available < p_amount) return null;
+      earnings.available -= p_amount;
+      const row = { id: `payout-${db.table('payout_requests').length + 1}`, mentor_uid: p_mentor_id, amount: p_amount, currency: earnings.currency, status: 'created', gateway: p_gateway };
+      db.table('payout_requests').push(row);
+      return { ...row };
+    })
+    .onRpc('settle_payout_request', ({ p_request_id, p_outcome }, db) => {
+      const row = db.table('payout_requests').find((r) => r.id === p_request_id)!;
+      if (p_outcome === 'failed' && row.status !== 'paid') {
+        db.table('mentor_earnings').find((e) => e.mentor_uid === row.mentor_uid)!.available += row.amount;
+      }
+      row.status = p_outcome;
+      return row.status;
+    });
+}
+
+describe('requestPayout', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+  });
+
+  const payoutRow = () => fakes.supabase.table('payout_requests')[0];
+  const available = () => fakes.supabase.table('mentor_earnings')[0].available;
+
+  it('creates a Stripe Connect transfer and leaves the request pending', async () => {
+    fakes = installFakes(payoutSupabase());
+    const result = await requestPayout.run({ amount: 20000 }, mentor);
+
+    expect(result).toEqual({ status: 'pending', id: 'payout-1' });
+    expect(fakes.stripe.transferList).toEqual([expect.objectContaining({
+      amount: 20000, currency: 'usd', destination: 'acct_mentor', metadata: { payoutRequestId: 'payout-1', mentorId: 'mentor-1' },
+    })]);
+    expect(payoutRow()).toMatchObject({ status: 'pending', transfer_id: fakes.stripe.transferList[0].id });
+    expect(available()).toBe(30000);
+  });
+
+  it('releases the lock when Stripe rejects the transfer', async () => {
+    fakes = installFakes(payoutSupabase());
+    fakes.stripe.failNext('transfers.create', { type: 'StripeInvalidRequestError', message: 'Insufficient funds in Stripe account' });
+
+    await expect(requestPayout.run({ amount: 20000 }, mentor)).rejects.toMatchObject({ code: 'aborted' });
+    expect(payoutRow().status).toBe('failed');
+    expect(available()).toBe(50000);
+  });
+
+  it('keeps the amount locked and alerts when the outcome is unknown', async () => {
+    fakes = installFakes(payoutSupabase());
+    fakes.stripe.failNext('transfers.create', { type: 'StripeConnectionError', message: 'socket hang up' });
+
+    await expect(requestPayout.run({ amount: 20000 }, mentor)).rejects.toMatchObject({ code: 'unavailable' });
+    expect(payoutRow().status).toBe('created');
+    expect(available()).toBe(30000);
+    expect(fakes.supabase.calls('admin_log_alert')).toContainEqual(expect.objectContaining({ p_type: 'payout_submission_unknown', p_severity: 'critical' }));
+  });
+
+  it('pays mentors in India over RazorpayX', async () => {
+    fakes = installFakes(payoutSupabase({ region: 'IN' }));
+    const result = await requestPayout.run({ amount: 20000 }, mentor);
+
+    expect(result).toEqual({ status: 'pending', id: 'payout-1' });
+    const [sent] = fakes.razorpay.payoutRequests;
+    expect(sent.headers['x-payout-idempotency']).toBe('payout_payout-1');
+    expect(sent.body).toMatchObject({ account_number: '7878780080316316', fund_account_id: 'fa_mentor', amount: 20000, reference_id: 'payout-1' });
+    expect(payoutRow()).toMatchObject({ status: 'pending', payout_id: expect.stringMatching(/^pout_/) });
+  });
+
+  it('releases the lock when RazorpayX rejects the payout', async () => {
+    fakes = installFakes(payoutSupabase({ region: 'IN' }));
+    fakes.razorpay.nextPayout = { reject: 400, description: 'Fund account is inactive' };
+
+    await expect(requestPayout.run({ amount: 20000 }, mentor)).rejects.toMatchObject({ code: 'aborted' });
+    expect(fakes.supabase.calls('settle_payout_request')[0]).toMatchObject({ p_outcome: 'failed', p_reason: 'Fund account is inactive' });
+    expect(available()).toBe(50000);
+  });
+
+  it('requires verified KYC, the minimum amount and enough earnings', async () => {
+    fakes = installFakes(payoutSupabase({ kyc_status: 'pending' }));
+    await expect(requestPayout.run({ amount: 20000 }, mentor)).rejects.toMatchObject({ code: 'failed-precondition', message: 'KYC verification required' });
+
+    fakes = installFakes(payoutSupabase());
+    await expect(requestPayout.run({ amount: 9999 }, mentor)).rejects.toMatchObject({ code: 'failed-precondition', message: 'Minimum payout is 10000' });
+    await expect(requestPayout.run({ amount: 60000 }, mentor)).rejects.toMatchObject({ message: 'Insufficient available earnings' });
+    expect(fakes.stripe.transferList).toHaveLength(0);
+  });
+});
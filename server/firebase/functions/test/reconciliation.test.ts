@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { runReconciliation, type Finding } from '../src/reconciliation.js';
+import { FakeSupabase, installFakes } from './fakes/index.js';
+
+const unbalanced = (branch: string, sessionId: string, debits: number, credits: number): Finding => ({
+  check_name: 'transaction_unbalanced', subject: sessionId, expected: debits, actual: credits, details: { branch, sessionId },
+});
+
+describe('runReconciliation', () => {
+  beforeEach(() => {
+    resetClients();
+  });
+
+  it('raises one alert per violated check with its offenders', async () => {
+    const db = new FakeSupabase();
+    db.onRpc('reconciliation_findings', () => [
+      unbalanced('capture', 'session-1', 80000, 64000),
+      { check_name: 'wallet_balance_mismatch', subject: 'student-1', expected: 20000, actual: 36000, details: { branch: 'ledger' } },
+      unbalanced('refund', 'session-2', 50000, 50001),
+      { check_name: 'wallet_balance_mismatch', subject: 'student-2', expected: 0, actual: 500, details: { branch: 'unposted' } },
+      unbalanced('capture', 'session-3', 30000, 0),
+    ]);
+    installFakes(db);
+
+    const summary = await runReconciliation(2);
+    expect(summary).toMatchObject({ findings: 5, byCheck: { transaction_unbalanced: 3, wallet_balance_mismatch: 2 } });
+    expect(db.calls('reconciliation_findings')).toEqual([{ p_limit: 2 }]);
+
+    expect(db.calls('admin_log_alert')).toEqual([
+      {
+        p_type: 'reconciliation_mismatch',
+        p_severity: 'error',
+        p_message: 'Session ledger legs do not balance',
+        p_details: {
+          check: 'transaction_unbalanced',
+          count: 3,
+          // The capture branch came back with as many rows as the limit: there may be more
+          truncated: true,
+          offenders: [
+            { subject: 'session-1', expected: 80000, actual: 64000, difference: -16000, branch: 'capture', sessionId: 'session-1' },
+            { subject: 'session-2', expected: 50000, actual: 50001, difference: 1, branch: 'refund', sessionId: 'session-2' },
+            { subject: 'session-3', expected: 30000, actual: 0, difference: -30000, branch: 'capture', sessionId: 'session-3' },
+          ],
+        },
+      },
+      {
+        p_type: 'reconciliation_mismatch',
+        p_severity: 'critical',
+        p_message: 'Wallet balances differ from their ledger postings',
+        p_details: {
+          check: 'wallet_balance_mismatch',
+          count: 2,
+          // Two rows, but one from each branch
+          truncated: false,
+          offenders: [
+            { subject: 'student-1', expected: 20000, actual: 36000, difference: 16000, branch: 'ledger' },
+            { subject: 'student-2', expected: 0, actual: 500, difference: 500, branch: 'unposted' },
+          ],
+        },
+      },
+    ]);
+    expect(db.table('scheduled_job_runs')).toEqual([
+      expect.objectContaining({ job_name: 'reconciliation_check', status: 'completed', summary }),
+    ]);
+  });
+
+  it('raises nothing for a balanced ledger', async () => {
+    const db = new FakeSupabase();
+    db.onRpc('reconciliation_findings', () => []);
+    installFakes(db);
+
+    expect(await runReconciliation()).toMatchObject({ findings: 0, byCheck: {} });
+    expect(db.calls('admin_log_alert')).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { expireStaleSessions, staleAction, type StaleSession } from '../src/sessionExpiry.js';
+import { DEFAULT_NO_SHOW_POLICY, parseNoShowPolicy } from '../src/sessionLifecycle.js';
+import { FakeSupabase, installFakes, type Fakes } from './fakes/index.js';
+
+const now = new Date('2030-01-07T12:00:00Z');
+const clock = { now: () => now };
+const feeSchedule = { tiers: [{ percent: 0.2 }] };
+
+const session = (id: string, status: string, scheduledTime: string) => ({
+  id, status, scheduled_time: scheduledTime, student_id: 'student-1', mentor_id: 'mentor-1', duration_minutes: 60,
+});
+
+// list_stale_sessions returns `stale`; apply_session_transition moves the
+// session and its reservation like migration 020
+function fakeDatabase(stale: StaleSession[]) {
+  const db = new FakeSupabase({
+    mentoring_sessions: [
+      session('pending-1', 'pending', '2030-01-08T09:00:00Z'),
+      session('booked-1', 'scheduled', '2030-01-07T09:00:00Z'),
+      session('booked-2', 'scheduled', '2030-01-07T10:00:00Z'),
+    ],
+    session_payments: ['pending-1', 'booked-1', 'booked-2'].map((id) => ({ session_id: id, status: 'reserved', amount_total: 80000 })),
+    mentor_profiles: [{ id: 'profile-1', user_id: 'mentor-1', hourly_rate: 800, hourly_rate_currency: 'INR' }],
+    enhanced_wallets: [{ user_uid: 'student-1', currency: 'INR' }],
+  });
+  db.onRpc('list_stale_sessions', () => stale);
+  db.onRpc('apply_session_transition', (args) => {
+    const row = db.table('mentoring_sessions').find((s) => s.id === args.p_session_id)!;
+    if (!args.p_from.includes(row.status)) return { status: 'invalid_state', current: row.status };
+    const payment = db.table('session_payments').find((p) => p.session_id === row.id)!;
+    const wallet = args.p_wallet === 'release' ? 'released' : args.p_wallet === 'capture' ? 'captured' : 'none';
+    if (wallet !== 'none') payment.status = wallet;
+    const from = row.status;
+    row.status = args.p_to;
+    return { status: 'applied', from, wallet };
+  });
+  db.onInvoke('send-notification', () => ({ success: true }));
+  return db;
+}
+
+describe('staleAction', () => {
+  it('blames whoever did not ring', () => {
+    const noShow = (student: boolean, mentor: boolean): StaleSession => ({ session_id: 's', kind: 'no_show', student_joined: student, mentor_joined: mentor });
+    expect(staleAction({ session_id: 's', kind: 'unaccepted', student_joined: false, mentor_joined: false })).toBe('expire');
+    expect(staleAction(noShow(false, true))).toBe('student_no_show');
+    expect(staleAction(noShow(true, false))).toBe('mentor_no_show');
+    expect(staleAction(noShow(false, false))).toBe('both_no_show');
+  });
+});
+
+describe('parseNoShowPolicy', () => {
+  it('keeps the defaults for missing or invalid shares', () => {
+    expect(parseNoShowPolicy(undefined)).toEqual(DEFAULT_NO_SHOW_POLICY);
+    expect(parseNoShowPolicy('{"bothAbsentPercent":0.25}')).toEqual({ studentAbsentPercent: 1, bothAbsentPercent: 0.25 });
+    expect(parseNoShowPolicy('{"studentAbsentPercent":2}')).toEqual(DEFAULT_NO_SHOW_POLICY);
+    expect(parseNoShowPolicy('not json')).toEqual(DEFAULT_NO_SHOW_POLICY);
+  });
+});
+
+describe('expireStaleSessions', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+  });
+
+  it('expires unanswered requests and settles no-shows under the policy', async () => {
+    fakes = installFakes(fakeDatabase([
+      { session_id: 'pending-1', kind: 'unaccepted', student_joined: false, mentor_joined: false },
+      { session_id: 'booked-1', kind: 'no_show', student_joined: false, mentor_joined: true },
+      { session_id: 'booked-2', kind: 'no_show', student_joined: false, mentor_joined: false },
+    ]));
+
+    const summary = await expireStaleSessions({ clock, acceptHours: 24, noShow: { studentAbsentPercent: 0.5, bothAbsentPercent: 0 }, feeSchedule });
+
+    expect(summary).toMatchObject({ scanned: 3, expired: 1, studentNoShows: 1, bothNoShows: 1, failed: 0, notificationsFailed: 0 });
+    expect(fakes.supabase.calls('list_stale_sessions')[0]).toEqual({
+      p_now: '2030-01-07T12:00:00.000Z', p_accept_cutoff: '2030-01-06T12:00:00.000Z', p_limit: 100,
+    });
+    const [expire, studentNoShow, bothNoShow] = fakes.supabase.calls('apply_session_transition');
+    expect(expire).toMatchObject({ p_action: 'expire', p_to: 'cancelled', p_actor_id: null, p_actor_role: 'system', p_wallet: 'release', p_cancelled_by: 'mentor-1' });
+    // Half of the 80000 booking, 20% of it to the platform
+    expect(studentNoShow).toMatchObject({ p_action: 'student_no_show', p_wallet: 'capture', p_amounts: { total: 40000, mentor: 32000, platform: 8000 } });
+    expect(bothNoShow).toMatchObject({ p_action: 'both_no_show', p_wallet: 'release', p_amounts: null });
+    expect(fakes.supabase.table('session_payments').map((p) => p.status)).toEqual(['released', 'captured', 'released']);
+  });
+
+  it('notifies both parties of each session', async () => {
+    fakes = installFakes(fakeDatabase([{ session_id: 'booked-1', kind: 'no_show', student_joined: true, mentor_joined: false }]));
+
+    await expireStaleSessions({ clock, acceptHours: 24, noShow: DEFAULT_NO_SHOW_POLICY, feeSchedule });
+
+    expect(fakes.supabase.invocations.map((i) => [i.name, i.body.userId, i.body.title])).toEqual([
+      ['send-notification', 'student-1', 'Mentor did not join'],
+      ['send-notification', 'mentor-1', 'Missed session'],
+    ]);
+    expect(fakes.supabase.invocations[0].body).toMatchObject({ type: 'session', category: 'sessions', data: { sessionId: 'booked-1', action: 'mentor_no_show' } });
+  });
+
+  it('skips sessions that moved on and alerts on failures', async () => {
+    fakes = installFakes(fakeDatabase([
+      { session_id: 'booked-1', kind: 'unaccepted', student_joined: false, mentor_joined: false },
+      { session_id: 'missing', kind: 'no_show', student_joined: false, mentor_joined: false },
+    ]));
+
+    const summary = await expireStaleSessions({ clock, acceptHours: 24, noShow: DEFAULT_NO_SHOW_POLICY, feeSchedule });
+
+    expect(summary).toMatchObject({ scanned: 2, skipped: 1, failed: 1, failures: [{ sessionId: 'missing', reason: 'Session not found' }] });
+    expect(fakes.supabase.invocations).toHaveLength(0);
+    expect(fakes.supabase.calls('admin_log_alert')).toContainEqual(expect.objectContaining({ p_type: 'session_expiry_failed', p_severity: 'warning' }));
+  });
+});
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { settleOnSessionComplete, transitionSession } from '../src/index.js';
+import { checkTransition } from '../src/sessionLifecycle.js';
+import { agoraUidForUser } from '../src/usage.js';
+import { FakeSupabase, installFakes, type Fakes } from './fakes/index.js';
+
+const student = { auth: { uid: 'student-1', token: {} } };
+const mentor = { auth: { uid: 'mentor-1', token: {} } };
+
+const inAnHour = () => new Date(Date.now() + 60 * 60_000).toISOString();
+const anHourAgo = () => new Date(Date.now() - 60 * 60_000).toISOString();
+
+// apply_session_transition as migration 020 runs it, over session_payments with a
+// wallet that covers `balanceMinor`
+function fakeDatabase(session: Record<string, any>, balanceMinor = 100000) {
+  const db = new FakeSupabase({
+    mentoring_sessions: [{ id: 'session-1', student_id: 'student-1', mentor_id: 'profile-1', duration_minutes: 60, ...session }],
+    mentor_profiles: [{ id: 'profile-1', user_id: 'mentor-1', hourly_rate: 800, hourly_rate_currency: 'INR' }],
+    enhanced_wallets: [{ user_uid: 'student-1', currency: 'INR' }],
+  });
+  db.onRpc('apply_session_transition', (args) => {
+    const row = db.table('mentoring_sessions').find((s) => s.id === args.p_session_id);
+    if (!row) return { status: 'not_found' };
+    if (!args.p_from.includes(row.status)) return { status: 'invalid_state', current: row.status };
+    const payment = db.table('session_payments').find((p) => p.session_id === row.id);
+    let wallet = 'none';
+    if (args.p_wallet === 'reserve' && !payment) {
+      if (args.p_amounts.total > balanceMinor) return { status: 'insufficient_funds' };
+      db.table('session_payments').push({ session_id: row.id, status: 'reserved', amount_total: args.p_amounts.total });
+      wallet = 'reserved';
+    } else if (args.p_wallet === 'release' && payment?.status === 'reserved') {
+      payment.status = 'released';
+      wallet = 'released';
+    } else if (args.p_wallet === 'capture' && payment?.status === 'reserved') {
+      payment.status = 'captured';
+      wallet = 'captured';
+    }
+    const from = row.status;
+    row.status = args.p_to;
+    if (['cancelled', 'declined', 'no_show'].includes(args.p_to)) row.cancelled_by = args.p_cancelled_by ?? args.p_actor_id;
+    db.table('session_transitions').push({ session_id: row.id, action: args.p_action, from_status: from, to_status: args.p_to, actor_role: args.p_actor_role, wallet });
+    return { status: 'applied', from, wallet };
+  });
+  return db;
+}
+
+describe('checkTransition', () => {
+  const now = new Date('2030-01-07T09:00:00Z');
+  const at = (minutes: number) => new Date(now.getTime() + minutes * 60_000).toISOString();
+
+  it('lets only the right party act, from the right status, at the right time', () => {
+    expect(checkTransition({ status: 'pending', scheduledTime: at(60), bookedMinutes: 60 }, 'accept', 'mentor', now).to).toBe('scheduled');
+    expect(() => checkTransition({ status: 'pending', scheduledTime: at(60), bookedMinutes: 60 }, 'accept', 'student', now))
+      .toThrow(expect.objectContaining({ code: 'permission-denied' }));
+    expect(() => checkTransition({ status: 'completed', scheduledTime: at(60), bookedMinutes: 60 }, 'cancel_by_student', 'student', now))
+      .toThrow(expect.objectContaining({ code: 'failed-precondition', message: 'Cannot cancel by student a session that is completed' }));
+    expect(() => checkTransition({ status: 'scheduled', scheduledTime: at(-5), bookedMinutes: 60 }, 'cancel_by_mentor', 'mentor', now))
+      .toThrow(expect.objectContaining({ code: 'failed-precondition' }));
+  });
+
+  it('opens start in the join window and no-show reports after the grace period', () => {
+    const booked = (minutes: number) => ({ status: 'scheduled', scheduledTime: at(minutes), bookedMinutes: 60 });
+    expect(() => checkTransition(booked(20), 'start', 'student', now)).toThrow(expect.objectContaining({ code: 'failed-precondition' }));
+    expect(checkTransition(booked(10), 'start', 'student', now).to).toBe('in_progress');
+    expect(() => checkTransition(booked(-10), 'mentor_no_show', 'student', now)).toThrow(expect.objectContaining({ code: 'failed-precondition' }));
+    expect(checkTransition(booked(-20), 'mentor_no_show', 'student', now).to).toBe('no_show');
+  });
+
+  it('holds neither admins nor scheduled jobs to the party and timing rules', () => {
+    expect(checkTransition({ status: 'pending', scheduledTime: at(-60), bookedMinutes: 60 }, 'accept', 'admin', now).to).toBe('scheduled');
+    expect(checkTransition({ status: 'scheduled', scheduledTime: at(60), bookedMinutes: 60 }, 'student_no_show', 'system', now).to).toBe('no_show');
+    expect(() => checkTransition({ status: 'cancelled', scheduledTime: at(60), bookedMinutes: 60 }, 'accept', 'admin', now))
+      .toThrow(expect.objectContaining({ code: 'failed-precondition' }));
+  });
+});
+
+describe('transitionSession', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+  });
+
+  it('reserves the booking when the mentor accepts and audits the change', async () => {
+    fakes = installFakes(fakeDatabase({ status: 'pending', scheduled_time: inAnHour() }));
+
+    const result = await transitionSession.run({ sessionId: 'session-1', action: 'accept' }, mentor);
+
+    expect(result).toMatchObject({ ok: true, from: 'pending', status: 'scheduled', wallet: 'reserved', refund: 'none', charge: { minutes: 60, amountMinor: 80000 } });
+    expect(fakes.supabase.calls('apply_session_transition')[0]).toMatchObject({
+      p_actor_id: 'mentor-1', p_actor_role: 'mentor', p_wallet: 'reserve', p_amounts: { total: 80000, currency: 'INR' },
+    });
+    expect(fakes.supabase.table('session_transitions')).toEqual([expect.objectContaining({ action: 'accept', from_status: 'pending', to_status: 'scheduled' })]);
+  });
+
+  it('leaves the request pending when the wallet cannot cover it', async () => {
+    fakes = installFakes(fakeDatabase({ status: 'pending', scheduled_time: inAnHour() }, 50000));
+
+    await expect(transitionSession.run({ sessionId: 'session-1', action: 'accept' }, mentor))
+      .rejects.toMatchObject({ code: 'failed-precondition', message: "The student's wallet cannot cover this session" });
+    expect(fakes.supabase.table('mentoring_sessions')[0].status).toBe('pending');
+  });
+
+  it('releases the reservation and refunds a Stripe payment on cancellation', async () => {
+    fakes = installFakes(fakeDatabase({ status: 'scheduled', scheduled_time: inAnHour() }));
+    fakes.supabase.table('session_payments').push({ session_id: 'session-1', status: 'reserved', amount_total: 80000 });
+    fakes.supabase.table('payment_transactions').push({ session_id: 'session-1', status: 'completed', transaction_id: 'pi_123' });
+    fakes.supabase.onInvoke('process-refund', () => ({ success: true }));
+
+    const result = await transitionSession.run({ sessionId: 'session-1', action: 'cancel_by_mentor', reason: 'Unwell' }, mentor);
+
+    expect(result).toMatchObject({ status: 'cancelled', wallet: 'released', refund: 'requested' });
+    expect(fakes.supabase.table('mentoring_sessions')[0].cancelled_by).toBe('mentor-1');
+    expect(fakes.supabase.invocations).toEqual([{ name: 'process-refund', body: { sessionId: 'session-1', reason: 'Unwell' } }]);
+  });
+
+  it('treats a refund the policy declines as no refund and alerts on other failures', async () => {
+    fakes = installFakes(fakeDatabase({ status: 'scheduled', scheduled_time: inAnHour() }));
+    fakes.supabase.table('payment_transactions').push({ session_id: 'session-1', status: 'completed', transaction_id: 'pi_123' });
+    fakes.supabase.onInvoke('process-refund', () => { throw { status: 422, message: 'Nothing refundable' }; });
+
+    expect(await transitionSession.run({ sessionId: 'session-1', action: 'cancel_by_student' }, student)).toMatchObject({ refund: 'none' });
+
+    fakes = installFakes(fakeDatabase({ status: 'pending', scheduled_time: inAnHour() }));
+    fakes.supabase.table('payment_transactions').push({ session_id: 'session-1', status: 'completed', transaction_id: 'pi_123' });
+    fakes.supabase.onInvoke('process-refund', () => { throw { status: 502, message: 'Stripe down' }; });
+
+    expect(await transitionSession.run({ sessionId: 'session-1', action: 'decline' }, mentor)).toMatchObject({ status: 'declined', refund: 'failed' });
+    expect(fakes.supabase.calls('admin_log_alert')).toContainEqual(expect.objectContaining({ p_type: 'session_refund_failed', p_severity: 'error' }));
+  });
+
+  it('captures the verified call time on completion', async () => {
+    fakes = installFakes(fakeDatabase({ status: 'in_progress', scheduled_time: anHourAgo() }));
+    fakes.supabase.table('session_payments').push({ session_id: 'session-1', status: 'reserved', amount_total: 80000 });
+    // The student is in from the start, the mentor joins 5 minutes later, the student leaves after 35
+    const at = (minutes: number) => new Date(Date.parse(anHourAgo()) + minutes * 60_000).toISOString();
+    fakes.supabase.table('call_presence_events').push(
+      { session_id: 'session-1', event_type: 103, agora_uid: agoraUidForUser('student-1'), account: null, event_at: at(0) },
+      { session_id: 'session-1', event_type: 103, agora_uid: 7, account: 'mentor-1', event_at: at(5) },
+      { session_id: 'session-1', event_type: 104, agora_uid: agoraUidForUser('student-1'), account: null, event_at: at(35) },
+    );
+
+    const result = await transitionSession.run({ sessionId: 'session-1', action: 'complete' }, student);
+
+    expect(result).toMatchObject({ status: 'completed', wallet: 'captured', charge: { minutes: 30, usageSeconds: 1800, amountMinor: 40000 } });
+    expect(fakes.supabase.calls('apply_session_transition')[0]).toMatchObject({ p_wallet: 'capture', p_amounts: { total: 40000 } });
+  });
+
+  it('refuses strangers, unknown actions and stale states', async () => {
+    fakes = installFakes(fakeDatabase({ status: 'scheduled', scheduled_time: inAnHour() }));
+
+    await expect(transitionSession.run({ sessionId: 'session-1', action: 'cancel_by_student' }, { auth: { uid: 'someone', token: {} } }))
+      .rejects.toMatchObject({ code: 'permission-denied' });
+    await expect(transitionSession.run({ sessionId: 'session-1', action: 'refund' }, student)).rejects.toMatchObject({ code: 'invalid-argument' });
+    await expect(transitionSession.run({ sessionId: 'session-1', action: 'accept' }, mentor)).rejects.toMatchObject({ code: 'failed-precondition' });
+    await expect(transitionSession.run({ sessionId: 'missing', action: 'accept' }, mentor)).rejects.toMatchObject({ code: 'not-found' });
+    await expect(transitionSession.run({ sessionId: 'session-1', action: 'accept' }, {})).rejects.toMatchObject({ code: 'unauthenticated' });
+    expect(fakes.supabase.calls('apply_session_transition')).toHaveLength(0);
+  });
+
+  it('lets an admin act on any session', async () => {
+    fakes = installFakes(fakeDatabase({ status: 'scheduled', scheduled_time: anHourAgo() }));
+
+    const result = await transitionSession.run({ sessionId: 'session-1', action: 'mentor_no_show' }, { auth: { uid: 'admin-1', token: { admin: true } } });
+
+    expect(result).toMatchObject({ status: 'no_show' });
+    expect(fakes.supabase.calls('apply_session_transition')[0]).toMatchObject({ p_actor_role: 'admin', p_cancelled_by: 'mentor-1' });
+  });
+});
+
+describe('settleOnSessionComplete', () => {
+  it('completes the session and answers in the old shape', async () => {
+    resetClients();
+    const fakes = installFakes(fakeDatabase({ status: 'scheduled', scheduled_time: anHourAgo() }));
+    fakes.supabase.table('session_payments').push({ session_id: 'session-1', status: 'reserved', amount_total: 80000 });
+
+    const result = await settleOnSessionComplete.run({ sessionId: 'session-1' }, mentor);
+
+    expect(result).toEqual({ ok: true, minutes: 60, amountMinor: 80000, mentorAmount: expect.any(Number), platformFee: expect.any(Number), currency: 'INR' });
+    expect(fakes.supabase.table('mentoring_sessions')[0].status).toBe('completed');
+  });
+});
@@ -0,0 +1,259 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import {
+  mergeGatewayItems, razorpaySettlementItem, reconcileSettlement, runSettlementReconciliation, stripeBalanceItem,
+  type SettlementItem,
+} from '../src/settlement.js';
+
+// Recorded Stripe and Razorpay API responses, trimmed to the fields we read
+function fixture(name: string): any {
+  return JSON.parse(readFileSync(new URL(`./fixtures/settlement/${name}`, import.meta.url), 'utf8'));
+}
+
+const stripeTransactions: any[] = fixture('stripe_balance_transactions.json');
+const razorpayReports: Record<string, any> = fixture('razorpay_settlement_recon.json');
+const ledgerRecords: Record<string, any[]> = fixture('ledger_records.json');
+
+const range = { from: new Date('2026-03-10T00:00:00Z'), to: new Date('2026-03-11T00:00:00Z') };
+
+// Serves balanceTransactions.list from the fixture, three per page, honouring `created` and `starting_after`
+function fakeStripe() {
+  const calls: any[] = [];
+  return {
+    calls,
+    balanceTransactions: {
+      async list(params: any) {
+        calls.push(params);
+        const inWindow = stripeTransactions
+          .filter((bt) => bt.created >= params.created.gte && bt.created < params.created.lt)
+          .sort((a, b) => b.created - a.created);
+        const start = params.starting_after ? inWindow.findIndex((bt) => bt.id === params.starting_after) + 1 : 0;
+        const data = inWindow.slice(start, start + 3);
+        return { object: 'list', data, has_more: start + 3 < inWindow.length };
+      },
+    },
+  };
+}
+
+function fakeRazorpay() {
+  const days: string[] = [];
+  return {
+    days,
+    settlements: {
+      async reports(params: any) {
+        const day = `${params.year}-${String(params.month).padStart(2, '0')}-${String(params.day).padStart(2, '0')}`;
+        days.push(day);
+        const items: any[] = razorpayReports[day]?.items ?? [];
+        const page = items.slice(params.skip, params.skip + params.count);
+        return { entity: 'collection', count: page.length, items: page };
+      },
+    },
+  };
+}
+
+// Minimal PostgREST query builder over the fixture tables
+function fakeSupabase() {
+  const inserts: Array<{ table: string; row: any }> = [];
+  const from = (table: string) => {
+    const filters: Array<(row: any) => boolean> = [];
+    const query: any = {
+      select: () => query,
+      order: () => query,
+      eq: (col: string, value: any) => { filters.push((r) => r[col] === value); return query; },
+      in: (col: string, values: any[]) => { filters.push((r) => values.includes(r[col])); return query; },
+      not: (col: string, op: string, value: any) => {
+        if (op !== 'is' || value !== null) throw new Error(`unsupported not(${op})`);
+        filters.push((r) => r[col] !== null && r[col] !== undefined);
+        return query;
+      },
+      gte: (col: string, value: string) => { filters.push((r) => Date.parse(r[col]) >= Date.parse(value)); return query; },
+      lt: (col: string, value: string) => { filters.push((r) => Date.parse(r[col]) < Date.parse(value)); return query; },
+      range: async (start: number, end: number) => {
+        const rows = (ledgerRecords[table] ?? []).filter((r) => filters.every((f) => f(r)));
+        return { data: rows.slice(start, end + 1), error: null };
+      },
+      insert: async (row: any) => { inserts.push({ table, row }); return { error: null }; },
+    };
+    return query;
+  };
+  return { inserts, from };
+}
+
+function fakeAlerts() {
+  const alerts: Array<{ type: string; severity: string; message: string; details: any }> = [];
+  const alert = async (type: string, severity: any, message: string, details: any = {}) => {
+    alerts.push({ type, severity, message, details });
+  };
+  return { alerts, alert };
+}
+
+function item(overrides: Partial<SettlementItem>): SettlementItem {
+  return {
+    gateway: 'stripe', kind: 'payment', id: 'ch_1', altIds: [], amount: 1000, currency: 'INR',
+    occurredAt: '2026-03-10T12:00:00.000Z', source: 'charge', ...overrides,
+  };
+}
+
+describe('stripeBalanceItem', () => {
+  it('uses the expanded charge amount and keeps the payment intent as an alternate id', () => {
+    const charge = stripeBalanceItem(stripeTransactions[0]);
+    expect(charge).toMatchObject({
+      gateway: 'stripe', kind: 'payment', id: 'ch_3OqA1bTopup00A', altIds: ['pi_3OqA1bTopup00A'],
+      amount: 50000, currency: 'INR', signed: 50000, occurredAt: '2026-03-10T07:00:00.000Z',
+    });
+  });
+
+  it('signs refunds, lost disputes and transfers as outflows', () => {
+    expect(stripeBalanceItem(stripeTransactions[2])).toMatchObject({ kind: 'refund', id: 're_3OqA1bRefund0C', signed: -20000 });
+    expect(stripeBalanceItem(stripeTransactions[8])).toMatchObject({ kind: 'refund', id: 'du_3OqA1bDispute0J', signed: -40000 });
+    expect(stripeBalanceItem(stripeTransactions[5])).toMatchObject({ kind: 'payout', id: 'tr_3OqA1bPayout0E', signed: -80000 });
+  });
+
+  it('ignores fees and other balance movements', () => {
+    expect(stripeBalanceItem(stripeTransactions[3])).toBeNull();
+  });
+
+  it('falls back to the balance amount when the source is not expanded', () => {
+    const bt = { ...stripeTransactions[1], source: 'ch_3OqA1bSession0B', amount: 119500, currency: 'inr' };
+    expect(stripeBalanceItem(bt)).toMatchObject({ id: 'ch_3OqA1bSession0B', altIds: [], amount: 119500 });
+  });
+});
+
+describe('razorpaySettlementItem', () => {
+  const [topup, refund, payment, transfer] = razorpayReports['2026-03-12'].items;
+
+  it('maps payments with their order id and refunds as outflows', () => {
+    expect(razorpaySettlementItem(topup)).toMatchObject({
+      gateway: 'razorpay', kind: 'payment', id: 'pay_NqA1bTopup0K', altIds: ['order_NqA1bTopup0L'], amount: 99900, signed: 99900,
+    });
+    expect(razorpaySettlementItem(refund)).toMatchObject({ kind: 'refund', id: 'rfnd_NqA1bRefund0M', signed: -5000 });
+  });
+
+  it('parses string amounts', () => {
+    expect(razorpaySettlementItem(payment)).toMatchObject({ amount: 10000 });
+  });
+
+  it('ignores Route transfers', () => {
+    expect(razorpaySettlementItem(transfer)).toBeNull();
+  });
+});
+
+describe('mergeGatewayItems', () => {
+  it('drops a refund that failed after it was debited', () => {
+    const items = [stripeTransactions[6], stripeTransactions[7]].map((bt) => stripeBalanceItem(bt)!);
+    expect(mergeGatewayItems(items)).toEqual([]);
+  });
+
+  it('nets partial reversals against the original movement', () => {
+    const transfer = stripeBalanceItem(stripeTransactions[5])!;
+    const reversal = { ...transfer, signed: 30000, source: 'transfer_cancel', occurredAt: '2026-03-11T00:00:00.000Z' };
+    expect(mergeGatewayItems([transfer, reversal])).toEqual([
+      expect.objectContaining({ id: 'tr_3OqA1bPayout0E', amount: 50000, occurredAt: transfer.occurredAt }),
+    ]);
+  });
+});
+
+describe('reconcileSettlement', () => {
+  it('matches by gateway id or an alternate id', () => {
+    const gateway = [item({ id: 'ch_1', altIds: ['pi_1'] })];
+    const ledger = [item({ id: 'pi_1', source: 'ledger_transactions:1' })];
+    expect(reconcileSettlement(gateway, ledger, range)).toEqual({ matched: 1, missing: [], extra: [], mismatched: [] });
+  });
+
+  it('reports amount and currency mismatches', () => {
+    const gateway = [item({ id: 'ch_1', amount: 1200 }), item({ id: 'ch_2', currency: 'USD' })];
+    const ledger = [item({ id: 'ch_1', source: 'payment_transactions:1' }), item({ id: 'ch_2', source: 'payment_transactions:2' })];
+    const result = reconcileSettlement(gateway, ledger, range);
+    expect(result.mismatched).toEqual([
+      expect.objectContaining({ gatewayId: 'ch_1', atGateway: { amount: 1200, currency: 'INR' }, inLedger: { amount: 1000, currency: 'INR', record: 'payment_transactions:1' } }),
+      expect.objectContaining({ gatewayId: 'ch_2', atGateway: { amount: 1000, currency: 'USD' } }),
+    ]);
+  });
+
+  it('does not match items of a different kind that share an id', () => {
+    const gateway = [item({ kind: 'refund', id: 'x_1' })];
+    const ledger = [item({ kind: 'payment', id: 'x_1' })];
+    const result = reconcileSettlement(gateway, ledger, range);
+    expect(result.missing).toHaveLength(1);
+    expect(result.extra).toHaveLength(1);
+  });
+
+  it('counts a payment recorded by two tables once', () => {
+    const gateway = [item({ id: 'ch_1', altIds: ['pi_1'] })];
+    const ledger = [item({ id: 'pi_1', source: 'payment_transactions:1' }), item({ id: 'ch_1', altIds: ['pi_1'], source: 'session_payments:s1' })];
+    expect(reconcileSettlement(gateway, ledger, range).matched).toBe(1);
+  });
+
+  it('only reports items inside the range', () => {
+    const before = '2026-03-09T23:59:59.000Z';
+    const gateway = [item({ id: 'ch_old', occurredAt: before })];
+    const ledger = [item({ id: 'ch_gone', occurredAt: before })];
+    expect(reconcileSettlement(gateway, ledger, range)).toEqual({ matched: 0, missing: [], extra: [], mismatched: [] });
+  });
+});
+
+describe('runSettlementReconciliation', () => {
+  it('reconciles recorded gateway reports against the ledger fixtures', async () => {
+    const stripe = fakeStripe();
+    const razorpay = fakeRazorpay();
+    const supabase = fakeSupabase();
+    const { alerts, alert } = fakeAlerts();
+
+    const report = await runSettlementReconciliation(
+      { stripe: stripe as any, razorpay: razorpay as any, supabase: supabase as any, alert },
+      { ...range, lagDays: 3 },
+    );
+
+    expect(report).toMatchObject({ from: '2026-03-10T00:00:00.000Z', to: '2026-03-11T00:00:00.000Z', gateways: ['stripe', 'razorpay'], matched: 6 });
+    expect(report.missing.map((d) => d.gatewayId)).toEqual(['ch_3OqA1bUnknown0D']);
+    expect(report.extra.map((d) => d.gatewayId)).toEqual(['pi_3OqA1bNoCharge0H']);
+    expect(report.mismatched.map((d) => [d.gatewayId, d.atGateway?.amount, d.inLedger?.amount])).toEqual([
+      ['ch_3OqA1bSession0B', 120000, 100000],
+      ['rfnd_NqA1bRefund0M', 5000, 4000],
+    ]);
+
+    // Gateway data is fetched with the lag on both sides of the range
+    expect(stripe.calls[0].created).toEqual({ gte: Date.parse('2026-03-07T00:00:00Z') / 1000, lt: Date.parse('2026-03-14T00:00:00Z') / 1000 });
+    expect(stripe.calls.length).toBeGreaterThan(1);
+    expect(razorpay.days).toEqual(['2026-03-07', '2026-03-08', '2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13']);
+
+    expect(alerts.map((a) => [a.type, a.severity, a.details.gatewayId])).toEqual([
+      ['settlement_mismatch', 'critical', 'ch_3OqA1bSession0B'],
+      ['settlement_mismatch', 'critical', 'rfnd_NqA1bRefund0M'],
+      ['settlement_missing', 'critical', 'ch_3OqA1bUnknown0D'],
+      ['settlement_extra', 'error', 'pi_3OqA1bNoCharge0H'],
+      ['settlement_reconciliation_summary', 'warning', undefined],
+    ]);
+    expect(supabase.inserts).toEqual([
+      { table: 'scheduled_job_runs', row: expect.objectContaining({ job_name: 'settlement_reconciliation', status: 'completed', summary: report }) },
+    ]);
+  });
+
+  it('limits the run to the requested gateway', async () => {
+    const supabase = fakeSupabase();
+    const { alerts, alert } = fakeAlerts();
+    const report = await runSettlementReconciliation(
+      { razorpay: fakeRazorpay() as any, supabase: supabase as any, alert },
+      { ...range, gateways: ['razorpay'] },
+    );
+    expect(report).toMatchObject({ gateways: ['razorpay'], matched: 2, missing: [], extra: [] });
+    expect(report.mismatched.map((d) => d.gatewayId)).toEqual(['rfnd_NqA1bRefund0M']);
+    expect(alerts.map((a) => a.type)).toEqual(['settlement_mismatch', 'settlement_reconciliation_summary']);
+  });
+
+  it('raises no alerts when everything matches', async () => {
+    const { alerts, alert } = fakeAlerts();
+    const quietDay = { from: new Date('2026-03-08T00:00:00Z'), to: new Date('2026-03-09T00:00:00Z') };
+    const report = await runSettlementReconciliation(
+      { razorpay: fakeRazorpay() as any, supabase: fakeSupabase() as any, alert },
+      { ...quietDay, gateways: ['razorpay'] },
+    );
+    expect(report).toMatchObject({ matched: 0, missing: [], extra: [], mismatched: [] });
+    expect(alerts).toEqual([]);
+  });
+
+  it('fails when none of the requested gateways is configured', async () => {
+    const { alert } = fakeAlerts();
+    await expect(runSettlementReconciliation({ supabase: fakeSupabase() as any, alert }, range)).rejects.toThrow('No gateway configured');
+  });
+});
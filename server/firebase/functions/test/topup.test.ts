@@ -0,0 +1,57 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { createTopupIntent } from '../src/index.js';
+import { FakeSupabase, installFakes, type Fakes } from './fakes/index.js';
+
+const student = { auth: { uid: 'student-1', token: {} } };
+
+describe('createTopupIntent', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+    fakes = installFakes(new FakeSupabase({ enhanced_wallets: [{ user_uid: 'student-1', currency: 'INR' }] }));
+  });
+
+  it('creates a Stripe payment intent for the amount in minor units', async () => {
+    const result = await createTopupIntent.run({ amount: 50000, currency: 'INR', gateway: 'stripe' }, student);
+
+    const [intent] = fakes.stripe.intentsById.values();
+    expect(intent).toMatchObject({ amount: 50000, currency: 'inr', metadata: { uid: 'student-1' } });
+    expect(result).toEqual({ gateway: 'stripe', clientSecret: intent.client_secret });
+  });
+
+  it('creates a Razorpay order', async () => {
+    const result = await createTopupIntent.run({ amount: 50000, gateway: 'razorpay' }, student);
+
+    expect(fakes.razorpay.orderList).toHaveLength(1);
+    expect(fakes.razorpay.orderList[0]).toMatchObject({ amount: 50000, currency: 'INR', notes: { uid: 'student-1' } });
+    expect(result).toEqual({ gateway: 'razorpay', orderId: fakes.razorpay.orderList[0].id });
+  });
+
+  it('rejects a top-up in another currency than the wallet', async () => {
+    await expect(createTopupIntent.run({ amount: 5000, currency: 'USD', gateway: 'stripe' }, student))
+      .rejects.toMatchObject({ code: 'failed-precondition' });
+    expect(fakes.stripe.intentsById.size).toBe(0);
+  });
+
+  it('rejects fractional and non-positive amounts', async () => {
+    for (const amount of [100.5, 0, -100, '100']) {
+      await expect(createTopupIntent.run({ amount, gateway: 'stripe' }, student)).rejects.toMatchObject({ code: 'invalid-argument' });
+    }
+  });
+
+  it('replays a retried request instead of creating a second intent', async () => {
+    const data = { amount: 50000, gateway: 'stripe', idempotencyKey: 'topup-1' };
+    const first = await createTopupIntent.run(data, student);
+    const retry = await createTopupIntent.run(data, student);
+
+    expect(retry).toEqual(first);
+    expect(fakes.stripe.intentsById.size).toBe(1);
+    await expect(createTopupIntent.run({ ...data, amount: 60000 }, student)).rejects.toMatchObject({ code: 'invalid-argument' });
+  });
+
+  it('requires a signed-in user', async () => {
+    await expect(createTopupIntent.run({ amount: 50000, gateway: 'stripe' }, {})).rejects.toMatchObject({ code: 'unauthenticated' });
+  });
+});
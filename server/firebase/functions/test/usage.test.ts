@@ -0,0 +1,119 @@
+import { createHmac } from 'crypto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { handleAgoraWebhook } from '../src/index.js';
+import { money } from '../src/money.js';
+import {
+  DEFAULT_USAGE_POLICY, agoraUidForUser, billedMinutes, overlapMs, parseAgoraNotice, parseUsagePolicy, presenceIntervals, usageTotal,
+  type PresenceEvent,
+} from '../src/usage.js';
+import { FakeSupabase, installFakes, webhookRequest, type Fakes } from './fakes/index.js';
+
+const SESSION = '5d1b9c1e-4a6f-4f3e-9b8a-2f6c1d0e7a11';
+const MINUTE = 60_000;
+const t0 = Date.parse('2030-01-07T09:00:00Z');
+
+function presence(type: number, userId: string, minutes: number, seq = 0): PresenceEvent {
+  return {
+    notice_id: `n-${type}-${userId}-${minutes}`, channel_name: `session_${SESSION}`, session_id: SESSION, event_type: type,
+    agora_uid: agoraUidForUser(userId), account: null, client_seq: seq, event_at: new Date(t0 + minutes * MINUTE).toISOString(), payload: {},
+  };
+}
+
+// An Agora NCS notification as delivered
+function notice(eventType: number, payload: Record<string, unknown>, noticeId = 'notice-1') {
+  return { noticeId, productId: 1, eventType, notifyMs: t0, payload: { channelName: `session_${SESSION}`, uid: 12345, clientSeq: 1, ts: t0 / 1000, ...payload } };
+}
+
+describe('presence', () => {
+  it('pairs joins with leaves and keeps an open join until the cutoff', () => {
+    const events = [presence(103, 'student-1', 0), presence(103, 'student-1', 2), presence(104, 'student-1', 20), presence(103, 'student-1', 30)];
+    expect(presenceIntervals(events, 'student-1', t0 + 50 * MINUTE)).toEqual([[t0, t0 + 20 * MINUTE], [t0 + 30 * MINUTE, t0 + 50 * MINUTE]]);
+    expect(presenceIntervals(events, 'mentor-1', t0 + 50 * MINUTE)).toEqual([]);
+  });
+
+  it('counts only the time both parties were in', () => {
+    const student = presenceIntervals([presence(103, 'student-1', 0), presence(104, 'student-1', 20), presence(103, 'student-1', 30), presence(104, 'student-1', 60)], 'student-1', Infinity);
+    const mentor = presenceIntervals([presence(105, 'mentor-1', 10), presence(106, 'mentor-1', 45)], 'mentor-1', Infinity);
+    expect(overlapMs(student, mentor)).toBe(25 * MINUTE);
+  });
+
+  // The same vectors are checked against generate-agora-token's agoraUidForUser in authorize_test.ts
+  it('derives the same uid generate-agora-token hands out', () => {
+    expect(agoraUidForUser('student-1')).toBe(1611396017);
+    expect(agoraUidForUser(SESSION)).toBe(2960011697);
+    expect(agoraUidForUser('b2c7e0f4-0d6e-4a54-8d1f-6f2e9a3c5b77')).toBe(2072346661);
+  });
+
+  it('recognises a user who joined with their id as the account', () => {
+    const event = { ...presence(103, 'x', 0), agora_uid: 99, account: 'mentor-1' };
+    expect(presenceIntervals([event], 'mentor-1', t0 + MINUTE)).toEqual([[t0, t0 + MINUTE]]);
+  });
+});
+
+describe('usage pricing', () => {
+  it('rounds usage into blocks and caps it at the booking', () => {
+    expect(billedMinutes(61, 60, DEFAULT_USAGE_POLICY)).toBe(2);
+    expect(billedMinutes(7 * 60, 60, { ...DEFAULT_USAGE_POLICY, incrementMinutes: 5 })).toBe(10);
+    expect(billedMinutes(7 * 60, 60, { ...DEFAULT_USAGE_POLICY, incrementMinutes: 5, rounding: 'nearest' })).toBe(5);
+    expect(billedMinutes(4 * 60, 60, { ...DEFAULT_USAGE_POLICY, incrementMinutes: 5, rounding: 'down' })).toBe(0);
+    expect(billedMinutes(90 * 60, 60, DEFAULT_USAGE_POLICY)).toBe(60);
+  });
+
+  it('applies the minimum charge to billed usage only, never above the booked price', () => {
+    const rate = money(80000, 'INR');
+    const policy = { ...DEFAULT_USAGE_POLICY, minimumChargeMinor: 20000 };
+    expect(usageTotal(rate, 5, 60, policy)).toEqual(money(20000, 'INR'));
+    expect(usageTotal(rate, 30, 60, policy)).toEqual(money(40000, 'INR'));
+    expect(usageTotal(rate, 0, 60, policy)).toEqual(money(0, 'INR'));
+    expect(usageTotal(rate, 5, 10, { ...policy, minimumChargeMinor: 50000 })).toEqual(money(13333, 'INR'));
+  });
+
+  it('parses the policy, keeping defaults for invalid fields', () => {
+    expect(parseUsagePolicy(undefined)).toEqual(DEFAULT_USAGE_POLICY);
+    expect(parseUsagePolicy('{"incrementMinutes":5,"rounding":"nearest","minimumChargeMinor":10000}'))
+      .toEqual({ incrementMinutes: 5, rounding: 'nearest', minimumChargeMinor: 10000 });
+    expect(parseUsagePolicy('{"incrementMinutes":0,"rounding":"sideways"}')).toEqual(DEFAULT_USAGE_POLICY);
+  });
+});
+
+describe('parseAgoraNotice', () => {
+  it('keeps joins and leaves and drops other channel events', () => {
+    expect(parseAgoraNotice(notice(104, { account: 'student-1' }))).toMatchObject({
+      notice_id: 'notice-1', session_id: SESSION, event_type: 104, agora_uid: 12345, account: 'student-1', event_at: '2030-01-07T09:00:00.000Z',
+    });
+    expect(parseAgoraNotice(notice(101, {}))).toBeNull();
+    expect(parseAgoraNotice(notice(103, { channelName: 'lobby' }))).toMatchObject({ session_id: null });
+    expect(() => parseAgoraNotice(notice(103, { uid: 'abc' }))).toThrow('Malformed Agora notification');
+  });
+});
+
+describe('handleAgoraWebhook', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+    fakes = installFakes(new FakeSupabase({}, { call_presence_events: ['notice_id'] }));
+  });
+
+  function deliver(body: unknown, secret = 'agora_test_ncs') {
+    const raw = JSON.stringify(body);
+    const { req, res } = webhookRequest({ 'agora-signature-v2': createHmac('sha256', secret).update(raw).digest('hex') }, raw);
+    return Promise.resolve(handleAgoraWebhook(req, res)).then(() => res);
+  }
+
+  it('stores each signed join or leave once', async () => {
+    expect((await deliver(notice(103, {}))).statusCode).toBe(200);
+    expect((await deliver(notice(103, {}))).statusCode).toBe(200);
+    expect((await deliver(notice(102, {}, 'notice-2'))).statusCode).toBe(200);
+
+    expect(fakes.supabase.table('call_presence_events')).toEqual([expect.objectContaining({ notice_id: 'notice-1', session_id: SESSION, event_type: 103 })]);
+  });
+
+  it('rejects unsigned and malformed notifications', async () => {
+    expect((await deliver(notice(103, {}), 'wrong')).statusCode).toBe(400);
+    expect((await deliver(notice(103, { uid: null }))).statusCode).toBe(400);
+    expect(fakes.supabase.table('call_presence_events')).toHaveLength(0);
+    expect(fakes.supabase.calls('admin_log_alert')).toContainEqual(expect.objectContaining({ p_type: 'webhook_verification_failed' }));
+  });
+});
@@ -0,0 +1,254 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { resetClients } from '../src/clients.js';
+import { handleRazorpayPayoutWebhook, handleRazorpayWebhook, handleStripeWebhook } from '../src/index.js';
+import {
+  FakeSupabase, installFakes, razorpayEvent, signRazorpayPayload, signStripePayload, stripeEvent, webhookRequest, type Fakes,
+} from './fakes/index.js';
+
+// The inbox RPCs from 007_webhook_inbox.sql, enough to claim and fail stored events.
+// payment_refunds is keyed like 005_gateway_refunds_and_disputes.sql.
+function inboxSupabase() {
+  return new FakeSupabase({}, { webhook_events: ['provider', 'event_id'], payment_refunds: ['gateway', 'gateway_refund_id'] })
+    .onRpc('claim_webhook_events', ({ p_provider, p_event_id, p_limit }, db) => db.table('webhook_events')
+      .filter((e) => e.status === 'pending' && (!p_provider || e.provider === p_provider) && (!p_event_id || e.event_id === p_event_id))
+      .slice(0, p_limit)
+      .map((e) => Object.assign(e, { status: 'processing', attempts: (e.attempts ?? 0) + 1 })))
+    .onRpc('fail_webhook_event', ({ p_provider, p_event_id, p_error }, db) => {
+      const event = db.table('webhook_events').find((e) => e.provider === p_provider && e.event_id === p_event_id)!;
+      Object.assign(event, { status: 'failed', last_error: p_error });
+      return 'failed';
+    });
+}
+
+const statusOf = (fakes: Fakes, eventId: string) => fakes.supabase.table('webhook_events').find((e) => e.event_id === eventId)?.status;
+
+// A captured 80000 session payment, 20% of it platform fee
+function capturedSession(supabase: FakeSupabase, paymentIntentId: string) {
+  supabase.table('session_payments').push({
+    session_id: 'session-1', student_uid: 'student-1', mentor_uid: 'mentor-1', payment_intent_id: paymentIntentId,
+    amount_total: 80000, amount_mentor: 64000, amount_platform: 16000, currency: 'INR', status: 'captured',
+  });
+}
+
+describe('handleStripeWebhook', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+    fakes = installFakes(inboxSupabase());
+  });
+
+  function deliver(event: unknown, secret = 'whsec_test_payments') {
+    const body = JSON.stringify(event);
+    const { req, res } = webhookRequest({ 'stripe-signature': signStripePayload(body, secret) }, body);
+    return Promise.resolve(handleStripeWebhook(req, res)).then(() => res);
+  }
+
+  it('stores, acknowledges and processes a signed event once', async () => {
+    const intent = fakes.stripe.succeed((await fakes.stripe.paymentIntents.create({ amount: 50000, currency: 'inr', metadata: { uid: 'student-1', idem: 'k1' } })).id);
+    const event = stripeEvent('payment_intent.succeeded', intent);
+
+    expect((await deliver(event)).statusCode).toBe(200);
+    expect(statusOf(fakes, event.id)).toBe('processed');
+    expect(fakes.supabase.calls('process_wallet_topup')).toEqual([
+      { user_id: 'student-1', amount_minor: 50000, transaction_data: { gatewayId: intent.id, idempotencyKey: 'k1' } },
+    ]);
+
+    // A redelivery is acknowledged without crediting again
+    expect((await deliver(event)).statusCode).toBe(200);
+    expect(fakes.supabase.calls('process_wallet_topup')).toHaveLength(1);
+  });
+
+  it('rejects a payload signed with another secret', async () => {
+    const res = await deliver(stripeEvent('payment_intent.succeeded', { id: 'pi_1', metadata: {} }), 'whsec_other');
+
+    expect(res.statusCode).toBe(400);
+    expect(fakes.supabase.table('webhook_events')).toHaveLength(0);
+    expect(fakes.supabase.calls('admin_log_alert')[0]).toMatchObject({ p_type: 'webhook_verification_failed' });
+  });
+
+  it('keeps an event whose processing fails for the retry worker', async () => {
+    fakes.supabase.onRpc('process_wallet_topup', () => { throw new Error('connection reset'); });
+    const event = stripeEvent('payment_intent.succeeded', { id: 'pi_2', amount_received: 100, metadata: { uid: 'student-1' } });
+
+    expect((await deliver(event)).statusCode).toBe(200);
+    expect(fakes.supabase.table('webhook_events')[0]).toMatchObject({ status: 'failed', last_error: 'process_wallet_topup failed: connection reset' });
+  });
+
+  async function paidSession() {
+    const intent = fakes.stripe.succeed((await fakes.stripe.paymentIntents.create({ amount: 80000, currency: 'inr', metadata: { sessionId: 'session-1' } })).id);
+    capturedSession(fakes.supabase, intent.id);
+    return { intent, charge: fakes.stripe.chargesById.get(intent.latest_charge) };
+  }
+
+  it('posts a dashboard refund once, reversing the shares without crediting the wallet', async () => {
+    const { intent, charge } = await paidSession();
+    const refund = await fakes.stripe.refunds.create({ payment_intent: intent.id, amount: 20000 });
+
+    await deliver(stripeEvent('charge.refunded', charge, 'evt_refund_1'));
+    // Replayed, and announced again by charge.refund.updated
+    await deliver(stripeEvent('charge.refunded', charge, 'evt_refund_1'));
+    await deliver(stripeEvent('charge.refund.updated', refund, 'evt_refund_2'));
+
+    expect(statusOf(fakes, 'evt_refund_2')).toBe('processed');
+    expect(fakes.supabase.calls('record_gateway_refund')).toEqual([{
+      p_refund_id: refund.id, p_session_id: 'session-1', p_mentor_id: 'mentor-1', p_mentor_share: 16000, p_platform_share: 4000,
+      p_currency: 'INR', p_payment_intent_id: intent.id,
+    }]);
+    expect(fakes.supabase.calls('process_session_refund')).toHaveLength(0);
+    expect(fakes.supabase.table('payment_refunds')).toEqual([expect.objectContaining({ gateway_refund_id: refund.id, amount: 20000, source: 'webhook' })]);
+  });
+
+  it('leaves refunds made by process-refund to that function', async () => {
+    const { intent, charge } = await paidSession();
+    const refund = await fakes.stripe.refunds.create({ payment_intent: intent.id, amount: 80000, metadata: { source: 'process-refund', sessionId: 'session-1' } });
+
+    await deliver(stripeEvent('charge.refunded', { ...charge, refunded: true }, 'evt_refund_3'));
+    await deliver(stripeEvent('charge.refund.updated', refund, 'evt_refund_4'));
+
+    expect(fakes.supabase.calls('record_gateway_refund')).toHaveLength(0);
+    expect(fakes.supabase.table('payment_refunds')).toHaveLength(0);
+  });
+
+  it('freezes the mentor share of a dispute and posts a lost one as a refund once', async () => {
+    const { intent, charge } = await paidSession();
+    fakes.supabase.onRpc('process_dispute_hold', () => 12000).onRpc('process_dispute_close', () => true);
+    const dispute = { id: 'dp_1', object: 'dispute', amount: 80000, currency: 'inr', charge: charge.id, payment_intent: intent.id, metadata: {}, reason: 'fraudulent' };
+
+    await deliver(stripeEvent('charge.dispute.created', { ...dispute, status: 'needs_response' }, 'evt_dispute_1'));
+    expect(fakes.supabase.calls('process_dispute_hold')).toEqual([expect.objectContaining({
+      p_dispute_id: 'dp_1', p_session_id: 'session-1', p_mentor_id: 'mentor-1', p_amount: 80000, p_mentor_share: 64000,
+    })]);
+
+    const lost = { ...dispute, status: 'lost' };
+    await deliver(stripeEvent('charge.dispute.closed', lost, 'evt_dispute_2'));
+    await deliver(stripeEvent('charge.dispute.closed', lost, 'evt_dispute_3'));
+
+    expect(fakes.supabase.calls('record_gateway_refund')).toEqual([expect.objectContaining({ p_refund_id: 'dp_1', p_mentor_share: 64000, p_platform_share: 16000 })]);
+    expect(fakes.supabase.table('payment_refunds')).toEqual([expect.objectContaining({ gateway_refund_id: 'dp_1', source: 'dispute' })]);
+    expect(fakes.supabase.calls('process_dispute_close')[0]).toEqual({ p_dispute_id: 'dp_1', p_outcome: 'lost' });
+    expect(fakes.supabase.calls('admin_log_alert').map((a) => a.p_type)).toEqual(expect.arrayContaining(['payment_dispute_opened', 'payment_dispute_lost']));
+  });
+
+  it('releases the hold when a dispute is won', async () => {
+    const { intent, charge } = await paidSession();
+    fakes.supabase.onRpc('process_dispute_close', () => true);
+
+    await deliver(stripeEvent('charge.dispute.closed', { id: 'dp_2', amount: 80000, currency: 'inr', charge: charge.id, payment_intent: intent.id, metadata: {}, status: 'won' }));
+
+    expect(fakes.supabase.calls('process_dispute_close')).toEqual([{ p_dispute_id: 'dp_2', p_outcome: 'won' }]);
+    expect(fakes.supabase.calls('record_gateway_refund')).toHaveLength(0);
+  });
+});
+
+describe('handleRazorpayWebhook', () => {
+  let fakes: Fakes;
+
+  beforeEach(() => {
+    resetClients();
+    fakes = installFakes(inboxSupabase());
+  });
+
+  function deliver(event: unknown, eventId: string, secret = 'rzp_test_webhook') {
+    const body = JSON.stringify(event);
+    const { req, res } = webhookRequest({ 'x-razorpay-signature': signRazorpayPayload(body, secret), 'x-razorpay-event-id': eventId }, body);
+    return Promise.resolve(handleRazorpayWebhook(req, res)).then(() => res);
+  }
+
+  it('credits a captured top-up once per order', async () => {
+    const order = await fakes.razorpay.orders.create({ amount: 50000, currency: 'INR', notes: { uid: 'student-1', idem: 'k2' } });
+    const payment = { id: 'pay_1', order_id: order.id, amount: 50000, currency: 'INR', notes: {} };
+
+    await deliver(razorpayEvent('payment.captured', { payment, order }), 'evt_rzp_1');
+    await deliver(razorpayEvent('payment.captured', { payment, order }), 'evt_rzp_1');
+
+    expect(statusOf(fakes, 'evt_rzp_1')).toBe('processed');
+    expect(fakes.supabase.calls('process_wallet_topup')).toEqual([
+      { user_id: 'student-1', amount_minor: 50000, transaction_data: { gatewayId: order.id, idempotencyKey: 'k2' } },
+    ]);
+  });
+
+  it('marks a failed session payment', async () => {
+    fakes.supabase.table('payment_transactions').push({ id: 'tx-1', session_id: 'session-1', transaction_id: 'order_s1', status: 'pending' });
+    fakes.supabase.table('mentoring_sessions').push({ id: 'session-1', payment_status: 'pending' });
+
+    await deliver(razorpayEvent('payment.failed', { payment: { id: 'pay_2', order_id: 'order_s1', notes: { sessionId: 'session-1' } } }), 'evt_rzp_2');
+
+    expect(fakes.supabase.table('payment_transactions')[0].status).toBe('failed');
+    expect(fakes.supabase.table('mentoring_sessions')[0].payment_status).toBe('failed');
+  });
+
+  it('credits a top-up once when order.paid follows payment.captured', async () => {
+    const order = await fakes.razorpay.orders.create({ amount: 50000, currency: 'INR', notes: { uid: 'student-1', idem: 'k3' } });
+    const payment = { id: 'pay_4', order_id: order.id, amount: 50000, currency: 'INR', notes: {} };
+
+    await deliver(razorpayEvent('payment.captured', { payment, order }), 'evt_rzp_5');
+    await deliver(razorpayEvent('order.paid', { payment, order }), 'evt_rzp_6');
+
+    expect(statusOf(fakes, 'evt_rzp_6')).toBe('processed');
+    // Both carry the order id, which process_wallet_topup credits once
+    expect(fakes.supabase.calls('process_wallet_topup').map((c) => c.transaction_data.gatewayId)).toEqual([order.id, order.id]);
+  });
+
+  it('posts a dashboard refund of a session payment once', async () => {
+    capturedSession(fakes.supabase, 'order_s1');
+    const payment = { id: 'pay_3', order_id: 'order_s1', amount: 80000, amount_refunded: 20000, notes: {} };
+    const refund = { id: 'rfnd_1', payment_id: 'pay_3', amount: 20000, currency: 'INR', notes: {} };
+
+    await deliver(razorpayEvent('refund.processed', { refund, payment }), 'evt_rzp_7');
+    await deliver(razorpayEvent('refund.processed', { refund, payment }), 'evt_rzp_8');
+
+    expect(statusOf(fakes, 'evt_rzp_8')).toBe('processed');
+    expect(fakes.supabase.calls('record_gateway_refund')).toEqual([{
+      p_refund_id: 'rfnd_1', p_session_id: 'session-1', p_mentor_id: 'mentor-1', p_mentor_share: 16000, p_platform_share: 4000,
+      p_currency: 'INR', p_payment_intent_id: 'order_s1',
+    }]);
+    expect(fakes.supabase.table('payment_refunds')).toEqual([expect.objectContaining({ gateway: 'razorpay', gateway_refund_id: 'rfnd_1', amount: 20000 })]);
+  });
+
+  it('skips refunds process-refund posts itself and alerts on failed ones', async () => {
+    capturedSession(fakes.supabase, 'order_s1');
+    const payment = { id: 'pay_3', order_id: 'order_s1', amount: 80000, amount_refunded: 20000, notes: {} };
+    const refund = { id: 'rfnd_2', payment_id: 'pay_3', amount: 20000, currency: 'INR', notes: { source: 'process-refund' } };
+
+    await deliver(razorpayEvent('refund.processed', { refund, payment }), 'evt_rzp_9');
+    await deliver(razorpayEvent('refund.failed', { refund: { ...refund, id: 'rfnd_3' }, payment }), 'evt_rzp_10');
+
+    expect(fakes.supabase.calls('record_gateway_refund')).toHaveLength(0);
+    expect(fakes.supabase.calls('admin_log_alert')).toEqual([expect.objectContaining({
+      p_type: 'refund_failed', p_details: expect.objectContaining({ refundId: 'rfnd_3', paymentId: 'pay_3' }),
+    })]);
+  });
+
+  it('rejects a signed body that is not an event', async () => {
+    for (const body of ['{not json', 'null', '{"payload":{}}']) {
+      const { req, res } = webhookRequest({ 'x-razorpay-signature': signRazorpayPayload(body, 'rzp_test_webhook') }, '{}');
+      req.rawBody = Buffer.from(body);
+      await handleRazorpayWebhook(req, res);
+      expect(res.statusCode).toBe(400);
+    }
+    expect(fakes.supabase.table('webhook_events')).toHaveLength(0);
+  });
+
+  it('rejects a bad signature', async () => {
+    const { req, res } = webhookRequest({ 'x-razorpay-signature': 'deadbeef' }, JSON.stringify(razorpayEvent('payment.captured', {})));
+    await handleRazorpayWebhook(req, res);
+
+    expect(res.statusCode).toBe(400);
+    expect(fakes.supabase.table('webhook_events')).toHaveLength(0);
+  });
+
+  it('verifies RazorpayX payout events with their own secret', async () => {
+    const body = JSON.stringify(razorpayEvent('payout.processed', { payout: { id: 'pout_1', reference_id: 'payout-1', status: 'processed' } }));
+    const wrongSecret = webhookRequest({ 'x-razorpay-signature': signRazorpayPayload(body, 'rzp_test_webhook') }, body);
+    await handleRazorpayPayoutWebhook(wrongSecret.req, wrongSecret.res);
+    expect(wrongSecret.res.statusCode).toBe(400);
+
+    const signed = webhookRequest({ 'x-razorpay-signature': signRazorpayPayload(body, 'rzpx_test_webhook'), 'x-razorpay-event-id': 'evt_rzpx_1' }, body);
+    await handleRazorpayPayoutWebhook(signed.req, signed.res);
+    expect(signed.res.statusCode).toBe(200);
+    expect(fakes.supabase.calls('settle_payout_request')).toEqual([
+      { p_request_id: 'payout-1', p_outcome: 'paid', p_gateway_ref: 'pout_1', p_reason: null },
+    ]);
+  });
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Read by src/clients.ts at load; the gateway clients themselves are fakes (test/fakes)
+    env: {
+      STRIPE_WEBHOOK_SECRET: 'whsec_test_payments',
+      STRIPE_PAYOUT_WEBHOOK_SECRET: 'whsec_test_payouts',
+      RAZORPAY_KEY_ID: 'rzp_test_key',
+      RAZORPAY_KEY_SECRET: 'rzp_test_secret',
+      RAZORPAY_WEBHOOK_SECRET: 'rzp_test_webhook',
+      RAZORPAYX_ACCOUNT_NUMBER: '7878780080316316',
+      RAZORPAYX_WEBHOOK_SECRET: 'rzpx_test_webhook',
+      AGORA_NCS_SECRET: 'agora_test_ncs',
+    },
+  },
+});